@@ -11,9 +11,13 @@ use transport::commands::{transport_close, transport_send_data, ActiveConnection
 use transport::gatt::{gatt_connect, gatt_list_devices};
 use transport::serial::{serial_connect, serial_list_devices};
 
+mod zmk_config;
+use zmk_config::{zmk_config_pick_folder, zmk_config_read_keymap, zmk_config_write_keymap};
+
 fn main() {
     tauri::Builder::default()
         .plugin(tauri_plugin_cli::init())
+        .plugin(tauri_plugin_dialog::init())
         .manage(ActiveConnection {
             conn: Mutex::new(None),
         })
@@ -24,6 +28,9 @@ fn main() {
             gatt_connect,
             serial_list_devices,
             serial_connect,
+            zmk_config_pick_folder,
+            zmk_config_read_keymap,
+            zmk_config_write_keymap,
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
@@ -0,0 +1,122 @@
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+
+use serde::Serialize;
+
+use tauri::{command, AppHandle};
+use tauri_plugin_dialog::DialogExt;
+
+#[derive(Debug, Serialize)]
+pub struct KeymapFile {
+    pub path: String,
+    pub content: Option<String>,
+}
+
+#[command]
+pub async fn zmk_config_pick_folder(app_handle: AppHandle) -> Result<Option<String>, String> {
+    let picked = app_handle
+        .dialog()
+        .file()
+        .set_title("Choose your zmk-config folder")
+        .blocking_pick_folder();
+
+    let folder = match picked {
+        Some(folder) => folder.into_path().map_err(|e| e.to_string())?,
+        None => return Ok(None),
+    };
+
+    if !folder.join("config").is_dir() {
+        return Err(format!(
+            "{} has no config folder; choose the root of your zmk-config checkout",
+            folder.display()
+        ));
+    }
+
+    Ok(Some(folder.to_string_lossy().into_owned()))
+}
+
+#[command]
+pub async fn zmk_config_read_keymap(folder: String, board: String) -> Result<KeymapFile, String> {
+    let config = Path::new(&folder).join("config");
+    if !config.is_dir() {
+        return Err(format!("{} has no config folder", folder));
+    }
+
+    let path = find_keymap(&config, &board)
+        .map_err(|e| format!("Could not read {}: {}", config.display(), e))?;
+
+    let content = if path.exists() {
+        Some(
+            fs::read_to_string(&path)
+                .map_err(|e| format!("Could not read {}: {}", path.display(), e))?,
+        )
+    } else {
+        None
+    };
+
+    Ok(KeymapFile {
+        path: path.to_string_lossy().into_owned(),
+        content,
+    })
+}
+
+/// Writes the keymap, first copying any previous file to
+/// `<board>.keymap.<seconds since epoch>.bak`, and returns the backup's path
+#[command]
+pub async fn zmk_config_write_keymap(
+    path: String,
+    content: String,
+) -> Result<Option<String>, String> {
+    let path = PathBuf::from(path);
+
+    let in_config = path
+        .parent()
+        .and_then(|parent| parent.file_name())
+        .map_or(false, |name| name == "config");
+    if !in_config || path.extension().map_or(true, |ext| ext != "keymap") {
+        return Err(format!(
+            "{} is not a .keymap in a config folder",
+            path.display()
+        ));
+    }
+
+    let backup = if path.exists() {
+        let seconds = SystemTime::now()
+            .duration_since(UNIX_EPOCH)
+            .map(|d| d.as_secs())
+            .unwrap_or(0);
+        let backup = path.with_extension(format!("keymap.{}.bak", seconds));
+
+        fs::copy(&path, &backup)
+            .map_err(|e| format!("Could not back up {}: {}", path.display(), e))?;
+        Some(backup.to_string_lossy().into_owned())
+    } else {
+        None
+    };
+
+    fs::write(&path, content).map_err(|e| format!("Could not write {}: {}", path.display(), e))?;
+
+    Ok(backup)
+}
+
+/// `config/<board>.keymap`, or the only keymap in the config folder when the
+/// board is named differently there
+fn find_keymap(config: &Path, board: &str) -> std::io::Result<PathBuf> {
+    let path = config.join(format!("{}.keymap", board));
+    if path.exists() {
+        return Ok(path);
+    }
+
+    let mut keymaps: Vec<PathBuf> = fs::read_dir(config)?
+        .filter_map(|entry| entry.ok())
+        .map(|entry| entry.path())
+        .filter(|p| p.is_file() && p.extension().map_or(false, |ext| ext == "keymap"))
+        .collect();
+
+    if keymaps.len() == 1 {
+        Ok(keymaps.remove(0))
+    } else {
+        Ok(path)
+    }
+}
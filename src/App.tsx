@@ -2,11 +2,36 @@ import { AppHeader } from "./AppHeader";
 
 import { create_rpc_connection } from "@zmkfirmware/zmk-studio-ts-client";
 import { call_rpc } from "./rpc/logging";
-import { ExportService } from "./export/ExportService";
+import { ExistingKeymap, ExportService } from "./export/ExportService";
+import { BehaviorRegistry } from "./export/BehaviorRegistry";
 import { ImportService } from "./import/ImportService";
-import { Layer } from "./export/types";
-import { Keymap } from "@zmkfirmware/zmk-studio-ts-client/keymap";
+import { ImportApplier } from "./import/ImportApplier";
+import { KeymapValidator } from "./export/KeymapValidator";
+import { ValidationReportModal } from "./export/ValidationReportModal";
+import { CheatSheet } from "./export/CheatSheet";
+import { ZmkConfigWriteModal } from "./export/ZmkConfigWriteModal";
+import { KeymapChange, KeymapDiff } from "./export/KeymapDiff";
+import { KeymapDiffModal } from "./export/KeymapDiffModal";
+import {
+  BackupSource,
+  ExportConfig,
+  ValidationResult,
+} from "./export/types";
+import { resolveExportConfig } from "./export/exportConfig";
+import type {
+  ExtraSupport,
+  ImportDiagnostic,
+  ImportedLayer,
+  LayerPreview,
+  SourceLocation,
+} from "./import/types";
+import { ImportPreviewModal } from "./import/ImportPreviewModal";
+import {
+  Keymap,
+  PhysicalLayout,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
 
+import type { GetBehaviorDetailsResponse } from "@zmkfirmware/zmk-studio-ts-client/behaviors";
 import type { Notification } from "@zmkfirmware/zmk-studio-ts-client/studio";
 import { ConnectionState, ConnectionContext } from "./rpc/ConnectionContext";
 import React, { Dispatch, useCallback, useEffect, useState } from "react";
@@ -23,6 +48,12 @@ import {
   connect as tauri_serial_connect,
   list_devices as serial_list_devices,
 } from "./tauri/serial";
+import {
+  board_name as zmk_config_board_name,
+  pick_folder as zmk_config_pick_folder,
+  read_keymap as zmk_config_read_keymap,
+  write_keymap as zmk_config_write_keymap,
+} from "./tauri/zmk_config";
 import Keyboard from "./keyboard/Keyboard";
 import { UndoRedoContext, useUndoRedo } from "./undoRedo";
 import { usePub, useSub } from "./usePubSub";
@@ -30,6 +61,7 @@ import { LockState } from "@zmkfirmware/zmk-studio-ts-client/core";
 import { LockStateContext } from "./rpc/LockStateContext";
 import { UnlockModal } from "./UnlockModal";
 import { valueAfter } from "./misc/async";
+import { useLocalStorageState } from "./misc/useLocalStorageState";
 import { AppFooter } from "./AppFooter";
 import { AboutModal } from "./AboutModal";
 import { LicenseNoticeModal } from "./misc/LicenseNoticeModal";
@@ -70,6 +102,41 @@ const TRANSPORTS: TransportFactory[] = [
     : []),
 ].filter((t) => t !== undefined);
 
+interface ValidationReport {
+  title: string;
+  result: ValidationResult;
+  continueLabel?: string;
+  onContinue?: () => void;
+}
+
+// Exported .keymap waiting to be written into the zmk-config checkout
+interface ZmkConfigWrite {
+  content: string;
+  path?: string;
+  previous?: string | null;
+  error?: string;
+}
+
+interface ImportPreview {
+  layers: ImportedLayer[];
+  keyLocations?: SourceLocation[];
+  previewLayers: (layers: ImportedLayer[]) => LayerPreview[];
+  removedLayers: string[];
+  validation: ValidationResult;
+  diagnostics?: ImportDiagnostic[];
+  extras: ExtraSupport[];
+  /** Physical layout a backup switches the keyboard to */
+  physicalLayoutIndex?: number;
+}
+
+// Differences between a file and the keyboard's keymap
+interface KeymapComparison {
+  title: string;
+  changes: KeymapChange[];
+  // Why the file could not be compared
+  error?: string;
+}
+
 async function listen_for_notifications(
   notification_stream: ReadableStream<Notification>,
   signal: AbortSignal
@@ -170,11 +237,28 @@ function App() {
     string | undefined
   >(undefined);
   const [doIt, undo, redo, canUndo, canRedo, reset] = useUndoRedo();
+  const pub = usePub();
   const [showAbout, setShowAbout] = useState(false);
   const [showLicenseNotice, setShowLicenseNotice] = useState(false);
   const [connectionAbort, setConnectionAbort] = useState(new AbortController());
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [showCheatSheet, setShowCheatSheet] = useState(false);
+  const [zmkConfigFolder, setZmkConfigFolder] = useLocalStorageState<string>(
+    "zmkConfigFolder",
+    ""
+  );
+  const [zmkConfigWrite, setZmkConfigWrite] = useState<ZmkConfigWrite | null>(
+    null
+  );
+  const [validationReport, setValidationReport] =
+    useState<ValidationReport | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  const [keymapComparison, setKeymapComparison] =
+    useState<KeymapComparison | null>(null);
+  const [unsavedChanges, setUnsavedChanges] = useState<KeymapChange[]>([]);
 
   const [lockState, setLockState] = useState<LockState>(
     LockState.ZMK_STUDIO_CORE_LOCK_STATE_LOCKED
@@ -186,6 +270,24 @@ function App() {
     keymapRef.current = km;
   }, []);
 
+  // Store device behavior details from Keyboard component
+  const behaviorsRef = React.useRef<Record<number, GetBehaviorDetailsResponse>>({});
+  const setBehaviorsForExport = React.useCallback(
+    (behaviors: Record<number, GetBehaviorDetailsResponse>) => {
+      behaviorsRef.current = behaviors;
+    },
+    []
+  );
+
+  // Store active physical layout from Keyboard component
+  const physicalLayoutRef = React.useRef<PhysicalLayout | undefined>(undefined);
+  const setPhysicalLayoutForExport = React.useCallback(
+    (layout: PhysicalLayout | undefined) => {
+      physicalLayoutRef.current = layout;
+    },
+    []
+  );
+
   useSub("rpc_notification.core.lockStateChanged", (ls) => {
     setLockState(ls);
   });
@@ -214,20 +316,25 @@ function App() {
     updateLockState();
   }, [conn, setLockState]);
 
+  // Resolves to whether the changes were saved
   const save = useCallback(() => {
     async function doSave() {
       if (!conn.conn) {
-        return;
+        return false;
       }
 
       let resp = await call_rpc(conn.conn, { keymap: { saveChanges: true } });
       if (!resp.keymap?.saveChanges || resp.keymap?.saveChanges.err) {
         console.error("Failed to save changes", resp.keymap?.saveChanges);
+        return false;
       }
+
+      pub("keymap_saved", undefined);
+      return true;
     }
 
-    doSave();
-  }, [conn]);
+    return doSave();
+  }, [conn, pub]);
 
   const discard = useCallback(() => {
     async function doDiscard() {
@@ -283,7 +390,44 @@ function App() {
     doDisconnect();
   }, [conn]);
 
-  const exportKeymap = useCallback(() => {
+  // Find the board's keymap in the zmk-config checkout, asking for the
+  // checkout the first time or when the user wants another one
+  const openZmkConfigWrite = useCallback(
+    async (content: string, chooseFolder = false) => {
+      if (!connectedDeviceName) {
+        return;
+      }
+
+      let folder = zmkConfigFolder;
+      try {
+        if (!folder || chooseFolder) {
+          const picked = await zmk_config_pick_folder();
+          if (!picked) {
+            return;
+          }
+          folder = picked;
+          setZmkConfigFolder(picked);
+        }
+
+        const file = await zmk_config_read_keymap(
+          folder,
+          zmk_config_board_name(connectedDeviceName)
+        );
+        setZmkConfigWrite({ content, path: file.path, previous: file.content });
+      } catch (error) {
+        setZmkConfigWrite({
+          content,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    [connectedDeviceName, zmkConfigFolder, setZmkConfigFolder]
+  );
+
+  const exportKeymap = useCallback((
+    config?: ExportConfig,
+    existingFiles?: { file: File; includes: File[] }
+  ) => {
     async function doExport() {
       const keymap = keymapRef.current;
       console.log("[Export] Button clicked", { connectedDeviceName, hasKeymap: !!keymap });
@@ -301,21 +445,83 @@ function App() {
       setIsExporting(true);
       try {
         // Transform keymap data to Layer[] format for ExportService
-        const layers: Layer[] = keymap.layers.map((layer, index) => ({
-          id: index,
-          label: layer.name || `Layer ${index}`,
-          bindings: layer.bindings.map((binding, position) => ({
-            behaviorId: binding.behaviorId || 0,
-            param1: binding.param1 || 0,
-            param2: binding.param2,
-            position,
-          })),
-        }));
+        const layers = ExportService.toLayers(keymap);
+
+        // Resolve behavior IDs through the behaviors the device reported
+        const registry = Object.keys(behaviorsRef.current).length > 0
+          ? BehaviorRegistry.fromDeviceBehaviors(behaviorsRef.current)
+          : undefined;
+
+        // Backups also hold the active physical layout and the device info
+        let backup: BackupSource | undefined;
+        if (resolveExportConfig(config).format === "backup" && conn.conn) {
+          const layoutsResp = await call_rpc(conn.conn, {
+            keymap: { getPhysicalLayouts: true },
+          });
+          const infoResp = await call_rpc(conn.conn, {
+            core: { getDeviceInfo: true },
+          });
+          const physicalLayouts = layoutsResp.keymap?.getPhysicalLayouts;
+          const serialNumber = infoResp.core?.getDeviceInfo?.serialNumber;
+          backup = {
+            keymap,
+            physicalLayoutIndex: physicalLayouts?.activeLayoutIndex ?? 0,
+            physicalLayoutName:
+              physicalLayouts?.layouts[physicalLayouts.activeLayoutIndex]?.name,
+            behaviors: behaviorsRef.current,
+            device: {
+              name: connectedDeviceName,
+              serialNumber: serialNumber
+                ? Array.from(serialNumber, (b) =>
+                    b.toString(16).padStart(2, "0")
+                  ).join("")
+                : undefined,
+            },
+          };
+        }
+
+        // Merging reads the existing keymap and the files it includes
+        let existing: ExistingKeymap | undefined;
+        if (existingFiles) {
+          const files: Record<string, string> = {};
+          for (const include of existingFiles.includes) {
+            files[include.name] = await include.text();
+          }
+          existing = {
+            content: await existingFiles.file.text(),
+            fileName: existingFiles.file.name,
+            files,
+          };
+        }
+
+        // The desktop app writes .keymap files into the zmk-config checkout
+        // instead of downloading them
+        const toZmkConfig =
+          !!window.__TAURI_INTERNALS__ &&
+          resolveExportConfig(config).format === "keymap";
 
         // Export to file
-        const result = await ExportService.exportKeymap(connectedDeviceName, layers);
+        const result = await ExportService.exportKeymap(connectedDeviceName, layers, {
+          registry,
+          layout: physicalLayoutRef.current,
+          config,
+          constraints: KeymapValidator.constraintsForDevice(keymap),
+          backup,
+          existing,
+          download: !toZmkConfig,
+        });
 
-        if (result.success) {
+        const validation = result.validation;
+        if (validation && (validation.errors.length > 0 || validation.warnings.length > 0)) {
+          setValidationReport({
+            title: result.success ? "Keymap exported with warnings" : "Cannot export keymap",
+            result: validation,
+          });
+        }
+
+        if (result.success && toZmkConfig && result.content) {
+          await openZmkConfigWrite(result.content);
+        } else if (result.success) {
           console.log(`Export successful: ${result.filename}`);
           // TODO: Show success toast notification
         } else {
@@ -331,21 +537,86 @@ function App() {
     }
 
     doExport();
-  }, [connectedDeviceName]);
+  }, [conn, connectedDeviceName, openZmkConfigWrite]);
+
+  const applyImport = useCallback(
+    async (
+      layers: ImportedLayer[],
+      layerCount: number,
+      physicalLayoutIndex?: number
+    ) => {
+      if (!conn.conn) {
+        console.warn("Cannot import: no device connected");
+        return;
+      }
+      const connection = conn.conn;
+      const registry = Object.keys(behaviorsRef.current).length > 0
+        ? BehaviorRegistry.fromDeviceBehaviors(behaviorsRef.current)
+        : undefined;
+
+      setIsImporting(true);
+      try {
+        // One undo step restores every binding and layer as it was before
+        await doIt(async () => {
+          const result = await ImportApplier.apply(connection, layers, {
+            layerCount,
+            registry,
+            physicalLayoutIndex,
+            onPhysicalLayoutChange: (index) =>
+              pub("physical_layout_replaced", index),
+            pub,
+          });
+          if (result.keymap) {
+            pub("keymap_replaced", result.keymap);
+          }
+          if (!result.success || !result.undo) {
+            throw new Error(result.error?.message);
+          }
+
+          const undo = result.undo;
+          return async () => {
+            const keymap = await undo();
+            if (keymap) {
+              pub("keymap_replaced", keymap);
+            } else {
+              console.error("Failed to undo import");
+            }
+          };
+        });
 
-  const importKeymap = useCallback(async (file: File) => {
-    if (!conn.conn || !connectedDeviceName) {
-      console.warn("Cannot import: no device connected");
+        console.log(`Import successful: ${layers.length} layers imported`);
+        // TODO: Show success toast notification
+      } catch (error) {
+        console.error("Import error:", error);
+        // TODO: Show error toast notification
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [conn, doIt, pub]
+  );
+
+  const importKeymap = useCallback(async (file: File, includes: File[] = []) => {
+    const keymap = keymapRef.current;
+    if (!conn.conn || !connectedDeviceName || !keymap) {
+      console.warn("Cannot import: no device connected or keymap not loaded");
       return;
     }
 
     setIsImporting(true);
     try {
-      // Read file content
+      // Read file content, and any files it may #include
       const content = await file.text();
+      const files: Record<string, string> = {};
+      for (const include of includes) {
+        files[include.name] = await include.text();
+      }
 
       // Import and parse the keymap
-      const result = await ImportService.importFromString(content);
+      const result = await ImportService.importFromString(content, {
+        fileName: file.name,
+        files,
+      });
 
       if (!result.success || !result.layers) {
         console.error(`Import failed: ${result.error?.message}`);
@@ -353,27 +624,49 @@ function App() {
         return;
       }
 
-      // Apply imported layers to the keyboard
-      for (const layer of result.layers) {
-        for (const binding of layer.bindings) {
-          await call_rpc(conn.conn, {
-            keymap: {
-              setLayerBinding: {
-                layerId: layer.id,
-                keyPosition: binding.position,
-                binding: {
-                  behaviorId: binding.behaviorId,
-                  param1: binding.param1 || 0,
-                  param2: binding.param2 ?? 0,
-                },
-              },
-            },
-          });
-        }
+      // Imported bindings use the built-in behavior table (with the file's
+      // other behaviors), or a backup's behavior list, so parameters are
+      // checked against it rather than the device's behaviors
+      const sourceRegistry = ImportService.sourceRegistry(result);
+      const validation = ImportService.validateKeymap(
+        result,
+        new KeymapValidator({
+          constraints: KeymapValidator.constraintsForDevice(keymap),
+          registry: sourceRegistry,
+        }),
+        connectedDeviceName
+      );
+      if (result.backup && result.backup.device.name !== connectedDeviceName) {
+        validation.warnings.push({
+          field: "device",
+          value: result.backup.device.name,
+          message: `This backup was made from "${result.backup.device.name}", not "${connectedDeviceName}"`,
+          severity: "warning",
+        });
       }
 
-      console.log(`Import successful: ${result.layers.length} layers imported`);
-      // TODO: Show success toast notification
+      // Combos, macros and behaviors are not applied; show which of them the
+      // firmware already has
+      const registry = Object.keys(behaviorsRef.current).length > 0
+        ? BehaviorRegistry.fromDeviceBehaviors(behaviorsRef.current)
+        : undefined;
+      const extras = ImportService.describeExtras(result, registry);
+
+      // Preview against the keyboard's keymap, which uses the device's behavior IDs
+      const { layers, diagnostics } = registry
+        ? ImportService.toDeviceBehaviorIds(result.layers, registry, sourceRegistry)
+        : { layers: result.layers, diagnostics: [] };
+      setImportPreview({
+        layers,
+        keyLocations: result.keyLocations,
+        previewLayers: (mapped) =>
+          ImportService.previewLayers(mapped, keymap, registry),
+        removedLayers: keymap.layers.slice(layers.length).map((layer) => layer.name),
+        validation,
+        diagnostics: [...(result.diagnostics ?? []), ...diagnostics],
+        extras,
+        physicalLayoutIndex: result.backup?.physicalLayout.index,
+      });
     } catch (error) {
       console.error("Import error:", error);
       // TODO: Show error toast notification
@@ -382,6 +675,69 @@ function App() {
     }
   }, [conn, connectedDeviceName]);
 
+  const compareKeymap = useCallback(async (file: File, includes: File[] = []) => {
+    const keymap = keymapRef.current;
+    if (!keymap) {
+      console.warn("Cannot compare: keymap not loaded");
+      return;
+    }
+
+    const title = `Changes from ${file.name} to the keyboard`;
+    try {
+      const content = await file.text();
+      const files: Record<string, string> = {};
+      for (const include of includes) {
+        files[include.name] = await include.text();
+      }
+
+      const result = await ImportService.importFromString(content, {
+        fileName: file.name,
+        files,
+      });
+      if (!result.success || !result.layers) {
+        console.error(`Compare failed: ${result.error?.message}`);
+        setKeymapComparison({
+          title,
+          changes: [],
+          error: `${file.name} could not be read: ${result.error?.message}`,
+        });
+        return;
+      }
+
+      // Files use the built-in behavior table, or a backup's behavior list
+      const fileRegistry = ImportService.sourceRegistry(result);
+      const registry = Object.keys(behaviorsRef.current).length > 0
+        ? BehaviorRegistry.fromDeviceBehaviors(behaviorsRef.current)
+        : undefined;
+
+      setKeymapComparison({
+        title,
+        changes: KeymapDiff.compare(
+          {
+            layers: result.layers.map((layer) => ({
+              ...layer,
+              bindings: layer.bindings.map((binding) => ({
+                ...binding,
+                param1: binding.param1 ?? 0,
+              })),
+            })),
+            registry: fileRegistry,
+          },
+          { layers: ExportService.toLayers(keymap), registry }
+        ),
+      });
+    } catch (error) {
+      console.error("Compare error:", error);
+      setKeymapComparison({
+        title,
+        changes: [],
+        error: `${file.name} could not be compared: ${
+          error instanceof Error ? error.message : error
+        }`,
+      });
+    }
+  }, []);
+
   const onConnect = useCallback(
     (t: RpcTransport) => {
       const ac = new AbortController();
@@ -402,6 +758,77 @@ function App() {
             onTransportCreated={onConnect}
           />
           <AboutModal open={showAbout} onClose={() => setShowAbout(false)} />
+          {validationReport && (
+            <ValidationReportModal
+              open={true}
+              title={validationReport.title}
+              result={validationReport.result}
+              continueLabel={validationReport.continueLabel}
+              onContinue={validationReport.onContinue}
+              onClose={() => setValidationReport(null)}
+            />
+          )}
+          {importPreview && (
+            <ImportPreviewModal
+              open={true}
+              layers={importPreview.layers}
+              keyLocations={importPreview.keyLocations}
+              previewLayers={importPreview.previewLayers}
+              removedLayers={importPreview.removedLayers}
+              validation={importPreview.validation}
+              diagnostics={importPreview.diagnostics}
+              extras={importPreview.extras}
+              layout={physicalLayoutRef.current}
+              currentKeymap={keymapRef.current}
+              behaviors={behaviorsRef.current}
+              onApply={(layers) =>
+                applyImport(
+                  layers,
+                  importPreview.layers.length,
+                  importPreview.physicalLayoutIndex
+                )
+              }
+              onClose={() => setImportPreview(null)}
+            />
+          )}
+          {showCheatSheet &&
+            connectedDeviceName &&
+            keymapRef.current &&
+            physicalLayoutRef.current && (
+              <CheatSheet
+                deviceName={connectedDeviceName}
+                keymap={keymapRef.current}
+                layout={physicalLayoutRef.current}
+                behaviors={behaviorsRef.current}
+                onClose={() => setShowCheatSheet(false)}
+              />
+            )}
+          {keymapComparison && (
+            <KeymapDiffModal
+              open={true}
+              title={keymapComparison.title}
+              changes={keymapComparison.changes}
+              error={keymapComparison.error}
+              onClose={() => setKeymapComparison(null)}
+            />
+          )}
+          {zmkConfigWrite && (
+            <ZmkConfigWriteModal
+              key={zmkConfigWrite.path ?? zmkConfigWrite.error}
+              open={true}
+              path={zmkConfigWrite.path}
+              previous={zmkConfigWrite.previous}
+              content={zmkConfigWrite.content}
+              error={zmkConfigWrite.error}
+              onWrite={(path) =>
+                zmk_config_write_keymap(path, zmkConfigWrite.content)
+              }
+              onChooseFolder={() =>
+                openZmkConfigWrite(zmkConfigWrite.content, true)
+              }
+              onClose={() => setZmkConfigWrite(null)}
+            />
+          )}
           <LicenseNoticeModal
             open={showLicenseNotice}
             onClose={() => setShowLicenseNotice(false)}
@@ -421,8 +848,16 @@ function App() {
               isExporting={isExporting}
               onImport={importKeymap}
               isImporting={isImporting}
+              onPrintCheatSheet={() => setShowCheatSheet(true)}
+              onCompare={compareKeymap}
+              unsavedChangeCount={unsavedChanges.length}
+            />
+            <Keyboard
+              onKeymapChange={setKeymapForExport}
+              onBehaviorsChange={setBehaviorsForExport}
+              onPhysicalLayoutChange={setPhysicalLayoutForExport}
+              onUnsavedChangesChange={setUnsavedChanges}
             />
-            <Keyboard onKeymapChange={setKeymapForExport} />
             <AppFooter
               onShowAbout={() => setShowAbout(true)}
               onShowLicenseNotice={() => setShowLicenseNotice(true)}
@@ -7,27 +7,48 @@ import {
 } from "react-aria-components";
 import { useConnectedDeviceData } from "./rpc/useConnectedDeviceData";
 import { useSub } from "./usePubSub";
-import { useContext, useEffect, useState } from "react";
+import { useContext, useEffect, useRef, useState } from "react";
 import { useModalRef } from "./misc/useModalRef";
 import { LockStateContext } from "./rpc/LockStateContext";
 import { LockState } from "@zmkfirmware/zmk-studio-ts-client/core";
 import { ConnectionContext } from "./rpc/ConnectionContext";
-import { ChevronDown, Undo2, Redo2, Save, Trash2 } from "lucide-react";
+import {
+  ChevronDown,
+  Undo2,
+  Redo2,
+  Save,
+  Trash2,
+  Printer,
+  GitCompareArrows,
+} from "lucide-react";
 import { Tooltip } from "./misc/Tooltip";
 import { GenericModal } from "./GenericModal";
 import { ExportButton } from "./export/ExportButton";
+import type { ExportConfig } from "./export/types";
 import { ImportButton } from "./import/ImportButton";
+import {
+  intercept_close as tauri_intercept_close,
+  close_window as tauri_close_window,
+} from "./tauri/window";
 
 export interface AppHeaderProps {
   connectedDeviceLabel?: string;
-  onSave?: () => void | Promise<void>;
+  // Resolves to whether the changes were saved
+  onSave?: () => boolean | Promise<boolean>;
   onDiscard?: () => void | Promise<void>;
   onUndo?: () => Promise<void>;
   onRedo?: () => Promise<void>;
   onResetSettings?: () => void | Promise<void>;
   onDisconnect?: () => void | Promise<void>;
-  onExport?: () => void | Promise<void>;
-  onImport?: (file: File) => void | Promise<void>;
+  onExport?: (
+    config: ExportConfig,
+    existing?: { file: File; includes: File[] }
+  ) => void | Promise<void>;
+  onImport?: (file: File, includes: File[]) => void | Promise<void>;
+  onPrintCheatSheet?: () => void;
+  onCompare?: (file: File, includes: File[]) => void | Promise<void>;
+  // Keys and layers changed since the keymap was last saved
+  unsavedChangeCount?: number;
   canUndo?: boolean;
   canRedo?: boolean;
   isExporting?: boolean;
@@ -46,10 +67,14 @@ export const AppHeader = ({
   onResetSettings,
   onExport,
   onImport,
+  onPrintCheatSheet,
+  onCompare,
+  unsavedChangeCount = 0,
   isExporting = false,
   isImporting = false,
 }: AppHeaderProps) => {
   const [showSettingsReset, setShowSettingsReset] = useState(false);
+  const compareInputRef = useRef<HTMLInputElement>(null);
 
   const lockState = useContext(LockStateContext);
   const connectionState = useContext(ConnectionContext);
@@ -74,6 +99,67 @@ export const AppHeader = ({
     setUnsaved(unsaved)
   );
 
+  // Leaving with unsaved changes asks first; they stay on the keyboard only
+  // until it restarts
+  const [pendingLeave, setPendingLeave] = useState<
+    "disconnect" | "close" | null
+  >(null);
+  const pendingLeaveRef = useModalRef(pendingLeave !== null);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  useEffect(() => {
+    if (!unsaved) {
+      return;
+    }
+
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+
+    if (!window.__TAURI_INTERNALS__) {
+      return () => window.removeEventListener("beforeunload", onBeforeUnload);
+    }
+
+    const unlisten = tauri_intercept_close(() => setPendingLeave("close"));
+    return () => {
+      window.removeEventListener("beforeunload", onBeforeUnload);
+      unlisten.then((f) => f());
+    };
+  }, [unsaved]);
+
+  const cancelLeave = () => {
+    setPendingLeave(null);
+    setSaveFailed(false);
+  };
+
+  const leave = async (save: boolean) => {
+    const action = pendingLeave;
+    if (save) {
+      let saved = false;
+      try {
+        saved = (await onSave?.()) ?? false;
+      } catch (e) {
+        console.error("Failed to save changes", e);
+      }
+
+      // Stay, rather than lose the changes
+      if (!saved) {
+        setSaveFailed(true);
+        return;
+      }
+    }
+
+    cancelLeave();
+
+    if (action === "disconnect") {
+      await onDisconnect?.();
+    } else if (action === "close") {
+      await tauri_close_window();
+    }
+  };
+
   return (
     <header className="top-0 left-0 right-0 grid grid-cols-[1fr_auto_1fr] items-center justify-between h-10 max-w-full">
       <div className="flex px-3 items-center gap-1">
@@ -107,6 +193,48 @@ export const AppHeader = ({
           </div>
         </div>
       </GenericModal>
+      <GenericModal
+        ref={pendingLeaveRef}
+        onClose={cancelLeave}
+        className="max-w-[50vw]"
+      >
+        <h2 className="my-2 text-lg">Unsaved Changes</h2>
+        <div>
+          <p>
+            The keymap has unsaved changes
+            {unsavedChangeCount > 0 &&
+              ` (${unsavedChangeCount} ${unsavedChangeCount === 1 ? "change" : "changes"})`}
+            , which are lost when the keyboard restarts.
+          </p>
+          {saveFailed && (
+            <p className="text-red-500">
+              The changes could not be saved. Try again, or leave without
+              saving.
+            </p>
+          )}
+          <div className="flex justify-end my-2 gap-3">
+            <Button
+              className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+              onPress={cancelLeave}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+              onPress={() => leave(false)}
+            >
+              {pendingLeave === "close" ? "Close" : "Disconnect"} Without
+              Saving
+            </Button>
+            <Button
+              className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+              onPress={() => leave(true)}
+            >
+              Save and {pendingLeave === "close" ? "Close" : "Disconnect"}
+            </Button>
+          </div>
+        </div>
+      </GenericModal>
       <MenuTrigger>
         <Button
           className="text-center rac-disabled:opacity-0 hover:bg-base-300 transition-all duration-100 p-1 pl-2 rounded-lg"
@@ -119,7 +247,9 @@ export const AppHeader = ({
           <Menu className="shadow-md rounded bg-base-100 text-base-content cursor-pointer overflow-hidden">
             <MenuItem
               className="px-2 py-1 hover:bg-base-200"
-              onAction={onDisconnect}
+              onAction={() =>
+                unsaved ? setPendingLeave("disconnect") : onDisconnect?.()
+              }
             >
               Disconnect
             </MenuItem>
@@ -156,13 +286,24 @@ export const AppHeader = ({
             </Button>
           </Tooltip>
         )}
-        <Tooltip label="Save">
+        <Tooltip
+          label={
+            unsaved && unsavedChangeCount > 0
+              ? `Save ${unsavedChangeCount} ${unsavedChangeCount === 1 ? "change" : "changes"}`
+              : "Save"
+          }
+        >
           <Button
             className="flex items-center justify-center p-1.5 rounded enabled:hover:bg-base-300 disabled:opacity-50"
             isDisabled={!unsaved}
             onPress={onSave}
           >
             <Save className="inline-block w-4 mx-1" aria-label="Save" />
+            {unsaved && unsavedChangeCount > 0 && (
+              <span className="text-xs rounded-full bg-accent text-accent-content px-1.5">
+                {unsavedChangeCount}
+              </span>
+            )}
           </Button>
         </Tooltip>
         <Tooltip label="Discard">
@@ -188,6 +329,54 @@ export const AppHeader = ({
             disabled={!connectedDeviceLabel}
           />
         )}
+        {onPrintCheatSheet && (
+          <Tooltip label="Print cheat sheet">
+            <Button
+              className="flex items-center justify-center p-1.5 rounded enabled:hover:bg-base-300 disabled:opacity-50"
+              isDisabled={!connectedDeviceLabel}
+              onPress={onPrintCheatSheet}
+            >
+              <Printer
+                className="inline-block w-4 mx-1"
+                aria-label="Print cheat sheet"
+              />
+            </Button>
+          </Tooltip>
+        )}
+        {onCompare && (
+          <>
+            <input
+              ref={compareInputRef}
+              type="file"
+              accept=".keymap,.json,.vil,.dtsi,.h"
+              multiple
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                const file =
+                  files.find((f) => /\.(keymap|json|vil)$/i.test(f.name)) ??
+                  files[0];
+                if (file) {
+                  onCompare(file, files.filter((f) => f !== file));
+                  // Reset input so same file can be selected again
+                  e.target.value = "";
+                }
+              }}
+            />
+            <Tooltip label="Compare with a keymap file or backup">
+              <Button
+                className="flex items-center justify-center p-1.5 rounded enabled:hover:bg-base-300 disabled:opacity-50"
+                isDisabled={!connectedDeviceLabel}
+                onPress={() => compareInputRef.current?.click()}
+              >
+                <GitCompareArrows
+                  className="inline-block w-4 mx-1"
+                  aria-label="Compare with a keymap file or backup"
+                />
+              </Button>
+            </Tooltip>
+          </>
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for BackupExporter
+ *
+ * Tests generating ZMK Studio backup files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BackupExporter } from './BackupExporter';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from './types';
+import type { BackupSource } from './types';
+
+const behavior = (id: number, displayName: string) => ({ id, displayName, metadata: [] });
+
+const source: BackupSource = {
+  keymap: {
+    layers: [
+      { id: 2, name: 'Base', bindings: [{ behaviorId: 12, param1: 0x70004, param2: 0 }] },
+      { id: 7, name: 'Nav', bindings: [{ behaviorId: 15, param1: 2, param2: 0 }] },
+    ],
+    availableLayers: 6,
+    maxLayerNameLength: 20,
+  },
+  physicalLayoutIndex: 1,
+  physicalLayoutName: '5 Column',
+  behaviors: { 15: behavior(15, 'Momentary Layer'), 12: behavior(12, 'Key Press') },
+  device: { name: 'Corne', serialNumber: '00a1ff' },
+};
+
+describe('BackupExporter', () => {
+  it('should mark the file with the format and its version', () => {
+    const backup = BackupExporter.create(source, new Date('2025-11-09T10:00:00Z'));
+
+    expect(backup.format).toBe(BACKUP_FORMAT);
+    expect(backup.version).toBe(BACKUP_FORMAT_VERSION);
+    expect(backup.createdAt).toBe('2025-11-09T10:00:00.000Z');
+  });
+
+  it('should keep the keymap as the device reports it', () => {
+    const backup = BackupExporter.create(source);
+
+    expect(backup.keymap).toEqual(source.keymap);
+    expect(backup.device).toEqual({ name: 'Corne', serialNumber: '00a1ff' });
+    expect(backup.physicalLayout).toEqual({ index: 1, name: '5 Column' });
+  });
+
+  it('should list the behaviors by ID', () => {
+    const backup = BackupExporter.create(source);
+
+    expect(backup.behaviors.map((b) => b.id)).toEqual([12, 15]);
+  });
+
+  it('should generate JSON that reads back the same', () => {
+    const createdAt = new Date();
+
+    expect(JSON.parse(BackupExporter.generate(source, createdAt))).toEqual(
+      BackupExporter.create(source, createdAt)
+    );
+  });
+});
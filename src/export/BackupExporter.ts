@@ -0,0 +1,50 @@
+/**
+ * BackupExporter: Generates ZMK Studio backup files
+ *
+ * A backup is JSON holding the device's keymap message as reported (layer
+ * IDs, behavior IDs and raw parameters), the active physical layout, the
+ * behaviors the device reports and the device's name. Unlike a .keymap file
+ * nothing is resolved or dropped, so restoring it (see BackupImporter)
+ * puts the same bindings back.
+ */
+
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BackupSource, StudioBackup } from './types';
+
+export class BackupExporter {
+  /**
+   * Build a backup of the device state
+   *
+   * @param source - Keymap, physical layout, behaviors and device info
+   * @param createdAt - Time of the backup (now if omitted)
+   * @returns Backup in the current format version
+   */
+  static create(source: BackupSource, createdAt: Date = new Date()): StudioBackup {
+    const behaviors = Array.isArray(source.behaviors)
+      ? source.behaviors
+      : Object.values(source.behaviors);
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: createdAt.toISOString(),
+      device: source.device,
+      physicalLayout: {
+        index: source.physicalLayoutIndex,
+        name: source.physicalLayoutName,
+      },
+      behaviors: [...behaviors].sort((a, b) => a.id - b.id),
+      keymap: source.keymap,
+    };
+  }
+
+  /**
+   * Generate a backup file
+   *
+   * @param source - Keymap, physical layout, behaviors and device info
+   * @param createdAt - Time of the backup (now if omitted)
+   * @returns File content
+   */
+  static generate(source: BackupSource, createdAt?: Date): string {
+    return JSON.stringify(this.create(source, createdAt), null, 2) + '\n';
+  }
+}
@@ -3,9 +3,17 @@
  *
  * Converts numeric behavior identifiers from keyboard RPC responses
  * to ZMK DeviceTree syntax (e.g., behaviorId 1 → "kp", behaviorId 2 → "mt")
+ *
+ * When a BehaviorRegistry built from the connected device is supplied, IDs
+ * are resolved through it; the static table below is only a fallback.
  */
 
+import type {
+  BehaviorBindingParametersSet,
+  BehaviorParameterValueDescription,
+} from '@zmkfirmware/zmk-studio-ts-client/behaviors';
 import { Behavior, Binding } from './types';
+import type { BehaviorRegistry } from './BehaviorRegistry';
 
 /**
  * Known ZMK behaviors with their parameter counts
@@ -31,6 +39,9 @@ const BEHAVIORS: Map<number, Behavior> = new Map([
   [4, { id: 4, code: 'mo', displayName: 'Momentary Layer', paramCount: 1, description: 'Activate layer while held' }],
   [5, { id: 5, code: 'tog', displayName: 'Toggle Layer', paramCount: 1, description: 'Toggle layer on/off' }],
   [6, { id: 6, code: 'bt', displayName: 'Bluetooth', paramCount: 1, description: 'Bluetooth control' }],
+  [7, { id: 7, code: 'none', displayName: 'None', paramCount: 0, description: 'Do nothing' }],
+  [8, { id: 8, code: 'sk', displayName: 'Sticky Key', paramCount: 1, description: 'Key held until the next key press' }],
+  [9, { id: 9, code: 'to', displayName: 'To Layer', paramCount: 1, description: 'Activate layer, deactivating all others' }],
 ]);
 
 export class BehaviorMapper {
@@ -48,18 +59,27 @@ export class BehaviorMapper {
    *
    * @param binding - Binding object with behaviorId and parameters
    * @param getKeyName - Function to convert HID usage codes to key names
+   * @param registry - Behaviors reported by the device (static table if omitted)
    * @returns ZMK binding string (e.g., "&kp A")
    */
   static formatBinding(
     binding: Binding,
-    getKeyName: (hidUsage: number) => string | null
+    getKeyName: (hidUsage: number) => string | null,
+    registry?: BehaviorRegistry
   ): string {
-    const behavior = BEHAVIORS.get(binding.behaviorId);
+    const behavior = registry
+      ? registry.getBehavior(binding.behaviorId)
+      : BEHAVIORS.get(binding.behaviorId);
 
     if (!behavior) {
       return `/* Unknown behavior ${binding.behaviorId} */`;
     }
 
+    // Device metadata says exactly what each parameter holds
+    if (behavior.metadata && behavior.metadata.length > 0) {
+      return this.formatWithMetadata(binding, behavior, behavior.metadata, getKeyName);
+    }
+
     // Transparent has no parameters
     if (behavior.code === 'trans') {
       return '&trans';
@@ -93,6 +113,80 @@ export class BehaviorMapper {
     return `&${behavior.code}`;
   }
 
+  /**
+   * Format a binding using the parameter metadata reported by the device
+   *
+   * The parameter set is chosen by param1 (e.g., BT_SEL takes a profile index
+   * as param2 while BT_CLR takes nothing), then each parameter is rendered
+   * according to its value description.
+   *
+   * @param binding - Binding to format
+   * @param behavior - Behavior resolved from the registry
+   * @param metadata - Parameter sets for the behavior
+   * @param getKeyName - Function to convert HID codes to key names
+   * @returns ZMK binding string
+   */
+  private static formatWithMetadata(
+    binding: Binding,
+    behavior: Behavior,
+    metadata: BehaviorBindingParametersSet[],
+    getKeyName: (hidUsage: number) => string | null
+  ): string {
+    const set =
+      metadata.find((s) => s.param1?.some((v) => this.matchesValue(v, binding.param1))) ||
+      metadata[0];
+
+    const parts = [`&${behavior.code}`];
+
+    const param1Desc = set.param1?.find((v) => !v.nil);
+    if (!param1Desc) {
+      return parts[0];
+    }
+    parts.push(this.formatDescribedParam(binding.param1, param1Desc, getKeyName));
+
+    const param2Desc = set.param2?.find((v) => !v.nil);
+    if (param2Desc) {
+      parts.push(
+        binding.param2 !== null && binding.param2 !== undefined
+          ? this.formatDescribedParam(binding.param2, param2Desc, getKeyName)
+          : '/* missing param2 */'
+      );
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Check whether a value is accepted by a parameter value description
+   */
+  private static matchesValue(
+    desc: BehaviorParameterValueDescription,
+    value: number
+  ): boolean {
+    if (desc.constant !== undefined) {
+      return desc.constant === value;
+    }
+    if (desc.range) {
+      return value >= desc.range.min && value <= desc.range.max;
+    }
+    return !desc.nil;
+  }
+
+  /**
+   * Format a parameter value according to its value description
+   */
+  private static formatDescribedParam(
+    value: number,
+    desc: BehaviorParameterValueDescription,
+    getKeyName: (hidUsage: number) => string | null
+  ): string {
+    if (desc.hidUsage) {
+      return getKeyName(value) || `/* HID 0x${value.toString(16)} */`;
+    }
+
+    return value.toString();
+  }
+
   /**
    * Format a parameter value based on behavior type
    *
@@ -108,14 +202,14 @@ export class BehaviorMapper {
   ): string {
     // For key press and mod-tap behaviors, convert HID code to key name
     // NOTE: lt (layer-tap) is handled specially in formatBinding()
-    if (behavior.code === 'kp' || behavior.code === 'mt') {
+    if (behavior.code === 'kp' || behavior.code === 'mt' || behavior.code === 'sk') {
       const keyName = getKeyName(value);
       return keyName || `/* HID 0x${value.toString(16)} */`;
     }
 
-    // For layer behaviors (mo, tog), return layer number
+    // For layer behaviors (mo, tog, to), return layer number
     // NOTE: lt (layer-tap) is handled specially in formatBinding()
-    if (behavior.code === 'mo' || behavior.code === 'tog') {
+    if (behavior.code === 'mo' || behavior.code === 'tog' || behavior.code === 'to') {
       return value.toString();
     }
 
@@ -153,7 +247,7 @@ export class BehaviorMapper {
    */
   static isLayerBehavior(behaviorId: number): boolean {
     const behavior = BEHAVIORS.get(behaviorId);
-    return behavior?.code === 'lt' || behavior?.code === 'mo' || behavior?.code === 'tog';
+    return ['lt', 'mo', 'tog', 'to'].includes(behavior?.code ?? '');
   }
 
   /**
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for BehaviorRegistry
+ *
+ * Tests resolving device behavior IDs through live behavior metadata
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GetBehaviorDetailsResponse } from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import { BehaviorMapper } from './BehaviorMapper';
+import { HidMapper } from './HidMapper';
+
+const KEYBOARD = 0x07 << 16;
+
+// Behavior details as a real device reports them (IDs are firmware-assigned)
+const deviceBehaviors: GetBehaviorDetailsResponse[] = [
+  {
+    id: 12,
+    displayName: 'Transparent',
+    metadata: [{ param1: [], param2: [] }],
+  },
+  {
+    id: 17,
+    displayName: 'Key Press',
+    metadata: [{ param1: [{ name: 'Key', hidUsage: { keyboardMax: 0, consumerMax: 0 } }], param2: [] }],
+  },
+  {
+    id: 3,
+    displayName: 'Sticky Key',
+    metadata: [{ param1: [{ name: 'Key', hidUsage: { keyboardMax: 0, consumerMax: 0 } }], param2: [] }],
+  },
+  {
+    id: 9,
+    displayName: 'Layer-Tap',
+    metadata: [
+      {
+        param1: [{ name: 'Layer', layerId: {} }],
+        param2: [{ name: 'Tap', hidUsage: { keyboardMax: 0, consumerMax: 0 } }],
+      },
+    ],
+  },
+  {
+    id: 22,
+    displayName: 'Bluetooth',
+    metadata: [
+      { param1: [{ name: 'Clear', constant: 0 }], param2: [] },
+      {
+        param1: [{ name: 'Select', constant: 3 }],
+        param2: [{ name: 'Profile', range: { min: 0, max: 4 } }],
+      },
+    ],
+  },
+  {
+    id: 40,
+    displayName: 'my_macro',
+    metadata: [{ param1: [], param2: [] }],
+  },
+];
+
+describe('BehaviorRegistry', () => {
+  const registry = BehaviorRegistry.fromDeviceBehaviors(deviceBehaviors);
+  const getKeyName = HidMapper.getZmkKeyName.bind(HidMapper);
+
+  describe('fromDeviceBehaviors', () => {
+    it('should map display names to devicetree labels', () => {
+      expect(registry.getBehaviorCode(12)).toBe('trans');
+      expect(registry.getBehaviorCode(17)).toBe('kp');
+      expect(registry.getBehaviorCode(3)).toBe('sk');
+      expect(registry.getBehaviorCode(9)).toBe('lt');
+      expect(registry.getBehaviorCode(22)).toBe('bt');
+    });
+
+    it('should use the node name for behaviors without a known display name', () => {
+      expect(registry.getBehaviorCode(40)).toBe('my_macro');
+    });
+
+    it('should accept behaviors keyed by ID', () => {
+      const keyed = BehaviorRegistry.fromDeviceBehaviors({ 17: deviceBehaviors[1] });
+      expect(keyed.getBehaviorCode(17)).toBe('kp');
+    });
+
+    it('should derive parameter counts from metadata', () => {
+      expect(registry.getParamCount(12)).toBe(0);
+      expect(registry.getParamCount(17)).toBe(1);
+      expect(registry.getParamCount(9)).toBe(2);
+      expect(registry.getParamCount(22)).toBe(2);
+    });
+
+    it('should return null for IDs the device did not report', () => {
+      expect(registry.getBehavior(1)).toBeNull();
+      expect(registry.getBehaviorCode(1)).toBeNull();
+    });
+  });
+
+  describe('getBehaviorByCode', () => {
+    it('should find behaviors by devicetree label', () => {
+      expect(registry.getBehaviorByCode('sk')?.id).toBe(3);
+      expect(registry.getBehaviorByCode('mt')).toBeNull();
+    });
+  });
+
+  describe('isLayerBehavior', () => {
+    it('should detect layer parameters from metadata', () => {
+      expect(registry.isLayerBehavior(9)).toBe(true);
+      expect(registry.isLayerBehavior(17)).toBe(false);
+    });
+  });
+
+  describe('getDeviceTreeLabel', () => {
+    it('should map stock display names', () => {
+      expect(BehaviorRegistry.getDeviceTreeLabel('Mod-Tap')).toBe('mt');
+      expect(BehaviorRegistry.getDeviceTreeLabel('Momentary Layer')).toBe('mo');
+      expect(BehaviorRegistry.getDeviceTreeLabel('Output Selection')).toBe('out');
+    });
+
+    it('should sanitize unknown display names', () => {
+      expect(BehaviorRegistry.getDeviceTreeLabel('Home Row Mod')).toBe('home_row_mod');
+    });
+  });
+
+  describe('formatBinding with registry', () => {
+    it('should format bindings using device behavior IDs', () => {
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 17, param1: KEYBOARD | 0x04, param2: null, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('&kp A');
+    });
+
+    it('should format behaviors missing from the static table', () => {
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 3, param1: KEYBOARD | 0xe1, param2: 0, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('&sk LSHFT');
+    });
+
+    it('should format layer and key parameters from metadata', () => {
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 9, param1: 2, param2: KEYBOARD | 0x2b, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('&lt 2 TAB');
+    });
+
+    it('should choose the parameter set matching param1', () => {
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 22, param1: 0, param2: 0, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('&bt 0');
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 22, param1: 3, param2: 1, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('&bt 3 1');
+    });
+
+    it('should emit zero-parameter behaviors bare', () => {
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 12, param1: 0, param2: 0, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('&trans');
+    });
+
+    it('should mark IDs unknown to the device', () => {
+      expect(
+        BehaviorMapper.formatBinding(
+          { behaviorId: 1, param1: 0, param2: null, position: 0 },
+          getKeyName,
+          registry
+        )
+      ).toBe('/* Unknown behavior 1 */');
+    });
+  });
+});
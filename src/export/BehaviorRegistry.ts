@@ -0,0 +1,216 @@
+/**
+ * BehaviorRegistry: Resolves behavior IDs using live device metadata
+ *
+ * ZMK firmware assigns its own local behavior IDs, so the numeric IDs in a
+ * binding only make sense together with the behavior list reported by the
+ * connected keyboard (`behaviors.getBehaviorDetails`). The registry maps those
+ * local IDs and display names to DeviceTree labels (e.g., "Key Press" → "kp").
+ */
+
+import type {
+  BehaviorBindingParametersSet,
+  BehaviorParameterValueDescription,
+  GetBehaviorDetailsResponse,
+} from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import { Behavior, IBehaviorMapper } from './types';
+
+/**
+ * DeviceTree labels for the display names used by ZMK's stock behaviors
+ *
+ * Keys are the `display-name` properties from ZMK's `behaviors/*.dtsi` files,
+ * which is what the device reports in `GetBehaviorDetailsResponse.displayName`.
+ */
+const DEVICETREE_LABELS: Record<string, string> = {
+  'Transparent': 'trans',
+  'None': 'none',
+  'Key Press': 'kp',
+  'Key Toggle': 'kt',
+  'Mod-Tap': 'mt',
+  'Layer-Tap': 'lt',
+  'Momentary Layer': 'mo',
+  'Toggle Layer': 'tog',
+  'To Layer': 'to',
+  'Sticky Key': 'sk',
+  'Sticky Layer': 'sl',
+  'Caps Word': 'caps_word',
+  'Key Repeat': 'key_repeat',
+  'Grave/Escape': 'gresc',
+  'Bluetooth': 'bt',
+  'Output Selection': 'out',
+  'External Power': 'ext_power',
+  'Underglow': 'rgb_ug',
+  'Backlight': 'bl',
+  'Mouse Key Press': 'mkp',
+  'Mouse Move': 'mmv',
+  'Mouse Scroll': 'msc',
+  'Reset': 'sys_reset',
+  'Bootloader': 'bootloader',
+  'Soft Off': 'soft_off',
+  'Studio Unlock': 'studio_unlock',
+};
+
+const LAYER_BEHAVIOR_CODES = ['lt', 'mo', 'tog', 'to', 'sl'];
+
+export class BehaviorRegistry implements IBehaviorMapper {
+  private readonly byId: Map<number, Behavior>;
+  private readonly byCode: Map<string, Behavior>;
+
+  constructor(behaviors: Iterable<Behavior>) {
+    this.byId = new Map();
+    this.byCode = new Map();
+
+    for (const behavior of behaviors) {
+      this.byId.set(behavior.id, behavior);
+      if (!this.byCode.has(behavior.code)) {
+        this.byCode.set(behavior.code, behavior);
+      }
+    }
+  }
+
+  /**
+   * Build a registry from the behavior details reported by the device
+   *
+   * @param details - Behavior details, as a list or keyed by behavior ID
+   * @returns Registry resolving the device's local behavior IDs
+   */
+  static fromDeviceBehaviors(
+    details: GetBehaviorDetailsResponse[] | Record<number, GetBehaviorDetailsResponse>
+  ): BehaviorRegistry {
+    const list = Array.isArray(details) ? details : Object.values(details);
+
+    return new BehaviorRegistry(
+      list.map((dets) => ({
+        id: dets.id,
+        code: this.getDeviceTreeLabel(dets.displayName),
+        displayName: dets.displayName,
+        paramCount: this.countParams(dets.metadata),
+        description: dets.displayName,
+        metadata: dets.metadata,
+      }))
+    );
+  }
+
+  /**
+   * Get the DeviceTree label for a behavior display name
+   *
+   * Stock ZMK behaviors use the well-known labels. Anything else (user
+   * macros, custom hold-taps) has no display name set in the firmware, so the
+   * device reports the node name, which is turned into a label as-is.
+   *
+   * Examples:
+   * - "Key Press" → "kp"
+   * - "Sticky Key" → "sk"
+   * - "my_macro" → "my_macro"
+   *
+   * @param displayName - Display name reported by the device
+   * @returns DeviceTree label without the leading "&"
+   */
+  static getDeviceTreeLabel(displayName: string): string {
+    const known = DEVICETREE_LABELS[displayName];
+    if (known) {
+      return known;
+    }
+
+    return displayName
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '');
+  }
+
+  /**
+   * Count the parameters a behavior takes from its metadata
+   *
+   * A parameter slot counts when any parameter set accepts a non-nil value
+   * for it.
+   *
+   * @param metadata - Parameter sets reported by the device
+   * @returns Number of parameters (0, 1, or 2)
+   */
+  private static countParams(metadata: BehaviorBindingParametersSet[] = []): number {
+    const takesValue = (values?: BehaviorParameterValueDescription[]) =>
+      !!values?.some((v) => !v.nil);
+
+    if (metadata.some((set) => takesValue(set.param2))) {
+      return 2;
+    }
+    if (metadata.some((set) => takesValue(set.param1))) {
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Get behavior by local ID
+   *
+   * @param behaviorId - Device local behavior identifier
+   * @returns Behavior metadata or null if unknown
+   */
+  getBehavior(behaviorId: number): Behavior | null {
+    return this.byId.get(behaviorId) || null;
+  }
+
+  /**
+   * Get behavior by DeviceTree label
+   *
+   * @param code - Label without the leading "&" (e.g., "kp")
+   * @returns Behavior metadata or null if the device has no such behavior
+   */
+  getBehaviorByCode(code: string): Behavior | null {
+    return this.byCode.get(code) || null;
+  }
+
+  /**
+   * Get behavior code string
+   *
+   * @param behaviorId - Device local behavior identifier
+   * @returns Behavior code (e.g., "kp", "mt") or null if unknown
+   */
+  getBehaviorCode(behaviorId: number): string | null {
+    return this.byId.get(behaviorId)?.code ?? null;
+  }
+
+  /**
+   * Check if a behavior references a layer
+   *
+   * Uses the parameter metadata when available, falling back to the
+   * well-known layer behavior labels.
+   *
+   * @param behaviorId - Device local behavior identifier
+   * @returns True if behavior uses layer IDs as parameters
+   */
+  isLayerBehavior(behaviorId: number): boolean {
+    const behavior = this.byId.get(behaviorId);
+    if (!behavior) {
+      return false;
+    }
+
+    if (behavior.metadata && behavior.metadata.length > 0) {
+      return behavior.metadata.some(
+        (set) =>
+          set.param1?.some((v) => v.layerId) || set.param2?.some((v) => v.layerId)
+      );
+    }
+
+    return LAYER_BEHAVIOR_CODES.includes(behavior.code);
+  }
+
+  /**
+   * Get parameter count for a behavior
+   *
+   * @param behaviorId - Device local behavior identifier
+   * @returns Number of parameters (0, 1, or 2)
+   */
+  getParamCount(behaviorId: number): number {
+    return this.byId.get(behaviorId)?.paramCount ?? 0;
+  }
+
+  /**
+   * Get all behaviors in the registry
+   *
+   * @returns Map of behavior ID to Behavior metadata
+   */
+  getAllBehaviors(): Map<number, Behavior> {
+    return new Map(this.byId);
+  }
+}
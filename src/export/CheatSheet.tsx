@@ -0,0 +1,95 @@
+/**
+ * CheatSheet: Printable reference card of every layer
+ *
+ * Draws each layer of the keymap with the Keymap component, using long key
+ * labels, layer names and hold-tap legends, either one layer per printed page
+ * or as a compact grid. Printing goes through the browser (which can also
+ * save a PDF); the print stylesheet in index.css hides the rest of the app
+ * while the cheat sheet is open.
+ */
+
+import { useState } from 'react';
+import { Button } from 'react-aria-components';
+import { Printer, X } from 'lucide-react';
+import type { Keymap as KeymapMsg, PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import type { GetBehaviorDetailsResponse } from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import { Keymap } from '../keyboard/Keymap';
+
+/**
+ * Key unit size in pixels, larger on pages so that long labels fit
+ */
+const PAGE_ONE_U = 64;
+const GRID_ONE_U = 40;
+
+export interface CheatSheetProps {
+  deviceName?: string;
+  keymap: KeymapMsg;
+  layout: PhysicalLayout;
+  behaviors: Record<number, GetBehaviorDetailsResponse>;
+  onClose: () => void;
+}
+
+export function CheatSheet({ deviceName, keymap, layout, behaviors, onClose }: CheatSheetProps) {
+  const [arrangement, setArrangement] = useState<'pages' | 'grid'>('pages');
+  const isGrid = arrangement === 'grid';
+
+  return (
+    <div className="cheat-sheet fixed inset-0 z-40 overflow-auto bg-base-100 text-base-content print:static print:overflow-visible">
+      <div className="sticky top-0 flex items-center gap-3 px-4 py-2 bg-base-200 print:hidden">
+        <h2 className="text-lg grow">Cheat sheet</h2>
+        <label className="flex items-center gap-2">
+          Arrange:
+          <select
+            className="h-8 rounded"
+            value={arrangement}
+            onChange={(e) => setArrangement(e.target.value as 'pages' | 'grid')}
+          >
+            <option value="pages">One layer per page</option>
+            <option value="grid">Compact grid</option>
+          </select>
+        </label>
+        <Button
+          className="flex items-center gap-1 rounded bg-base-100 hover:bg-base-300 px-3 py-1"
+          onPress={() => window.print()}
+        >
+          <Printer className="w-4" aria-hidden="true" />
+          Print
+        </Button>
+        <Button
+          className="rounded hover:bg-base-300 p-1.5"
+          onPress={onClose}
+          aria-label="Close cheat sheet"
+        >
+          <X className="w-4" aria-hidden="true" />
+        </Button>
+      </div>
+      <div className={isGrid ? 'grid grid-cols-[repeat(auto-fit,minmax(28rem,1fr))] gap-6 p-4' : 'p-4'}>
+        {keymap.layers.map((layer, index) => (
+          <section
+            key={layer.id}
+            className={`flex flex-col items-center gap-3 break-inside-avoid ${
+              isGrid ? '' : 'mb-8 break-after-page'
+            }`}
+          >
+            <h3 className={isGrid ? 'text-base font-semibold' : 'text-xl font-semibold'}>
+              {deviceName && !isGrid ? `${deviceName}: ` : ''}
+              {layer.name || `Layer ${index}`}
+            </h3>
+            <Keymap
+              layout={layout}
+              keymap={keymap}
+              behaviors={behaviors}
+              scale={1}
+              selectedLayerIndex={index}
+              selectedKeyPosition={undefined}
+              onKeyPositionClicked={() => {}}
+              oneU={isGrid ? GRID_ONE_U : PAGE_ONE_U}
+              labelSize={isGrid ? 'short' : 'long'}
+              detailedLegends={true}
+            />
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for ConsumerKeyNames
+ *
+ * Tests ZMK names for consumer page (media) keys in both directions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConsumerKeyNames } from './ConsumerKeyNames';
+import { hid_usage_page_get_ids } from '../hid-usages';
+
+describe('ConsumerKeyNames', () => {
+  describe('getName', () => {
+    it('should use ZMK names for common media keys', () => {
+      expect(ConsumerKeyNames.getName(0xe9)).toBe('C_VOL_UP');
+      expect(ConsumerKeyNames.getName(0xea)).toBe('C_VOL_DN');
+      expect(ConsumerKeyNames.getName(0xe2)).toBe('C_MUTE');
+      expect(ConsumerKeyNames.getName(0xcd)).toBe('C_PLAY_PAUSE');
+      expect(ConsumerKeyNames.getName(0xb5)).toBe('C_NEXT');
+      expect(ConsumerKeyNames.getName(0xb6)).toBe('C_PREV');
+      expect(ConsumerKeyNames.getName(0x6f)).toBe('C_BRI_UP');
+      expect(ConsumerKeyNames.getName(0x70)).toBe('C_BRI_DN');
+      expect(ConsumerKeyNames.getName(0x192)).toBe('C_AL_CALC');
+    });
+
+    it('should generate names from the usage table for other keys', () => {
+      expect(ConsumerKeyNames.getName(0x21a)).toBe('C_AC_UNDO');
+      expect(ConsumerKeyNames.getName(0x22d)).toBe('C_AC_ZOOM_IN');
+      expect(ConsumerKeyNames.getName(0xb7)).toBe('C_STOP');
+    });
+
+    it('should return null for IDs not in the usage table', () => {
+      expect(ConsumerKeyNames.getName(0xffff)).toBeNull();
+    });
+  });
+
+  describe('getUsageId', () => {
+    it('should accept every ZMK alias', () => {
+      expect(ConsumerKeyNames.getUsageId('C_VOL_UP')).toBe(0xe9);
+      expect(ConsumerKeyNames.getUsageId('C_VOLUME_UP')).toBe(0xe9);
+      expect(ConsumerKeyNames.getUsageId('C_PP')).toBe(0xcd);
+      expect(ConsumerKeyNames.getUsageId('C_BRIGHTNESS_INC')).toBe(0x6f);
+      expect(ConsumerKeyNames.getUsageId('C_AL_CALCULATOR')).toBe(0x192);
+    });
+
+    it('should accept generated names', () => {
+      expect(ConsumerKeyNames.getUsageId('C_VOLUME_INCREMENT')).toBe(0xe9);
+    });
+
+    it('should return null for unknown names', () => {
+      expect(ConsumerKeyNames.getUsageId('C_NOT_A_KEY')).toBeNull();
+      expect(ConsumerKeyNames.getUsageId('A')).toBeNull();
+    });
+  });
+
+  it('should round-trip every usage in the consumer table', () => {
+    const usages = hid_usage_page_get_ids(0x0c)?.UsageIds ?? [];
+    expect(usages.length).toBeGreaterThan(0);
+
+    for (const usage of usages) {
+      const name = ConsumerKeyNames.getName(usage.Id);
+      expect(name).not.toBeNull();
+      expect(ConsumerKeyNames.getUsageId(name!)).toBe(usage.Id);
+    }
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * ConsumerKeyNames: ZMK key names for the HID Consumer page (0x0C)
+ *
+ * Media, brightness and application launch keys. Names are generated from
+ * the usage names in keyboard-and-consumer-usage-tables.json
+ * ("AL Calculator" → "C_AL_CALCULATOR"), with the names ZMK's
+ * `dt-bindings/zmk/keys.h` defines layered on top where they differ
+ * ("Volume Increment" → "C_VOL_UP").
+ */
+
+import { hid_usage_page_get_ids } from '../hid-usages';
+
+const HID_PAGE_CONSUMER = 0x0c;
+
+/**
+ * ZMK names for consumer usages, keyed by usage ID
+ *
+ * The first name is the one used on export; all names are accepted on import,
+ * as is the name generated from the usage table.
+ */
+const ZMK_ALIASES: Record<number, string[]> = {
+  0x30: ['C_POWER', 'C_PWR'],
+  0x41: ['C_MENU_PICK', 'C_MENU_SELECT'],
+  0x46: ['C_MENU_ESCAPE', 'C_MENU_ESC'],
+  0x47: ['C_MENU_INCREASE', 'C_MENU_INC'],
+  0x48: ['C_MENU_DECREASE', 'C_MENU_DEC'],
+  0x61: ['C_CAPTIONS', 'C_SUBTITLES'],
+  0x67: ['C_PIP'],
+  0x69: ['C_RED_BUTTON', 'C_RED'],
+  0x6a: ['C_GREEN_BUTTON', 'C_GREEN'],
+  0x6b: ['C_BLUE_BUTTON', 'C_BLUE'],
+  0x6c: ['C_YELLOW_BUTTON', 'C_YELLOW'],
+  0x6e: ['C_3D_MODE'],
+  0x6f: ['C_BRI_UP', 'C_BRIGHTNESS_INC', 'C_BRI_INC'],
+  0x70: ['C_BRI_DN', 'C_BRIGHTNESS_DEC', 'C_BRI_DEC'],
+  0x72: ['C_BKLT_TOG', 'C_BACKLIGHT_TOGGLE'],
+  0x73: ['C_BRI_MIN', 'C_BRIGHTNESS_MINIMUM'],
+  0x74: ['C_BRI_MAX', 'C_BRIGHTNESS_MAXIMUM'],
+  0x75: ['C_BRI_AUTO', 'C_BRIGHTNESS_AUTO'],
+  0x83: ['C_RECALL_LAST', 'C_CHAN_LAST'],
+  0x88: ['C_MEDIA_COMPUTER'],
+  0x89: ['C_MEDIA_TV'],
+  0x8a: ['C_MEDIA_WWW'],
+  0x8b: ['C_MEDIA_DVD'],
+  0x8c: ['C_MEDIA_PHONE'],
+  0x8d: ['C_MEDIA_GUIDE'],
+  0x8e: ['C_MEDIA_VIDEOPHONE'],
+  0x8f: ['C_MEDIA_GAMES'],
+  0x90: ['C_MEDIA_MESSAGES'],
+  0x91: ['C_MEDIA_CD'],
+  0x92: ['C_MEDIA_VCR'],
+  0x93: ['C_MEDIA_TUNER'],
+  0x96: ['C_MEDIA_TAPE'],
+  0x97: ['C_MEDIA_CABLE'],
+  0x98: ['C_MEDIA_SATELLITE'],
+  0x9a: ['C_MEDIA_HOME'],
+  0x9c: ['C_CHANNEL_INC', 'C_CHAN_INC'],
+  0x9d: ['C_CHANNEL_DEC', 'C_CHAN_DEC'],
+  0xb2: ['C_RECORD', 'C_REC'],
+  0xb3: ['C_FAST_FORWARD', 'C_FF'],
+  0xb4: ['C_REWIND', 'C_RW'],
+  0xb5: ['C_NEXT'],
+  0xb6: ['C_PREV', 'C_PREVIOUS'],
+  0xb9: ['C_SHUFFLE', 'C_RANDOM_PLAY'],
+  0xcd: ['C_PLAY_PAUSE', 'C_PP'],
+  0xe9: ['C_VOL_UP', 'C_VOLUME_UP'],
+  0xea: ['C_VOL_DN', 'C_VOLUME_DOWN'],
+  0x173: ['C_ALTERNATE_AUDIO_INCREMENT', 'C_ALT_AUDIO_INC'],
+  0x183: ['C_AL_CCC', 'C_AL_CONSUMER_CONTROL_CONFIGURATION'],
+  0x184: ['C_AL_WORD', 'C_AL_WORD_PROCESSOR'],
+  0x186: ['C_AL_SHEET', 'C_AL_SPREADSHEET'],
+  0x188: ['C_AL_PRESENTATION'],
+  0x189: ['C_AL_DB', 'C_AL_DATABASE'],
+  0x18a: ['C_AL_MAIL', 'C_AL_EMAIL'],
+  0x18b: ['C_AL_NEWS'],
+  0x18d: ['C_AL_CONTACTS', 'C_AL_ADDRESS_BOOK'],
+  0x18e: ['C_AL_CAL', 'C_AL_CALENDAR'],
+  0x18f: ['C_AL_TASK_MANAGER'],
+  0x190: ['C_AL_JOURNAL'],
+  0x191: ['C_AL_FINANCE'],
+  0x192: ['C_AL_CALC', 'C_AL_CALCULATOR'],
+  0x193: ['C_AL_AV_CAPTURE_PLAYBACK'],
+  0x194: ['C_AL_MY_COMPUTER', 'C_AL_LOCAL_BROWSER'],
+  0x196: ['C_AL_WWW', 'C_AL_INTERNET_BROWSER'],
+  0x199: ['C_AL_CHAT', 'C_AL_NETWORK_CHAT'],
+  0x19e: ['C_AL_LOCK'],
+  0x1a2: ['C_AL_SELECT_TASK'],
+  0x1a3: ['C_AL_NEXT_TASK'],
+  0x1a4: ['C_AL_PREV_TASK', 'C_AL_PREVIOUS_TASK'],
+  0x1a6: ['C_AL_HELP'],
+  0x1a7: ['C_AL_DOCS', 'C_AL_DOCUMENTS'],
+  0x1ab: ['C_AL_SPELL', 'C_AL_SPELLCHECK'],
+  0x1b4: ['C_AL_FILES', 'C_AL_FILE_BROWSER'],
+  0x1b6: ['C_AL_IMAGES', 'C_AL_IMAGE_BROWSER'],
+  0x1b7: ['C_AL_MUSIC', 'C_AL_AUDIO', 'C_AL_AUDIO_BROWSER'],
+  0x1b8: ['C_AL_MOVIES', 'C_AL_MOVIE_BROWSER'],
+  0x1bc: ['C_AL_IM', 'C_AL_INSTANT_MESSAGING'],
+  0x1bd: ['C_AL_OEM_FEATURES', 'C_AL_TIPS', 'C_AL_TUTORIAL'],
+  0x1c1: ['C_AL_ONLINE_SHOPPING'],
+  0x209: ['C_AC_PROPERTIES', 'C_AC_PROPS'],
+  0x220: ['C_AC_FIND_REPLACE', 'C_AC_FIND_AND_REPLACE'],
+  0x222: ['C_AC_GOTO', 'C_AC_GO_TO'],
+  0x22a: ['C_AC_BOOKMARKS', 'C_AC_FAVORITES'],
+  0x279: ['C_AC_REDO'],
+  0x28b: ['C_AC_FORWARD_MAIL'],
+  0x29f: ['C_AC_DESKTOP_SHOW_ALL_WINDOWS', 'C_AC_EXPOSE'],
+  0x2c7: ['C_KEYBOARD_INPUT_ASSIST_PREVIOUS', 'C_KBIA_PREV'],
+  0x2c8: ['C_KEYBOARD_INPUT_ASSIST_NEXT', 'C_KBIA_NEXT'],
+  0x2c9: ['C_KEYBOARD_INPUT_ASSIST_PREVIOUS_GROUP', 'C_KBIA_PREV_GRP'],
+  0x2ca: ['C_KEYBOARD_INPUT_ASSIST_NEXT_GROUP', 'C_KBIA_NEXT_GRP'],
+  0x2cb: ['C_KEYBOARD_INPUT_ASSIST_ACCEPT', 'C_KBIA_ACCEPT'],
+  0x2cc: ['C_KEYBOARD_INPUT_ASSIST_CANCEL', 'C_KBIA_CANCEL'],
+};
+
+/**
+ * Generate a ZMK-style name from a usage table name
+ *
+ * "AL Contacts/Address Book" → "C_AL_CONTACTS_ADDRESS_BOOK"
+ */
+function generateName(usageName: string): string {
+  const slug = usageName
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+  return `C_${slug}`;
+}
+
+const NAME_BY_ID = new Map<number, string>();
+const ID_BY_NAME = new Map<string, number>();
+
+for (const usage of hid_usage_page_get_ids(HID_PAGE_CONSUMER)?.UsageIds ?? []) {
+  const generated = generateName(usage.Name);
+  NAME_BY_ID.set(usage.Id, ZMK_ALIASES[usage.Id]?.[0] ?? generated);
+  if (!ID_BY_NAME.has(generated)) {
+    ID_BY_NAME.set(generated, usage.Id);
+  }
+}
+
+// ZMK names take precedence over generated ones on import
+for (const [id, names] of Object.entries(ZMK_ALIASES)) {
+  for (const name of names) {
+    ID_BY_NAME.set(name, Number(id));
+  }
+}
+
+export class ConsumerKeyNames {
+  /**
+   * Get the ZMK name for a consumer usage ID
+   *
+   * @param usageId - Usage ID within the consumer page
+   * @returns ZMK key name (e.g., "C_VOL_UP") or null if not in the usage table
+   */
+  static getName(usageId: number): string | null {
+    return NAME_BY_ID.get(usageId) ?? null;
+  }
+
+  /**
+   * Get the consumer usage ID for a ZMK name
+   *
+   * @param name - ZMK key name, alias or generated name
+   * @returns Usage ID within the consumer page, or null if unknown
+   */
+  static getUsageId(name: string): number | null {
+    return ID_BY_NAME.get(name) ?? null;
+  }
+
+  /**
+   * Get all accepted consumer key names
+   */
+  static getAllNames(): string[] {
+    return Array.from(ID_BY_NAME.keys());
+  }
+}
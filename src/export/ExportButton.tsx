@@ -1,40 +1,109 @@
 /**
  * ExportButton: UI component for triggering keymap export
  *
- * Displays a button with Download icon that triggers export operation
+ * Displays a button with Download icon that triggers export operation, and a
+ * second button opening the export options. Options are remembered in local
+ * storage and passed to `onExport`. Merging into an existing .keymap first
+ * asks for that file (and the .dtsi/.h files it includes).
  */
 
+import { useRef, useState } from 'react';
 import { Button, Tooltip, TooltipTrigger } from 'react-aria-components';
-import { Download } from 'lucide-react';
-import { ExportButtonProps } from './types';
+import { Download, Settings2 } from 'lucide-react';
+import { DEFAULT_EXPORT_CONFIG, ExportButtonProps, ExportConfig } from './types';
+import { useLocalStorageState } from '../misc/useLocalStorageState';
+import { deserializeExportConfig } from './exportConfig';
+import { ExportOptionsModal } from './ExportOptionsModal';
+
+const EXPORT_CONFIG_STORAGE = {
+  serialize: (config: ExportConfig) => JSON.stringify(config),
+  deserialize: deserializeExportConfig,
+};
 
 export function ExportButton({
   onExport,
   isExporting,
   disabled,
-  tooltip = 'Export keymap to .keymap file',
+  tooltip = 'Export keymap to a new or existing .keymap file, VIA layout JSON, ZMK Studio backup, keymap-drawer YAML or SVG',
 }: ExportButtonProps) {
+  const [config, setConfig] = useLocalStorageState<ExportConfig>(
+    'exportConfig',
+    DEFAULT_EXPORT_CONFIG,
+    EXPORT_CONFIG_STORAGE
+  );
+  const [showOptions, setShowOptions] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    if (config.format === 'keymap-merge') {
+      fileInputRef.current?.click();
+    } else {
+      onExport(config);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    const file = files.find((f) => /\.keymap$/i.test(f.name)) ?? files[0];
+    if (file) {
+      onExport(config, { file, includes: files.filter((f) => f !== file) });
+      // Reset input so same file can be selected again
+      event.target.value = '';
+    }
+  };
+
   return (
-    <TooltipTrigger>
-      <Button
-        className="flex items-center justify-center p-1.5 rounded
-          enabled:hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed
-          transition-colors duration-150"
-        onPress={onExport}
-        isDisabled={disabled || isExporting}
-        aria-label="Export keymap"
-      >
-        <Download
-          className={`inline-block w-4 mx-1 ${isExporting ? 'animate-pulse' : ''}`}
-          aria-hidden="true"
-        />
-        {isExporting && (
-          <span className="ml-1 text-sm">Exporting...</span>
-        )}
-      </Button>
-      <Tooltip className="bg-gray-800 text-white px-2 py-1 rounded text-sm max-w-xs">
-        {tooltip}
-      </Tooltip>
-    </TooltipTrigger>
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".keymap,.dtsi,.h"
+        multiple
+        style={{ display: 'none' }}
+        onChange={handleFileChange}
+      />
+      <ExportOptionsModal
+        open={showOptions}
+        config={config}
+        onConfigChange={setConfig}
+        onExport={disabled || isExporting ? undefined : handleExport}
+        onClose={() => setShowOptions(false)}
+      />
+      <TooltipTrigger>
+        <Button
+          className="flex items-center justify-center p-1.5 rounded
+            enabled:hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed
+            transition-colors duration-150"
+          onPress={handleExport}
+          isDisabled={disabled || isExporting}
+          aria-label="Export keymap"
+        >
+          <Download
+            className={`inline-block w-4 mx-1 ${isExporting ? 'animate-pulse' : ''}`}
+            aria-hidden="true"
+          />
+          {isExporting && (
+            <span className="ml-1 text-sm">Exporting...</span>
+          )}
+        </Button>
+        <Tooltip className="bg-gray-800 text-white px-2 py-1 rounded text-sm max-w-xs">
+          {tooltip}
+        </Tooltip>
+      </TooltipTrigger>
+      <TooltipTrigger>
+        <Button
+          className="flex items-center justify-center p-1.5 rounded
+            enabled:hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed
+            transition-colors duration-150"
+          onPress={() => setShowOptions(true)}
+          aria-label="Keymap file options"
+        >
+          <Settings2 className="inline-block w-4 mx-1" aria-hidden="true" />
+        </Button>
+        <Tooltip className="bg-gray-800 text-white px-2 py-1 rounded text-sm max-w-xs">
+          Export options
+        </Tooltip>
+      </TooltipTrigger>
+    </>
   );
 }
@@ -31,6 +31,9 @@ export class ExportNotifications {
       case ExportErrorCode.INVALID_LAYER:
         return 'Invalid layer configuration. Please ensure your keyboard has at least one configured layer.';
 
+      case ExportErrorCode.VALIDATION_FAILED:
+        return `The keymap cannot be exported:\n${result.error.message}`;
+
       case ExportErrorCode.GENERATION_FAILED:
         return `File generation failed: ${result.error.message}. Please try again or report this issue.`;
 
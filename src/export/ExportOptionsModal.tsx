@@ -0,0 +1,123 @@
+/**
+ * ExportOptionsModal: Dialog for choosing export options
+ *
+ * Edits an ExportConfig; the caller decides where the choices are kept. The
+ * layout options only apply to .keymap files, and the header and comments
+ * only to new ones.
+ */
+
+import { Button } from 'react-aria-components';
+import { GenericModal } from '../GenericModal';
+import { useModalRef } from '../misc/useModalRef';
+import { ExportConfig } from './types';
+
+export interface ExportOptionsModalProps {
+  open: boolean;
+  config: ExportConfig;
+  onConfigChange: (config: ExportConfig) => void;
+  onExport?: () => void;
+  onClose: () => void;
+}
+
+export function ExportOptionsModal({
+  open,
+  config,
+  onConfigChange,
+  onExport,
+  onClose,
+}: ExportOptionsModalProps) {
+  const ref = useModalRef(open, true);
+  const isKeymap = config.format === 'keymap';
+  const hasBindings = isKeymap || config.format === 'keymap-merge';
+
+  return (
+    <GenericModal ref={ref} onClose={onClose} className="min-w-min w-[30vw] flex flex-col gap-3">
+      <h2 className="text-lg">Export Options</h2>
+      <label className="flex items-center gap-2">
+        Format:
+        <select
+          className="h-8 rounded"
+          value={config.format}
+          onChange={(e) =>
+            onConfigChange({ ...config, format: e.target.value as ExportConfig['format'] })
+          }
+        >
+          <option value="keymap">ZMK .keymap file</option>
+          <option value="keymap-merge">ZMK .keymap, merged into an existing file</option>
+          <option value="via">VIA/Vial layout JSON</option>
+          <option value="backup">ZMK Studio backup (JSON)</option>
+          <option value="keymap-drawer">keymap-drawer YAML</option>
+          <option value="svg">Keymap diagram (SVG)</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.includeMetadata}
+          disabled={!isKeymap}
+          onChange={(e) => onConfigChange({ ...config, includeMetadata: e.target.checked })}
+        />
+        Include header with export date and device
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.includeComments}
+          disabled={!isKeymap}
+          onChange={(e) => onConfigChange({ ...config, includeComments: e.target.checked })}
+        />
+        Include explanatory comments
+      </label>
+      <label className="flex items-center gap-2">
+        Bindings:
+        <select
+          className="h-8 rounded"
+          value={config.formatBindings}
+          disabled={!hasBindings}
+          onChange={(e) =>
+            onConfigChange({
+              ...config,
+              formatBindings: e.target.value as ExportConfig['formatBindings'],
+            })
+          }
+        >
+          <option value="rows">Rows following the keyboard layout</option>
+          <option value="compact">Compact</option>
+          <option value="expanded">One per line</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Maximum line length:
+        <input
+          className="p-1 w-20 border rounded border-base-content border-solid disabled:opacity-50"
+          type="number"
+          min={20}
+          value={config.maxLineLength}
+          disabled={!hasBindings || config.formatBindings !== 'compact'}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            if (!isNaN(value) && value > 0) {
+              onConfigChange({ ...config, maxLineLength: value });
+            }
+          }}
+        />
+      </label>
+      <div className="flex justify-end gap-3">
+        <Button className="rounded bg-base-200 hover:bg-base-300 px-3 py-2" onPress={onClose}>
+          Close
+        </Button>
+        {onExport && (
+          <Button
+            className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+            onPress={() => {
+              onClose();
+              onExport();
+            }}
+          >
+            Export
+          </Button>
+        )}
+      </div>
+    </GenericModal>
+  );
+}
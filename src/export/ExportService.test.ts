@@ -56,6 +56,37 @@ describe('ExportService', () => {
     },
   ];
 
+  describe('toLayers', () => {
+    it('should label unnamed layers and number bindings by key position', () => {
+      const layers = ExportService.toLayers({
+        layers: [
+          {
+            id: 3,
+            name: '',
+            bindings: [
+              { behaviorId: 1, param1: 0x70004, param2: 0 },
+              { behaviorId: 0, param1: 0, param2: 0 },
+            ],
+          },
+        ],
+        availableLayers: 5,
+        maxLayerNameLength: 16,
+      });
+
+      expect(layers).toEqual([
+        {
+          id: 3,
+          label: 'Layer 0',
+          unnamed: true,
+          bindings: [
+            { behaviorId: 1, param1: 0x70004, param2: 0, position: 0 },
+            { behaviorId: 0, param1: 0, param2: 0, position: 1 },
+          ],
+        },
+      ]);
+    });
+  });
+
   describe('exportKeymap', () => {
     it('should successfully export keymap', async () => {
       const result = await ExportService.exportKeymap('test-keyboard', sampleLayers);
@@ -68,6 +99,104 @@ describe('ExportService', () => {
       expect(result.content).toContain('Device: test-keyboard');
     });
 
+    it('should export a VIA layout when the format is via', async () => {
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'via' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filename).toMatch(/corne-\d{4}-\d{2}-\d{2}\.json/);
+      expect(JSON.parse(result.content!).layers).toEqual([['KC_TRNS', 'KC_TRNS'], ['KC_TRNS']]);
+    });
+
+    it('should export a backup of the device state when the format is backup', async () => {
+      const keymap = {
+        layers: [{ id: 3, name: 'Base', bindings: [{ behaviorId: 7, param1: 4, param2: 0 }] }],
+        availableLayers: 5,
+        maxLayerNameLength: 16,
+      };
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'backup' },
+        backup: { keymap, physicalLayoutIndex: 1, behaviors: [], device: { name: 'corne' } },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filename).toMatch(/corne-\d{4}-\d{2}-\d{2}\.backup\.json/);
+      expect(JSON.parse(result.content!).keymap).toEqual(keymap);
+    });
+
+    it('should refuse a backup without the device state', async () => {
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'backup' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ExportErrorCode.GENERATION_FAILED);
+    });
+
+    it('should export keymap-drawer YAML when the format is keymap-drawer', async () => {
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'keymap-drawer' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filename).toMatch(/corne-\d{4}-\d{2}-\d{2}\.yaml/);
+      expect(result.content).toContain('"Lower":');
+    });
+
+    it('should refuse to draw an SVG without the physical layout', async () => {
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'svg' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ExportErrorCode.GENERATION_FAILED);
+    });
+
+    it('should merge into the existing file when the format is keymap-merge', async () => {
+      const existing = [
+        '// My keymap',
+        '/ {',
+        '    keymap {',
+        '        compatible = "zmk,keymap";',
+        '        default_layer {',
+        '            display-name = "Default";',
+        '            bindings = <&kp A &kp B>;',
+        '        };',
+        '    };',
+        '};',
+        '',
+      ].join('\n');
+
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'keymap-merge' },
+        existing: { content: existing, fileName: 'corne.keymap' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filename).toBe('corne.keymap');
+      expect(result.content).toContain('// My keymap');
+      expect(result.content).toContain('&trans &trans');
+      expect(result.validation?.warnings.map((w) => w.field)).toEqual(['layers[1]']);
+    });
+
+    it('should refuse to merge without the existing file', async () => {
+      const result = await ExportService.exportKeymap('corne', sampleLayers, {
+        config: { format: 'keymap-merge' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ExportErrorCode.GENERATION_FAILED);
+    });
+
+    it('should only return the content when download is false', async () => {
+      const result = await ExportService.exportKeymap('corne', sampleLayers, { download: false });
+
+      expect(result.success).toBe(true);
+      expect(result.content).toContain('keymap');
+      expect(mockClick).not.toHaveBeenCalled();
+    });
+
     it('should trigger file download', async () => {
       await ExportService.exportKeymap('corne', sampleLayers);
 
@@ -191,6 +320,34 @@ describe('ExportService', () => {
       expect(result.content).toContain('Version: 1.0.0');
     });
 
+    it('should refuse to export a keymap that fails validation', async () => {
+      const layers: Layer[] = [
+        {
+          id: 0,
+          label: 'Default',
+          bindings: [{ behaviorId: 4, param1: 7, param2: null, position: 0 }], // &mo 7
+        },
+      ];
+
+      const result = await ExportService.exportKeymap('test', layers);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ExportErrorCode.VALIDATION_FAILED);
+      expect(result.validation?.errors).toHaveLength(1);
+      expect(mockClick).not.toHaveBeenCalled();
+    });
+
+    it('should export with validation warnings', async () => {
+      const layers: Layer[] = [
+        { id: 0, label: 'Nav & Media', bindings: [{ behaviorId: 0, param1: 0, param2: null, position: 0 }] },
+      ];
+
+      const result = await ExportService.exportKeymap('test', layers);
+
+      expect(result.success).toBe(true);
+      expect(result.validation?.warnings).toHaveLength(1);
+    });
+
     it('should handle errors during generation gracefully', async () => {
       // Mock KeymapGenerator.generate to throw an error
       const originalGenerate = (await import('./KeymapGenerator')).KeymapGenerator.generate;
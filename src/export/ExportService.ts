@@ -5,20 +5,66 @@
  * and triggers browser download.
  */
 
-import { Keymap, Layer, Binding, ExportResult, ExportErrorCode } from './types';
-import { KeymapGenerator } from './KeymapGenerator';
+import {
+  Keymap,
+  Layer,
+  Binding,
+  ExportResult,
+  ExportErrorCode,
+  LayerConstraints,
+  BackupSource,
+} from './types';
+import { KeymapGenerator, GenerateOptions } from './KeymapGenerator';
+import { KeymapValidator } from './KeymapValidator';
+import { ViaExporter } from './ViaExporter';
+import { BackupExporter } from './BackupExporter';
+import { KeymapDrawerExporter } from './KeymapDrawerExporter';
+import { KeymapMerger } from './KeymapMerger';
+import { resolveExportConfig } from './exportConfig';
+import type { Keymap as DeviceKeymap } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+
+/**
+ * .keymap file the layers are merged into
+ */
+export interface ExistingKeymap {
+  content: string;
+  /** Name of the file, reused for the merged file */
+  fileName?: string;
+  /** Files available to its `#include` directives */
+  files?: Record<string, string>;
+}
+
+/**
+ * Export options
+ */
+export interface ExportOptions extends GenerateOptions {
+  /** Layer limits of the connected device */
+  constraints?: LayerConstraints;
+  /** Device state as reported, required for the backup format */
+  backup?: BackupSource;
+  /** Download the file (default); false to only return its content */
+  download?: boolean;
+  /** File to merge into, required for the keymap-merge format */
+  existing?: ExistingKeymap;
+}
 
 export class ExportService {
   /**
-   * Export current keymap to .keymap file
+   * Export current keymap to .keymap file, merged into an existing .keymap,
+   * or to VIA layout JSON, a ZMK Studio backup, keymap-drawer YAML or an SVG
+   * diagram as chosen by `options.config.format`
    *
    * @param deviceName - Keyboard device name for filename
    * @param layers - Array of layer configurations from RPC
-   * @returns Export result with success status and filename
+   * @param options - Device behaviors, active physical layout, layer limits,
+   *                  for backups the device state and for merging the
+   *                  existing file
+   * @returns Export result with success status, filename and validation findings
    */
   static async exportKeymap(
     deviceName: string,
-    layers: Layer[]
+    layers: Layer[],
+    options: ExportOptions = {}
   ): Promise<ExportResult> {
     try {
       // Validate inputs
@@ -48,25 +94,158 @@ export class ExportService {
       const keymap: Keymap = {
         layers,
         deviceName,
-        layoutName: 'default', // Could be extended to support multiple layouts
+        layoutName: options.layout?.name || 'default',
         timestamp: new Date(),
         version: '1.0.0',
         totalBindings: layers.reduce((sum, layer) => sum + layer.bindings.length, 0),
       };
 
+      const format = resolveExportConfig(options.config).format;
+
+      // Backups hold the device state as reported, so there is nothing to validate
+      if (format === 'backup') {
+        if (!options.backup) {
+          return {
+            success: false,
+            filename: '',
+            error: {
+              code: ExportErrorCode.GENERATION_FAILED,
+              message: 'The device state is required for a backup',
+            },
+          };
+        }
+
+        const content = BackupExporter.generate(options.backup);
+        const filename = this.generateFilename(deviceName, 'backup.json');
+        if (options.download !== false) {
+          this.downloadFile(content, filename);
+        }
+
+        return { success: true, filename, content };
+      }
+
+      // Diagrams only describe the keymap, so there is nothing to validate
+      if (format === 'keymap-drawer') {
+        const content = KeymapDrawerExporter.generateYaml(keymap, options);
+        const filename = this.generateFilename(deviceName, 'yaml');
+        if (options.download !== false) {
+          this.downloadFile(content, filename);
+        }
+
+        return { success: true, filename, content };
+      }
+
+      if (format === 'svg') {
+        if (!options.layout || options.layout.keys.length === 0) {
+          return {
+            success: false,
+            filename: '',
+            error: {
+              code: ExportErrorCode.GENERATION_FAILED,
+              message: 'The physical layout is required to draw the keymap',
+            },
+          };
+        }
+
+        const content = KeymapDrawerExporter.generateSvg(keymap, options.layout, options.registry);
+        const filename = this.generateFilename(deviceName, 'svg');
+        if (options.download !== false) {
+          this.downloadFile(content, filename, 'image/svg+xml;charset=utf-8');
+        }
+
+        return { success: true, filename, content };
+      }
+
+      // VIA layouts do not compile, so only bindings VIA cannot express are reported
+      if (format === 'via') {
+        const { content, warnings } = ViaExporter.generate(keymap, options.registry);
+        const filename = this.generateFilename(deviceName, 'json');
+        if (options.download !== false) {
+          this.downloadFile(content, filename);
+        }
+
+        return {
+          success: true,
+          filename,
+          content,
+          validation: { valid: true, errors: [], warnings },
+        };
+      }
+
+      const existing = options.existing;
+      if (format === 'keymap-merge' && !existing) {
+        return {
+          success: false,
+          filename: '',
+          error: {
+            code: ExportErrorCode.GENERATION_FAILED,
+            message: 'The existing .keymap file is required to merge into',
+          },
+        };
+      }
+
+      // Refuse to write a file that would not compile or fit the device
+      const validation = new KeymapValidator({
+        constraints: options.constraints,
+        registry: options.registry,
+      }).validate(keymap);
+
+      if (!validation.valid) {
+        return {
+          success: false,
+          filename: '',
+          error: {
+            code: ExportErrorCode.VALIDATION_FAILED,
+            message: validation.errors.map((e) => e.message).join('\n'),
+          },
+          validation,
+        };
+      }
+
+      // Patch the layers into the existing file, keeping the rest of it
+      if (format === 'keymap-merge' && existing) {
+        const merged = KeymapMerger.merge(existing.content, keymap, {
+          ...options,
+          files: existing.files,
+        });
+        if ('error' in merged) {
+          return {
+            success: false,
+            filename: '',
+            error: { code: ExportErrorCode.GENERATION_FAILED, message: merged.error },
+            validation,
+          };
+        }
+
+        const filename = existing.fileName || this.generateFilename(deviceName);
+        if (options.download !== false) {
+          this.downloadFile(merged.content, filename);
+        }
+
+        return {
+          success: true,
+          filename,
+          content: merged.content,
+          validation: { ...validation, warnings: [...validation.warnings, ...merged.warnings] },
+        };
+      }
+
       // Generate .keymap file content
-      const content = KeymapGenerator.generate(keymap);
+      const content = KeymapGenerator.generate(keymap, options);
 
       // Generate filename
       const filename = this.generateFilename(deviceName);
 
       // Download file
-      this.downloadFile(content, filename);
+      if (options.download !== false) {
+        this.downloadFile(content, filename);
+      }
 
       return {
         success: true,
         filename,
         content,
+        validation,
       };
     } catch (error) {
       return {
@@ -81,15 +260,39 @@ export class ExportService {
     }
   }
 
+  /**
+   * Convert the keymap the keyboard reports to export layers
+   *
+   * Unnamed layers are labeled by index and marked unnamed, and bindings are
+   * numbered by key position.
+   *
+   * @param keymap - Keymap as reported over RPC
+   * @returns Layers with the device's layer and behavior IDs
+   */
+  static toLayers(keymap: DeviceKeymap): Layer[] {
+    return keymap.layers.map((layer, index) => ({
+      id: layer.id,
+      label: layer.name || `Layer ${index}`,
+      ...(layer.name ? {} : { unnamed: true }),
+      bindings: layer.bindings.map((binding, position) => ({
+        behaviorId: binding.behaviorId || 0,
+        param1: binding.param1 || 0,
+        param2: binding.param2,
+        position,
+      })),
+    }));
+  }
+
   /**
    * Generate filename with device name and timestamp
    *
    * Format: keyboard-name-YYYY-MM-DD.keymap
    *
    * @param deviceName - Keyboard device name
+   * @param extension - File extension, without the dot
    * @returns Filename string
    */
-  private static generateFilename(deviceName: string): string {
+  private static generateFilename(deviceName: string, extension = 'keymap'): string {
     const dateStr = this.getDateString();
     const sanitizedName = deviceName
       .toLowerCase()
@@ -97,7 +300,7 @@ export class ExportService {
       .replace(/-+/g, '-')
       .replace(/^-|-$/g, '');
 
-    return `${sanitizedName}-${dateStr}.keymap`;
+    return `${sanitizedName}-${dateStr}.${extension}`;
   }
 
   /**
@@ -120,10 +323,15 @@ export class ExportService {
    *
    * @param content - File content string
    * @param filename - Download filename
+   * @param type - MIME type of the file
    */
-  private static downloadFile(content: string, filename: string): void {
+  private static downloadFile(
+    content: string,
+    filename: string,
+    type = 'text/plain;charset=utf-8'
+  ): void {
     // Create blob with UTF-8 encoding
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const blob = new Blob([content], { type });
 
     // Create temporary download link
     const url = URL.createObjectURL(blob);
@@ -96,6 +96,35 @@ describe('HidMapper', () => {
       const genericDesktopUsage = hid(0x01, 0x01);
       expect(HidMapper.getZmkKeyName(genericDesktopUsage)).toBeNull();
     });
+
+    it('should convert consumer page keys to ZMK names', () => {
+      expect(HidMapper.getZmkKeyName(hid(0x0C, 0xE9))).toBe('C_VOL_UP');
+      expect(HidMapper.getZmkKeyName(hid(0x0C, 0xCD))).toBe('C_PLAY_PAUSE');
+      expect(HidMapper.getZmkKeyName(hid(0x0C, 0x6F))).toBe('C_BRI_UP');
+      expect(HidMapper.getZmkKeyName(hid(0x0C, 0x192))).toBe('C_AL_CALC');
+    });
+  });
+
+  describe('implicit modifiers', () => {
+    // Implicit modifiers live in the high byte of the usage page
+    const withMods = (mods: number, usage: number) => (mods << 24) + usage;
+
+    it('should wrap keys in modifier functions', () => {
+      expect(HidMapper.getZmkKeyName(withMods(0x01, hid(KB, 0x06)))).toBe('LC(C)');
+      expect(HidMapper.getZmkKeyName(withMods(0x40, hid(KB, 0x1F)))).toBe('RA(N2)');
+    });
+
+    it('should nest multiple modifiers with the lowest bit outermost', () => {
+      expect(HidMapper.getZmkKeyName(withMods(0x03, hid(KB, 0x17)))).toBe('LC(LS(T))');
+      expect(HidMapper.getZmkKeyName(withMods(0x88, hid(KB, 0x04)))).toBe('LG(RG(A))');
+    });
+
+    it('should keep the base key label in getKeyCode', () => {
+      const keyCode = HidMapper.getKeyCode(withMods(0x02, hid(KB, 0x1E)));
+
+      expect(keyCode?.zmkName).toBe('LS(N1)');
+      expect(keyCode?.label).toBe('1');
+    });
   });
 
   describe('getKeyCode', () => {
@@ -2,14 +2,18 @@
  * HidMapper: Converts HID usage codes to ZMK key names
  *
  * Maps USB HID keyboard page usage IDs to ZMK key name constants
- * (e.g., HID 0x04 → "A", HID 0x2C → "SPACE", HID 0x1E → "N1")
+ * (e.g., HID 0x04 → "A", HID 0x2C → "SPACE", HID 0x1E → "N1").
+ * Implicit modifiers are rendered as ZMK modifier functions
+ * (e.g., Ctrl+Shift+T → "LC(LS(T))").
  */
 
 import {
   hid_usage_get_label,
+  hid_usage_implicit_mods,
   hid_usage_page_and_id_from_usage,
 } from '../hid-usages';
 import { KeyCode } from './types';
+import { ConsumerKeyNames } from './ConsumerKeyNames';
 
 // USB HID Keyboard/Keypad Page (0x07)
 const HID_PAGE_KEYBOARD = 0x07;
@@ -96,18 +100,47 @@ const KEY_NAME_OVERRIDES: Record<string, string> = {
   '/': 'FSLH',
 };
 
+/**
+ * ZMK modifier functions (dt-bindings/zmk/modifiers.h), indexed by implicit
+ * modifier bit: LC = left control (bit 0) ... RG = right GUI (bit 7)
+ */
+export const MODIFIER_FUNCTIONS = ['LC', 'LS', 'LA', 'LG', 'RC', 'RS', 'RA', 'RG'];
+
 export class HidMapper {
   /**
    * Get ZMK key name from HID usage code
    *
-   * @param hidUsage - HID usage code (16-bit page + 16-bit ID)
-   * @returns ZMK key name or null if unknown
+   * @param hidUsage - HID usage code (16-bit page + 16-bit ID), with any
+   *                   implicit modifiers in the high byte of the page
+   * @returns ZMK key name (e.g., "LC(LS(T))") or null if unknown
    */
   static getZmkKeyName(hidUsage: number): string | null {
+    const mods = hid_usage_implicit_mods(hidUsage);
+    const keyName = this.getBaseKeyName(hidUsage & 0x00ffffff);
+    if (!keyName || mods === 0) {
+      return keyName;
+    }
+
+    // Wrap from the innermost (highest) modifier out, so LC ends up outermost
+    return MODIFIER_FUNCTIONS.reduceRight(
+      (name, fn, bit) => (mods & (1 << bit) ? `${fn}(${name})` : name),
+      keyName
+    );
+  }
+
+  /**
+   * Get ZMK key name for a usage without implicit modifiers
+   */
+  private static getBaseKeyName(hidUsage: number): string | null {
     const [page, id] = hid_usage_page_and_id_from_usage(hidUsage);
 
+    // Consumer page names come from their own table
+    if (page === HID_PAGE_CONSUMER) {
+      return ConsumerKeyNames.getName(id);
+    }
+
     // Only handle keyboard and consumer pages
-    if (page !== HID_PAGE_KEYBOARD && page !== HID_PAGE_CONSUMER) {
+    if (page !== HID_PAGE_KEYBOARD) {
       return null;
     }
 
@@ -165,7 +198,7 @@ export class HidMapper {
       return null;
     }
 
-    const [page, id] = hid_usage_page_and_id_from_usage(hidUsage);
+    const [page, id] = hid_usage_page_and_id_from_usage(hidUsage & 0x00ffffff);
     const label = hid_usage_get_label(page, id) || '';
 
     return {
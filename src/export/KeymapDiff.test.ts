@@ -0,0 +1,119 @@
+/**
+ * Unit tests for KeymapDiff
+ *
+ * Tests comparing keymaps layer by layer and key by key
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KeymapDiff } from './KeymapDiff';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import type { Binding, Layer } from './types';
+
+// Static behavior table: 0 trans, 1 kp, 2 mt, 4 mo
+const kp = (position: number, hid: number): Binding => ({
+  behaviorId: 1,
+  param1: hid,
+  param2: null,
+  position,
+});
+const A = 0x70004;
+const B = 0x70005;
+const LCTRL = 0x700e0;
+
+const base: Layer = { id: 0, label: 'Base', bindings: [kp(0, A), kp(1, B)] };
+const lower: Layer = {
+  id: 1,
+  label: 'Lower',
+  bindings: [
+    { behaviorId: 0, param1: 0, param2: null, position: 0 },
+    { behaviorId: 4, param1: 0, param2: null, position: 1 },
+  ],
+};
+
+describe('KeymapDiff', () => {
+  it('should report no changes for equal keymaps', () => {
+    expect(KeymapDiff.compare({ layers: [base, lower] }, { layers: [base, lower] })).toEqual([]);
+  });
+
+  it('should describe changed bindings', () => {
+    const changed: Layer = {
+      ...lower,
+      bindings: [{ behaviorId: 2, param1: LCTRL, param2: A, position: 0 }, lower.bindings[1]],
+    };
+
+    const changes = KeymapDiff.compare({ layers: [base, lower] }, { layers: [base, changed] });
+
+    expect(changes).toEqual([
+      {
+        type: 'binding-changed',
+        layerIndex: 1,
+        label: 'Lower',
+        position: 0,
+        before: '&trans',
+        after: '&mt LCTRL A',
+        description: 'Layer Lower, key 0: &trans → &mt LCTRL A',
+      },
+    ]);
+  });
+
+  it('should report added, removed and renamed layers', () => {
+    const raise: Layer = { id: 2, label: 'Raise', bindings: [] };
+
+    expect(
+      KeymapDiff.compare({ layers: [base, lower] }, { layers: [{ ...base, label: 'Qwerty' }] }).map(
+        (c) => c.description
+      )
+    ).toEqual(['Layer Base renamed to Qwerty', 'Layer Lower removed']);
+    expect(
+      KeymapDiff.compare({ layers: [base] }, { layers: [base, raise] }).map((c) => c.description)
+    ).toEqual(['Layer Raise added']);
+  });
+
+  it('should not rename layers one side has no name for', () => {
+    const unnamed = [
+      { ...base, label: '' },
+      { ...lower, label: '' },
+    ];
+
+    expect(KeymapDiff.compare({ layers: unnamed }, { layers: [base, lower] })).toEqual([]);
+  });
+
+  it('should report keys only one side has', () => {
+    const longer: Layer = { ...base, bindings: [...base.bindings, kp(2, A)] };
+
+    const changes = KeymapDiff.compare({ layers: [longer] }, { layers: [base] });
+
+    expect(changes.map((c) => c.description)).toEqual([
+      'Layer Base, key 2: &kp A → (no binding)',
+    ]);
+  });
+
+  it('should compare layer parameters by layer index', () => {
+    // The keyboard's layers have IDs 4 and 7; the file's are numbered by index
+    const device = [
+      { ...base, id: 4 },
+      { ...lower, id: 7, bindings: [lower.bindings[0], { ...lower.bindings[1], param1: 4 }] },
+    ];
+
+    expect(KeymapDiff.compare({ layers: [base, lower] }, { layers: device })).toEqual([]);
+  });
+
+  it('should compare behaviors by what they mean, not by their IDs', () => {
+    // The keyboard numbers key press 9 where the static table has 1
+    const registry = new BehaviorRegistry([
+      {
+        id: 9,
+        code: 'kp',
+        displayName: 'Key Press',
+        paramCount: 1,
+        description: '',
+      },
+    ]);
+    const device: Layer = {
+      ...base,
+      bindings: base.bindings.map((binding) => ({ ...binding, behaviorId: 9 })),
+    };
+
+    expect(KeymapDiff.compare({ layers: [base] }, { layers: [device], registry })).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * KeymapDiff: Compares two keymaps layer by layer and key by key
+ *
+ * Works on the Layer/Binding model, so any two keymaps can be compared: the
+ * keyboard's against an imported file or backup, or two files. Each side
+ * brings the behaviors its behavior IDs refer to, and bindings are compared
+ * as the ZMK text they would be written as, so a keyboard's local behavior
+ * IDs and a file's built-in table compare equal when they mean the same.
+ */
+
+import { Layer } from './types';
+import { BehaviorMapper } from './BehaviorMapper';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import { HidMapper } from './HidMapper';
+
+// Shown in descriptions for a key that has no binding on one side
+const NONE = '(no binding)';
+
+/**
+ * One keymap to compare
+ */
+export interface KeymapSide {
+  layers: Layer[];
+  /** Behaviors the behavior IDs refer to (static table if omitted) */
+  registry?: BehaviorRegistry;
+}
+
+/**
+ * A difference between two keymaps
+ *
+ * Layers are matched by index, the way imports apply them; a layer at the
+ * same index with another name is renamed. A layer without a name (as in
+ * QMK and VIA files) is not renamed, as imports keep the keyboard's name. Layers only one side has are
+ * added or removed as a whole, without their bindings.
+ */
+export type KeymapChange =
+  | {
+      type: 'layer-added' | 'layer-removed';
+      layerIndex: number;
+      label: string;
+      description: string;
+    }
+  | {
+      type: 'layer-renamed';
+      layerIndex: number;
+      label: string;
+      previousLabel: string;
+      description: string;
+    }
+  | {
+      type: 'binding-changed';
+      layerIndex: number;
+      /** Name of the layer in the newer keymap */
+      label: string;
+      position: number;
+      /** Binding as ZMK text; null where the key has no binding */
+      before: string | null;
+      after: string | null;
+      description: string;
+    };
+
+export class KeymapDiff {
+  /**
+   * Compare two keymaps
+   *
+   * @param before - Older keymap
+   * @param after - Newer keymap
+   * @returns Changes from before to after: per layer its own change first,
+   *          then its bindings by key position
+   */
+  static compare(before: KeymapSide, after: KeymapSide): KeymapChange[] {
+    const changes: KeymapChange[] = [];
+    const count = Math.max(before.layers.length, after.layers.length);
+
+    for (let index = 0; index < count; index++) {
+      const previous = before.layers[index];
+      const layer = after.layers[index];
+
+      if (!previous) {
+        changes.push({
+          type: 'layer-added',
+          layerIndex: index,
+          label: layer.label,
+          description: `Layer ${layer.label} added`,
+        });
+        continue;
+      }
+      if (!layer) {
+        changes.push({
+          type: 'layer-removed',
+          layerIndex: index,
+          label: previous.label,
+          description: `Layer ${previous.label} removed`,
+        });
+        continue;
+      }
+
+      if (previous.label && layer.label && previous.label !== layer.label) {
+        changes.push({
+          type: 'layer-renamed',
+          layerIndex: index,
+          label: layer.label,
+          previousLabel: previous.label,
+          description: `Layer ${previous.label} renamed to ${layer.label}`,
+        });
+      }
+
+      const oldBindings = this.formatBindings(previous, before);
+      const newBindings = this.formatBindings(layer, after);
+      const positions = [...new Set([...oldBindings.keys(), ...newBindings.keys()])].sort(
+        (a, b) => a - b
+      );
+
+      for (const position of positions) {
+        const was = oldBindings.get(position) ?? null;
+        const now = newBindings.get(position) ?? null;
+        if (was !== now) {
+          changes.push({
+            type: 'binding-changed',
+            layerIndex: index,
+            label: layer.label,
+            position,
+            before: was,
+            after: now,
+            description: `Layer ${layer.label}, key ${position}: ${was ?? NONE} → ${now ?? NONE}`,
+          });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Format a layer's bindings as ZMK text by key position
+   *
+   * Layer parameters refer to layers by ID, which differ between a keyboard
+   * and a file, so they are written as layer indexes.
+   */
+  private static formatBindings(layer: Layer, side: KeymapSide): Map<number, string> {
+    const behaviors = side.registry ?? BehaviorMapper;
+    const layerIds = side.layers.map((l) => l.id);
+
+    return new Map(
+      layer.bindings.map((binding) => {
+        const index = layerIds.indexOf(binding.param1);
+        const indexed =
+          behaviors.isLayerBehavior(binding.behaviorId) && index >= 0
+            ? { ...binding, param1: index }
+            : binding;
+
+        return [
+          binding.position,
+          BehaviorMapper.formatBinding(
+            indexed,
+            HidMapper.getZmkKeyName.bind(HidMapper),
+            side.registry
+          ),
+        ];
+      })
+    );
+  }
+}
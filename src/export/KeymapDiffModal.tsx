@@ -0,0 +1,75 @@
+/**
+ * KeymapDiffModal: Lists the differences between two keymaps
+ *
+ * Shows the changes found by KeymapDiff, grouped by layer, with the binding
+ * each changed key had and has now.
+ */
+
+import { Button } from 'react-aria-components';
+import { CircleX } from 'lucide-react';
+import { GenericModal } from '../GenericModal';
+import { useModalRef } from '../misc/useModalRef';
+import { KeymapChange } from './KeymapDiff';
+
+export interface KeymapDiffModalProps {
+  open: boolean;
+  /** What is compared, e.g. "corne.keymap → Keyboard" */
+  title: string;
+  changes: KeymapChange[];
+  /** Why the keymaps could not be compared; shown instead of the changes */
+  error?: string;
+  onClose: () => void;
+}
+
+export function KeymapDiffModal({ open, title, changes, error, onClose }: KeymapDiffModalProps) {
+  const ref = useModalRef(open, true);
+
+  const layers = new Map<number, KeymapChange[]>();
+  for (const change of changes) {
+    layers.set(change.layerIndex, [...(layers.get(change.layerIndex) ?? []), change]);
+  }
+
+  return (
+    <GenericModal ref={ref} onClose={onClose} className="min-w-min w-[50vw] flex flex-col gap-3">
+      <h2 className="text-lg">{title}</h2>
+      {error ? (
+        <p className="flex items-start gap-2">
+          <CircleX className="shrink-0 w-4 mt-0.5 text-red-500" aria-label="Error" />
+          {error}
+        </p>
+      ) : changes.length === 0 ? (
+        <p>The keymaps are the same.</p>
+      ) : (
+        <div className="max-h-[60vh] overflow-auto flex flex-col gap-3">
+          {[...layers].map(([index, layerChanges]) => (
+            <div key={index}>
+              <h3 className="font-semibold">
+                Layer {index}: {layerChanges[0].label}
+              </h3>
+              <ul className="list-disc pl-6">
+                {layerChanges.map((change, i) => (
+                  <li key={i}>
+                    {change.type === 'binding-changed' ? (
+                      <>
+                        Key {change.position}:{' '}
+                        <code className="text-red-500">{change.before ?? '(no binding)'}</code> →{' '}
+                        <code className="text-green-600">{change.after ?? '(no binding)'}</code>
+                      </>
+                    ) : (
+                      change.description
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end">
+        <Button className="rounded bg-base-200 hover:bg-base-300 px-3 py-2" onPress={onClose}>
+          Close
+        </Button>
+      </div>
+    </GenericModal>
+  );
+}
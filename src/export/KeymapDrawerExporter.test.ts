@@ -0,0 +1,153 @@
+/**
+ * Unit tests for KeymapDrawerExporter
+ *
+ * Tests generating keymap-drawer YAML and SVG diagrams
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { KeymapDrawerExporter } from './KeymapDrawerExporter';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import type { Keymap, Layer } from './types';
+
+// Key at (x, y) in key units; layout values are hundredths of a unit
+const key = (x: number, y: number, extra: Partial<PhysicalLayout['keys'][number]> = {}) => ({
+  x: x * 100,
+  y: y * 100,
+  width: 100,
+  height: 100,
+  r: 0,
+  rx: 0,
+  ry: 0,
+  ...extra,
+});
+
+const makeKeymap = (layers: Layer[]): Keymap => ({
+  layers,
+  deviceName: 'Corne (wireless)',
+  layoutName: 'default',
+  timestamp: new Date(),
+  version: '1.0.0',
+  totalBindings: 0,
+});
+
+// Static behavior table: 0 trans, 1 kp, 2 mt, 3 lt, 4 mo, 5 tog, 6 bt, 7 none
+const keymap = makeKeymap([
+  {
+    id: 4,
+    label: 'Base',
+    bindings: [
+      { behaviorId: 1, param1: 0x70004, param2: null, position: 0 },
+      { behaviorId: 2, param1: 0x700e1, param2: 0x70005, position: 1 },
+      { behaviorId: 3, param1: 9, param2: 0x7002c, position: 2 },
+      { behaviorId: 4, param1: 9, param2: null, position: 3 },
+    ],
+  },
+  {
+    id: 9,
+    label: 'Nav & Num',
+    bindings: [
+      { behaviorId: 0, param1: 0, param2: null, position: 0 },
+      { behaviorId: 7, param1: 0, param2: null, position: 1 },
+      { behaviorId: 1, param1: 0x01070006, param2: null, position: 2 },
+      { behaviorId: 5, param1: 4, param2: null, position: 3 },
+    ],
+  },
+]);
+
+describe('KeymapDrawerExporter', () => {
+  describe('getLegend', () => {
+    it('should label key presses as the editor does', () => {
+      const legends = KeymapDrawerExporter.getLegends(keymap);
+
+      expect(legends[0][0]).toEqual({ t: 'A' });
+      expect(legends[1][2]).toEqual({ t: 'Ctrl+C' });
+    });
+
+    it('should give hold-taps a tap and a hold legend', () => {
+      const legends = KeymapDrawerExporter.getLegends(keymap);
+
+      expect(legends[0][1]).toEqual({ t: 'B', h: 'Shft' });
+      expect(legends[0][2]).toEqual({ t: '␣', h: 'Nav & Num' });
+    });
+
+    it('should name layers instead of their IDs', () => {
+      const legends = KeymapDrawerExporter.getLegends(keymap);
+
+      expect(legends[0][3]).toEqual({ t: 'Nav & Num' });
+      expect(legends[1][3]).toEqual({ t: 'Base', h: 'toggle' });
+    });
+
+    it('should mark transparent keys and leave &none blank', () => {
+      const legends = KeymapDrawerExporter.getLegends(keymap);
+
+      expect(legends[1][0]).toEqual({ t: '▽', type: 'trans' });
+      expect(legends[1][1]).toEqual({ t: '' });
+    });
+
+    it('should resolve behaviors through the device registry', () => {
+      const registry = BehaviorRegistry.fromDeviceBehaviors([
+        { id: 20, displayName: 'Mod-Tap', metadata: [] },
+      ]);
+
+      expect(
+        KeymapDrawerExporter.getLegend(
+          { behaviorId: 20, param1: 0x700e0, param2: 0x70004, position: 0 },
+          keymap,
+          registry
+        )
+      ).toEqual({ t: 'A', h: 'Ctrl' });
+    });
+  });
+
+  describe('generateYaml', () => {
+    it('should write every layer under its name', () => {
+      const yaml = KeymapDrawerExporter.generateYaml(keymap);
+
+      expect(yaml).toContain('  zmk_keyboard: "corne_wireless"');
+      expect(yaml).toContain(
+        '  "Base":\n    - ["A", {t: "B", h: "Shft"}, {t: "␣", h: "Nav & Num"}, "Nav & Num"]'
+      );
+      expect(yaml).toContain('    - [{t: "▽", type: trans}, "", "Ctrl+C", {t: "Base", h: "toggle"}]');
+    });
+
+    it('should put each physical row on its own line', () => {
+      const layout: PhysicalLayout = {
+        name: 'grid',
+        keys: [key(0, 0), key(1, 0), key(0, 1), key(1, 1)],
+      };
+
+      const yaml = KeymapDrawerExporter.generateYaml(keymap, { layout });
+
+      expect(yaml).toContain('  "Base":\n    - ["A", {t: "B", h: "Shft"}]\n    - [{t: "␣"');
+    });
+  });
+
+  describe('generateSvg', () => {
+    const layout: PhysicalLayout = {
+      name: 'thumbs',
+      keys: [key(0, 0), key(1, 0), key(0, 1, { width: 200 }), key(3, 1, { r: 1500, rx: 300, ry: 200 })],
+    };
+
+    it('should draw keys with the geometry of the physical layout', () => {
+      const svg = KeymapDrawerExporter.generateSvg(keymap, layout);
+
+      expect(svg).toContain('<rect x="48" y="0" width="46" height="46" rx="4"/>');
+      expect(svg).toContain('<rect x="0" y="48" width="94" height="46" rx="4"/>');
+    });
+
+    it('should rotate keys around their rotation origin', () => {
+      const svg = KeymapDrawerExporter.generateSvg(keymap, layout);
+
+      expect(svg).toContain('<g class="key" transform="rotate(15 144 96)">');
+    });
+
+    it('should draw one diagram per layer, escaping its name', () => {
+      const svg = KeymapDrawerExporter.generateSvg(keymap, layout);
+
+      expect(svg.match(/<g class="layer">/g)).toHaveLength(2);
+      expect(svg).toContain('class="label">Nav &amp; Num</text>');
+      expect(svg).toContain('<g class="key trans">');
+    });
+  });
+});
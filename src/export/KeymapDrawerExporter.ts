@@ -0,0 +1,355 @@
+/**
+ * KeymapDrawerExporter: Generates keymap-drawer YAML and SVG diagrams
+ *
+ * keymap-drawer (https://github.com/caksoylar/keymap-drawer) draws keymaps
+ * from a YAML file listing the legend of every key on every layer. Legends use
+ * the key labels shown in the editor; hold-taps such as &mt and &lt get a tap
+ * legend and a hold legend, the way keymap-drawer's own ZMK parser writes them.
+ *
+ * The SVG is drawn here rather than by keymap-drawer, one diagram per layer,
+ * with the key geometry PhysicalLayout uses on screen.
+ */
+
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import {
+  hid_usage_get_labels,
+  hid_usage_implicit_mods,
+  hid_usage_page_and_id_from_usage,
+} from '../hid-usages';
+import { Binding, Keymap } from './types';
+import { BehaviorMapper } from './BehaviorMapper';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import { HidMapper } from './HidMapper';
+import { LayoutFormatter } from './LayoutFormatter';
+
+/**
+ * Legend of one key, in keymap-drawer's terms
+ */
+export interface KeyLegend {
+  /** Tap legend, shown in the middle of the key */
+  t: string;
+  /** Hold legend, shown at the bottom of the key */
+  h?: string;
+  /** trans: transparent key, drawn faded */
+  type?: 'trans';
+}
+
+/**
+ * Size of one key unit in the SVG, matching PhysicalLayout's default
+ */
+const ONE_U = 48;
+
+/**
+ * Space around each layer diagram and above it for the layer name
+ */
+const MARGIN = 12;
+const TITLE_HEIGHT = 24;
+
+/**
+ * Keys per YAML line when the physical layout is unknown
+ */
+const KEYS_PER_ROW = 6;
+
+/**
+ * Keys whose centers are closer than this (in key units) share a YAML line
+ */
+const ROW_TOLERANCE = 0.5;
+
+export class KeymapDrawerExporter {
+  /**
+   * Generate a keymap-drawer YAML file
+   *
+   * Keys are written one physical row per line when the layout is known.
+   * keymap-drawer flattens the rows, so this only affects readability.
+   *
+   * @param keymap - Complete keymap configuration
+   * @param options - Device behaviors (static table if omitted) and physical layout
+   * @returns File content
+   */
+  static generateYaml(
+    keymap: Keymap,
+    options: { registry?: BehaviorRegistry; layout?: PhysicalLayout } = {}
+  ): string {
+    const keyboard = keymap.deviceName
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '');
+
+    const lines = [
+      '# keymap-drawer keymap, see https://github.com/caksoylar/keymap-drawer',
+      '# zmk_keyboard names the board in the ZMK repository; change it if it differs',
+      'layout:',
+      `  zmk_keyboard: ${JSON.stringify(keyboard)}`,
+      'layers:',
+    ];
+
+    for (const [layerIndex, legends] of this.getLegends(keymap, options.registry).entries()) {
+      lines.push(`  ${JSON.stringify(keymap.layers[layerIndex].label)}:`);
+      for (const row of this.splitRows(legends, options.layout)) {
+        lines.push(`    - [${row.map((legend) => this.formatLegend(legend)).join(', ')}]`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Generate a standalone SVG drawing every layer
+   *
+   * Keys are placed and rotated as PhysicalLayout does: at (x, y), turned by
+   * r degrees around (rx, ry), or around the key's own corner when unset.
+   * Layers are stacked top to bottom, each headed by its name.
+   *
+   * @param keymap - Complete keymap configuration
+   * @param layout - Physical layout of the keyboard
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns SVG document
+   */
+  static generateSvg(keymap: Keymap, layout: PhysicalLayout, registry?: BehaviorRegistry): string {
+    const keys = layout.keys.map((key) => ({
+      x: key.x / 100,
+      y: key.y / 100,
+      width: key.width / 100,
+      height: key.height / 100,
+      r: key.r / 100,
+      rx: key.rx / 100,
+      ry: key.ry / 100,
+    }));
+
+    // Bounds of the rotated keys, so that no key is cut off
+    const corners = keys.flatMap((key) =>
+      [
+        [key.x, key.y],
+        [key.x + key.width, key.y],
+        [key.x, key.y + key.height],
+        [key.x + key.width, key.y + key.height],
+      ].map(([x, y]) => this.rotate(x, y, key.r, key.rx || key.x, key.ry || key.y))
+    );
+    const minX = Math.min(0, ...corners.map(([x]) => x));
+    const minY = Math.min(0, ...corners.map(([, y]) => y));
+    const maxX = Math.max(0, ...corners.map(([x]) => x));
+    const maxY = Math.max(0, ...corners.map(([, y]) => y));
+
+    const layerHeight = TITLE_HEIGHT + (maxY - minY) * ONE_U + MARGIN;
+    const width = (maxX - minX) * ONE_U + 2 * MARGIN;
+    const height = keymap.layers.length * layerHeight + MARGIN;
+    const offsetX = MARGIN - minX * ONE_U;
+
+    const layers = this.getLegends(keymap, registry).map((legends, layerIndex) => {
+      const top = MARGIN + layerIndex * layerHeight;
+      const drawn = keys.slice(0, legends.length).map((key, position) => {
+        const legend = legends[position];
+        const x = key.x * ONE_U;
+        const y = key.y * ONE_U;
+        const w = key.width * ONE_U - 2;
+        const h = key.height * ONE_U - 2;
+        const rotation = key.r
+          ? ` transform="rotate(${this.num(key.r)} ${this.num((key.rx || key.x) * ONE_U)} ${this.num((key.ry || key.y) * ONE_U)})"`
+          : '';
+
+        const text = [
+          `<text x="${this.num(x + w / 2)}" y="${this.num(y + h / 2)}" class="tap">${this.escape(legend.t)}</text>`,
+        ];
+        if (legend.h) {
+          text.push(
+            `<text x="${this.num(x + w / 2)}" y="${this.num(y + h - 6)}" class="hold">${this.escape(legend.h)}</text>`
+          );
+        }
+
+        return [
+          `<g class="key${legend.type ? ` ${legend.type}` : ''}"${rotation}>`,
+          `<rect x="${this.num(x)}" y="${this.num(y)}" width="${this.num(w)}" height="${this.num(h)}" rx="4"/>`,
+          ...text,
+          '</g>',
+        ].join('');
+      });
+
+      return [
+        `  <g class="layer">`,
+        `    <text x="${MARGIN}" y="${this.num(top + TITLE_HEIGHT / 2)}" class="label">${this.escape(keymap.layers[layerIndex].label)}</text>`,
+        `    <g transform="translate(${this.num(offsetX)} ${this.num(top + TITLE_HEIGHT - minY * ONE_U)})">`,
+        ...drawn.map((key) => `      ${key}`),
+        '    </g>',
+        '  </g>',
+      ].join('\n');
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.num(width)}" height="${this.num(height)}" viewBox="0 0 ${this.num(width)} ${this.num(height)}">`,
+      '  <style>',
+      '    svg { font-family: sans-serif; font-size: 12px; }',
+      '    rect { fill: #fdfdfd; stroke: #c9cccf; stroke-width: 1; }',
+      '    text { text-anchor: middle; dominant-baseline: middle; fill: #24292e; }',
+      '    text.hold { font-size: 8px; fill: #6a737d; }',
+      '    text.label { text-anchor: start; font-weight: bold; }',
+      '    .trans text { fill: #a0a0a0; }',
+      '  </style>',
+      ...layers,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Get the legend of every key on every layer
+   *
+   * @param keymap - Complete keymap configuration
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns Legends by layer, in key position order
+   */
+  static getLegends(keymap: Keymap, registry?: BehaviorRegistry): KeyLegend[][] {
+    return keymap.layers.map((layer) => {
+      const legends: KeyLegend[] = [];
+      for (const binding of layer.bindings) {
+        legends[binding.position] = this.getLegend(binding, keymap, registry);
+      }
+      return Array.from(legends, (legend) => legend ?? { t: '' });
+    });
+  }
+
+  /**
+   * Get the legend of one binding
+   *
+   * Layer parameters are the device's layer IDs and are shown as layer names.
+   *
+   * @param binding - Binding to describe
+   * @param keymap - Keymap the binding belongs to, for layer names
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns Key legend
+   */
+  static getLegend(binding: Binding, keymap: Keymap, registry?: BehaviorRegistry): KeyLegend {
+    const behaviors = registry ?? BehaviorMapper;
+    const code = behaviors.getBehaviorCode(binding.behaviorId);
+    const layerName = (layerId: number) =>
+      keymap.layers.find((layer) => layer.id === layerId)?.label ?? `${layerId}`;
+    const param2 = binding.param2 ?? 0;
+
+    switch (code) {
+      case 'trans':
+        return { t: '▽', type: 'trans' };
+      case 'none':
+        return { t: '' };
+      case 'kp':
+        return { t: this.getKeyLabel(binding.param1) };
+      case 'mt':
+        return { t: this.getKeyLabel(param2), h: this.getKeyLabel(binding.param1) };
+      case 'lt':
+        return { t: this.getKeyLabel(param2), h: layerName(binding.param1) };
+      case 'mo':
+        return { t: layerName(binding.param1) };
+      case 'tog':
+        return { t: layerName(binding.param1), h: 'toggle' };
+      case 'to':
+        return { t: layerName(binding.param1), h: 'to' };
+      case 'sk':
+        return { t: this.getKeyLabel(binding.param1), h: 'sticky' };
+    }
+
+    if (code === null) {
+      return { t: `behavior ${binding.behaviorId}` };
+    }
+
+    // Anything else is shown as its binding, with the behavior as hold legend
+    const formatted = BehaviorMapper.formatBinding(
+      binding,
+      HidMapper.getZmkKeyName.bind(HidMapper),
+      registry
+    );
+    const params = formatted.slice(`&${code}`.length).trim();
+    return params ? { t: params, h: code } : { t: code };
+  }
+
+  /**
+   * Get the short label the editor shows for a HID usage
+   *
+   * Implicit modifiers are prefixed, joined with "+" (e.g. "Ctrl+C").
+   *
+   * @param usage - HID usage, with implicit modifiers in the top byte
+   * @returns Key label
+   */
+  static getKeyLabel(usage: number): string {
+    const [page, id] = hid_usage_page_and_id_from_usage(usage);
+    const label = hid_usage_get_labels(page & 0xff, id).short?.replace(/^Keyboard /, '');
+    const mods = hid_usage_implicit_mods(usage);
+
+    const labels: string[] = [];
+    for (let bit = 0; bit < 8; bit++) {
+      if (mods & (1 << bit)) {
+        labels.push(hid_usage_get_labels(0x07, 0xe0 + bit).short ?? '');
+      }
+    }
+    labels.push(label ?? `0x${(usage & 0xffffff).toString(16)}`);
+
+    return labels.join('+');
+  }
+
+  /**
+   * Split legends into lines, one per physical row when the layout is known
+   */
+  private static splitRows(legends: KeyLegend[], layout?: PhysicalLayout): KeyLegend[][] {
+    const keyCount = Math.min(legends.length, layout?.keys.length ?? 0);
+    const rows: KeyLegend[][] = [];
+
+    if (layout && keyCount > 0) {
+      const centers = layout.keys.slice(0, keyCount).map((key) => LayoutFormatter.getKeyCenter(key));
+      const rowOf = LayoutFormatter.cluster(
+        centers.map((center) => center.y),
+        (value, _start, previous) => value - previous >= ROW_TOLERANCE
+      );
+      for (let i = 0; i < keyCount; i++) {
+        if (i === 0 || rowOf[i] !== rowOf[i - 1]) {
+          rows.push([]);
+        }
+        rows[rows.length - 1].push(legends[i]);
+      }
+    }
+
+    // Keys without a physical key, or all of them without a layout
+    for (let i = keyCount; i < legends.length; i += KEYS_PER_ROW) {
+      rows.push(legends.slice(i, i + KEYS_PER_ROW));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Write a legend as a YAML flow value
+   */
+  private static formatLegend(legend: KeyLegend): string {
+    if (!legend.h && !legend.type) {
+      return JSON.stringify(legend.t);
+    }
+
+    const fields = [`t: ${JSON.stringify(legend.t)}`];
+    if (legend.h) {
+      fields.push(`h: ${JSON.stringify(legend.h)}`);
+    }
+    if (legend.type) {
+      fields.push(`type: ${legend.type}`);
+    }
+    return `{${fields.join(', ')}}`;
+  }
+
+  /**
+   * Rotate a point by `r` degrees around (ox, oy)
+   */
+  private static rotate(x: number, y: number, r: number, ox: number, oy: number): number[] {
+    const angle = r * (Math.PI / 180);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [ox + (x - ox) * cos - (y - oy) * sin, oy + (x - ox) * sin + (y - oy) * cos];
+  }
+
+  private static num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
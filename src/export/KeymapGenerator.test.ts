@@ -6,7 +6,8 @@
 
 import { describe, it, expect } from 'vitest';
 import { KeymapGenerator } from './KeymapGenerator';
-import type { Keymap, Layer } from './types';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import type { Keymap, KeymapExtras, Layer } from './types';
 
 describe('KeymapGenerator', () => {
   // Sample test data
@@ -82,6 +83,212 @@ describe('KeymapGenerator', () => {
       // Check for proper structure
       expect(result).toMatch(/\/ \{[\s\S]*keymap \{[\s\S]*\};\s*\};/);
     });
+
+    it('should omit the metadata header when includeMetadata is off', () => {
+      const result = KeymapGenerator.generate(sampleKeymap, {
+        config: { includeMetadata: false },
+      });
+
+      expect(result).not.toContain('Exported from ZMK Studio');
+      expect(result).not.toContain('Date:');
+      expect(result.startsWith('#include <behaviors.dtsi>')).toBe(true);
+    });
+
+    it('should produce identical output across exports without metadata', () => {
+      const later = { ...sampleKeymap, timestamp: new Date('2025-12-01T00:00:00Z') };
+      const options = { config: { includeMetadata: false } };
+
+      expect(KeymapGenerator.generate(later, options)).toBe(
+        KeymapGenerator.generate(sampleKeymap, options)
+      );
+    });
+
+    it('should omit the footer when includeComments is off', () => {
+      const result = KeymapGenerator.generate(sampleKeymap, {
+        config: { includeComments: false },
+      });
+
+      expect(result).not.toContain('This export does not include:');
+      expect(result.trimEnd().endsWith('};')).toBe(true);
+    });
+  });
+
+  describe('extras', () => {
+    const extras: KeymapExtras = {
+      holdTaps: [
+        {
+          name: 'homerow_mods',
+          label: 'hm',
+          bindings: ['&kp', '&kp'],
+          tappingTermMs: 200,
+          flavor: 'balanced',
+          quickTapMs: 150,
+          holdTriggerKeyPositions: [0, 1, 2],
+        },
+      ],
+      tapDances: [
+        { name: 'tap_dance_0', label: 'td0', bindings: ['&kp N1', '&kp N2'], tappingTermMs: 180 },
+      ],
+      macros: [
+        {
+          name: 'zed_em_kay',
+          label: 'zed',
+          displayName: 'ZMK Macro',
+          bindings: ['&macro_press', '&kp LSHFT', '&macro_tap', '&kp Z', '&macro_release', '&kp LSHFT'],
+          waitMs: 30,
+        },
+      ],
+      combos: [
+        { name: 'combo_esc', keyPositions: [0, 1], binding: '&kp ESC', timeoutMs: 50, layers: [0] },
+      ],
+    };
+
+    const registry = new BehaviorRegistry([
+      { id: 10, code: 'kp', displayName: 'Key Press', paramCount: 1, description: 'Key Press' },
+      {
+        id: 11,
+        code: 'homerow_mods',
+        displayName: 'homerow_mods',
+        paramCount: 2,
+        description: 'homerow_mods',
+        metadata: [
+          {
+            param1: [{ name: 'Hold', hidUsage: { keyboardMax: 0, consumerMax: 0 } }],
+            param2: [{ name: 'Tap', hidUsage: { keyboardMax: 0, consumerMax: 0 } }],
+          },
+        ],
+      },
+      { id: 12, code: 'zmk_macro', displayName: 'ZMK Macro', paramCount: 0, description: 'ZMK Macro' },
+      { id: 13, code: 'tap_dance_0', displayName: 'tap_dance_0', paramCount: 0, description: 'tap_dance_0' },
+    ]);
+
+    const customLayer: Layer = {
+      id: 0,
+      label: 'Base',
+      bindings: [
+        { behaviorId: 11, param1: (0x07 << 16) + 0xe0, param2: (0x07 << 16) + 0x04, position: 0 },
+        { behaviorId: 12, param1: 0, param2: null, position: 1 },
+        { behaviorId: 13, param1: 0, param2: null, position: 2 },
+        { behaviorId: 10, param1: (0x07 << 16) + 0x05, param2: null, position: 3 },
+      ],
+    };
+
+    it('should emit behaviors, macros and combos before the keymap', () => {
+      const result = KeymapGenerator.generate(
+        { ...sampleKeymap, layers: [customLayer] },
+        { registry, extras, config: { includeMetadata: false } }
+      );
+
+      expect(result.indexOf('behaviors {')).toBeGreaterThan(result.indexOf('#define BASE 0'));
+      expect(result.indexOf('macros {')).toBeGreaterThan(result.indexOf('behaviors {'));
+      expect(result.indexOf('combos {')).toBeGreaterThan(result.indexOf('macros {'));
+      expect(result.indexOf('keymap {')).toBeGreaterThan(result.indexOf('combos {'));
+    });
+
+    it('should generate a hold-tap node', () => {
+      const result = KeymapGenerator.generateExtras({ holdTaps: extras.holdTaps });
+
+      expect(result).toBe(`/ {
+  behaviors {
+    hm: homerow_mods {
+      compatible = "zmk,behavior-hold-tap";
+      #binding-cells = <2>;
+      tapping-term-ms = <200>;
+      quick-tap-ms = <150>;
+      flavor = "balanced";
+      hold-trigger-key-positions = <0 1 2>;
+      bindings = <&kp>, <&kp>;
+    };
+  };
+};`);
+    });
+
+    it('should generate a tap-dance node', () => {
+      const result = KeymapGenerator.generateExtras({ tapDances: extras.tapDances });
+
+      expect(result).toContain('td0: tap_dance_0 {');
+      expect(result).toContain('compatible = "zmk,behavior-tap-dance";');
+      expect(result).toContain('#binding-cells = <0>;');
+      expect(result).toContain('tapping-term-ms = <180>;');
+      expect(result).toContain('bindings = <&kp N1>, <&kp N2>;');
+    });
+
+    it('should pick the macro compatible from its parameter count', () => {
+      const result = KeymapGenerator.generateExtras({
+        macros: [
+          ...extras.macros!,
+          { name: 'with_param', label: 'wp', bindingCells: 1, bindings: ['&macro_param_1to1', '&kp MACRO_PLACEHOLDER'] },
+        ],
+      });
+
+      expect(result).toContain('zed: zed_em_kay {');
+      expect(result).toContain('compatible = "zmk,behavior-macro";');
+      expect(result).toContain('display-name = "ZMK Macro";');
+      expect(result).toContain('wait-ms = <30>;');
+      expect(result).toContain('bindings = <&macro_press>, <&kp LSHFT>, <&macro_tap>, <&kp Z>');
+      expect(result).toContain('compatible = "zmk,behavior-macro-one-param";');
+      expect(result).toContain('#binding-cells = <1>;');
+    });
+
+    it('should generate combos under a zmk,combos node', () => {
+      const result = KeymapGenerator.generateExtras({
+        combos: [...extras.combos!, { name: 'combo_tab', keyPositions: [1, 2], binding: '&kp TAB', slowRelease: true }],
+      });
+
+      expect(result).toContain(`  combos {
+    compatible = "zmk,combos";
+
+    combo_esc {
+      timeout-ms = <50>;
+      key-positions = <0 1>;
+      layers = <0>;
+      bindings = <&kp ESC>;
+    };
+
+    combo_tab {
+      key-positions = <1 2>;
+      slow-release;
+      bindings = <&kp TAB>;
+    };
+  };`);
+    });
+
+    it('should emit nothing without extras', () => {
+      expect(KeymapGenerator.generateExtras({})).toBe('');
+      expect(KeymapGenerator.generateExtras({ combos: [], macros: [] })).toBe('');
+    });
+
+    it('should reference custom behaviors by their node labels', () => {
+      const result = KeymapGenerator.generateLayer(customLayer, {
+        registry,
+        extras,
+        config: { formatBindings: 'expanded' },
+      });
+
+      expect(result).toContain('&hm LCTRL A');
+      expect(result).toContain('&zed');
+      expect(result).toContain('&td0');
+      expect(result).toContain('&kp B');
+      expect(result).not.toContain('homerow_mods');
+    });
+
+    it('should keep device labels for behaviors not in the extras', () => {
+      const result = KeymapGenerator.generateLayer(customLayer, {
+        registry,
+        config: { formatBindings: 'expanded' },
+      });
+
+      expect(result).toContain('&homerow_mods');
+      expect(result).toContain('&zmk_macro');
+    });
+
+    it('should only list missing extras in the footer', () => {
+      const result = KeymapGenerator.generateFooter({ combos: [], macros: [], holdTaps: [] });
+
+      expect(result).not.toContain('Combos');
+      expect(result).not.toContain('Macros');
+      expect(result).toContain('Custom behaviors other than hold-taps and tap-dances');
+    });
   });
 
   describe('generateMetadata', () => {
@@ -155,6 +362,31 @@ describe('KeymapGenerator', () => {
       expect(result).toContain('lower_layer {');
       expect(result).toContain('};');
     });
+
+    it('should write layer parameters as layer indexes when layer IDs have gaps', () => {
+      // The device's second layer has ID 5 after layers were added and removed
+      const layers: Layer[] = [
+        {
+          id: 0,
+          label: 'Base',
+          bindings: [
+            { behaviorId: 4, param1: 5, param2: null, position: 0 }, // &mo Lower
+            { behaviorId: 3, param1: 5, param2: (0x07 << 16) + 0x2B, position: 1 }, // &lt Lower TAB
+          ],
+        },
+        {
+          id: 5,
+          label: 'Lower',
+          bindings: [{ behaviorId: 5, param1: 0, param2: null, position: 0 }], // &tog Base
+        },
+      ];
+
+      const result = KeymapGenerator.generateKeymap(layers);
+
+      expect(result).toContain('&mo 1 &lt 1 TAB');
+      expect(result).toContain('&tog 0');
+      expect(result).not.toContain('5');
+    });
   });
 
   describe('generateLayer', () => {
@@ -197,6 +429,68 @@ describe('KeymapGenerator', () => {
       expect(bindingLines.length).toBe(2); // 12 bindings / 6 per row = 2 rows
     });
 
+    it('should format bindings following the physical layout', () => {
+      const layer: Layer = {
+        id: 0,
+        label: 'Split',
+        bindings: Array.from({ length: 4 }, (_, i) => ({
+          behaviorId: 0,
+          param1: 0,
+          param2: null,
+          position: i,
+        })),
+      };
+      const key = (x: number, y: number) => ({ x, y, width: 100, height: 100, r: 0, rx: 0, ry: 0 });
+
+      const result = KeymapGenerator.generateLayer(layer, {
+        layout: { name: 'split', keys: [key(0, 0), key(400, 0), key(0, 100), key(400, 100)] },
+      });
+
+      const bindingLines = result.split('\n').filter(line => line.includes('&trans'));
+      expect(bindingLines).toEqual([
+        '        &trans     &trans',
+        '        &trans     &trans',
+      ]);
+    });
+
+    it('should put one binding per line when expanded', () => {
+      const result = KeymapGenerator.generateLayer(sampleLayers[0], {
+        config: { formatBindings: 'expanded' },
+      });
+
+      const bindingLines = result.split('\n').filter(line => line.trim().startsWith('&'));
+      expect(bindingLines).toEqual([
+        '        &kp A',
+        '        &kp B',
+        '        &trans',
+      ]);
+    });
+
+    it('should wrap compact bindings at maxLineLength', () => {
+      const layer: Layer = {
+        id: 0,
+        label: 'Full',
+        bindings: Array.from({ length: 10 }, (_, i) => ({
+          behaviorId: 0,
+          param1: 0,
+          param2: null,
+          position: i,
+        })),
+      };
+
+      const result = KeymapGenerator.generateLayer(layer, {
+        config: { formatBindings: 'compact', maxLineLength: 30 },
+      });
+
+      const bindingLines = result.split('\n').filter(line => line.includes('&trans'));
+      expect(bindingLines).toEqual([
+        '        &trans &trans &trans',
+        '        &trans &trans &trans',
+        '        &trans &trans &trans',
+        '        &trans',
+      ]);
+    });
+
     it('should handle layer labels with special characters', () => {
       const layer: Layer = {
         id: 0,
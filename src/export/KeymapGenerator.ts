@@ -5,30 +5,95 @@
  * for compilation with the ZMK firmware builder.
  */
 
-import { Keymap, ExportedKeymap, ExportMetadata, Layer } from './types';
+import {
+  Keymap,
+  ExportedKeymap,
+  ExportMetadata,
+  ExportConfig,
+  Layer,
+  Binding,
+  KeymapExtras,
+  ComboDefinition,
+  MacroDefinition,
+  HoldTapDefinition,
+  TapDanceDefinition,
+} from './types';
 import { BehaviorMapper } from './BehaviorMapper';
+import { BehaviorRegistry } from './BehaviorRegistry';
 import { HidMapper } from './HidMapper';
+import { LayoutFormatter } from './LayoutFormatter';
+import { resolveExportConfig } from './exportConfig';
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+
+/**
+ * Device context and user options used while generating a .keymap file
+ */
+export interface GenerateOptions {
+  /** Behaviors reported by the device (static table if omitted) */
+  registry?: BehaviorRegistry;
+  /** Active physical layout, used to lay out bindings in visual rows */
+  layout?: PhysicalLayout;
+  /** Output options; missing values fall back to DEFAULT_EXPORT_CONFIG */
+  config?: Partial<ExportConfig>;
+  /** Combos, macros and custom behaviors to emit alongside the layers */
+  extras?: KeymapExtras;
+  /**
+   * Macros and custom behaviors defined elsewhere (e.g., in the file merged
+   * into), whose labels bindings use like those of the extras
+   */
+  definitions?: NamedDefinition[];
+}
+
+/**
+ * How a macro or custom behavior is named: the label bindings use, its node
+ * name and the name the device reports
+ */
+export type NamedDefinition = Pick<MacroDefinition, 'name' | 'label' | 'displayName'>;
+
+/**
+ * Indentation of binding lines inside a layer's `bindings = < ... >`
+ */
+const BINDING_INDENT = '        ';
 
 export class KeymapGenerator {
   /**
    * Generate complete .keymap file content
    *
+   * The metadata block (with its timestamp) and the footer notes are only
+   * emitted when enabled in `options.config`, so exports can be diffed.
+   * Extras, when given, are emitted in their own root node before the keymap.
+   *
    * @param keymap - Complete keymap configuration
+   * @param options - Device behaviors, physical layout and output options
    * @returns DeviceTree-formatted .keymap file content
    */
-  static generate(keymap: Keymap): string {
-    const parts = [
-      this.generateMetadata({
-        timestamp: keymap.timestamp.toISOString(),
-        deviceName: keymap.deviceName,
-        version: keymap.version,
-        layerCount: keymap.layers.length,
-      }),
-      this.generateIncludes(),
-      this.generateLayerConstants(keymap.layers),
-      this.generateKeymap(keymap.layers),
-      this.generateFooter(),
-    ];
+  static generate(keymap: Keymap, options: GenerateOptions = {}): string {
+    const config = resolveExportConfig(options.config);
+    const parts: string[] = [];
+
+    if (config.includeMetadata) {
+      parts.push(
+        this.generateMetadata({
+          timestamp: keymap.timestamp.toISOString(),
+          deviceName: keymap.deviceName,
+          version: keymap.version,
+          layerCount: keymap.layers.length,
+        })
+      );
+    }
+
+    parts.push(this.generateIncludes(), this.generateLayerConstants(keymap.layers));
+
+    const extras = this.generateExtras(options.extras ?? {});
+    if (extras) {
+      parts.push(extras);
+    }
+
+    parts.push(this.generateKeymap(keymap.layers, options));
+
+    if (config.includeComments) {
+      parts.push(this.generateFooter(options.extras));
+    }
 
     return parts.join('\n\n');
   }
@@ -77,15 +142,51 @@ export class KeymapGenerator {
       .join('\n');
   }
 
+  /**
+   * Generate the root node holding behaviors, macros and combos
+   *
+   * @param extras - Definitions to emit
+   * @returns DeviceTree root node, or an empty string when there is nothing to emit
+   */
+  static generateExtras(extras: KeymapExtras): string {
+    const sections: string[] = [];
+
+    const behaviors = [
+      ...(extras.holdTaps ?? []).map(holdTap => this.generateHoldTap(holdTap)),
+      ...(extras.tapDances ?? []).map(tapDance => this.generateTapDance(tapDance)),
+    ];
+    if (behaviors.length > 0) {
+      sections.push(`  behaviors {\n${behaviors.join('\n\n')}\n  };`);
+    }
+
+    const macros = (extras.macros ?? []).map(macro => this.generateMacro(macro));
+    if (macros.length > 0) {
+      sections.push(`  macros {\n${macros.join('\n\n')}\n  };`);
+    }
+
+    const combos = (extras.combos ?? []).map(combo => this.generateCombo(combo));
+    if (combos.length > 0) {
+      sections.push(`  combos {\n    compatible = "zmk,combos";\n\n${combos.join('\n\n')}\n  };`);
+    }
+
+    if (sections.length === 0) {
+      return '';
+    }
+
+    return `/ {\n${sections.join('\n\n')}\n};`;
+  }
+
   /**
    * Generate keymap DeviceTree structure
    *
    * @param layers - Array of layers
+   * @param options - Device behaviors, physical layout and output options
    * @returns Complete keymap block with all layers
    */
-  static generateKeymap(layers: Layer[]): string {
+  static generateKeymap(layers: Layer[], options: GenerateOptions = {}): string {
+    const layerIds = layers.map(layer => layer.id);
     const layerDefs = layers
-      .map(layer => this.generateLayer(layer))
+      .map(layer => this.generateLayer(layer, options, layerIds))
       .join('\n\n');
 
     return `/ {
@@ -101,23 +202,17 @@ ${layerDefs}
    * Generate a single layer definition
    *
    * @param layer - Layer configuration
+   * @param options - Device behaviors, physical layout and output options
+   * @param layerIds - Layer ID at each layer index of the keymap
    * @returns DeviceTree layer block
    */
-  static generateLayer(layer: Layer): string {
-    // Format bindings with proper indentation
-    const bindingsPerRow = 6; // Adjust based on keyboard layout
-    const bindingStrings = layer.bindings.map(binding =>
-      BehaviorMapper.formatBinding(binding, HidMapper.getZmkKeyName.bind(HidMapper))
-    );
-
-    // Group bindings into rows for readability
-    const rows: string[] = [];
-    for (let i = 0; i < bindingStrings.length; i += bindingsPerRow) {
-      rows.push(bindingStrings.slice(i, i + bindingsPerRow).join(' '));
-    }
-
-    const bindingsFormatted = rows
-      .map(row => `        ${row}`)
+  static generateLayer(
+    layer: Layer,
+    options: GenerateOptions = {},
+    layerIds?: number[]
+  ): string {
+    const bindingsFormatted = this.formatLayerBindings(layer, options, layerIds)
+      .map(row => `${BINDING_INDENT}${row}`)
       .join('\n');
 
     const layerName = this.toLayerName(layer.label);
@@ -130,17 +225,324 @@ ${bindingsFormatted}
     };`;
   }
 
+  /**
+   * Format a layer's bindings into lines according to `formatBindings`
+   *
+   * Layer parameters hold layer IDs, which stop matching the layer indexes
+   * the file numbers layers by once layers are added or removed, so they are
+   * written as the index of the layer with that ID when `layerIds` is given.
+   *
+   * @param layer - Layer configuration
+   * @param options - Device behaviors, physical layout and output options
+   * @param layerIds - Layer ID at each layer index of the keymap
+   * @returns Lines of bindings, without indentation
+   */
+  static formatLayerBindings(
+    layer: Layer,
+    options: GenerateOptions = {},
+    layerIds?: number[]
+  ): string[] {
+    const extras = options.extras ?? {};
+    const registry = this.labelCustomBehaviors(options.registry, [
+      ...(extras.macros ?? []),
+      ...(extras.holdTaps ?? []),
+      ...(extras.tapDances ?? []),
+      ...(options.definitions ?? []),
+    ]);
+    const bindingStrings = layer.bindings.map(binding =>
+      BehaviorMapper.formatBinding(
+        layerIds ? this.toLayerIndexes(binding, layerIds, options.registry) : binding,
+        HidMapper.getZmkKeyName.bind(HidMapper),
+        registry
+      )
+    );
+
+    return this.formatBindingLines(bindingStrings, options);
+  }
+
+  /**
+   * Replace the layer IDs in a binding's layer parameters by layer indexes
+   *
+   * Parameters the device describes as layer IDs are converted; without
+   * metadata, the first parameter of the layer behaviors (&mo, &lt, &tog,
+   * &to) is. IDs of layers not in the keymap are kept, for the validator to
+   * report.
+   *
+   * @param binding - Binding with device layer IDs
+   * @param layerIds - Layer ID at each layer index of the keymap
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns Binding with layer indexes
+   */
+  private static toLayerIndexes(
+    binding: Binding,
+    layerIds: number[],
+    registry?: BehaviorRegistry
+  ): Binding {
+    const behaviors = registry ?? BehaviorMapper;
+    const metadata = behaviors.getBehavior(binding.behaviorId)?.metadata ?? [];
+    const isLayerParam = (param: 'param1' | 'param2') =>
+      metadata.length > 0
+        ? metadata.some(set => set[param]?.some(v => v.layerId))
+        : param === 'param1' && behaviors.isLayerBehavior(binding.behaviorId);
+    const toIndex = (value: number) => {
+      const index = layerIds.indexOf(value);
+      return index < 0 ? value : index;
+    };
+
+    return {
+      ...binding,
+      param1: isLayerParam('param1') ? toIndex(binding.param1) : binding.param1,
+      param2:
+        binding.param2 !== null && isLayerParam('param2')
+          ? toIndex(binding.param2)
+          : binding.param2,
+    };
+  }
+
+  /**
+   * Point device behaviors defined in the extras or elsewhere at their labels
+   *
+   * The device reports a custom behavior by its display name (or node name),
+   * which rarely matches the label bindings have to use (`homerow_mods` vs
+   * `&hm`). Behaviors matching a definition by label, node name or display
+   * name are renamed to the definition's label.
+   *
+   * @param registry - Behaviors reported by the device
+   * @param definitions - Macros and custom behaviors defined for the keymap
+   * @returns Registry with custom behaviors relabeled
+   */
+  private static labelCustomBehaviors(
+    registry: BehaviorRegistry | undefined,
+    definitions: NamedDefinition[]
+  ): BehaviorRegistry | undefined {
+    if (!registry) {
+      return registry;
+    }
+
+    const labels = new Map<string, string>();
+    for (const definition of definitions) {
+      for (const name of [definition.label, definition.name, definition.displayName]) {
+        if (name) {
+          labels.set(BehaviorRegistry.getDeviceTreeLabel(name), definition.label);
+        }
+      }
+    }
+
+    if (labels.size === 0) {
+      return registry;
+    }
+
+    return new BehaviorRegistry(
+      [...registry.getAllBehaviors().values()].map(behavior => {
+        const label = labels.get(behavior.code);
+        return label ? { ...behavior, code: label } : behavior;
+      })
+    );
+  }
+
+  /**
+   * Generate a hold-tap behavior node
+   *
+   * @param holdTap - Hold-tap definition
+   * @returns DeviceTree node for the `behaviors` section
+   */
+  private static generateHoldTap(holdTap: HoldTapDefinition): string {
+    const properties = [
+      'compatible = "zmk,behavior-hold-tap"',
+      '#binding-cells = <2>',
+      ...this.displayNameProperty(holdTap.displayName),
+      `tapping-term-ms = <${holdTap.tappingTermMs}>`,
+    ];
+    if (holdTap.quickTapMs !== undefined) {
+      properties.push(`quick-tap-ms = <${holdTap.quickTapMs}>`);
+    }
+    if (holdTap.requirePriorIdleMs !== undefined) {
+      properties.push(`require-prior-idle-ms = <${holdTap.requirePriorIdleMs}>`);
+    }
+    if (holdTap.flavor) {
+      properties.push(`flavor = "${holdTap.flavor}"`);
+    }
+    if (holdTap.holdTriggerKeyPositions && holdTap.holdTriggerKeyPositions.length > 0) {
+      properties.push(`hold-trigger-key-positions = <${holdTap.holdTriggerKeyPositions.join(' ')}>`);
+    }
+    if (holdTap.holdTriggerOnRelease) {
+      properties.push('hold-trigger-on-release');
+    }
+    properties.push(`bindings = ${this.formatCellGroups(holdTap.bindings)}`);
+
+    return this.formatNode(`${holdTap.label}: ${holdTap.name}`, properties);
+  }
+
+  /**
+   * Generate a tap-dance behavior node
+   *
+   * @param tapDance - Tap-dance definition
+   * @returns DeviceTree node for the `behaviors` section
+   */
+  private static generateTapDance(tapDance: TapDanceDefinition): string {
+    const properties = [
+      'compatible = "zmk,behavior-tap-dance"',
+      '#binding-cells = <0>',
+      ...this.displayNameProperty(tapDance.displayName),
+    ];
+    if (tapDance.tappingTermMs !== undefined) {
+      properties.push(`tapping-term-ms = <${tapDance.tappingTermMs}>`);
+    }
+    properties.push(`bindings = ${this.formatCellGroups(tapDance.bindings)}`);
+
+    return this.formatNode(`${tapDance.label}: ${tapDance.name}`, properties);
+  }
+
+  /**
+   * Generate a macro node
+   *
+   * The compatible string follows the number of parameters the macro takes.
+   *
+   * @param macro - Macro definition
+   * @returns DeviceTree node for the `macros` section
+   */
+  private static generateMacro(macro: MacroDefinition): string {
+    const cells = macro.bindingCells ?? 0;
+    const compatible = ['zmk,behavior-macro', 'zmk,behavior-macro-one-param', 'zmk,behavior-macro-two-param'][cells];
+    const properties = [
+      `compatible = "${compatible}"`,
+      `#binding-cells = <${cells}>`,
+      ...this.displayNameProperty(macro.displayName),
+    ];
+    if (macro.waitMs !== undefined) {
+      properties.push(`wait-ms = <${macro.waitMs}>`);
+    }
+    if (macro.tapMs !== undefined) {
+      properties.push(`tap-ms = <${macro.tapMs}>`);
+    }
+    properties.push(`bindings = ${this.formatCellGroups(macro.bindings)}`);
+
+    return this.formatNode(`${macro.label}: ${macro.name}`, properties);
+  }
+
+  /**
+   * Generate a combo node
+   *
+   * @param combo - Combo definition
+   * @returns DeviceTree node for the `combos` section
+   */
+  private static generateCombo(combo: ComboDefinition): string {
+    const properties: string[] = [];
+    if (combo.timeoutMs !== undefined) {
+      properties.push(`timeout-ms = <${combo.timeoutMs}>`);
+    }
+    properties.push(`key-positions = <${combo.keyPositions.join(' ')}>`);
+    if (combo.layers && combo.layers.length > 0) {
+      properties.push(`layers = <${combo.layers.join(' ')}>`);
+    }
+    if (combo.requirePriorIdleMs !== undefined) {
+      properties.push(`require-prior-idle-ms = <${combo.requirePriorIdleMs}>`);
+    }
+    if (combo.slowRelease) {
+      properties.push('slow-release');
+    }
+    properties.push(`bindings = <${combo.binding}>`);
+
+    return this.formatNode(combo.name, properties);
+  }
+
+  private static displayNameProperty(displayName: string | undefined): string[] {
+    return displayName ? [`display-name = "${displayName}"`] : [];
+  }
+
+  /**
+   * Format bindings as one `< >` group each (e.g., `<&kp N1>, <&kp N2>`)
+   */
+  private static formatCellGroups(bindings: string[]): string {
+    return bindings.map(binding => `<${binding}>`).join(', ');
+  }
+
+  /**
+   * Format a node inside a section, indented like the keymap's layers
+   */
+  private static formatNode(header: string, properties: string[]): string {
+    const lines = properties.map(property => `      ${property};`).join('\n');
+    return `    ${header} {\n${lines}\n    };`;
+  }
+
+  /**
+   * Arrange binding strings into lines according to `formatBindings`
+   *
+   * - compact: as many bindings per line as fit in `maxLineLength`
+   *   (including indentation)
+   * - expanded: one binding per line
+   * - rows: visual rows of the physical layout, or six per row without one;
+   *   rows are kept intact even when longer than `maxLineLength`
+   *
+   * @param bindings - Formatted bindings in key position order
+   * @param options - Physical layout and output options
+   * @returns Lines without indentation
+   */
+  private static formatBindingLines(bindings: string[], options: GenerateOptions): string[] {
+    const config = resolveExportConfig(options.config);
+
+    switch (config.formatBindings) {
+      case 'expanded':
+        return [...bindings];
+
+      case 'compact': {
+        const width = Math.max(config.maxLineLength - BINDING_INDENT.length, 1);
+        const lines: string[] = [];
+        let line = '';
+        for (const binding of bindings) {
+          if (line && line.length + 1 + binding.length > width) {
+            lines.push(line);
+            line = '';
+          }
+          line = line ? `${line} ${binding}` : binding;
+        }
+        if (line) {
+          lines.push(line);
+        }
+        return lines;
+      }
+
+      case 'rows':
+      default: {
+        if (options.layout && options.layout.keys.length > 0) {
+          return LayoutFormatter.formatRows(bindings, options.layout);
+        }
+
+        const bindingsPerRow = 6; // Fallback when the physical layout is unknown
+        const rows: string[] = [];
+        for (let i = 0; i < bindings.length; i += bindingsPerRow) {
+          rows.push(bindings.slice(i, i + bindingsPerRow).join(' '));
+        }
+        return rows;
+      }
+    }
+  }
+
   /**
    * Generate footer with limitation notes
    *
+   * Kinds of extras that were supplied are left out of the notes.
+   *
+   * @param extras - Definitions emitted with the keymap
    * @returns Comment block explaining export limitations
    */
-  static generateFooter(): string {
+  static generateFooter(extras: KeymapExtras = {}): string {
+    const missing: string[] = [];
+    if (!extras.combos) {
+      missing.push(' * - Combos (add them manually if needed)');
+    }
+    if (!extras.macros) {
+      missing.push(' * - Macros (add them manually if needed)');
+    }
+    missing.push(
+      extras.holdTaps || extras.tapDances
+        ? ' * - Custom behaviors other than hold-taps and tap-dances'
+        : ' * - Custom behaviors'
+    );
+
     return `/*
  * NOTE: This export does not include:
- * - Combos (add them manually if needed)
- * - Macros (add them manually if needed)
- * - Custom behaviors
+${missing.join('\n')}
  *
  * To use this file:
  * 1. Copy to your ZMK config repository (config/your-keyboard.keymap)
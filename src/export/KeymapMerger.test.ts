@@ -0,0 +1,239 @@
+/**
+ * Unit tests for KeymapMerger
+ *
+ * Tests patching layers into an existing .keymap file
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KeymapMerger, KeymapMerge } from './KeymapMerger';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import type { Keymap, Layer } from './types';
+
+const makeKeymap = (layers: Layer[]): Keymap => ({
+  layers,
+  deviceName: 'corne',
+  layoutName: 'default',
+  timestamp: new Date(),
+  version: '1.0.0',
+  totalBindings: 0,
+});
+
+// Static behavior table: 0 trans, 1 kp, 4 mo
+const keymap = makeKeymap([
+  {
+    id: 0,
+    label: 'Base',
+    bindings: [
+      { behaviorId: 1, param1: 0x70004, param2: null, position: 0 },
+      { behaviorId: 4, param1: 1, param2: null, position: 1 },
+    ],
+  },
+  {
+    id: 1,
+    label: 'Lower',
+    bindings: [
+      { behaviorId: 0, param1: 0, param2: null, position: 0 },
+      { behaviorId: 1, param1: 0x7001e, param2: null, position: 1 },
+    ],
+  },
+]);
+
+const existing = `/*
+ * My corne
+ */
+
+#include <behaviors.dtsi>
+#include <dt-bindings/zmk/keys.h>
+
+#define LOWER 1
+
+/ {
+    combos {
+        compatible = "zmk,combos";
+        combo_esc {
+            timeout-ms = <50>;
+            key-positions = <0 1>;
+            bindings = <&kp ESC>;
+        };
+    };
+
+    keymap {
+        compatible = "zmk,keymap";
+
+        default_layer {
+            display-name = "Base";
+            // Home row
+            bindings = <
+                &kp Q  &mo LOWER
+            >;
+        };
+
+        lower_layer {
+            display-name = "Lower";
+            bindings = <&trans &kp N2>;
+        };
+    };
+};
+`;
+
+const merge = (text: string, map: Keymap = keymap): KeymapMerge => {
+  const result = KeymapMerger.merge(text, map);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+};
+
+describe('KeymapMerger', () => {
+  it('should replace only the bindings of each layer', () => {
+    const result = merge(existing);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.content).toBe(
+      existing
+        .replace('&kp Q  &mo LOWER', '&kp A &mo 1')
+        .replace('<&trans &kp N2>', '<\n                &trans &kp N1\n            >')
+    );
+  });
+
+  it('should keep comments, defines and combos byte for byte', () => {
+    const { content } = merge(existing);
+
+    expect(content.slice(0, content.indexOf('    keymap {'))).toBe(
+      existing.slice(0, existing.indexOf('    keymap {'))
+    );
+    expect(content).toContain('// Home row');
+  });
+
+  it('should leave the file unchanged when merged twice', () => {
+    const once = merge(existing).content;
+
+    expect(merge(once).content).toBe(once);
+  });
+
+  it('should rename layers whose name changed', () => {
+    const renamed = makeKeymap([{ ...keymap.layers[0], label: 'Qwerty' }]);
+
+    const { content } = merge(existing, renamed);
+
+    expect(content).toContain('display-name = "Qwerty";');
+    expect(content).toContain('display-name = "Lower";');
+  });
+
+  it('should add a display-name to layers without one', () => {
+    const unnamed = existing.replace('            display-name = "Lower";\n', '');
+    const renamed = makeKeymap([keymap.layers[0], { ...keymap.layers[1], label: 'Nav' }]);
+
+    const { content } = merge(unnamed, renamed);
+
+    expect(content).toContain(
+      '        lower_layer {\n            display-name = "Nav";\n            bindings = <'
+    );
+  });
+
+  it('should leave the names of layers the keyboard has no name for', () => {
+    const unnamed = existing.replace(/ {12}display-name = "\w+";\n/g, '');
+    const made = makeKeymap(
+      keymap.layers.map((layer, index) => ({ ...layer, label: `Layer ${index}`, unnamed: true }))
+    );
+
+    const result = merge(unnamed, made);
+
+    expect(result.content).not.toContain('display-name');
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should name layers whose bindings share a line with the node', () => {
+    const oneLine = existing
+      .replace('            display-name = "Lower";\n', '')
+      .replace(/lower_layer \{\n\s*bindings/, 'lower_layer { bindings');
+    const renamed = makeKeymap([keymap.layers[0], { ...keymap.layers[1], label: 'Nav' }]);
+
+    const result = merge(oneLine, renamed);
+
+    expect(result.content).toContain('lower_layer { display-name = "Nav"; bindings = <');
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should warn about layers missing from the file', () => {
+    const extra = makeKeymap([...keymap.layers, { id: 2, label: 'Raise', bindings: [] }]);
+
+    const result = merge(existing, extra);
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].field).toBe('layers[2]');
+    expect(result.warnings[0].message).toContain('Raise');
+  });
+
+  it('should leave bindings written by a macro as they are', () => {
+    const macro = existing
+      .replace('#define LOWER 1', '#define LOWER 1\n#define LOWER_KEYS <&trans &kp N2>')
+      .replace('<&trans &kp N2>;', 'LOWER_KEYS;');
+
+    const result = merge(macro);
+
+    expect(result.content).toContain('bindings = LOWER_KEYS;');
+    expect(result.content).toContain('&kp A &mo 1');
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].field).toBe('layers[1]');
+  });
+
+  it('should leave bindings from an included file as they are', () => {
+    const included = existing.replace(
+      '            bindings = <&trans &kp N2>;\n',
+      '#include "lower.dtsi"\n'
+    );
+    const result = KeymapMerger.merge(included, keymap, {
+      files: { 'lower.dtsi': 'bindings = <&trans &kp N2>;\n' },
+    });
+
+    expect('error' in result).toBe(false);
+    if (!('error' in result)) {
+      expect(result.content).toContain('#include "lower.dtsi"');
+      expect(result.warnings).toHaveLength(1);
+    }
+  });
+
+  it('should write custom behaviors with the labels the file defines', () => {
+    const custom = existing.replace(
+      '    keymap {',
+      [
+        '    behaviors {',
+        '        hm: homerow_mods {',
+        '            compatible = "zmk,behavior-hold-tap";',
+        '            #binding-cells = <2>;',
+        '            tapping-term-ms = <200>;',
+        '            bindings = <&kp>, <&kp>;',
+        '        };',
+        '    };',
+        '',
+        '    keymap {',
+      ].join('\n')
+    );
+    // The keyboard reports the hold-tap by its node name
+    const registry = new BehaviorRegistry([
+      { id: 1, code: 'kp', displayName: 'Key Press', paramCount: 1, description: '' },
+      { id: 10, code: 'homerow_mods', displayName: 'homerow_mods', paramCount: 2, description: '' },
+    ]);
+    const homeRow = makeKeymap([
+      {
+        ...keymap.layers[0],
+        bindings: [{ behaviorId: 10, param1: 1, param2: 2, position: 0 }],
+      },
+    ]);
+
+    const result = KeymapMerger.merge(custom, homeRow, { registry });
+
+    expect('error' in result).toBe(false);
+    if (!('error' in result)) {
+      expect(result.content).toContain('                &hm 1 2\n');
+      expect(result.content).not.toContain('&homerow_mods');
+    }
+  });
+
+  it('should return an error when the file cannot be parsed', () => {
+    const result = KeymapMerger.merge('/ { keymap { ', keymap);
+
+    expect(result).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * KeymapMerger: Writes layers into an existing .keymap file
+ *
+ * Hand-maintained keymaps hold combos, macros, comments and #defines that a
+ * fresh KeymapGenerator.generate would drop. Merging parses the existing file
+ * with DeviceTreeParser to find its layers, then replaces only the value of
+ * each layer's `bindings` property (and its `display-name` or `label` when the
+ * name changed); every other byte of the file is kept.
+ *
+ * Layers are matched by position. Bindings that come from a macro or from an
+ * included file cannot be patched in place and are left as they are, with a
+ * warning.
+ */
+
+import { Keymap, ValidationWarning } from './types';
+import { GenerateOptions, KeymapGenerator } from './KeymapGenerator';
+import { DeviceTreeParser } from '../import/DeviceTreeParser';
+import { Preprocessor } from '../import/Preprocessor';
+import type { DtNode, DtProperty, SourceLocation } from '../import/types';
+
+/**
+ * Options for merging into an existing file
+ */
+export interface MergeOptions extends GenerateOptions {
+  /** Files available to the existing file's `#include` directives */
+  files?: Record<string, string>;
+}
+
+/**
+ * Merged file and the layers that could not be merged
+ */
+export interface KeymapMerge {
+  content: string;
+  /** One entry per layer left as it was in the file */
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Replacement of the characters from `start` up to (not including) `end`
+ */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Where a property's value lies in the file: after the `=`, up to the `;`
+ */
+interface PropertySpan {
+  lineStart: number;
+  /** Start of the property name */
+  nameStart: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+export class KeymapMerger {
+  /**
+   * Merge a keymap's layers into an existing .keymap file
+   *
+   * @param existing - Contents of the existing .keymap file
+   * @param keymap - Complete keymap configuration
+   * @param options - Device behaviors, layout and output options, and the
+   *                  files the existing file includes
+   * @returns The merged file and warnings, or why the file could not be read
+   */
+  static merge(
+    existing: string,
+    keymap: Keymap,
+    options: MergeOptions = {}
+  ): KeymapMerge | { error: string } {
+    const parsed = DeviceTreeParser.parse(existing, { files: options.files });
+    if (!parsed.success) {
+      return { error: `The existing keymap could not be read: ${parsed.error?.message}` };
+    }
+
+    const preprocessed = Preprocessor.preprocess(existing, { files: options.files });
+    const root = DeviceTreeParser.parseDocument(preprocessed.output).root;
+    const keymapNode = DeviceTreeParser.findKeymapNode(root);
+    if (!keymapNode) {
+      return { error: 'The existing file has no keymap node' };
+    }
+
+    const lineStarts = [0];
+    for (let i = 0; i < existing.length; i++) {
+      if (existing[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    const find = (property: DtProperty | undefined) => {
+      const origin = property && preprocessed.sourceMap[property.location.line - 1];
+      return property && origin
+        ? this.findProperty(existing, lineStarts, origin, property.name)
+        : null;
+    };
+
+    const nodes = DeviceTreeParser.getLayerNodes(keymapNode);
+    const layerIds = keymap.layers.map((layer) => layer.id);
+
+    // Bindings use the labels the file defines for its macros and behaviors
+    const formatOptions: MergeOptions = {
+      ...options,
+      definitions: [
+        ...(options.definitions ?? []),
+        ...(parsed.macros ?? []),
+        ...(parsed.behaviors ?? []).filter((behavior) => !behavior.override),
+      ],
+    };
+    const edits: Edit[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    keymap.layers.forEach((layer, index) => {
+      const warn = (message: string) =>
+        warnings.push({
+          field: `layers[${index}]`,
+          value: layer.label,
+          message: `Layer "${layer.label}" ${message}`,
+          severity: 'warning',
+        });
+
+      const node: DtNode | undefined = nodes[index];
+      if (!node) {
+        warn('is not in the existing file and was not added');
+        return;
+      }
+
+      const bindings = find(node.properties.find((p) => p.name === 'bindings'));
+      const edit =
+        bindings && this.replaceBindings(existing, bindings, layer, formatOptions, layerIds);
+      if (!bindings || !edit) {
+        warn('has bindings written by a macro or in an included file; they were left as they are');
+        return;
+      }
+      edits.push(edit);
+
+      // Layers the keyboard has no name for keep the file's
+      const currentLabel = parsed.layers?.[index]?.label ?? '';
+      if (layer.unnamed || layer.label === currentLabel) {
+        return;
+      }
+      const labelProperty =
+        node.properties.find((p) => p.name === 'display-name') ??
+        node.properties.find((p) => p.name === 'label');
+      const label = find(labelProperty);
+      const quoted = `"${layer.label.replace(/["\\]/g, '\\$&')}"`;
+
+      if (label) {
+        edits.push({ start: label.valueStart, end: label.valueEnd, text: ` ${quoted}` });
+      } else if (!labelProperty) {
+        // On a line of its own above the bindings, or before them on their line
+        const ownLine = /^\s*$/.test(existing.slice(bindings.lineStart, bindings.nameStart));
+        edits.push(
+          ownLine
+            ? {
+                start: bindings.lineStart,
+                end: bindings.lineStart,
+                text: `${this.indentAt(existing, bindings.lineStart)}display-name = ${quoted};\n`,
+              }
+            : {
+                start: bindings.nameStart,
+                end: bindings.nameStart,
+                text: `display-name = ${quoted}; `,
+              }
+        );
+      } else {
+        warn('has a name written by a macro or in an included file; it was left as it is');
+      }
+    });
+
+    let content = existing;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+    }
+
+    return { content, warnings };
+  }
+
+  /**
+   * Replace the cells of a bindings value, from its first `<` to its last `>`
+   *
+   * Binding lines keep the indentation of the first line inside the value
+   * (one level deeper than the property when the value is on one line), and
+   * the closing `>` its own when it is on a line of its own.
+   *
+   * @returns The edit, or null if the value has no cells (it is a macro)
+   */
+  private static replaceBindings(
+    text: string,
+    span: PropertySpan,
+    layer: Keymap['layers'][number],
+    options: MergeOptions,
+    layerIds: number[]
+  ): Edit | null {
+    const value = this.stripComments(text.slice(span.valueStart, span.valueEnd));
+    if (!/^\s*</.test(value) || !/>\s*$/.test(value)) {
+      return null;
+    }
+    const open = span.valueStart + value.indexOf('<');
+    const close = span.valueStart + value.lastIndexOf('>');
+    const propertyIndent = this.indentAt(text, span.lineStart);
+
+    const firstLineEnd = text.indexOf('\n', open);
+    const rowIndent =
+      firstLineEnd >= 0 && firstLineEnd < close
+        ? this.indentAt(text, firstLineEnd + 1)
+        : `${propertyIndent}${propertyIndent.startsWith('\t') ? '\t' : '    '}`;
+    const closeLineStart = text.lastIndexOf('\n', close) + 1;
+    const closeIndent = /^[ \t]*$/.test(text.slice(closeLineStart, close))
+      ? text.slice(closeLineStart, close)
+      : propertyIndent;
+
+    const rows = KeymapGenerator.formatLayerBindings(layer, options, layerIds).map(
+      (row) => `${rowIndent}${row}`
+    );
+    return { start: open, end: close + 1, text: `<\n${rows.join('\n')}\n${closeIndent}>` };
+  }
+
+  /**
+   * Find a property on the line of the file it was parsed from
+   *
+   * @returns Where its value lies, or null if the property is not written on
+   *          that line of the main file (it came from a macro or an include)
+   */
+  private static findProperty(
+    text: string,
+    lineStarts: number[],
+    origin: SourceLocation,
+    name: string
+  ): PropertySpan | null {
+    if (origin.file !== undefined || origin.line > lineStarts.length) {
+      return null;
+    }
+
+    const lineStart = lineStarts[origin.line - 1];
+    const lineEnd = origin.line < lineStarts.length ? lineStarts[origin.line] : text.length;
+    const line = this.stripComments(text.slice(lineStart, lineEnd));
+    const escaped = name.replace(/[-#]/g, '\\$&');
+    const match = new RegExp(`(^|[^\\w#,-])${escaped}\\s*=`).exec(line);
+    if (!match) {
+      return null;
+    }
+
+    const nameStart = lineStart + match.index + match[1].length;
+    const valueStart = lineStart + match.index + match[0].length;
+    const rest = this.stripComments(text.slice(valueStart));
+    const end = rest.indexOf(';');
+    if (end < 0) {
+      return null;
+    }
+
+    return { lineStart, nameStart, valueStart, valueEnd: valueStart + end };
+  }
+
+  /**
+   * Blank out comments and string contents, keeping every offset the same
+   */
+  private static stripComments(text: string): string {
+    return text.replace(/\/\*[\s\S]*?(\*\/|$)|\/\/[^\n]*|"(?:[^"\\\n]|\\.)*"/g, (match) =>
+      match.startsWith('"')
+        ? `"${' '.repeat(match.length - 2)}"`
+        : match.replace(/[^\n]/g, ' ')
+    );
+  }
+
+  /**
+   * Leading whitespace of the line starting at `lineStart`
+   */
+  private static indentAt(text: string, lineStart: number): string {
+    return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? '';
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for KeymapValidator
+ *
+ * Tests layer limits, label checks, binding parameters and layer references
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GetBehaviorDetailsResponse } from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import { KeymapValidator } from './KeymapValidator';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import { DEFAULT_LAYER_CONSTRAINTS } from './types';
+import type { Binding, Keymap, Layer } from './types';
+
+const KEYBOARD = 0x07 << 16;
+
+const deviceBehaviors: GetBehaviorDetailsResponse[] = [
+  {
+    id: 12,
+    displayName: 'Transparent',
+    metadata: [{ param1: [], param2: [] }],
+  },
+  {
+    id: 17,
+    displayName: 'Key Press',
+    metadata: [{ param1: [{ name: 'Key', hidUsage: { keyboardMax: 0xff, consumerMax: 0x2ff } }], param2: [] }],
+  },
+  {
+    id: 9,
+    displayName: 'Layer-Tap',
+    metadata: [
+      {
+        param1: [{ name: 'Layer', layerId: {} }],
+        param2: [{ name: 'Tap', hidUsage: { keyboardMax: 0xff, consumerMax: 0 } }],
+      },
+    ],
+  },
+  {
+    id: 22,
+    displayName: 'Bluetooth',
+    metadata: [
+      { param1: [{ name: 'BT_CLR', constant: 1 }], param2: [] },
+      { param1: [{ name: 'BT_SEL', constant: 3 }], param2: [{ name: 'Profile', range: { min: 0, max: 4 } }] },
+    ],
+  },
+];
+
+const binding = (behaviorId: number, param1 = 0, param2: number | null = null): Binding => ({
+  behaviorId,
+  param1,
+  param2,
+  position: 0,
+});
+
+const layer = (id: number, label: string, bindings: Binding[] = [binding(0)]): Layer => ({
+  id,
+  label,
+  bindings,
+});
+
+const keymapOf = (layers: Layer[]): Keymap => ({
+  layers,
+  deviceName: 'test-keyboard',
+  layoutName: 'default',
+  timestamp: new Date('2025-11-09T10:00:00Z'),
+  version: '1.0.0',
+  totalBindings: layers.reduce((sum, l) => sum + l.bindings.length, 0),
+});
+
+describe('KeymapValidator', () => {
+  describe('validate', () => {
+    it('should accept a valid keymap', () => {
+      const result = new KeymapValidator().validate(
+        keymapOf([layer(0, 'Base', [binding(1, KEYBOARD | 0x04), binding(4, 1)]), layer(1, 'Lower')])
+      );
+
+      expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should reject keymaps with too many layers', () => {
+      const validator = new KeymapValidator({
+        constraints: { ...DEFAULT_LAYER_CONSTRAINTS, maxLayers: 1 },
+      });
+
+      const result = validator.validate(keymapOf([layer(0, 'Base'), layer(1, 'Lower')]));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('layers');
+    });
+
+    it('should reject keymaps without layers', () => {
+      const result = new KeymapValidator().validate(keymapOf([]));
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should report references to layers that do not exist', () => {
+      const result = new KeymapValidator().validate(
+        keymapOf([layer(0, 'Base', [binding(4, 3)])])
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('layers[0].bindings[0].param1');
+      expect(result.errors[0].message).toContain('layer 3');
+    });
+
+    it('should check layer references against device layer IDs', () => {
+      const validator = new KeymapValidator({
+        registry: BehaviorRegistry.fromDeviceBehaviors(deviceBehaviors),
+      });
+
+      const valid = validator.validate(
+        keymapOf([layer(0, 'Base', [binding(9, 5, KEYBOARD | 0x2b)]), layer(5, 'Nav', [binding(12)])])
+      );
+      const invalid = validator.validate(
+        keymapOf([layer(0, 'Base', [binding(9, 1, KEYBOARD | 0x2b)])])
+      );
+
+      expect(valid.valid).toBe(true);
+      expect(invalid.errors.map((e) => e.field)).toEqual(['layers[0].bindings[0].param1']);
+    });
+  });
+
+  describe('validateLayerLabel', () => {
+    it('should reject labels longer than the limit', () => {
+      const validator = new KeymapValidator({
+        constraints: { ...DEFAULT_LAYER_CONSTRAINTS, maxLabelLength: 4 },
+      });
+
+      expect(validator.validateLayerLabel('Lower').valid).toBe(false);
+      expect(validator.validateLayerLabel('Base').valid).toBe(true);
+    });
+
+    it('should warn about labels not matching the pattern', () => {
+      const result = new KeymapValidator().validateLayerLabel('Nav & Media');
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+
+  describe('validateBinding', () => {
+    const validator = new KeymapValidator({
+      registry: BehaviorRegistry.fromDeviceBehaviors(deviceBehaviors),
+    });
+
+    it('should accept parameters matching the device metadata', () => {
+      expect(validator.validateBinding(binding(17, KEYBOARD | 0x04)).valid).toBe(true);
+      expect(validator.validateBinding(binding(22, 3, 2)).valid).toBe(true);
+      expect(validator.validateBinding(binding(22, 1)).valid).toBe(true);
+    });
+
+    it('should accept keys with implicit modifiers', () => {
+      const result = validator.validateBinding(binding(17, (0x02 << 24) | KEYBOARD | 0x1e));
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject values outside the described ranges', () => {
+      expect(validator.validateBinding(binding(22, 3, 9)).errors[0].field).toBe('binding.param2');
+      expect(validator.validateBinding(binding(22, 7)).errors[0].field).toBe('binding.param1');
+      expect(validator.validateBinding(binding(17, (0x09 << 16) | 0x01)).valid).toBe(false);
+    });
+
+    it('should reject a second parameter for behaviors that take none', () => {
+      expect(validator.validateBinding(binding(22, 1, 2)).valid).toBe(false);
+    });
+
+    it('should check layer references only when layer IDs are given', () => {
+      const lt = binding(9, 7, KEYBOARD | 0x2b);
+
+      expect(validator.validateBinding(lt).valid).toBe(true);
+      expect(validator.validateBinding(lt, new Set([0, 1])).valid).toBe(false);
+    });
+
+    it('should warn about unknown behaviors', () => {
+      const result = validator.validateBinding(binding(99));
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings[0].field).toBe('binding.behaviorId');
+    });
+
+    it('should require both parameters for two-parameter behaviors without metadata', () => {
+      const result = new KeymapValidator().validateBinding(binding(2, KEYBOARD | 0xe0));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('binding.param2');
+    });
+  });
+
+  describe('constraintsForDevice', () => {
+    it('should derive limits from the device keymap', () => {
+      const constraints = KeymapValidator.constraintsForDevice({
+        layers: [{ id: 0, name: 'Base', bindings: [] }],
+        availableLayers: 3,
+        maxLayerNameLength: 20,
+      });
+
+      expect(constraints.maxLayers).toBe(4);
+      expect(constraints.maxLabelLength).toBe(20);
+    });
+  });
+});
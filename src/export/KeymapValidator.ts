@@ -0,0 +1,354 @@
+/**
+ * KeymapValidator: Checks a keymap before it is exported or imported
+ *
+ * Catches problems that would produce a file ZMK cannot compile, or a keymap
+ * the device cannot hold: too many or too few layers, layer labels that are
+ * too long or need converting, binding parameters the behavior does not
+ * accept, and layer references pointing at layers that do not exist.
+ *
+ * Parameters are checked against the `BehaviorBindingParametersSet` metadata
+ * the device reports when a BehaviorRegistry is supplied, and against the
+ * static behavior table otherwise.
+ */
+
+import type {
+  BehaviorBindingParametersSet,
+  BehaviorParameterValueDescription,
+} from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import type { Keymap as DeviceKeymap } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import {
+  Behavior,
+  Binding,
+  DEFAULT_LAYER_CONSTRAINTS,
+  IKeymapValidator,
+  Keymap,
+  Layer,
+  LayerConstraints,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from './types';
+import { BehaviorMapper } from './BehaviorMapper';
+import type { BehaviorRegistry } from './BehaviorRegistry';
+
+const KEYBOARD_PAGE = 0x07;
+const CONSUMER_PAGE = 0x0c;
+
+/**
+ * Validator options
+ */
+export interface KeymapValidatorOptions {
+  /** Layer limits (defaults to DEFAULT_LAYER_CONSTRAINTS) */
+  constraints?: LayerConstraints;
+  /** Behaviors reported by the device (static behavior table if omitted) */
+  registry?: BehaviorRegistry;
+}
+
+/**
+ * Errors and warnings collected while validating
+ */
+class Findings {
+  readonly errors: ValidationError[] = [];
+  readonly warnings: ValidationWarning[] = [];
+
+  error(field: string, value: ValidationError['value'], message: string): void {
+    this.errors.push({ field, value, message, severity: 'error' });
+  }
+
+  warning(field: string, value: ValidationWarning['value'], message: string): void {
+    this.warnings.push({ field, value, message, severity: 'warning' });
+  }
+
+  toResult(): ValidationResult {
+    return {
+      valid: this.errors.length === 0,
+      errors: this.errors,
+      warnings: this.warnings,
+    };
+  }
+}
+
+export class KeymapValidator implements IKeymapValidator {
+  private readonly constraints: LayerConstraints;
+  private readonly registry?: BehaviorRegistry;
+
+  constructor(options: KeymapValidatorOptions = {}) {
+    this.constraints = options.constraints ?? DEFAULT_LAYER_CONSTRAINTS;
+    this.registry = options.registry;
+  }
+
+  /**
+   * Derive layer constraints from the keymap reported by the device
+   *
+   * The device can hold its current layers plus `availableLayers` more, and
+   * limits names to `maxLayerNameLength` characters.
+   *
+   * @param keymap - Keymap from `keymap.getKeymap`
+   * @returns Constraints for that device
+   */
+  static constraintsForDevice(keymap: DeviceKeymap): LayerConstraints {
+    return {
+      ...DEFAULT_LAYER_CONSTRAINTS,
+      maxLayers: keymap.layers.length + keymap.availableLayers,
+      maxLabelLength: keymap.maxLayerNameLength || DEFAULT_LAYER_CONSTRAINTS.maxLabelLength,
+    };
+  }
+
+  /**
+   * Validate a complete keymap
+   *
+   * @param keymap - Keymap to validate
+   * @returns All errors and warnings found
+   */
+  validate(keymap: Keymap): ValidationResult {
+    const findings = new Findings();
+    const { layers } = keymap;
+
+    if (layers.length < this.constraints.minLayers) {
+      findings.error(
+        'layers',
+        layers.length,
+        `Keymap needs at least ${this.constraints.minLayers} layer(s), found ${layers.length}`
+      );
+    }
+    if (layers.length > this.constraints.maxLayers) {
+      findings.error(
+        'layers',
+        layers.length,
+        `Keymap has ${layers.length} layers, but at most ${this.constraints.maxLayers} are supported`
+      );
+    }
+
+    const layerIds = new Set(layers.map((layer) => layer.id));
+    layers.forEach((layer, index) => {
+      this.checkLayer(layer, `layers[${index}]`, findings, layerIds);
+    });
+
+    return findings.toResult();
+  }
+
+  /**
+   * Validate a single layer
+   *
+   * Layer references are not checked, since they depend on the other layers.
+   *
+   * @param layer - Layer to validate
+   * @returns Errors and warnings for the layer
+   */
+  validateLayer(layer: Layer): ValidationResult {
+    const findings = new Findings();
+    this.checkLayer(layer, 'layer', findings);
+    return findings.toResult();
+  }
+
+  /**
+   * Validate a single binding
+   *
+   * @param binding - Binding to validate
+   * @param layerIds - IDs of existing layers, to check layer references
+   * @returns Errors and warnings for the binding
+   */
+  validateBinding(binding: Binding, layerIds?: Set<number>): ValidationResult {
+    const findings = new Findings();
+    this.checkBinding(binding, 'binding', findings, layerIds);
+    return findings.toResult();
+  }
+
+  /**
+   * Validate a layer label
+   *
+   * Labels not matching the label pattern are still exported (node and
+   * constant names are derived from them), so that is only a warning.
+   *
+   * @param label - Layer label
+   * @returns Errors and warnings for the label
+   */
+  validateLayerLabel(label: string): ValidationResult {
+    const findings = new Findings();
+    this.checkLabel(label, 'label', findings);
+    return findings.toResult();
+  }
+
+  private checkLayer(
+    layer: Layer,
+    field: string,
+    findings: Findings,
+    layerIds?: Set<number>
+  ): void {
+    this.checkLabel(layer.label, `${field}.label`, findings);
+
+    if (layer.bindings.length === 0) {
+      findings.warning(`${field}.bindings`, 0, `Layer "${layer.label}" has no bindings`);
+    }
+
+    layer.bindings.forEach((binding, index) => {
+      this.checkBinding(binding, `${field}.bindings[${index}]`, findings, layerIds);
+    });
+  }
+
+  private checkLabel(label: string, field: string, findings: Findings): void {
+    if (label.length > this.constraints.maxLabelLength) {
+      findings.error(
+        field,
+        label,
+        `Layer label "${label}" is longer than ${this.constraints.maxLabelLength} characters`
+      );
+    }
+
+    if (label.length === 0) {
+      findings.warning(field, label, 'Layer has no label; a generated name will be used');
+    } else if (!this.constraints.labelPattern.test(label)) {
+      findings.warning(
+        field,
+        label,
+        `Layer label "${label}" contains characters that will be replaced in DeviceTree names`
+      );
+    }
+  }
+
+  private checkBinding(
+    binding: Binding,
+    field: string,
+    findings: Findings,
+    layerIds?: Set<number>
+  ): void {
+    const behavior = this.registry
+      ? this.registry.getBehavior(binding.behaviorId)
+      : BehaviorMapper.getBehavior(binding.behaviorId);
+
+    if (!behavior) {
+      findings.warning(
+        `${field}.behaviorId`,
+        binding.behaviorId,
+        `Unknown behavior ${binding.behaviorId} at key ${binding.position}; it will be exported as a comment`
+      );
+      return;
+    }
+
+    if (behavior.metadata && behavior.metadata.length > 0) {
+      this.checkWithMetadata(binding, behavior, behavior.metadata, field, findings, layerIds);
+      return;
+    }
+
+    if (behavior.paramCount >= 2 && (binding.param2 === null || binding.param2 === undefined)) {
+      findings.error(
+        `${field}.param2`,
+        binding.param2,
+        `&${behavior.code} at key ${binding.position} is missing its second parameter`
+      );
+    }
+
+    const isLayerBehavior = this.registry
+      ? this.registry.isLayerBehavior(binding.behaviorId)
+      : BehaviorMapper.isLayerBehavior(binding.behaviorId);
+    if (isLayerBehavior && layerIds && !layerIds.has(binding.param1)) {
+      findings.error(
+        `${field}.param1`,
+        binding.param1,
+        `&${behavior.code} at key ${binding.position} references layer ${binding.param1}, which does not exist`
+      );
+    }
+  }
+
+  /**
+   * Check the parameters against the parameter sets reported by the device
+   *
+   * A binding is valid when one set accepts both parameters.
+   */
+  private checkWithMetadata(
+    binding: Binding,
+    behavior: Behavior,
+    metadata: BehaviorBindingParametersSet[],
+    field: string,
+    findings: Findings,
+    layerIds?: Set<number>
+  ): void {
+    const where = `&${behavior.code} at key ${binding.position}`;
+    const param2 = binding.param2 ?? 0;
+
+    const candidates = metadata.filter((set) => this.accepts(set.param1, binding.param1));
+    if (candidates.length === 0) {
+      findings.error(
+        `${field}.param1`,
+        binding.param1,
+        `${where} has an invalid first parameter (${this.describeValue(binding.param1)})`
+      );
+      return;
+    }
+
+    const set = candidates.find((s) => this.accepts(s.param2, param2));
+    if (!set) {
+      findings.error(
+        `${field}.param2`,
+        binding.param2,
+        `${where} has an invalid second parameter (${this.describeValue(param2)})`
+      );
+      return;
+    }
+
+    if (!layerIds) {
+      return;
+    }
+
+    const params: Array<[string, number, BehaviorParameterValueDescription[]]> = [
+      ['param1', binding.param1, set.param1],
+      ['param2', param2, set.param2],
+    ];
+    for (const [name, value, descriptions] of params) {
+      const matched = descriptions?.find((d) => this.acceptsValue(d, value));
+      if (matched?.layerId && !layerIds.has(value)) {
+        findings.error(
+          `${field}.${name}`,
+          value,
+          `${where} references layer ${value}, which does not exist`
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether any of a parameter's value descriptions accepts the value
+   *
+   * A parameter without descriptions takes no value, so only 0 is accepted.
+   */
+  private accepts(
+    descriptions: BehaviorParameterValueDescription[] | undefined,
+    value: number
+  ): boolean {
+    if (!descriptions || descriptions.length === 0) {
+      return value === 0;
+    }
+    return descriptions.some((d) => this.acceptsValue(d, value));
+  }
+
+  private acceptsValue(desc: BehaviorParameterValueDescription, value: number): boolean {
+    if (desc.nil) {
+      return value === 0;
+    }
+    if (desc.constant !== undefined) {
+      return desc.constant === value;
+    }
+    if (desc.range) {
+      return value >= desc.range.min && value <= desc.range.max;
+    }
+    if (desc.hidUsage) {
+      // Implicit modifiers live in the high byte of the usage page
+      const page = (value >>> 16) & 0xff;
+      const id = value & 0xffff;
+      const { keyboardMax, consumerMax } = desc.hidUsage;
+      if (page === KEYBOARD_PAGE) {
+        return !keyboardMax || id <= keyboardMax;
+      }
+      if (page === CONSUMER_PAGE) {
+        return !consumerMax || id <= consumerMax;
+      }
+      return false;
+    }
+    // Layer references are checked separately against the keymap's layers
+    return !!desc.layerId;
+  }
+
+  private describeValue(value: number): string {
+    return value > 0xffff ? `0x${value.toString(16)}` : value.toString();
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for LayoutFormatter
+ *
+ * Tests laying out bindings in rows following the physical layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { LayoutFormatter } from './LayoutFormatter';
+
+// Key at (x, y) in key units; layout values are hundredths of a unit
+const key = (x: number, y: number, extra: Partial<PhysicalLayout['keys'][number]> = {}) => ({
+  x: x * 100,
+  y: y * 100,
+  width: 100,
+  height: 100,
+  r: 0,
+  rx: 0,
+  ry: 0,
+  ...extra,
+});
+
+describe('LayoutFormatter', () => {
+  describe('formatRows', () => {
+    it('should break lines at physical rows', () => {
+      const layout: PhysicalLayout = {
+        name: 'ortho',
+        keys: [key(0, 0), key(1, 0), key(2, 0), key(0, 1), key(1, 1), key(2, 1)],
+      };
+
+      const rows = LayoutFormatter.formatRows(
+        ['&kp A', '&kp B', '&kp C', '&kp D', '&kp E', '&kp F'],
+        layout
+      );
+
+      expect(rows).toEqual(['&kp A &kp B &kp C', '&kp D &kp E &kp F']);
+    });
+
+    it('should align columns across rows', () => {
+      const layout: PhysicalLayout = {
+        name: 'ortho',
+        keys: [key(0, 0), key(1, 0), key(0, 1), key(1, 1)],
+      };
+
+      const rows = LayoutFormatter.formatRows(
+        ['&mt LCTRL A', '&kp B', '&trans', '&kp D'],
+        layout
+      );
+
+      expect(rows).toEqual(['&mt LCTRL A &kp B', '&trans      &kp D']);
+    });
+
+    it('should keep column-staggered keys in the same row', () => {
+      const layout: PhysicalLayout = {
+        name: 'staggered',
+        keys: [key(0, 0.375), key(1, 0.125), key(2, 0), key(0, 1.375), key(1, 1.125), key(2, 1)],
+      };
+
+      const rows = LayoutFormatter.formatRows(
+        ['&kp Q', '&kp W', '&kp E', '&kp A', '&kp S', '&kp D'],
+        layout
+      );
+
+      expect(rows).toHaveLength(2);
+    });
+
+    it('should separate the halves of a split keyboard', () => {
+      const layout: PhysicalLayout = {
+        name: 'split',
+        keys: [key(0, 0), key(1, 0), key(4, 0), key(5, 0)],
+      };
+
+      const rows = LayoutFormatter.formatRows(['&kp A', '&kp B', '&kp C', '&kp D'], layout);
+
+      expect(rows).toEqual(['&kp A &kp B     &kp C &kp D']);
+    });
+
+    it('should indent rows that only use the right columns', () => {
+      const layout: PhysicalLayout = {
+        name: 'thumbs',
+        keys: [key(0, 0), key(1, 0), key(2, 0), key(1, 1), key(2, 1)],
+      };
+
+      const rows = LayoutFormatter.formatRows(
+        ['&kp A', '&kp B', '&kp C', '&kp D', '&kp E'],
+        layout
+      );
+
+      expect(rows).toEqual(['&kp A &kp B &kp C', '      &kp D &kp E']);
+    });
+
+    it('should start a new line when key order goes back left', () => {
+      const layout: PhysicalLayout = {
+        name: 'halves',
+        keys: [key(0, 0), key(1, 0), key(0, 1), key(1, 1), key(4, 0), key(5, 0)],
+      };
+
+      const rows = LayoutFormatter.formatRows(
+        ['&kp A', '&kp B', '&kp C', '&kp D', '&kp E', '&kp F'],
+        layout
+      );
+
+      // Bindings stay in key position order
+      expect(rows.join(' ').split(/\s+/).filter((t) => t !== '&kp')).toEqual([
+        'A', 'B', 'C', 'D', 'E', 'F',
+      ]);
+      expect(rows).toHaveLength(3);
+    });
+
+    it('should align row-staggered keys by order within the row', () => {
+      const layout: PhysicalLayout = {
+        name: 'ansi',
+        keys: [
+          key(0, 0), key(1, 0), key(2, 0), key(3, 0),
+          { ...key(0, 1), width: 150 }, key(1.5, 1), key(2.5, 1), key(3.5, 1),
+        ],
+      };
+
+      const rows = LayoutFormatter.formatRows(
+        ['&kp GRAVE', '&kp N1', '&kp N2', '&kp N3', '&kp TAB', '&kp Q', '&kp W', '&kp E'],
+        layout
+      );
+
+      expect(rows).toEqual([
+        '&kp GRAVE &kp N1 &kp N2 &kp N3',
+        '&kp TAB   &kp Q  &kp W  &kp E',
+      ]);
+    });
+
+    it('should append bindings without a physical key on a final line', () => {
+      const layout: PhysicalLayout = { name: 'small', keys: [key(0, 0), key(1, 0)] };
+
+      const rows = LayoutFormatter.formatRows(['&kp A', '&kp B', '&kp C'], layout);
+
+      expect(rows).toEqual(['&kp A &kp B', '&kp C']);
+    });
+  });
+
+  describe('getKeyCenter', () => {
+    it('should return the center of an unrotated key', () => {
+      expect(LayoutFormatter.getKeyCenter(key(2, 1))).toEqual({ x: 2.5, y: 1.5 });
+    });
+
+    it('should rotate around rx/ry', () => {
+      const center = LayoutFormatter.getKeyCenter(key(0, 0, { r: 9000, rx: 100, ry: 100 }));
+
+      expect(center.x).toBeCloseTo(1.5);
+      expect(center.y).toBeCloseTo(0.5);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * LayoutFormatter: Lays out layer bindings following the physical layout
+ *
+ * Arranges binding strings into visual rows with aligned columns, the way a
+ * hand-maintained keymap looks, using the key geometry reported by the device
+ * (`keymap.getPhysicalLayouts`). A wider gap separates the halves of split
+ * keyboards.
+ *
+ * Bindings are always emitted in key position order, since DeviceTree
+ * bindings are positional; the layout only decides where lines break and how
+ * each binding is padded.
+ */
+
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+
+/**
+ * Keys whose centers are closer than this (in key units) share a row
+ */
+const ROW_TOLERANCE = 0.5;
+
+/**
+ * Keys whose centers are within this distance (in key units) of the first
+ * key in a column share that column
+ */
+const COLUMN_TOLERANCE = 0.75;
+
+/**
+ * Minimum horizontal distance (in key units) between adjacent columns for the
+ * layout to be treated as split
+ */
+const SPLIT_GAP = 1.5;
+
+/**
+ * How many more grid columns than keys in the widest row are allowed before
+ * the grid counts as sparse (row-staggered layouts), in which case keys are
+ * aligned by their order within each row instead
+ */
+const SPARSE_GRID_SLACK = 2;
+
+/**
+ * Extra spaces inserted between the halves of a split keyboard
+ */
+const SPLIT_SEPARATOR = '    ';
+
+/**
+ * Key center in key units, after applying rotation
+ */
+interface KeyCenter {
+  x: number;
+  y: number;
+}
+
+/**
+ * Grid cell a key is placed in
+ */
+interface KeyCell {
+  row: number;
+  column: number;
+}
+
+export class LayoutFormatter {
+  /**
+   * Format bindings into lines following the physical layout
+   *
+   * @param bindings - Binding strings in key position order
+   * @param layout - Physical layout of the keyboard
+   * @returns Lines of aligned bindings (without indentation)
+   */
+  static formatRows(bindings: string[], layout: PhysicalLayout): string[] {
+    const keyCount = Math.min(bindings.length, layout.keys.length);
+    if (keyCount === 0) {
+      return bindings.length > 0 ? [bindings.join(' ')] : [];
+    }
+
+    const centers = layout.keys.slice(0, keyCount).map((key) => this.getKeyCenter(key));
+    const { cells, splitAfter } = this.assignCells(centers);
+
+    // Break lines whenever the row changes or a key would go left of the
+    // previous one (e.g. layouts numbering each half separately)
+    const lines: Array<Map<number, string>> = [];
+    let current: Map<number, string> | null = null;
+    let currentRow = -1;
+    let lastColumn = -1;
+
+    for (let i = 0; i < keyCount; i++) {
+      const { row, column } = cells[i];
+      if (!current || row !== currentRow || column <= lastColumn) {
+        current = new Map();
+        lines.push(current);
+        currentRow = row;
+      }
+      current.set(column, bindings[i]);
+      lastColumn = column;
+    }
+
+    // Width of each column across the whole layer
+    const widths: number[] = [];
+    for (const line of lines) {
+      for (const [column, text] of line) {
+        widths[column] = Math.max(widths[column] ?? 0, text.length);
+      }
+    }
+
+    const formatted = lines.map((line) => {
+      const lastUsed = Math.max(...line.keys());
+      let text = '';
+      for (let column = 0; column <= lastUsed; column++) {
+        if (column > 0) {
+          text += column - 1 === splitAfter ? ` ${SPLIT_SEPARATOR}` : ' ';
+        }
+        text += (line.get(column) ?? '').padEnd(widths[column] ?? 0);
+      }
+      return text.trimEnd();
+    });
+
+    // Bindings without a physical key go on a final line
+    if (bindings.length > keyCount) {
+      formatted.push(bindings.slice(keyCount).join(' '));
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Get the center of a key in key units
+   *
+   * Layout values are in hundredths of a key unit (and of a degree for
+   * rotation). Rotation is applied around (rx, ry), or the key's own origin
+   * when unset, matching how PhysicalLayout renders keys.
+   *
+   * @param key - Key physical attributes
+   * @returns Rotated key center
+   */
+  static getKeyCenter(key: PhysicalLayout['keys'][number]): KeyCenter {
+    const x = key.x / 100;
+    const y = key.y / 100;
+    const cx = x + key.width / 200;
+    const cy = y + key.height / 200;
+
+    if (!key.r) {
+      return { x: cx, y: cy };
+    }
+
+    const ox = key.rx ? key.rx / 100 : x;
+    const oy = key.ry ? key.ry / 100 : y;
+    const angle = (key.r / 100) * (Math.PI / 180);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return {
+      x: ox + (cx - ox) * cos - (cy - oy) * sin,
+      y: oy + (cx - ox) * sin + (cy - oy) * cos,
+    };
+  }
+
+  /**
+   * Assign every key to a row and column of a grid
+   *
+   * @param centers - Key centers in key position order
+   * @returns Cell of each key, and the column after which a split gap goes
+   *          (-1 when the layout is not split)
+   */
+  private static assignCells(centers: KeyCenter[]): {
+    cells: KeyCell[];
+    splitAfter: number;
+  } {
+    const rowOf = this.cluster(
+      centers.map((c) => c.y),
+      (value, start, previous) => value - previous > ROW_TOLERANCE || value - start >= 1
+    );
+    const columnOf = this.cluster(
+      centers.map((c) => c.x),
+      (value, start) => value - start >= COLUMN_TOLERANCE
+    );
+
+    // Split point: the widest gap between neighbouring columns
+    const columnCenters: number[] = [];
+    const columnCounts: number[] = [];
+    centers.forEach((c, i) => {
+      const column = columnOf[i];
+      columnCenters[column] = (columnCenters[column] ?? 0) + c.x;
+      columnCounts[column] = (columnCounts[column] ?? 0) + 1;
+    });
+    const means = columnCenters.map((sum, i) => sum / columnCounts[i]);
+
+    let splitAfter = -1;
+    let widestGap = SPLIT_GAP;
+    for (let i = 0; i + 1 < means.length; i++) {
+      const gap = means[i + 1] - means[i];
+      if (gap > widestGap) {
+        widestGap = gap;
+        splitAfter = i;
+      }
+    }
+
+    // Two keys of a row can land in the same column on staggered layouts;
+    // push the later one to the right
+    const cells: KeyCell[] = centers.map((_, i) => ({
+      row: rowOf[i],
+      column: columnOf[i],
+    }));
+    const byRow = new Map<number, number[]>();
+    cells.forEach((cell, i) => {
+      byRow.set(cell.row, [...(byRow.get(cell.row) ?? []), i]);
+    });
+    let columnCount = 0;
+    let widestRow = 0;
+    for (const keys of byRow.values()) {
+      keys.sort((a, b) => centers[a].x - centers[b].x);
+      let previous = -1;
+      for (const key of keys) {
+        cells[key].column = Math.max(cells[key].column, previous + 1);
+        previous = cells[key].column;
+      }
+      columnCount = Math.max(columnCount, previous + 1);
+      widestRow = Math.max(widestRow, keys.length);
+    }
+
+    // Row-staggered keys rarely line up vertically; align them by their
+    // order within the row instead of leaving a sparse grid
+    if (columnCount > widestRow + SPARSE_GRID_SLACK) {
+      for (const keys of byRow.values()) {
+        keys.forEach((key, rank) => {
+          cells[key].column = rank;
+        });
+      }
+      return { cells, splitAfter: -1 };
+    }
+
+    return { cells, splitAfter };
+  }
+
+  /**
+   * Group one-dimensional values into ordered clusters
+   *
+   * @param values - Values to group
+   * @param startsNew - Whether a value (in ascending order) starts a new
+   *                    cluster, given the first and last value of the current one
+   * @returns Cluster index of each value
+   */
+  static cluster(
+    values: number[],
+    startsNew: (value: number, start: number, previous: number) => boolean
+  ): number[] {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    const indices: number[] = new Array(values.length);
+
+    let cluster = -1;
+    let start = 0;
+    let previous = 0;
+    for (const i of order) {
+      const value = values[i];
+      if (cluster < 0 || startsNew(value, start, previous)) {
+        cluster++;
+        start = value;
+      }
+      indices[i] = cluster;
+      previous = value;
+    }
+
+    return indices;
+  }
+}
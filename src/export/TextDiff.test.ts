@@ -0,0 +1,82 @@
+/**
+ * Unit tests for TextDiff
+ *
+ * Tests line diffs and grouping them into hunks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextDiff } from './TextDiff';
+
+describe('TextDiff', () => {
+  describe('diffLines', () => {
+    it('should mark every line of identical texts as the same', () => {
+      expect(TextDiff.diffLines('a\nb\n', 'a\nb\n')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'same', text: 'b' },
+      ]);
+    });
+
+    it('should put removed lines before the lines replacing them', () => {
+      expect(TextDiff.diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'B' },
+        { type: 'same', text: 'c' },
+      ]);
+    });
+
+    it('should keep lines common to both texts', () => {
+      const lines = TextDiff.diffLines('x\na\ny\nb', 'a\nz\nb\nw');
+
+      expect(lines.filter((l) => l.type === 'same').map((l) => l.text)).toEqual(['a', 'b']);
+      expect(lines.filter((l) => l.type === 'removed').map((l) => l.text)).toEqual(['x', 'y']);
+      expect(lines.filter((l) => l.type === 'added').map((l) => l.text)).toEqual(['z', 'w']);
+    });
+
+    it('should treat an empty text as having no lines', () => {
+      expect(TextDiff.diffLines('', 'a\n')).toEqual([{ type: 'added', text: 'a' }]);
+    });
+
+    it('should ignore Windows line endings', () => {
+      expect(TextDiff.diffLines('a\r\nb\r\n', 'a\nb\n').every((l) => l.type === 'same')).toBe(
+        true
+      );
+    });
+  });
+
+  describe('hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+
+    it('should keep context around each change', () => {
+      const after = before.replace('line 10', 'changed');
+
+      const hunks = TextDiff.hunks(TextDiff.diffLines(before, after), 2);
+
+      expect(hunks).toHaveLength(1);
+      expect(hunks[0].map((l) => l.text)).toEqual([
+        'line 8',
+        'line 9',
+        'line 10',
+        'changed',
+        'line 11',
+        'line 12',
+      ]);
+    });
+
+    it('should merge changes whose context overlaps', () => {
+      const after = before.replace('line 5', 'five').replace('line 8', 'eight');
+
+      expect(TextDiff.hunks(TextDiff.diffLines(before, after), 2)).toHaveLength(1);
+    });
+
+    it('should split distant changes', () => {
+      const after = before.replace('line 1\n', 'one\n').replace('line 18', 'eighteen');
+
+      expect(TextDiff.hunks(TextDiff.diffLines(before, after), 2)).toHaveLength(2);
+    });
+
+    it('should have no hunks without changes', () => {
+      expect(TextDiff.hunks(TextDiff.diffLines(before, before))).toEqual([]);
+    });
+  });
+});
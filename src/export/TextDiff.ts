@@ -0,0 +1,118 @@
+/**
+ * TextDiff: Line diff of two text files
+ *
+ * Used to show what writing an exported .keymap over an existing file will
+ * change. Lines are matched by their longest common subsequence, after
+ * setting aside the lines both files start and end with.
+ */
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export class TextDiff {
+  /**
+   * Compare two texts line by line
+   *
+   * @param before - Previous text
+   * @param after - New text
+   * @returns Every line of both texts, removed lines before the added lines
+   *          replacing them
+   */
+  static diffLines(before: string, after: string): DiffLine[] {
+    const a = this.splitLines(before);
+    const b = this.splitLines(after);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+      start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--;
+      endB--;
+    }
+
+    // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+    const rows = endA - start;
+    const cols = endB - start;
+    const common = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        common[i][j] =
+          a[start + i] === b[start + j]
+            ? common[i + 1][j + 1] + 1
+            : Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        lines.push({ type: 'same', text: a[start + i] });
+        i++;
+        j++;
+      } else if (i < rows && (j === cols || common[i + 1][j] >= common[i][j + 1])) {
+        lines.push({ type: 'removed', text: a[start + i] });
+        i++;
+      } else {
+        lines.push({ type: 'added', text: b[start + j] });
+        j++;
+      }
+    }
+    lines.push(...a.slice(endA).map((text): DiffLine => ({ type: 'same', text })));
+
+    return lines;
+  }
+
+  /**
+   * Group changed lines into hunks with unchanged lines around them
+   *
+   * @param lines - Diff from diffLines
+   * @param context - Unchanged lines to keep before and after each change
+   * @returns Hunks in file order; changes closer than twice the context share a hunk
+   */
+  static hunks(lines: DiffLine[], context = 3): DiffLine[][] {
+    const hunks: DiffLine[][] = [];
+    let hunkStart = -1;
+    let hunkEnd = -1;
+
+    lines.forEach((line, index) => {
+      if (line.type === 'same') {
+        return;
+      }
+      const from = Math.max(0, index - context);
+      if (hunkStart >= 0 && from <= hunkEnd) {
+        hunkEnd = Math.min(lines.length, index + context + 1);
+        return;
+      }
+      if (hunkStart >= 0) {
+        hunks.push(lines.slice(hunkStart, hunkEnd));
+      }
+      hunkStart = from;
+      hunkEnd = Math.min(lines.length, index + context + 1);
+    });
+    if (hunkStart >= 0) {
+      hunks.push(lines.slice(hunkStart, hunkEnd));
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Split text into lines, ignoring the final newline
+   */
+  private static splitLines(text: string): string[] {
+    if (text === '') {
+      return [];
+    }
+    return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * ValidationReportModal: Shows KeymapValidator errors and warnings
+ *
+ * Used for export results; the import preview shows the same message list.
+ * When `onContinue` is given and there are no errors, the user can go ahead
+ * despite the warnings. Anything passed as children is shown below the list.
+ */
+
+import type { ReactNode } from 'react';
+import { Button } from 'react-aria-components';
+import { CircleX, TriangleAlert } from 'lucide-react';
+import { GenericModal } from '../GenericModal';
+import { useModalRef } from '../misc/useModalRef';
+import { ValidationResult } from './types';
+
+export interface ValidationReportModalProps {
+  open: boolean;
+  title: string;
+  result: ValidationResult;
+  continueLabel?: string;
+  onContinue?: () => void;
+  onClose: () => void;
+  children?: ReactNode;
+}
+
+/**
+ * Errors followed by warnings, each with its icon
+ */
+export function ValidationMessageList({ result }: { result: ValidationResult }) {
+  return (
+    <ul className="flex flex-col gap-1 max-h-[50vh] overflow-y-auto">
+      {result.errors.map((error, i) => (
+        <li key={`error-${i}`} className="flex items-start gap-2">
+          <CircleX className="shrink-0 w-4 mt-0.5 text-red-500" aria-label="Error" />
+          {error.message}
+        </li>
+      ))}
+      {result.warnings.map((warning, i) => (
+        <li key={`warning-${i}`} className="flex items-start gap-2">
+          <TriangleAlert className="shrink-0 w-4 mt-0.5 text-yellow-500" aria-label="Warning" />
+          {warning.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ValidationReportModal({
+  open,
+  title,
+  result,
+  continueLabel = 'Continue',
+  onContinue,
+  onClose,
+  children,
+}: ValidationReportModalProps) {
+  const ref = useModalRef(open, true);
+
+  return (
+    <GenericModal ref={ref} onClose={onClose} className="min-w-min w-[40vw] flex flex-col gap-3">
+      <h2 className="text-lg">{title}</h2>
+      <ValidationMessageList result={result} />
+      {children}
+      <div className="flex justify-end gap-3">
+        <Button className="rounded bg-base-200 hover:bg-base-300 px-3 py-2" onPress={onClose}>
+          {onContinue && result.valid ? 'Cancel' : 'Close'}
+        </Button>
+        {onContinue && result.valid && (
+          <Button
+            className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+            onPress={() => {
+              onClose();
+              onContinue();
+            }}
+          >
+            {continueLabel}
+          </Button>
+        )}
+      </div>
+    </GenericModal>
+  );
+}
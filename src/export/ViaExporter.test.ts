@@ -0,0 +1,74 @@
+/**
+ * Unit tests for ViaExporter
+ *
+ * Tests generating VIA layout JSON files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ViaExporter } from './ViaExporter';
+import type { Keymap } from './types';
+
+const key = (id: number) => (0x07 << 16) | id;
+
+function keymap(): Keymap {
+  return {
+    deviceName: 'Corne',
+    layoutName: 'default',
+    timestamp: new Date(),
+    version: '1.0.0',
+    totalBindings: 5,
+    layers: [
+      {
+        id: 10,
+        label: 'Base',
+        bindings: [
+          { behaviorId: 1, param1: key(0x04), param2: null, position: 0 },
+          { behaviorId: 3, param1: 11, param2: key(0x2c), position: 1 },
+          { behaviorId: 2, param1: key(0xe0), param2: key(0x16), position: 2 },
+        ],
+      },
+      {
+        id: 11,
+        label: 'Nav',
+        bindings: [
+          { behaviorId: 4, param1: 10, param2: null, position: 0 },
+          { behaviorId: 6, param1: 0, param2: null, position: 1 },
+        ],
+      },
+    ],
+  };
+}
+
+describe('ViaExporter', () => {
+  it('should write each layer as keycode names', () => {
+    const { content } = ViaExporter.generate(keymap());
+
+    expect(JSON.parse(content)).toEqual({
+      name: 'Corne',
+      layers: [
+        ['KC_A', 'LT(1,KC_SPC)', 'MT(MOD_LCTL,KC_S)'],
+        ['MO(0)', 'KC_NO'],
+      ],
+    });
+  });
+
+  it('should write layer parameters as layer indexes', () => {
+    const { content } = ViaExporter.generate(keymap());
+
+    expect(JSON.parse(content).layers[1][0]).toBe('MO(0)');
+  });
+
+  it('should warn about bindings VIA cannot express', () => {
+    const { warnings } = ViaExporter.generate(keymap());
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].field).toBe('layers[1].bindings[1]');
+    expect(warnings[0].message).toContain('&bt at key 1 on layer "Nav"');
+  });
+
+  it('should put one layer on each line', () => {
+    const { content } = ViaExporter.generate(keymap());
+
+    expect(content.split('\n')).toContain('    ["MO(0)","KC_NO"]');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * ViaExporter: Generates VIA layout JSON files
+ *
+ * Writes each layer as a list of VIA keycode names (see ViaKeycodes), the
+ * format of VIA's "Save current layout" files, which Vial also reads. Keys
+ * are in ZMK key position order, as ZMK has no switch matrix to order them
+ * by. Bindings VIA cannot express are written as KC_NO with a warning.
+ */
+
+import { Keymap, ValidationWarning } from './types';
+import { BehaviorMapper } from './BehaviorMapper';
+import { BehaviorRegistry } from './BehaviorRegistry';
+import { ViaKeycodes } from './ViaKeycodes';
+
+/**
+ * Generated VIA layout and what could not be exported
+ */
+export interface ViaExport {
+  content: string;
+  /** One entry per binding written as KC_NO instead of its behavior */
+  warnings: ValidationWarning[];
+}
+
+export class ViaExporter {
+  /**
+   * Generate a VIA layout JSON file
+   *
+   * Layer parameters are the device's layer IDs, and are written as layer
+   * indexes.
+   *
+   * @param keymap - Complete keymap configuration
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns File content and warnings
+   */
+  static generate(keymap: Keymap, registry?: BehaviorRegistry): ViaExport {
+    const behaviors = registry ?? BehaviorMapper;
+    const layerIds = keymap.layers.map((layer) => layer.id);
+    const warnings: ValidationWarning[] = [];
+
+    const layers = keymap.layers.map((layer, layerIndex) => {
+      const keycodes: string[] = [];
+      layer.bindings.forEach((binding, bindingIndex) => {
+        const code = behaviors.getBehaviorCode(binding.behaviorId) ?? `behavior ${binding.behaviorId}`;
+        const layerParam = behaviors.isLayerBehavior(binding.behaviorId);
+        const index = layerIds.indexOf(binding.param1);
+
+        const keycode = ViaKeycodes.toKeycode({
+          code,
+          param1: layerParam ? (index >= 0 ? index : null) : binding.param1,
+          param2: binding.param2,
+        });
+        if (keycode === null) {
+          warnings.push({
+            field: `layers[${layerIndex}].bindings[${bindingIndex}]`,
+            value: binding,
+            message: `&${code} at key ${binding.position} on layer "${layer.label}" has no VIA keycode; it will be exported as KC_NO`,
+            severity: 'warning',
+          });
+        }
+        keycodes[binding.position] = ViaKeycodes.toName(keycode ?? 0);
+      });
+      return Array.from(keycodes, (keycode) => keycode ?? 'KC_NO');
+    });
+
+    const lines = layers.map((keycodes) => `    ${JSON.stringify(keycodes)}`);
+    const content = [
+      '{',
+      `  "name": ${JSON.stringify(keymap.deviceName)},`,
+      '  "layers": [',
+      lines.join(',\n'),
+      '  ]',
+      '}',
+      '',
+    ].join('\n');
+
+    return { content, warnings };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for ViaKeycodes
+ *
+ * Tests converting between VIA keycodes and bindings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ViaKeycodes } from './ViaKeycodes';
+
+const key = (id: number, mods = 0) => ((mods << 24) | (0x07 << 16) | id) >>> 0;
+const consumer = (id: number) => (0x0c << 16) | id;
+
+describe('ViaKeycodes', () => {
+  describe('toKeycode', () => {
+    it('should convert key presses to basic keycodes', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'kp', param1: key(0x04), param2: null })).toBe(0x04);
+      expect(ViaKeycodes.toKeycode({ code: 'kp', param1: key(0xe1), param2: null })).toBe(0xe1);
+    });
+
+    it('should convert consumer keys to their QMK keycodes', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'kp', param1: consumer(0xe9), param2: null })).toBe(0xa9);
+    });
+
+    it('should convert implicit modifiers to modifier combinations', () => {
+      // LC(LS(A)) and RA(A)
+      expect(ViaKeycodes.toKeycode({ code: 'kp', param1: key(0x04, 0x03), param2: null })).toBe(0x0304);
+      expect(ViaKeycodes.toKeycode({ code: 'kp', param1: key(0x04, 0x40), param2: null })).toBe(0x1404);
+    });
+
+    it('should not convert left and right modifiers together', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'kp', param1: key(0x04, 0x11), param2: null })).toBeNull();
+    });
+
+    it('should convert layer behaviors', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'mo', param1: 1, param2: null })).toBe(0x5221);
+      expect(ViaKeycodes.toKeycode({ code: 'tog', param1: 2, param2: null })).toBe(0x5262);
+      expect(ViaKeycodes.toKeycode({ code: 'lt', param1: 3, param2: key(0x2c) })).toBe(0x432c);
+    });
+
+    it('should convert mod-taps', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'mt', param1: key(0xe0), param2: key(0x04) })).toBe(0x2104);
+      expect(ViaKeycodes.toKeycode({ code: 'mt', param1: key(0xe5), param2: key(0x0d) })).toBe(0x320d);
+    });
+
+    it('should convert transparent and none', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'trans', param1: null, param2: null })).toBe(0x0001);
+      expect(ViaKeycodes.toKeycode({ code: 'none', param1: null, param2: null })).toBe(0x0000);
+    });
+
+    it('should return null for bindings VIA cannot express', () => {
+      expect(ViaKeycodes.toKeycode({ code: 'bt', param1: 0, param2: null })).toBeNull();
+      expect(ViaKeycodes.toKeycode({ code: 'lt', param1: 16, param2: key(0x04) })).toBeNull();
+      expect(ViaKeycodes.toKeycode({ code: 'lt', param1: 1, param2: key(0x04, 0x01) })).toBeNull();
+    });
+  });
+
+  describe('fromKeycode', () => {
+    it('should read back every converted binding', () => {
+      const bindings = [
+        { code: 'kp', param1: key(0x04), param2: null },
+        { code: 'kp', param1: key(0x04, 0x03), param2: null },
+        { code: 'kp', param1: consumer(0xcd), param2: null },
+        { code: 'mt', param1: key(0xe6), param2: key(0x05) },
+        { code: 'lt', param1: 2, param2: key(0x2b) },
+        { code: 'mo', param1: 1, param2: null },
+        { code: 'tog', param1: 4, param2: null },
+        { code: 'trans', param1: null, param2: null },
+        { code: 'none', param1: null, param2: null },
+      ];
+
+      for (const binding of bindings) {
+        expect(ViaKeycodes.fromKeycode(ViaKeycodes.toKeycode(binding)!)).toEqual(binding);
+      }
+    });
+
+    it('should keep extra modifiers of a mod-tap as implicit modifiers', () => {
+      expect(ViaKeycodes.fromKeycode(0x2304)).toEqual({
+        code: 'mt',
+        param1: key(0xe0, 0x02),
+        param2: key(0x04),
+      });
+    });
+
+    it('should return null for keycodes without a binding', () => {
+      expect(ViaKeycodes.fromKeycode(0x7c00)).toBeNull();
+      expect(ViaKeycodes.fromKeycode(0x00a5)).toBeNull();
+    });
+  });
+
+  describe('toName', () => {
+    it('should name keycodes the way VIA writes them', () => {
+      expect(ViaKeycodes.toName(0x0004)).toBe('KC_A');
+      expect(ViaKeycodes.toName(0x0001)).toBe('KC_TRNS');
+      expect(ViaKeycodes.toName(0x0304)).toBe('LCTL(LSFT(KC_A))');
+      expect(ViaKeycodes.toName(0x2304)).toBe('MT(MOD_LCTL|MOD_LSFT,KC_A)');
+      expect(ViaKeycodes.toName(0x432c)).toBe('LT(3,KC_SPC)');
+      expect(ViaKeycodes.toName(0x5221)).toBe('MO(1)');
+      expect(ViaKeycodes.toName(0x5262)).toBe('TG(2)');
+    });
+
+    it('should write unnamed keycodes in hexadecimal', () => {
+      expect(ViaKeycodes.toName(0x7c00)).toBe('0x7C00');
+    });
+  });
+
+  describe('parseNumber', () => {
+    it('should read numbers and hexadecimal strings', () => {
+      expect(ViaKeycodes.parseNumber(0x5221)).toBe(0x5221);
+      expect(ViaKeycodes.parseNumber('0x5221')).toBe(0x5221);
+    });
+
+    it('should not read keycode names', () => {
+      expect(ViaKeycodes.parseNumber('KC_A')).toBeNull();
+      expect(ViaKeycodes.parseNumber(-1)).toBeNull();
+    });
+  });
+});
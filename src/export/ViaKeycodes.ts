@@ -0,0 +1,389 @@
+/**
+ * ViaKeycodes: Converts between VIA's 16-bit keycodes and Studio bindings
+ *
+ * VIA and Vial store keymaps as QMK keycodes (QMK 0.19 numbering): basic
+ * keycodes share the keyboard page's HID usage IDs, and layer keys, mod-taps
+ * and modifier combinations are ranges above 0xFF that pack a layer or
+ * modifiers with a basic keycode. Key press, mod-tap, layer-tap, momentary
+ * and toggle layer bindings are converted, along with &trans and &none.
+ *
+ * Layer parameters here are layer indexes; modifiers are QMK's five bits
+ * (Ctrl, Shift, Alt, GUI and a flag making all of them right-hand).
+ */
+
+import {
+  hid_usage_from_page_and_id,
+  hid_usage_implicit_mods,
+  hid_usage_page_and_id_from_usage,
+  hid_usage_with_implicit_mods,
+} from '../hid-usages';
+
+const HID_PAGE_KEYBOARD = 0x07;
+const HID_PAGE_CONSUMER = 0x0c;
+
+const KC_NO = 0x0000;
+const KC_TRNS = 0x0001;
+const QK_MODS = 0x0100;
+const QK_MOD_TAP = 0x2000;
+const QK_LAYER_TAP = 0x4000;
+const QK_MOMENTARY = 0x5220;
+const QK_TOGGLE_LAYER = 0x5260;
+
+/**
+ * QMK modifier bits: one per modifier, and a flag making all of them right-hand
+ */
+const MOD_RIGHT = 0x10;
+const MODIFIER_NAMES = ['CTL', 'SFT', 'ALT', 'GUI'];
+
+/**
+ * Names of the basic keycodes on the keyboard page, as VIA writes them
+ */
+const KEYBOARD_NAMES: Map<number, string> = new Map([
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('').map((c, i): [number, string] => [0x04 + i, `KC_${c}`]),
+  ...'1234567890'.split('').map((c, i): [number, string] => [0x1e + i, `KC_${c}`]),
+  [0x28, 'KC_ENT'],
+  [0x29, 'KC_ESC'],
+  [0x2a, 'KC_BSPC'],
+  [0x2b, 'KC_TAB'],
+  [0x2c, 'KC_SPC'],
+  [0x2d, 'KC_MINS'],
+  [0x2e, 'KC_EQL'],
+  [0x2f, 'KC_LBRC'],
+  [0x30, 'KC_RBRC'],
+  [0x31, 'KC_BSLS'],
+  [0x32, 'KC_NUHS'],
+  [0x33, 'KC_SCLN'],
+  [0x34, 'KC_QUOT'],
+  [0x35, 'KC_GRV'],
+  [0x36, 'KC_COMM'],
+  [0x37, 'KC_DOT'],
+  [0x38, 'KC_SLSH'],
+  [0x39, 'KC_CAPS'],
+  ...Array.from({ length: 12 }, (_, i): [number, string] => [0x3a + i, `KC_F${i + 1}`]),
+  [0x46, 'KC_PSCR'],
+  [0x47, 'KC_SCRL'],
+  [0x48, 'KC_PAUS'],
+  [0x49, 'KC_INS'],
+  [0x4a, 'KC_HOME'],
+  [0x4b, 'KC_PGUP'],
+  [0x4c, 'KC_DEL'],
+  [0x4d, 'KC_END'],
+  [0x4e, 'KC_PGDN'],
+  [0x4f, 'KC_RGHT'],
+  [0x50, 'KC_LEFT'],
+  [0x51, 'KC_DOWN'],
+  [0x52, 'KC_UP'],
+  [0x53, 'KC_NUM'],
+  [0x54, 'KC_PSLS'],
+  [0x55, 'KC_PAST'],
+  [0x56, 'KC_PMNS'],
+  [0x57, 'KC_PPLS'],
+  [0x58, 'KC_PENT'],
+  ...Array.from({ length: 9 }, (_, i): [number, string] => [0x59 + i, `KC_P${i + 1}`]),
+  [0x62, 'KC_P0'],
+  [0x63, 'KC_PDOT'],
+  [0x64, 'KC_NUBS'],
+  [0x65, 'KC_APP'],
+  [0x67, 'KC_PEQL'],
+  ...Array.from({ length: 12 }, (_, i): [number, string] => [0x68 + i, `KC_F${i + 13}`]),
+  [0xe0, 'KC_LCTL'],
+  [0xe1, 'KC_LSFT'],
+  [0xe2, 'KC_LALT'],
+  [0xe3, 'KC_LGUI'],
+  [0xe4, 'KC_RCTL'],
+  [0xe5, 'KC_RSFT'],
+  [0xe6, 'KC_RALT'],
+  [0xe7, 'KC_RGUI'],
+]);
+
+/**
+ * Basic keycodes QMK assigns to consumer page keys: keycode, name and
+ * consumer page usage ID
+ */
+const CONSUMER_KEYCODES: Array<[number, string, number]> = [
+  [0xa8, 'KC_MUTE', 0xe2],
+  [0xa9, 'KC_VOLU', 0xe9],
+  [0xaa, 'KC_VOLD', 0xea],
+  [0xab, 'KC_MNXT', 0xb5],
+  [0xac, 'KC_MPRV', 0xb6],
+  [0xad, 'KC_MSTP', 0xb7],
+  [0xae, 'KC_MPLY', 0xcd],
+  [0xb0, 'KC_EJCT', 0xb8],
+  [0xb1, 'KC_MAIL', 0x18a],
+  [0xb2, 'KC_CALC', 0x192],
+  [0xb3, 'KC_MYCM', 0x194],
+  [0xb4, 'KC_WSCH', 0x221],
+  [0xb5, 'KC_WHOM', 0x223],
+  [0xb6, 'KC_WBAK', 0x224],
+  [0xb7, 'KC_WFWD', 0x225],
+  [0xb8, 'KC_WSTP', 0x226],
+  [0xb9, 'KC_WREF', 0x227],
+  [0xba, 'KC_WFAV', 0x22a],
+  [0xbb, 'KC_MFFD', 0xb3],
+  [0xbc, 'KC_MRWD', 0xb4],
+  [0xbd, 'KC_BRIU', 0x6f],
+  [0xbe, 'KC_BRID', 0x70],
+];
+
+/**
+ * A binding as VIA can express it, with Studio parameters: HID usages for
+ * keys and modifiers, layer indexes for layers
+ */
+export interface ViaBinding {
+  /** Behavior code (e.g., "kp", "lt") */
+  code: string;
+  param1: number | null;
+  param2: number | null;
+}
+
+export class ViaKeycodes {
+  /**
+   * Convert a binding to a VIA keycode
+   *
+   * @param binding - Behavior code and parameters, with layer indexes
+   * @returns Keycode, or null if VIA cannot express the binding
+   */
+  static toKeycode(binding: ViaBinding): number | null {
+    const { code, param1, param2 } = binding;
+    const layer = (value: number | null, count: number) =>
+      value !== null && value >= 0 && value < count ? value : null;
+
+    switch (code) {
+      case 'none':
+        return KC_NO;
+
+      case 'trans':
+        return KC_TRNS;
+
+      case 'kp': {
+        if (param1 === null) {
+          return null;
+        }
+        const basic = this.basicKeycode(param1);
+        const mods = this.toQmkMods(hid_usage_implicit_mods(param1));
+        if (basic === null || mods === null) {
+          return null;
+        }
+        return (mods << 8) | basic;
+      }
+
+      case 'mt': {
+        const mods = param1 !== null ? this.toQmkMods(this.modifierBits(param1) ?? 0) : null;
+        const basic = param2 !== null && !hid_usage_implicit_mods(param2)
+          ? this.basicKeycode(param2)
+          : null;
+        return mods && basic !== null ? QK_MOD_TAP | (mods << 8) | basic : null;
+      }
+
+      case 'lt': {
+        const index = layer(param1, 16);
+        const basic = param2 !== null && !hid_usage_implicit_mods(param2)
+          ? this.basicKeycode(param2)
+          : null;
+        return index !== null && basic !== null ? QK_LAYER_TAP | (index << 8) | basic : null;
+      }
+
+      case 'mo': {
+        const index = layer(param1, 32);
+        return index !== null ? QK_MOMENTARY | index : null;
+      }
+
+      case 'tog': {
+        const index = layer(param1, 32);
+        return index !== null ? QK_TOGGLE_LAYER | index : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Convert a VIA keycode to a binding
+   *
+   * @param keycode - 16-bit keycode
+   * @returns Binding, or null if the keycode has no Studio equivalent
+   */
+  static fromKeycode(keycode: number): ViaBinding | null {
+    if (keycode === KC_NO) {
+      return { code: 'none', param1: null, param2: null };
+    }
+    if (keycode === KC_TRNS) {
+      return { code: 'trans', param1: null, param2: null };
+    }
+
+    const basic = this.basicUsage(keycode & 0xff);
+
+    if (keycode < QK_MODS) {
+      return basic !== null ? { code: 'kp', param1: basic, param2: null } : null;
+    }
+
+    if (keycode < QK_MOD_TAP) {
+      const mods = this.fromQmkMods((keycode >> 8) & 0x1f);
+      return basic !== null
+        ? { code: 'kp', param1: hid_usage_with_implicit_mods(basic, mods), param2: null }
+        : null;
+    }
+
+    if (keycode < QK_LAYER_TAP) {
+      const mods = this.fromQmkMods((keycode >> 8) & 0x1f);
+      return basic !== null && mods
+        ? { code: 'mt', param1: this.modifierUsage(mods), param2: basic }
+        : null;
+    }
+
+    if (keycode < QK_LAYER_TAP + 0x1000) {
+      return basic !== null ? { code: 'lt', param1: (keycode >> 8) & 0x0f, param2: basic } : null;
+    }
+
+    if (keycode >= QK_MOMENTARY && keycode < QK_MOMENTARY + 0x20) {
+      return { code: 'mo', param1: keycode - QK_MOMENTARY, param2: null };
+    }
+
+    if (keycode >= QK_TOGGLE_LAYER && keycode < QK_TOGGLE_LAYER + 0x20) {
+      return { code: 'tog', param1: keycode - QK_TOGGLE_LAYER, param2: null };
+    }
+
+    return null;
+  }
+
+  /**
+   * Name of a keycode the way VIA writes it in saved layouts: `KC_A`,
+   * `LCTL(KC_C)`, `LT(1,KC_SPC)`, ..., or hexadecimal when it has no name
+   */
+  static toName(keycode: number): string {
+    const basic = this.basicName(keycode & 0xff);
+    const hex = `0x${keycode.toString(16).toUpperCase().padStart(4, '0')}`;
+
+    if (keycode === KC_NO) {
+      return 'KC_NO';
+    }
+    if (keycode === KC_TRNS) {
+      return 'KC_TRNS';
+    }
+    if (keycode < QK_MODS) {
+      return basic ?? hex;
+    }
+    if (keycode < QK_MOD_TAP) {
+      // LCTL(LSFT(KC_A))
+      return basic
+        ? this.modifierNames((keycode >> 8) & 0x1f).reduceRight(
+            (name, modifier) => `${modifier}(${name})`,
+            basic
+          )
+        : hex;
+    }
+    if (keycode < QK_LAYER_TAP) {
+      // MT(MOD_LCTL|MOD_LSFT,KC_A)
+      const mask = this.modifierNames((keycode >> 8) & 0x1f)
+        .map((modifier) => `MOD_${modifier}`)
+        .join('|');
+      return basic ? `MT(${mask},${basic})` : hex;
+    }
+    if (keycode < QK_LAYER_TAP + 0x1000) {
+      return basic ? `LT(${(keycode >> 8) & 0x0f},${basic})` : hex;
+    }
+    if (keycode >= QK_MOMENTARY && keycode < QK_MOMENTARY + 0x20) {
+      return `MO(${keycode - QK_MOMENTARY})`;
+    }
+    if (keycode >= QK_TOGGLE_LAYER && keycode < QK_TOGGLE_LAYER + 0x20) {
+      return `TG(${keycode - QK_TOGGLE_LAYER})`;
+    }
+    return hex;
+  }
+
+  /**
+   * Read a keycode written as a number or a hexadecimal string (`"0x5220"`)
+   *
+   * @returns Keycode, or null if the value is a keycode name or not a keycode
+   */
+  static parseNumber(value: unknown): number | null {
+    if (typeof value === 'number') {
+      return Number.isInteger(value) && value >= 0 && value <= 0xffff ? value : null;
+    }
+    if (typeof value === 'string' && /^0x[0-9a-f]{1,4}$/i.test(value.trim())) {
+      return parseInt(value.trim(), 16);
+    }
+    return null;
+  }
+
+  /**
+   * Basic keycode of a key's HID usage, ignoring implicit modifiers
+   */
+  private static basicKeycode(usage: number): number | null {
+    const [page, id] = hid_usage_page_and_id_from_usage(usage & 0x00ffffff);
+    if (page === HID_PAGE_KEYBOARD) {
+      return KEYBOARD_NAMES.has(id) ? id : null;
+    }
+    if (page === HID_PAGE_CONSUMER) {
+      return CONSUMER_KEYCODES.find(([, , usageId]) => usageId === id)?.[0] ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * HID usage of a basic keycode
+   */
+  private static basicUsage(keycode: number): number | null {
+    if (KEYBOARD_NAMES.has(keycode)) {
+      return hid_usage_from_page_and_id(HID_PAGE_KEYBOARD, keycode);
+    }
+    const consumer = CONSUMER_KEYCODES.find(([code]) => code === keycode);
+    return consumer ? hid_usage_from_page_and_id(HID_PAGE_CONSUMER, consumer[2]) : null;
+  }
+
+  private static basicName(keycode: number): string | null {
+    return (
+      KEYBOARD_NAMES.get(keycode) ??
+      CONSUMER_KEYCODES.find(([code]) => code === keycode)?.[1] ??
+      null
+    );
+  }
+
+  /**
+   * ZMK modifier bits (LC, LS, LA, LG, RC, RS, RA, RG) held by a modifier
+   * key's usage, including its implicit modifiers
+   */
+  private static modifierBits(usage: number): number | null {
+    const [page, id] = hid_usage_page_and_id_from_usage(usage & 0x00ffffff);
+    if (page !== HID_PAGE_KEYBOARD || id < 0xe0 || id > 0xe7) {
+      return null;
+    }
+    return (1 << (id - 0xe0)) | hid_usage_implicit_mods(usage);
+  }
+
+  /**
+   * HID usage of the modifier key for the lowest ZMK modifier bit, with the
+   * other modifiers implicit
+   */
+  private static modifierUsage(mods: number): number {
+    const bit = mods & -mods;
+    const usage = hid_usage_from_page_and_id(HID_PAGE_KEYBOARD, 0xe0 + Math.log2(bit));
+    return hid_usage_with_implicit_mods(usage, mods & ~bit);
+  }
+
+  /**
+   * Convert ZMK modifier bits to QMK's; QMK cannot mix left and right
+   * modifiers, so null is returned for those
+   */
+  private static toQmkMods(mods: number): number | null {
+    const left = mods & 0x0f;
+    const right = (mods >> 4) & 0x0f;
+    if (left && right) {
+      return null;
+    }
+    return right ? MOD_RIGHT | right : left;
+  }
+
+  private static fromQmkMods(mods: number): number {
+    return mods & MOD_RIGHT ? (mods & 0x0f) << 4 : mods & 0x0f;
+  }
+
+  /**
+   * Names of QMK modifiers (LCTL, LSFT, ..., RGUI), Ctrl first
+   */
+  private static modifierNames(mods: number): string[] {
+    const side = mods & MOD_RIGHT ? 'R' : 'L';
+    return MODIFIER_NAMES.filter((_, bit) => mods & (1 << bit)).map((name) => side + name);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * ZmkConfigWriteModal: Confirms writing an exported .keymap into zmk-config
+ *
+ * Shows the changes to the keymap already in the checkout as a line diff,
+ * and only writes when confirmed. The previous file is backed up next to it,
+ * and the backup's path is shown once written.
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from 'react-aria-components';
+import { CircleX } from 'lucide-react';
+import { GenericModal } from '../GenericModal';
+import { useModalRef } from '../misc/useModalRef';
+import { TextDiff } from './TextDiff';
+
+const LINE_CLASSES = {
+  same: '',
+  added: 'bg-green-500/20',
+  removed: 'bg-red-500/20',
+};
+
+const LINE_PREFIXES = { same: ' ', added: '+', removed: '-' };
+
+export interface ZmkConfigWriteModalProps {
+  open: boolean;
+  /** Keymap to write, or undefined when it could not be found */
+  path?: string;
+  /** Current content of the keymap, null when it does not exist yet */
+  previous?: string | null;
+  content: string;
+  /** Why the checkout could not be read */
+  error?: string;
+  /** Write the file at path, returning the path of the backup */
+  onWrite: (path: string) => Promise<string | null>;
+  onChooseFolder: () => void;
+  onClose: () => void;
+}
+
+export function ZmkConfigWriteModal({
+  open,
+  path,
+  previous,
+  content,
+  error,
+  onWrite,
+  onChooseFolder,
+  onClose,
+}: ZmkConfigWriteModalProps) {
+  const ref = useModalRef(open, true);
+  const [written, setWritten] = useState<{ backup: string | null } | null>(null);
+  const [writeError, setWriteError] = useState<string | null>(null);
+
+  const hunks = useMemo(
+    () =>
+      typeof previous === 'string' ? TextDiff.hunks(TextDiff.diffLines(previous, content)) : [],
+    [previous, content]
+  );
+
+  const message = error ?? writeError;
+
+  return (
+    <GenericModal ref={ref} onClose={onClose} className="min-w-min w-[60vw] flex flex-col gap-3">
+      <h2 className="text-lg">Write to zmk-config</h2>
+      {path && <p className="font-mono text-sm break-all">{path}</p>}
+      {message && (
+        <p className="flex items-start gap-2">
+          <CircleX className="shrink-0 w-4 mt-0.5 text-red-500" aria-label="Error" />
+          {message}
+        </p>
+      )}
+      {written ? (
+        <p>
+          Keymap written.
+          {written.backup && ` The previous file was backed up to ${written.backup}.`}
+        </p>
+      ) : (
+        path &&
+        !error &&
+        (previous === null ? (
+          <p>The keymap does not exist yet and will be created.</p>
+        ) : hunks.length === 0 ? (
+          <p>The keymap already has these contents.</p>
+        ) : (
+          <div className="max-h-[50vh] overflow-auto rounded bg-base-200 font-mono text-xs">
+            {hunks.map((hunk, i) => (
+              <div key={i} className={i > 0 ? 'border-t border-base-300' : ''}>
+                {hunk.map((line, j) => (
+                  <pre key={j} className={`px-2 whitespace-pre-wrap ${LINE_CLASSES[line.type]}`}>
+                    {LINE_PREFIXES[line.type]} {line.text}
+                  </pre>
+                ))}
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+      <div className="flex justify-end gap-3">
+        {!written && (
+          <Button
+            className="rounded bg-base-200 hover:bg-base-300 px-3 py-2 mr-auto"
+            onPress={onChooseFolder}
+          >
+            Choose another folder
+          </Button>
+        )}
+        <Button className="rounded bg-base-200 hover:bg-base-300 px-3 py-2" onPress={onClose}>
+          {written ? 'Close' : 'Cancel'}
+        </Button>
+        {!written && path && !error && (
+          <Button
+            className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+            onPress={async () => {
+              try {
+                setWritten({ backup: await onWrite(path) });
+                setWriteError(null);
+              } catch (e) {
+                setWriteError(e instanceof Error ? e.message : String(e));
+              }
+            }}
+          >
+            {previous === null ? 'Create' : 'Back up and overwrite'}
+          </Button>
+        )}
+      </div>
+    </GenericModal>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for export configuration helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deserializeExportConfig, resolveExportConfig } from './exportConfig';
+import { DEFAULT_EXPORT_CONFIG } from './types';
+
+describe('exportConfig', () => {
+  describe('resolveExportConfig', () => {
+    it('should return the defaults for an empty config', () => {
+      expect(resolveExportConfig()).toEqual(DEFAULT_EXPORT_CONFIG);
+    });
+
+    it('should keep valid options and replace invalid ones', () => {
+      const config = resolveExportConfig({
+        includeMetadata: false,
+        format: 'pdf' as 'keymap',
+        formatBindings: 'sideways' as 'compact',
+        maxLineLength: -5,
+      });
+
+      expect(config.includeMetadata).toBe(false);
+      expect(config.format).toBe(DEFAULT_EXPORT_CONFIG.format);
+      expect(config.formatBindings).toBe(DEFAULT_EXPORT_CONFIG.formatBindings);
+      expect(config.maxLineLength).toBe(DEFAULT_EXPORT_CONFIG.maxLineLength);
+    });
+  });
+
+  describe('deserializeExportConfig', () => {
+    it('should restore saved options', () => {
+      const saved = JSON.stringify({ ...DEFAULT_EXPORT_CONFIG, formatBindings: 'expanded' });
+
+      expect(deserializeExportConfig(saved).formatBindings).toBe('expanded');
+    });
+
+    it('should fall back to the defaults for unreadable values', () => {
+      expect(deserializeExportConfig('not json')).toEqual(DEFAULT_EXPORT_CONFIG);
+      expect(deserializeExportConfig('null')).toEqual(DEFAULT_EXPORT_CONFIG);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Export configuration helpers
+ *
+ * Resolves partial ExportConfig values against the defaults and restores
+ * saved options from local storage.
+ */
+
+import { DEFAULT_EXPORT_CONFIG, ExportConfig } from './types';
+
+const FORMATS: ExportConfig['format'][] = [
+  'keymap',
+  'keymap-merge',
+  'via',
+  'backup',
+  'keymap-drawer',
+  'svg',
+];
+const BINDING_FORMATS: ExportConfig['formatBindings'][] = ['compact', 'expanded', 'rows'];
+
+/**
+ * Fill in missing or invalid options with their defaults
+ *
+ * @param config - Partial configuration
+ * @returns Complete export configuration
+ */
+export function resolveExportConfig(config: Partial<ExportConfig> = {}): ExportConfig {
+  return {
+    format:
+      config.format && FORMATS.includes(config.format) ? config.format : DEFAULT_EXPORT_CONFIG.format,
+    includeMetadata:
+      typeof config.includeMetadata === 'boolean'
+        ? config.includeMetadata
+        : DEFAULT_EXPORT_CONFIG.includeMetadata,
+    includeComments:
+      typeof config.includeComments === 'boolean'
+        ? config.includeComments
+        : DEFAULT_EXPORT_CONFIG.includeComments,
+    formatBindings:
+      config.formatBindings && BINDING_FORMATS.includes(config.formatBindings)
+        ? config.formatBindings
+        : DEFAULT_EXPORT_CONFIG.formatBindings,
+    maxLineLength:
+      typeof config.maxLineLength === 'number' && config.maxLineLength > 0
+        ? Math.floor(config.maxLineLength)
+        : DEFAULT_EXPORT_CONFIG.maxLineLength,
+  };
+}
+
+/**
+ * Restore an export configuration saved with JSON.stringify
+ *
+ * @param value - Serialized configuration
+ * @returns Export configuration, using defaults for anything unreadable
+ */
+export function deserializeExportConfig(value: string): ExportConfig {
+  try {
+    const parsed = JSON.parse(value);
+    return resolveExportConfig(typeof parsed === 'object' && parsed !== null ? parsed : {});
+  } catch {
+    return resolveExportConfig();
+  }
+}
@@ -5,6 +5,12 @@
  * Purpose: TypeScript interfaces and types for keymap export/import
  */
 
+import type {
+  BehaviorBindingParametersSet,
+  GetBehaviorDetailsResponse as DeviceBehaviorDetails,
+} from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import type { Keymap as DeviceKeymap } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+
 // ============================================================================
 // Core Domain Types
 // ============================================================================
@@ -29,6 +35,8 @@ export interface Layer {
   label: string;
   bindings: Binding[];
   isActive?: boolean;
+  /** The keyboard has no name for the layer, so the label is made up */
+  unnamed?: boolean;
 }
 
 /**
@@ -50,6 +58,8 @@ export interface Behavior {
   displayName: string;
   paramCount: number;
   description: string;
+  /** Parameter metadata reported by the device, when known */
+  metadata?: BehaviorBindingParametersSet[];
 }
 
 /**
@@ -104,6 +114,8 @@ export interface ExportResult {
   filename: string;
   content?: string;
   error?: ExportError;
+  /** Validation findings; warnings may be present on success */
+  validation?: ValidationResult;
 }
 
 /**
@@ -121,6 +133,135 @@ export enum ExportErrorCode {
   UNKNOWN_BEHAVIOR = 'UNKNOWN_BEHAVIOR',
   INVALID_LAYER = 'INVALID_LAYER',
   GENERATION_FAILED = 'GENERATION_FAILED',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+}
+
+// ============================================================================
+// Extras (combos, macros, custom behaviors)
+// ============================================================================
+
+/**
+ * Definitions kept alongside the keymap that ZMK Studio cannot read from or
+ * write to the device; when given to the generator they are emitted as
+ * devicetree nodes so the export compiles on its own
+ */
+export interface KeymapExtras {
+  combos?: ComboDefinition[];
+  macros?: MacroDefinition[];
+  holdTaps?: HoldTapDefinition[];
+  tapDances?: TapDanceDefinition[];
+}
+
+/**
+ * A combo, emitted as a child of the `zmk,combos` node
+ */
+export interface ComboDefinition {
+  /** Node name (e.g., "combo_esc") */
+  name: string;
+  keyPositions: number[];
+  /** Binding triggered by the combo (e.g., "&kp ESC") */
+  binding: string;
+  timeoutMs?: number;
+  /** Layer indices the combo is active on; all layers if absent */
+  layers?: number[];
+  requirePriorIdleMs?: number;
+  slowRelease?: boolean;
+}
+
+/**
+ * A macro, emitted with `zmk,behavior-macro` (or its -one-param/-two-param variants)
+ */
+export interface MacroDefinition {
+  /** Node name */
+  name: string;
+  /** Label bindings use to reference the macro, without "&" */
+  label: string;
+  /** Name the device reports for the macro, if it differs from the node name */
+  displayName?: string;
+  /** Parameters the macro takes (0 if omitted) */
+  bindingCells?: 0 | 1 | 2;
+  /** Macro steps (e.g., "&macro_press", "&kp LSHFT", "&macro_wait_time 50") */
+  bindings: string[];
+  waitMs?: number;
+  tapMs?: number;
+}
+
+/**
+ * A custom hold-tap (`zmk,behavior-hold-tap`)
+ */
+export interface HoldTapDefinition {
+  /** Node name */
+  name: string;
+  /** Label bindings use to reference the hold-tap, without "&" */
+  label: string;
+  /** Name the device reports for the hold-tap, if it differs from the node name */
+  displayName?: string;
+  /** Hold and tap behaviors (e.g., ["&kp", "&kp"]) */
+  bindings: [string, string];
+  tappingTermMs: number;
+  flavor?: 'hold-preferred' | 'balanced' | 'tap-preferred' | 'tap-unless-interrupted';
+  quickTapMs?: number;
+  requirePriorIdleMs?: number;
+  holdTriggerKeyPositions?: number[];
+  holdTriggerOnRelease?: boolean;
+}
+
+/**
+ * A tap-dance (`zmk,behavior-tap-dance`)
+ */
+export interface TapDanceDefinition {
+  /** Node name */
+  name: string;
+  /** Label bindings use to reference the tap-dance, without "&" */
+  label: string;
+  /** Name the device reports for the tap-dance, if it differs from the node name */
+  displayName?: string;
+  /** Binding for each tap count (e.g., ["&kp N1", "&kp N2"]) */
+  bindings: string[];
+  tappingTermMs?: number;
+}
+
+// ============================================================================
+// Backups
+// ============================================================================
+
+/**
+ * Device state written to a backup
+ */
+export interface BackupSource {
+  /** Keymap as the device reports it */
+  keymap: DeviceKeymap;
+  /** Index of the active physical layout */
+  physicalLayoutIndex: number;
+  /** Name of the active physical layout, if known */
+  physicalLayoutName?: string;
+  /** Behaviors the device reports, as a list or keyed by behavior ID */
+  behaviors: DeviceBehaviorDetails[] | Record<number, DeviceBehaviorDetails>;
+  device: {
+    name: string;
+    /** Serial number as hexadecimal digits */
+    serialNumber?: string;
+  };
+}
+
+/**
+ * ZMK Studio backup file, in the current format version
+ *
+ * Bindings keep the device's behavior IDs and raw parameters, and layer
+ * parameters the device's layer IDs; the behavior list gives their meaning.
+ */
+export interface StudioBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** ISO 8601 time the backup was made */
+  createdAt: string;
+  device: BackupSource['device'];
+  physicalLayout: {
+    index: number;
+    name?: string;
+  };
+  behaviors: DeviceBehaviorDetails[];
+  keymap: DeviceKeymap;
 }
 
 // ============================================================================
@@ -342,9 +483,19 @@ export interface ILayerManager {
  * Export configuration options
  */
 export interface ExportConfig {
+  /**
+   * keymap: ZMK .keymap file; keymap-merge: layers merged into an existing
+   * .keymap; via: VIA layout JSON; backup: ZMK Studio backup; keymap-drawer:
+   * keymap-drawer YAML; svg: diagram of every layer
+   */
+  format: 'keymap' | 'keymap-merge' | 'via' | 'backup' | 'keymap-drawer' | 'svg';
+  /** Emit the header comment with date, device and version */
   includeMetadata: boolean;
+  /** Emit explanatory comments such as the footer notes */
   includeComments: boolean;
+  /** compact: fill lines; expanded: one binding per line; rows: follow the physical layout */
   formatBindings: 'compact' | 'expanded' | 'rows';
+  /** Maximum line length for compact bindings, including indentation */
   maxLineLength: number;
 }
 
@@ -417,7 +568,8 @@ export interface IKeymapValidator {
  * Export button component props
  */
 export interface ExportButtonProps {
-  onExport: () => void;
+  /** Called with the chosen options, and for keymap-merge the picked files */
+  onExport: (config: ExportConfig, existing?: { file: File; includes: File[] }) => void;
   isExporting: boolean;
   disabled: boolean;
   tooltip?: string;
@@ -463,12 +615,24 @@ export interface LayerListProps {
  * Default export configuration
  */
 export const DEFAULT_EXPORT_CONFIG: ExportConfig = {
+  format: 'keymap',
   includeMetadata: true,
   includeComments: true,
   formatBindings: 'rows',
   maxLineLength: 80,
 };
 
+/**
+ * Value of the `format` field identifying ZMK Studio backup files
+ */
+export const BACKUP_FORMAT = 'zmk-studio-backup';
+
+/**
+ * Backup format version written by BackupExporter; older versions are
+ * migrated when read
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
 /**
  * Default layer constraints
  */
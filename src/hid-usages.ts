@@ -28,6 +28,14 @@ export const hid_usage_page_and_id_from_usage = (
   usage: number
 ): [number, number] => [(usage >> 16) & 0xffff, usage & 0xffff];
 
+// Implicit modifiers live in the high byte of the usage page, one bit per
+// modifier in the order of the keyboard page modifier keys (0xE0-0xE7)
+export const hid_usage_implicit_mods = (usage: number): number =>
+  (usage >>> 24) & 0xff;
+
+export const hid_usage_with_implicit_mods = (usage: number, mods: number) =>
+  ((usage & 0x00ffffff) | ((mods & 0xff) << 24)) >>> 0;
+
 export const hid_usage_page_get_ids = (
   usage_page: number
 ): UsagePageInfo | undefined => UsagePages.find((p) => p.Id === usage_page);
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for BackupImporter
+ *
+ * Tests reading ZMK Studio backups and migrating older format versions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BackupImporter } from './BackupImporter';
+import { ImportService } from './ImportService';
+import { BackupExporter } from '../export/BackupExporter';
+import { BehaviorRegistry } from '../export/BehaviorRegistry';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from '../export/types';
+import type { BackupSource } from '../export/types';
+import { ParseErrorCode } from './types';
+
+const layerParam = [{ name: 'Layer', layerId: {} }];
+const keyParam = [{ name: 'Key', hidUsage: { keyboardMax: 0xff, consumerMax: 0 } }];
+
+// Behavior and layer IDs deliberately differ from the built-in table and layer indexes
+const behaviors = [
+  { id: 12, displayName: 'Key Press', metadata: [{ param1: keyParam, param2: [] }] },
+  { id: 15, displayName: 'Momentary Layer', metadata: [{ param1: layerParam, param2: [] }] },
+  { id: 16, displayName: 'Layer-Tap', metadata: [{ param1: layerParam, param2: keyParam }] },
+  { id: 30, displayName: 'my_macro', metadata: [] },
+];
+
+const source: BackupSource = {
+  keymap: {
+    layers: [
+      {
+        id: 2,
+        name: 'Base',
+        bindings: [
+          { behaviorId: 12, param1: 0x70004, param2: 0 },
+          { behaviorId: 15, param1: 7, param2: 0 },
+          { behaviorId: 16, param1: 2, param2: 0x7002c },
+          { behaviorId: 30, param1: 0, param2: 0 },
+        ],
+      },
+      { id: 7, name: 'Nav', bindings: [{ behaviorId: 15, param1: 9, param2: 0 }] },
+    ],
+    availableLayers: 6,
+    maxLayerNameLength: 20,
+  },
+  physicalLayoutIndex: 1,
+  behaviors,
+  device: { name: 'Corne' },
+};
+
+const content = BackupExporter.generate(source);
+
+describe('BackupImporter', () => {
+  describe('isBackup', () => {
+    it('should recognize backups by their format', () => {
+      expect(BackupImporter.isBackup(content)).toBe(true);
+      expect(BackupImporter.isBackup('{ "layers": [] }')).toBe(false);
+      expect(BackupImporter.isBackup('not json')).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should keep behavior IDs and raw parameters', () => {
+      const result = BackupImporter.parse(content);
+
+      expect(result.success).toBe(true);
+      expect(result.layers?.[0].label).toBe('Base');
+      expect(result.layers?.[0].bindings[0]).toEqual({
+        behaviorId: 12,
+        param1: 0x70004,
+        param2: 0,
+        position: 0,
+      });
+      expect(result.layers?.[0].bindings[3]).toEqual({
+        behaviorId: 30,
+        param1: 0,
+        param2: 0,
+        position: 3,
+      });
+    });
+
+    it('should turn layer parameters into layer indexes', () => {
+      const result = BackupImporter.parse(content);
+
+      expect(result.layers?.[0].bindings[1].param1).toBe(1);
+      expect(result.layers?.[0].bindings[2]).toMatchObject({ param1: 0, param2: 0x7002c });
+    });
+
+    it('should report layer parameters naming a layer not in the backup', () => {
+      const result = BackupImporter.parse(content);
+
+      expect(result.layers?.[1].bindings[0].param1).toBe(9);
+      expect(result.diagnostics).toEqual([
+        {
+          code: ParseErrorCode.INVALID_BINDING,
+          message: '&mo at key 0 on layer "Nav" refers to layer ID 9, which is not in the backup',
+          layer: 1,
+          position: 0,
+        },
+      ]);
+    });
+
+    it('should return the backup with its physical layout and behaviors', () => {
+      const result = BackupImporter.parse(content);
+
+      expect(result.backup?.physicalLayout.index).toBe(1);
+      expect(result.backup?.behaviors).toEqual(behaviors);
+      expect(result.backup?.keymap).toEqual(source.keymap);
+    });
+
+    it('should reject backups missing their keymap', () => {
+      const backup = { ...JSON.parse(content), keymap: { layers: [] } };
+
+      const result = BackupImporter.parse(JSON.stringify(backup));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual({
+        code: ParseErrorCode.MISSING_KEYMAP,
+        message: 'The backup has no valid keymap',
+      });
+    });
+
+    it('should reject bindings that are not numbers', () => {
+      const backup = JSON.parse(content);
+      backup.keymap.layers[0].bindings[0].param1 = 'A';
+
+      expect(BackupImporter.parse(JSON.stringify(backup)).error?.message).toBe(
+        'The backup has no valid layers'
+      );
+    });
+
+    it('should reject backups from a newer version of the format', () => {
+      const backup = { ...JSON.parse(content), version: BACKUP_FORMAT_VERSION + 1 };
+
+      const result = BackupImporter.parse(JSON.stringify(backup));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('made by a newer ZMK Studio');
+    });
+  });
+
+  describe('migrate', () => {
+    it('should upgrade one version at a time', () => {
+      const migrations = {
+        1: (backup: Record<string, unknown>) => ({ ...backup, steps: ['first'] }),
+        2: (backup: Record<string, unknown>) => ({
+          ...backup,
+          steps: [...(backup.steps as string[]), 'second'],
+        }),
+      };
+
+      const result = BackupImporter.migrate({ format: BACKUP_FORMAT, version: 1 }, migrations, 3);
+
+      expect(result).toEqual({
+        backup: { format: BACKUP_FORMAT, version: 3, steps: ['first', 'second'] },
+      });
+    });
+
+    it('should leave backups of the current version as they are', () => {
+      const backup = JSON.parse(content);
+
+      expect(BackupImporter.migrate(backup)).toEqual({ backup });
+    });
+
+    it('should fail when a migration is missing', () => {
+      const result = BackupImporter.migrate({ format: BACKUP_FORMAT, version: 1 }, {}, 2);
+
+      expect('error' in result && result.error.message).toBe(
+        'Backups of version 1 can no longer be read'
+      );
+    });
+
+    it('should fail without a version', () => {
+      const result = BackupImporter.migrate({ format: BACKUP_FORMAT });
+
+      expect('error' in result && result.error.code).toBe(ParseErrorCode.INVALID_FORMAT);
+    });
+  });
+
+  describe('restoring through ImportService', () => {
+    it('should read .json backups', async () => {
+      const result = await ImportService.importFromString(content, { fileName: 'corne.backup.json' });
+
+      expect(result.success).toBe(true);
+      expect(result.backup?.device.name).toBe('Corne');
+      expect(result.layers).toHaveLength(2);
+    });
+
+    it("should translate the backup's behavior IDs to the device's", async () => {
+      const result = await ImportService.importFromString(content, { fileName: 'corne.backup.json' });
+      const device = BehaviorRegistry.fromDeviceBehaviors(
+        behaviors.map((b) => ({ ...b, id: b.id + 100 }))
+      );
+
+      const { layers } = ImportService.toDeviceBehaviorIds(
+        result.layers!,
+        device,
+        BehaviorRegistry.fromDeviceBehaviors(result.backup!.behaviors)
+      );
+
+      expect(layers[0].bindings.map((b) => b.behaviorId)).toEqual([112, 115, 116, 130]);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Backup Importer
+ *
+ * Reads ZMK Studio backup files (see BackupExporter). Backups written by an
+ * older version of the format are migrated to the current version first,
+ * one version at a time.
+ *
+ * The layers are returned in import form so that restoring a backup goes
+ * through the same preview and ImportApplier as importing a file: bindings
+ * keep the backup's behavior IDs and raw parameters, and layer parameters
+ * become layer indexes, which ImportApplier points at the keyboard's layer
+ * IDs again.
+ */
+
+import { BehaviorRegistry } from '../export/BehaviorRegistry';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from '../export/types';
+import type { StudioBackup } from '../export/types';
+import type { BackupParseResult, ImportDiagnostic, ImportedLayer, ParseError } from './types';
+import { ParseErrorCode } from './types';
+
+/**
+ * Upgrades a backup to the next format version
+ */
+export type BackupMigration = (backup: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations by the format version they upgrade from; version 1 is current,
+ * so there are none yet
+ */
+const MIGRATIONS: Record<number, BackupMigration> = {};
+
+export class BackupImporter {
+  /**
+   * Check whether a JSON file is a ZMK Studio backup
+   *
+   * @param content - Contents of the file
+   */
+  static isBackup(content: string): boolean {
+    try {
+      return JSON.parse(content)?.format === BACKUP_FORMAT;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read a backup file
+   *
+   * @param content - Contents of the file
+   * @returns The migrated backup and its layers in import form
+   */
+  static parse(content: string): BackupParseResult {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      return this.failure(
+        ParseErrorCode.INVALID_FORMAT,
+        `Not a valid JSON file: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    if (!this.isObject(json) || json.format !== BACKUP_FORMAT) {
+      return this.failure(ParseErrorCode.INVALID_FORMAT, 'Not a ZMK Studio backup');
+    }
+
+    const migrated = this.migrate(json);
+    if ('error' in migrated) {
+      return { success: false, error: migrated.error };
+    }
+
+    const backup = migrated.backup;
+    const missing = this.findMissing(backup);
+    if (missing) {
+      return this.failure(ParseErrorCode.MISSING_KEYMAP, `The backup has no valid ${missing}`);
+    }
+
+    const { layers, diagnostics } = this.toImportedLayers(backup as unknown as StudioBackup);
+    return {
+      success: true,
+      backup: backup as unknown as StudioBackup,
+      layers,
+      diagnostics,
+    };
+  }
+
+  /**
+   * Upgrade a backup to the current format version
+   *
+   * @param backup - Backup as read from the file
+   * @param migrations - Migrations by the version they upgrade from
+   * @param target - Version to upgrade to (the current version if omitted)
+   * @returns The backup in the target version, or why it cannot be read
+   */
+  static migrate(
+    backup: Record<string, unknown>,
+    migrations: Record<number, BackupMigration> = MIGRATIONS,
+    target: number = BACKUP_FORMAT_VERSION
+  ): { backup: Record<string, unknown> } | { error: ParseError } {
+    const version = backup.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      return {
+        error: { code: ParseErrorCode.INVALID_FORMAT, message: 'The backup has no valid version' },
+      };
+    }
+    if (version > target) {
+      return {
+        error: {
+          code: ParseErrorCode.INVALID_FORMAT,
+          message: `The backup is version ${version}, made by a newer ZMK Studio; this one reads up to version ${target}`,
+        },
+      };
+    }
+
+    let migrated = backup;
+    for (let from = version; from < target; from++) {
+      const migration = migrations[from];
+      if (!migration) {
+        return {
+          error: {
+            code: ParseErrorCode.INVALID_FORMAT,
+            message: `Backups of version ${from} can no longer be read`,
+          },
+        };
+      }
+      migrated = { ...migration(migrated), version: from + 1 };
+    }
+
+    return { backup: migrated };
+  }
+
+  /**
+   * Convert the backup's layers to import form
+   *
+   * Layer parameters are found through the backup's own behavior list, as
+   * its behavior IDs may not match the keyboard's.
+   */
+  private static toImportedLayers(backup: StudioBackup): {
+    layers: ImportedLayer[];
+    diagnostics: ImportDiagnostic[];
+  } {
+    const registry = BehaviorRegistry.fromDeviceBehaviors(backup.behaviors);
+    const layerIds = backup.keymap.layers.map((layer) => layer.id);
+    const diagnostics: ImportDiagnostic[] = [];
+
+    const layers = backup.keymap.layers.map((layer, index) => ({
+      id: index,
+      label: layer.name,
+      bindings: layer.bindings.map((binding, position) => {
+        if (!registry.isLayerBehavior(binding.behaviorId)) {
+          return { ...binding, position };
+        }
+
+        const layerIndex = layerIds.indexOf(binding.param1);
+        if (layerIndex < 0) {
+          diagnostics.push({
+            code: ParseErrorCode.INVALID_BINDING,
+            message: `&${registry.getBehaviorCode(binding.behaviorId)} at key ${position} on layer "${layer.name}" refers to layer ID ${binding.param1}, which is not in the backup`,
+            layer: index,
+            position,
+          });
+        }
+        return { ...binding, param1: layerIndex < 0 ? binding.param1 : layerIndex, position };
+      }),
+    }));
+
+    return { layers, diagnostics };
+  }
+
+  /**
+   * Name the first part of the backup that is missing or malformed
+   */
+  private static findMissing(backup: Record<string, unknown>): string | null {
+    const keymap = backup.keymap;
+    const isNumber = (value: unknown) => typeof value === 'number';
+    const isBinding = (binding: unknown) =>
+      this.isObject(binding) &&
+      isNumber(binding.behaviorId) &&
+      isNumber(binding.param1) &&
+      isNumber(binding.param2);
+    const isLayer = (layer: unknown) =>
+      this.isObject(layer) &&
+      isNumber(layer.id) &&
+      typeof layer.name === 'string' &&
+      Array.isArray(layer.bindings) &&
+      layer.bindings.every(isBinding);
+
+    if (!this.isObject(keymap) || !Array.isArray(keymap.layers) || keymap.layers.length === 0) {
+      return 'keymap';
+    }
+    if (!keymap.layers.every(isLayer)) {
+      return 'layers';
+    }
+    const isBehavior = (behavior: unknown) =>
+      this.isObject(behavior) && isNumber(behavior.id) && typeof behavior.displayName === 'string';
+
+    if (!Array.isArray(backup.behaviors) || !backup.behaviors.every(isBehavior)) {
+      return 'behavior list';
+    }
+    if (!this.isObject(backup.physicalLayout) || !isNumber(backup.physicalLayout.index)) {
+      return 'physical layout';
+    }
+    if (!this.isObject(backup.device) || typeof backup.device.name !== 'string') {
+      return 'device';
+    }
+    return null;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static failure(code: ParseErrorCode, message: string): BackupParseResult {
+    return { success: false, error: { code, message } };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for DeviceTreeLexer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeviceTreeLexer, DeviceTreeSyntaxError } from './DeviceTreeLexer';
+
+function kinds(source: string): string[] {
+  return DeviceTreeLexer.tokenize(source).map((t) => `${t.kind}:${t.text}`);
+}
+
+describe('DeviceTreeLexer', () => {
+  it('should tokenize labels, names, references and punctuation', () => {
+    expect(kinds('base: base_layer { bindings = <&kp A>; };')).toEqual([
+      'label:base',
+      'name:base_layer',
+      'punct:{',
+      'name:bindings',
+      'punct:=',
+      'punct:<',
+      'ref:kp',
+      'name:A',
+      'punct:>',
+      'punct:;',
+      'punct:}',
+      'punct:;',
+      'eof:',
+    ]);
+  });
+
+  it('should tokenize numbers, strings and path references', () => {
+    expect(kinds('x = <0x1F 10 \'a\'>, "a\\"b", &{/keymap/base};')).toEqual([
+      'name:x',
+      'punct:=',
+      'punct:<',
+      'number:0x1F',
+      'number:10',
+      'number:97',
+      'punct:>',
+      'punct:,',
+      'string:a"b',
+      'punct:,',
+      'path:/keymap/base',
+      'punct:;',
+      'eof:',
+    ]);
+  });
+
+  it('should tokenize directives but not the root node', () => {
+    expect(kinds('/dts-v1/; / { }; /delete-node/ &foo;')).toEqual([
+      'directive:/dts-v1/',
+      'punct:;',
+      'punct:/',
+      'punct:{',
+      'punct:}',
+      'punct:;',
+      'directive:/delete-node/',
+      'ref:foo',
+      'punct:;',
+      'eof:',
+    ]);
+  });
+
+  it('should skip comments and preprocessor lines but keep #-properties', () => {
+    const source = [
+      '#include <behaviors.dtsi>',
+      '#define LONG_MACRO \\',
+      '    continued',
+      '/* block */ #binding-cells = <0>; // trailing',
+    ].join('\n');
+
+    expect(kinds(source)).toEqual([
+      'name:#binding-cells',
+      'punct:=',
+      'punct:<',
+      'number:0',
+      'punct:>',
+      'punct:;',
+      'eof:',
+    ]);
+  });
+
+  it('should keep operators inside cells', () => {
+    expect(kinds('<(1 << 2)>').slice(1, 6)).toEqual(['punct:(', 'number:1', 'punct:<<', 'number:2', 'punct:)']);
+  });
+
+  it('should record the line and column of each token', () => {
+    const tokens = DeviceTreeLexer.tokenize('/ {\n  keymap {\n');
+
+    expect(tokens.map((t) => t.location)).toEqual([
+      { line: 1, column: 1 },
+      { line: 1, column: 3 },
+      { line: 2, column: 3 },
+      { line: 2, column: 10 },
+      { line: 3, column: 1 },
+    ]);
+  });
+
+  it('should report unterminated strings and comments with their position', () => {
+    expect(() => DeviceTreeLexer.tokenize('label = "Base;\n')).toThrow(DeviceTreeSyntaxError);
+    expect(() => DeviceTreeLexer.tokenize('\n  /* never closed')).toThrow('Unterminated comment at line 2, column 3');
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * DeviceTree Lexer
+ *
+ * Splits devicetree source (.keymap, .dtsi) into tokens, tracking the line
+ * and column each token starts at. Comments are dropped, and so are
+ * preprocessor directive lines (#include, #define, ...), which must be
+ * handled before lexing if their effect matters.
+ */
+
+import type { SourceLocation } from './types';
+
+/**
+ * Kinds of tokens produced by the lexer
+ *
+ * - name: node/property names, macro identifiers and numbers-to-be
+ * - number: decimal, hex or character literals
+ * - label: a label definition (`name:`), text without the colon
+ * - ref: a phandle reference (`&name`), text without the ampersand
+ * - path: a path reference (`&{/path}`), text is the path
+ * - string: a double-quoted string, text is the unescaped value
+ * - directive: `/delete-node/`, `/dts-v1/`, ...
+ * - punct: any single punctuation character, or `<<`, `>>`, ...
+ */
+export type DtTokenKind =
+  | 'name'
+  | 'number'
+  | 'label'
+  | 'ref'
+  | 'path'
+  | 'string'
+  | 'directive'
+  | 'punct'
+  | 'eof';
+
+export interface DtToken {
+  kind: DtTokenKind;
+  text: string;
+  location: SourceLocation;
+}
+
+/**
+ * Syntax error with the position it was found at
+ */
+export class DeviceTreeSyntaxError extends Error {
+  /** The message without its position */
+  readonly reason: string;
+  readonly line: number;
+  readonly column: number;
+  readonly file?: string;
+
+  constructor(message: string, location: SourceLocation) {
+    const where = location.file ? ` of ${location.file}` : '';
+    super(`${message} at line ${location.line}, column ${location.column}${where}`);
+    this.name = 'DeviceTreeSyntaxError';
+    this.reason = message;
+    this.line = location.line;
+    this.column = location.column;
+    this.file = location.file;
+  }
+}
+
+// Characters allowed in node names, property names, labels and cell identifiers
+const NAME_START = /[A-Za-z0-9_#]/;
+const NAME_CHAR = /[A-Za-z0-9_,.+\-@#?*]/;
+const NUMBER = /^(0x[0-9a-f]+|0[0-7]*|[1-9][0-9]*)(u|l|ul|lu|ll|ull|llu)?$/i;
+const PREPROCESSOR_DIRECTIVE =
+  /^#\s*(include|define|undef|if|ifdef|ifndef|elif|else|endif|error|warning|pragma|line)\b/;
+const MULTI_CHAR_PUNCT = ['<<', '>>', '<=', '>=', '==', '!=', '&&', '||'];
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '0': '\0',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+};
+
+export class DeviceTreeLexer {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  private atLineStart = true;
+  private cellDepth = 0;
+
+  private constructor(private readonly source: string) {}
+
+  /**
+   * Tokenize devicetree source
+   *
+   * @param source - Devicetree source text
+   * @returns Tokens, ending with an 'eof' token
+   * @throws DeviceTreeSyntaxError on unterminated strings or comments
+   */
+  static tokenize(source: string): DtToken[] {
+    return new DeviceTreeLexer(source).run();
+  }
+
+  private run(): DtToken[] {
+    const tokens: DtToken[] = [];
+
+    for (;;) {
+      this.skipWhitespaceAndComments();
+      const location = this.location();
+
+      if (this.pos >= this.source.length) {
+        tokens.push({ kind: 'eof', text: '', location });
+        return tokens;
+      }
+
+      const token = this.next(location);
+      if (token) {
+        tokens.push(token);
+      }
+    }
+  }
+
+  private next(location: SourceLocation): DtToken | null {
+    const char = this.peek();
+
+    if (char === '#' && this.atLineStart && PREPROCESSOR_DIRECTIVE.test(this.restOfLine())) {
+      this.skipPreprocessorLine();
+      return null;
+    }
+    this.atLineStart = false;
+
+    if (char === '"') {
+      return { kind: 'string', text: this.readString(location), location };
+    }
+
+    if (char === "'") {
+      return { kind: 'number', text: String(this.readCharLiteral(location)), location };
+    }
+
+    if (char === '&' && this.peek(1) === '{') {
+      this.advance(2);
+      const path = this.readUntil('}', location, 'path reference');
+      return { kind: 'path', text: path, location };
+    }
+
+    if (char === '&' && NAME_START.test(this.peek(1))) {
+      this.advance(1);
+      return { kind: 'ref', text: this.readName(), location };
+    }
+
+    if (char === '/' && this.cellDepth === 0) {
+      const directive = this.source.slice(this.pos).match(/^\/[a-z][a-z0-9-]*\//);
+      if (directive) {
+        this.advance(directive[0].length);
+        return { kind: 'directive', text: directive[0], location };
+      }
+    }
+
+    if (NAME_START.test(char)) {
+      const name = this.readName();
+      if (this.cellDepth === 0 && this.peek() === ':' && !/\d/.test(name[0])) {
+        this.advance(1);
+        return { kind: 'label', text: name, location };
+      }
+      return { kind: NUMBER.test(name) ? 'number' : 'name', text: name, location };
+    }
+
+    const pair = this.source.slice(this.pos, this.pos + 2);
+    if (this.cellDepth > 0 && MULTI_CHAR_PUNCT.includes(pair)) {
+      this.advance(2);
+      return { kind: 'punct', text: pair, location };
+    }
+
+    this.advance(1);
+    if (char === '<') {
+      this.cellDepth++;
+    } else if (char === '>' && this.cellDepth > 0) {
+      this.cellDepth--;
+    }
+    return { kind: 'punct', text: char, location };
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+
+      if (char === '\n') {
+        this.advance(1);
+        this.atLineStart = true;
+      } else if (/\s/.test(char)) {
+        this.advance(1);
+      } else if (char === '/' && this.peek(1) === '/') {
+        while (this.pos < this.source.length && this.peek() !== '\n') {
+          this.advance(1);
+        }
+      } else if (char === '/' && this.peek(1) === '*') {
+        const start = this.location();
+        this.advance(2);
+        while (!(this.peek() === '*' && this.peek(1) === '/')) {
+          if (this.pos >= this.source.length) {
+            throw new DeviceTreeSyntaxError('Unterminated comment', start);
+          }
+          this.advance(1);
+        }
+        this.advance(2);
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipPreprocessorLine(): void {
+    while (this.pos < this.source.length && this.peek() !== '\n') {
+      if (this.peek() === '\\' && this.peek(1) === '\n') {
+        this.advance(1);
+      }
+      this.advance(1);
+    }
+  }
+
+  private readName(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && NAME_CHAR.test(this.peek())) {
+      this.advance(1);
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private readString(location: SourceLocation): string {
+    this.advance(1);
+    let value = '';
+
+    for (;;) {
+      const char = this.peek();
+      if (this.pos >= this.source.length || char === '\n') {
+        throw new DeviceTreeSyntaxError('Unterminated string', location);
+      }
+      this.advance(1);
+
+      if (char === '"') {
+        return value;
+      }
+      if (char === '\\') {
+        const escaped = this.peek();
+        this.advance(1);
+        value += ESCAPES[escaped] ?? escaped;
+      } else {
+        value += char;
+      }
+    }
+  }
+
+  private readCharLiteral(location: SourceLocation): number {
+    this.advance(1);
+    let char = this.peek();
+    this.advance(1);
+    if (char === '\\') {
+      char = ESCAPES[this.peek()] ?? this.peek();
+      this.advance(1);
+    }
+    if (this.peek() !== "'") {
+      throw new DeviceTreeSyntaxError('Unterminated character literal', location);
+    }
+    this.advance(1);
+    return char.charCodeAt(0);
+  }
+
+  private readUntil(end: string, location: SourceLocation, what: string): string {
+    const start = this.pos;
+    while (this.peek() !== end) {
+      if (this.pos >= this.source.length) {
+        throw new DeviceTreeSyntaxError(`Unterminated ${what}`, location);
+      }
+      this.advance(1);
+    }
+    const text = this.source.slice(start, this.pos);
+    this.advance(1);
+    return text;
+  }
+
+  private restOfLine(): string {
+    const end = this.source.indexOf('\n', this.pos);
+    return this.source.slice(this.pos, end < 0 ? undefined : end);
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  private advance(count: number): void {
+    for (let i = 0; i < count && this.pos < this.source.length; i++) {
+      if (this.source[this.pos] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.pos++;
+    }
+  }
+
+  private location(): SourceLocation {
+    return { line: this.line, column: this.column };
+  }
+}
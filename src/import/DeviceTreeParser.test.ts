@@ -532,5 +532,532 @@ describe('DeviceTreeParser', () => {
         params: ['1'],
       });
     });
+
+    it('should keep modifier functions in one parameter', () => {
+      const binding = DeviceTreeParser.parseBinding('&kp LC( LS(T) )');
+
+      expect(binding).toEqual({
+        behavior: 'kp',
+        params: ['LC(LS(T))'],
+      });
+    });
+  });
+
+  describe('parse - modifier functions', () => {
+    it('should parse bindings with nested modifier functions', () => {
+      const content = `
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    default_layer {
+      bindings = <&kp LC(LS(T)) &mt LSHFT RA(E) &kp A>;
+    };
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(content);
+
+      expect(result.layers?.[0].bindings).toEqual(['&kp LC(LS(T))', '&mt LSHFT RA(E)', '&kp A']);
+    });
+  });
+
+  describe('parse - devicetree structure', () => {
+    it('should parse a zmk-config style keymap', () => {
+      const input = `
+/dts-v1/;
+#include <behaviors.dtsi>
+#include <dt-bindings/zmk/keys.h>
+
+&mt {
+    tapping-term-ms = <200>;
+    flavor = "tap-preferred";
+};
+
+/ {
+    behaviors {
+        hm: homerow_mods {
+            compatible = "zmk,behavior-hold-tap";
+            #binding-cells = <2>;
+            bindings = <&kp>, <&kp>;
+            hold-trigger-on-release;
+        };
+    };
+
+    keymap {
+        compatible = "zmk,keymap";
+
+        base: base_layer {
+            display-name = "Base";
+            bindings = <
+                &hm LGUI A  &kp B
+                &lt 1 SPACE &kp LC(LS(T))
+            >;
+        };
+
+        nav_layer {
+            display-name = "Nav";
+            bindings = <&trans &kp C_VOL_UP>, <&mo 0 &bt BT_SEL 0>;
+        };
+    };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.success).toBe(true);
+      expect(result.layers).toEqual([
+        { label: 'Base', bindings: ['&hm LGUI A', '&kp B', '&lt 1 SPACE', '&kp LC(LS(T))'] },
+        { label: 'Nav', bindings: ['&trans', '&kp C_VOL_UP', '&mo 0', '&bt BT_SEL 0'] },
+      ]);
+    });
+
+    it('should not mistake nested nodes with bindings for layers', () => {
+      const input = `
+/ {
+  behaviors {
+    td: tap_dance {
+      bindings = <&kp A>, <&kp B>;
+    };
+  };
+  keymap {
+    compatible = "zmk,keymap";
+    layer_0 {
+      bindings = <&td &kp C>;
+    };
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.layers).toHaveLength(1);
+      expect(result.layers![0].bindings).toEqual(['&td', '&kp C']);
+    });
+
+    it('should apply &label overrides to the keymap', () => {
+      const input = `
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base: base_layer {
+      label = "Base";
+      bindings = <&kp A &kp B>;
+    };
+  };
+};
+
+&base {
+  label = "Main";
+  bindings = <&kp X &kp Y>;
+};
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.layers).toEqual([{ label: 'Main', bindings: ['&kp X', '&kp Y'] }]);
+    });
+
+    it('should merge repeated root nodes', () => {
+      const input = `
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    a_layer { bindings = <&kp A>; };
+  };
+};
+
+/ {
+  keymap {
+    b_layer { bindings = <&kp B>; };
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.layers!.map((l) => l.bindings)).toEqual([['&kp A'], ['&kp B']]);
+    });
+
+    it('should apply /delete-node/ by label and inside node bodies', () => {
+      const input = `
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base_layer { bindings = <&kp A>; };
+    extra: extra_layer { bindings = <&kp B>; };
+    other_layer { bindings = <&kp C>; };
+  };
+};
+
+/delete-node/ &extra;
+
+/ {
+  keymap {
+    /delete-node/ other_layer;
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.layers!.map((l) => l.bindings)).toEqual([['&kp A']]);
+    });
+  });
+
+  describe('parse - syntax errors', () => {
+    it('should report the line and column of a missing semicolon', () => {
+      const input = `/ {
+  keymap {
+    compatible = "zmk,keymap"
+    base_layer { bindings = <&kp A>; };
+  };
+};`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.success).toBe(false);
+      expect(result.error!.code).toBe(ParseErrorCode.INVALID_FORMAT);
+      expect(result.error!.line).toBe(4);
+      expect(result.error!.column).toBe(5);
+      expect(result.error!.message).toContain("Expected ';'");
+      expect(result.error!.context).toBe('base_layer { bindings = <&kp A>; };');
+    });
+
+    it('should report an unterminated cell list where it starts', () => {
+      const input = `/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base_layer {
+      bindings = <&kp A &kp B
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.error!.line).toBe(5);
+      expect(result.error!.column).toBe(18);
+      expect(result.error!.message).toContain("Missing '>'");
+    });
+
+    it('should report bindings that do not start with a behavior', () => {
+      const input = `/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base_layer { bindings = <A &kp B>; };
+  };
+};`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.success).toBe(false);
+      expect(result.error!.line).toBe(4);
+      expect(result.error!.column).toBe(30);
+    });
+  });
+
+  describe('parseDocument', () => {
+    it('should build nodes with labels, properties and typed values', () => {
+      const document = DeviceTreeParser.parseDocument(`
+/ {
+  combos {
+    compatible = "zmk,combos";
+    combo_esc: combo_esc {
+      timeout-ms = <0x32>;
+      key-positions = <0 1>;
+      bindings = <&kp ESC>;
+      layers = <0>, <1>;
+      slow-release;
+      data = [01 ab];
+    };
+  };
+};
+`);
+
+      const combo = DeviceTreeParser.findNode(document.root, { label: 'combo_esc' })!;
+      expect(combo.name).toBe('combo_esc');
+      expect(DeviceTreeParser.getCells(combo, 'timeout-ms')).toMatchObject([
+        { kind: 'number', value: 50, text: '0x32' },
+      ]);
+      expect(DeviceTreeParser.getCells(combo, 'layers').map((c) => c.kind === 'number' && c.value)).toEqual([0, 1]);
+      expect(DeviceTreeParser.getCells(combo, 'bindings')).toMatchObject([
+        { kind: 'ref', ref: { label: 'kp' } },
+        { kind: 'identifier', name: 'ESC' },
+      ]);
+      expect(combo.properties.find((p) => p.name === 'slow-release')!.values).toEqual([]);
+      expect(combo.properties.find((p) => p.name === 'data')!.values[0]).toMatchObject({
+        kind: 'bytes',
+        bytes: ['01', 'ab'],
+      });
+      expect(combo.location).toEqual({ line: 5, column: 16 });
+    });
+
+    it('should find nodes by path', () => {
+      const document = DeviceTreeParser.parseDocument(`/ { keymap { layer@1 { bindings = <&kp A>; }; }; };`);
+
+      expect(DeviceTreeParser.findNode(document.root, { path: '/keymap/layer' })?.name).toBe('layer@1');
+      expect(DeviceTreeParser.findNode(document.root, { path: '/missing' })).toBeUndefined();
+    });
+
+    it('should keep overrides of nodes defined elsewhere as unresolved', () => {
+      const document = DeviceTreeParser.parseDocument(`&mt { tapping-term-ms = <200>; };`);
+
+      expect(document.unresolved).toHaveLength(1);
+      expect(document.unresolved[0].target).toEqual({ label: 'mt' });
+      expect(document.unresolved[0].node.properties[0].name).toBe('tapping-term-ms');
+    });
+  });
+
+  describe('parse - preprocessor', () => {
+    it('should resolve layer constants and binding macros', () => {
+      const input = `
+#include <behaviors.dtsi>
+#define BASE 0
+#define LWR 1
+#define HRM_A &mt LGUI A
+
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base_layer { bindings = <HRM_A &mo LWR>; };
+    lower_layer { bindings = <&to BASE &trans>; };
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.layers!.map((l) => l.bindings)).toEqual([
+        ['&mt LGUI A', '&mo 1'],
+        ['&to 0', '&trans'],
+      ]);
+      expect(result.expansions!.map((e) => [e.name, e.location.line, e.replacement])).toEqual([
+        ['HRM_A', 10, '&mt LGUI A'],
+        ['LWR', 10, '1'],
+        ['BASE', 11, '0'],
+      ]);
+    });
+
+    it('should use macros from supplied include files', () => {
+      const input = `#include "layers.h"
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+#ifdef HAS_NAV
+    nav_layer { bindings = <&mo NAV>; };
+#endif
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input, {
+        files: { 'layers.h': '#define HAS_NAV\n#define NAV 3\n' },
+      });
+
+      expect(result.layers).toEqual([{ label: '', bindings: ['&mo 3'] }]);
+    });
+
+    it('should report syntax errors at their line in the original file', () => {
+      const input = `#include "layers.h"
+#define NAV 3
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    nav_layer { bindings = <&mo NAV> };
+  };
+};
+`;
+
+      const result = DeviceTreeParser.parse(input, {
+        files: { 'layers.h': '#define A 1\n#define B 2\n#define C 3\n' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.line).toBe(6);
+      expect(result.error!.file).toBeUndefined();
+      expect(result.error!.context).toBe('nav_layer { bindings = <&mo NAV> };');
+    });
+
+    it('should report errors inside included files with the file name', () => {
+      const input = `#include "behaviors.dtsi"
+/ { keymap { compatible = "zmk,keymap"; l { bindings = <&kp A>; }; }; };
+`;
+
+      const result = DeviceTreeParser.parse(input, {
+        files: { 'behaviors.dtsi': '/ {\n  behaviors {\n    broken\n  };\n};\n' },
+      });
+
+      expect(result.error).toMatchObject({
+        line: 4,
+        file: 'behaviors.dtsi',
+        context: '};',
+      });
+      expect(result.error!.message).toContain('of behaviors.dtsi');
+    });
+
+    it('should report preprocessor errors with their position', () => {
+      const result = DeviceTreeParser.parse('/ {\n#if\n#endif\n};');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ line: 2, column: 1, context: '#if' });
+    });
+  });
+
+  describe('parse - combos, macros and behaviors', () => {
+    const input = `
+#define BASE 0
+#define NAV 1
+
+&mt {
+  tapping-term-ms = <180>;
+  flavor = "balanced";
+};
+
+/ {
+  behaviors {
+    hm: homerow_mods {
+      compatible = "zmk,behavior-hold-tap";
+      display-name = "Home Row Mods";
+      #binding-cells = <2>;
+      tapping-term-ms = <200>;
+      quick-tap-ms = <150>;
+      flavor = "tap-preferred";
+      bindings = <&kp>, <&kp>;
+      hold-trigger-key-positions = <5 6 7>;
+      hold-trigger-on-release;
+    };
+  };
+
+  macros {
+    email: email_macro {
+      compatible = "zmk,behavior-macro";
+      #binding-cells = <0>;
+      wait-ms = <30>;
+      bindings = <&macro_tap &kp M &kp E>, <&macro_wait_time 50>;
+    };
+  };
+
+  combos {
+    compatible = "zmk,combos";
+    combo_esc {
+      timeout-ms = <50>;
+      key-positions = <0 1>;
+      bindings = <&kp ESC>;
+      layers = <BASE NAV>;
+    };
+    combo_tab {
+      key-positions = <1 2>;
+      bindings = <&email>;
+      slow-release;
+    };
+  };
+
+  keymap {
+    compatible = "zmk,keymap";
+    base_layer { bindings = <&hm LGUI A &email>; };
+  };
+};
+`;
+
+    it('should extract combos', () => {
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.combos).toEqual([
+        {
+          name: 'combo_esc',
+          keyPositions: [0, 1],
+          binding: '&kp ESC',
+          timeoutMs: 50,
+          layers: [0, 1],
+          requirePriorIdleMs: undefined,
+          slowRelease: false,
+        },
+        {
+          name: 'combo_tab',
+          keyPositions: [1, 2],
+          binding: '&email',
+          timeoutMs: undefined,
+          layers: undefined,
+          requirePriorIdleMs: undefined,
+          slowRelease: true,
+        },
+      ]);
+    });
+
+    it('should extract macros', () => {
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.macros).toEqual([
+        {
+          name: 'email_macro',
+          label: 'email',
+          displayName: undefined,
+          compatible: 'zmk,behavior-macro',
+          bindingCells: 0,
+          bindings: ['&macro_tap', '&kp M', '&kp E', '&macro_wait_time 50'],
+          waitMs: 30,
+          tapMs: undefined,
+        },
+      ]);
+    });
+
+    it('should extract behavior definitions and settings for built-in behaviors', () => {
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.behaviors).toHaveLength(2);
+      expect(result.behaviors![0]).toMatchObject({
+        name: 'homerow_mods',
+        label: 'hm',
+        displayName: 'Home Row Mods',
+        compatible: 'zmk,behavior-hold-tap',
+        bindingCells: 2,
+        bindings: ['&kp', '&kp'],
+        tappingTermMs: 200,
+        quickTapMs: 150,
+        flavor: 'tap-preferred',
+        properties: {
+          'hold-trigger-key-positions': [5, 6, 7],
+          'hold-trigger-on-release': true,
+        },
+        override: false,
+      });
+      expect(result.behaviors![1]).toMatchObject({
+        name: 'mt',
+        label: 'mt',
+        compatible: '',
+        tappingTermMs: 180,
+        flavor: 'balanced',
+        properties: {},
+        override: true,
+      });
+    });
+
+    it('should still read the layers', () => {
+      const result = DeviceTreeParser.parse(input);
+
+      expect(result.layers![0].bindings).toEqual(['&hm LGUI A', '&email']);
+    });
+
+    it('should warn about values that are not numbers', () => {
+      const result = DeviceTreeParser.parse(`
+/ {
+  combos {
+    compatible = "zmk,combos";
+    c { key-positions = <0 1>; bindings = <&kp ESC>; layers = <GAMING>; };
+  };
+  keymap { compatible = "zmk,keymap"; l { bindings = <&kp A>; }; };
+};
+`);
+
+      expect(result.combos![0].layers).toBeUndefined();
+      expect(result.warnings).toContain("Combo c: layers value 'GAMING' is not a number");
+    });
+
+    it('should return empty lists when the file has none', () => {
+      const result = DeviceTreeParser.parse(`/ { keymap { compatible = "zmk,keymap"; l { bindings = <&kp A>; }; }; };`);
+
+      expect(result.combos).toEqual([]);
+      expect(result.macros).toEqual([]);
+      expect(result.behaviors).toEqual([]);
+    });
   });
 });
@@ -1,11 +1,36 @@
 /**
  * DeviceTree Parser for .keymap files
  *
- * Parses ZMK firmware keymap files in DeviceTree format
+ * Parses ZMK firmware keymap files in DeviceTree format. The source is run
+ * through the Preprocessor, tokenized by DeviceTreeLexer and parsed by a
+ * recursive-descent parser into a syntax tree (DtDocument); root nodes are
+ * then merged and `&label { }` overrides and `/delete-node/` applied, as dtc
+ * does, before the keymap node is read from the resulting tree.
  */
 
-import type { ParseResult, ParsedLayer, KeymapMetadata, ParseError } from './types';
+import type {
+  DtCell,
+  DtDocument,
+  DtNode,
+  DtProperty,
+  DtReference,
+  DtStatement,
+  DtValue,
+  KeymapMetadata,
+  ParseError,
+  ParseResult,
+  ParsedBehavior,
+  ParsedCombo,
+  ParsedLayer,
+  ParsedMacro,
+  ParsedPropertyValue,
+  PreprocessOptions,
+  PreprocessResult,
+  SourceLocation,
+} from './types';
 import { ParseErrorCode } from './types';
+import { DeviceTreeLexer, DeviceTreeSyntaxError, DtToken } from './DeviceTreeLexer';
+import { Preprocessor } from './Preprocessor';
 
 /**
  * Parsed binding structure
@@ -15,11 +40,371 @@ export interface ParsedBinding {
   params: string[];
 }
 
+const KNOWN_BEHAVIORS = ['trans', 'kp', 'mt', 'lt', 'mo', 'tog', 'bt', 'none', 'sk', 'to'];
+
+// Behavior properties with typed fields on ParsedBehavior
+const TYPED_BEHAVIOR_PROPERTIES = [
+  'compatible',
+  '#binding-cells',
+  'bindings',
+  'display-name',
+  'label',
+  'tapping-term-ms',
+  'quick-tap-ms',
+  'require-prior-idle-ms',
+  'flavor',
+];
+
+/**
+ * Recursive-descent parser over the lexer's tokens
+ *
+ * document   := statement*
+ * statement  := '/dts-v1/' ';' | '/plugin/' ';' | '/memreserve/' num num ';'
+ *             | '/delete-node/' reference ';'
+ *             | label* '/' body ';' | label* reference body ';'
+ * body       := '{' (property | node | '/delete-node/' name ';'
+ *                    | '/delete-property/' name ';')* '}'
+ * node       := label* name body ';'
+ * property   := label* name ('=' value (',' value)*)? ';'
+ * value      := string | '<' cell* '>' | '[' byte* ']' | reference
+ *             | '/bits/' number '<' cell* '>'
+ */
+class SyntaxParser {
+  private index = 0;
+
+  constructor(private readonly tokens: DtToken[]) {}
+
+  parseStatements(): DtStatement[] {
+    const statements: DtStatement[] = [];
+    while (this.peek().kind !== 'eof') {
+      const statement = this.parseStatement();
+      if (statement) {
+        statements.push(statement);
+      }
+    }
+    return statements;
+  }
+
+  private parseStatement(): DtStatement | null {
+    const token = this.peek();
+
+    if (token.kind === 'directive') {
+      this.next();
+      switch (token.text) {
+        case '/dts-v1/':
+        case '/plugin/':
+          this.expectPunct(';');
+          return null;
+        case '/memreserve/':
+          this.expectKind('number', 'an address');
+          this.expectKind('number', 'a size');
+          this.expectPunct(';');
+          return null;
+        case '/omit-if-no-ref/':
+          return this.parseStatement();
+        case '/delete-node/': {
+          const target = this.parseReference();
+          this.expectPunct(';');
+          return { kind: 'delete-node', target, location: token.location };
+        }
+        default:
+          throw new DeviceTreeSyntaxError(`Unexpected directive ${token.text}`, token.location);
+      }
+    }
+
+    const labels = this.parseLabels();
+    const start = this.peek();
+
+    if (this.isPunct('/')) {
+      this.next();
+      return { kind: 'root', node: this.parseBody('/', labels, start.location) };
+    }
+
+    if (start.kind === 'ref' || start.kind === 'path') {
+      const target = this.parseReference();
+      return { kind: 'override', target, node: this.parseBody(tokenText(start), labels, start.location) };
+    }
+
+    throw this.unexpected(start, "a root node ('/ { ... };') or a node reference ('&label { ... };')");
+  }
+
+  private parseBody(name: string, labels: string[], location: SourceLocation): DtNode {
+    const node: DtNode = { name, labels, properties: [], children: [], deletions: [], location };
+    this.expectPunct('{');
+
+    while (!this.isPunct('}')) {
+      const token = this.peek();
+
+      if (token.kind === 'eof') {
+        throw new DeviceTreeSyntaxError(`Missing '}' for node '${name}'`, location);
+      }
+
+      if (token.kind === 'directive') {
+        this.next();
+        if (token.text === '/omit-if-no-ref/') {
+          continue;
+        }
+        if (token.text !== '/delete-node/' && token.text !== '/delete-property/') {
+          throw new DeviceTreeSyntaxError(`Unexpected directive ${token.text}`, token.location);
+        }
+        const kind = token.text === '/delete-node/' ? 'node' : 'property';
+        const target = this.expectName(`a ${kind} name`);
+        this.expectPunct(';');
+        node.deletions.push({ kind, name: target.text, location: token.location });
+        continue;
+      }
+
+      const itemLabels = this.parseLabels();
+      const itemName = this.expectName('a property or node name');
+
+      if (this.isPunct('{')) {
+        node.children.push(this.parseBody(itemName.text, itemLabels, itemName.location));
+      } else {
+        node.properties.push(this.parseProperty(itemName, itemLabels));
+      }
+    }
+
+    this.next();
+    this.expectPunct(';');
+    return node;
+  }
+
+  private parseProperty(name: DtToken, labels: string[]): DtProperty {
+    const values: DtValue[] = [];
+
+    if (this.isPunct('=')) {
+      this.next();
+      values.push(this.parseValue());
+      while (this.isPunct(',')) {
+        this.next();
+        values.push(this.parseValue());
+      }
+    }
+
+    this.expectPunct(';');
+    return { name: name.text, labels, values, location: name.location };
+  }
+
+  private parseValue(): DtValue {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'string':
+        this.next();
+        return { kind: 'string', value: token.text, location: token.location };
+      case 'ref':
+      case 'path':
+        return { kind: 'ref', ref: this.parseReference(), location: token.location };
+      case 'directive':
+        if (token.text === '/bits/') {
+          this.next();
+          this.expectKind('number', 'a bit width');
+          return this.parseCells();
+        }
+        break;
+      case 'punct':
+        if (token.text === '<') {
+          return this.parseCells();
+        }
+        if (token.text === '[') {
+          return this.parseBytes();
+        }
+        break;
+    }
+
+    throw this.unexpected(token, 'a property value');
+  }
+
+  private parseCells(): DtValue {
+    const open = this.expectPunct('<');
+    const cells: DtCell[] = [];
+
+    while (!this.isPunct('>')) {
+      const token = this.peek();
+
+      if (token.kind === 'number') {
+        this.next();
+        cells.push({ kind: 'number', value: parseNumber(token.text), text: token.text, location: token.location });
+      } else if (token.kind === 'ref' || token.kind === 'path') {
+        cells.push({ kind: 'ref', ref: this.parseReference(), location: token.location });
+      } else if (token.kind === 'name') {
+        this.next();
+        if (this.isPunct('(')) {
+          cells.push({ kind: 'expression', text: token.text + this.parseParenthesized(), location: token.location });
+        } else {
+          cells.push({ kind: 'identifier', name: token.text, location: token.location });
+        }
+      } else if (this.isPunct('(')) {
+        cells.push({ kind: 'expression', text: this.parseParenthesized(), location: token.location });
+      } else if (token.kind === 'eof') {
+        throw new DeviceTreeSyntaxError("Missing '>' for cell list", open.location);
+      } else {
+        throw this.unexpected(token, "a cell or '>'");
+      }
+    }
+
+    this.next();
+    return { kind: 'cells', cells, location: open.location };
+  }
+
+  private parseBytes(): DtValue {
+    const open = this.expectPunct('[');
+    let hex = '';
+
+    while (!this.isPunct(']')) {
+      const token = this.next();
+      if (token.kind !== 'name' && token.kind !== 'number') {
+        throw this.unexpected(token, "a byte or ']'");
+      }
+      if (!/^[0-9a-f]+$/i.test(token.text)) {
+        throw new DeviceTreeSyntaxError(`Invalid byte '${token.text}'`, token.location);
+      }
+      hex += token.text;
+    }
+    this.next();
+
+    if (hex.length % 2 !== 0) {
+      throw new DeviceTreeSyntaxError('Byte string has an odd number of digits', open.location);
+    }
+    return { kind: 'bytes', bytes: hex.match(/../g) ?? [], location: open.location };
+  }
+
+  /**
+   * Consume a parenthesized expression, returning its text without whitespace
+   */
+  private parseParenthesized(): string {
+    const open = this.expectPunct('(');
+    let text = '(';
+    let depth = 1;
+
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'eof') {
+        throw new DeviceTreeSyntaxError("Missing ')'", open.location);
+      }
+      if (token.kind === 'punct' && token.text === '(') {
+        depth++;
+      } else if (token.kind === 'punct' && token.text === ')') {
+        depth--;
+      }
+      text += tokenText(token);
+    }
+
+    return text;
+  }
+
+  private parseReference(): DtReference {
+    const token = this.next();
+    if (token.kind === 'ref') {
+      return { label: token.text };
+    }
+    if (token.kind === 'path') {
+      return { path: token.text };
+    }
+    throw this.unexpected(token, "a node reference ('&label')");
+  }
+
+  private parseLabels(): string[] {
+    const labels: string[] = [];
+    while (this.peek().kind === 'label') {
+      labels.push(this.next().text);
+    }
+    return labels;
+  }
+
+  private expectName(expected: string): DtToken {
+    const token = this.peek();
+    // Node names such as "0" or "1wire" lex as numbers
+    if (token.kind !== 'name' && token.kind !== 'number') {
+      throw this.unexpected(token, expected);
+    }
+    return this.next();
+  }
+
+  private expectKind(kind: DtToken['kind'], expected: string): DtToken {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      throw this.unexpected(token, expected);
+    }
+    return this.next();
+  }
+
+  private expectPunct(text: string): DtToken {
+    const token = this.peek();
+    if (token.kind !== 'punct' || token.text !== text) {
+      throw this.unexpected(token, `'${text}'`);
+    }
+    return this.next();
+  }
+
+  private isPunct(text: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.text === text;
+  }
+
+  private peek(): DtToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): DtToken {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private unexpected(token: DtToken, expected: string): DeviceTreeSyntaxError {
+    const found =
+      token.kind === 'eof'
+        ? 'end of file'
+        : token.kind === 'string'
+          ? `"${token.text}"`
+          : `'${tokenText(token)}'`;
+    return new DeviceTreeSyntaxError(`Expected ${expected}, found ${found}`, token.location);
+  }
+}
+
+/**
+ * Source text of a token
+ */
+function tokenText(token: DtToken): string {
+  switch (token.kind) {
+    case 'ref':
+      return `&${token.text}`;
+    case 'path':
+      return `&{${token.text}}`;
+    case 'label':
+      return `${token.text}:`;
+    case 'string':
+      return JSON.stringify(token.text);
+    default:
+      return token.text;
+  }
+}
+
+/**
+ * Value of a decimal, hex or octal literal, ignoring U/L suffixes
+ */
+function parseNumber(text: string): number {
+  const digits = text.replace(/[ul]+$/i, '');
+  if (/^0x/i.test(digits)) {
+    return parseInt(digits.slice(2), 16);
+  }
+  if (digits.length > 1 && digits.startsWith('0')) {
+    return parseInt(digits, 8);
+  }
+  return parseInt(digits, 10);
+}
+
 export class DeviceTreeParser {
   /**
    * Parse a .keymap file content
+   *
+   * @param content - Contents of the .keymap file
+   * @param options - Files available to `#include` and predefined macros
    */
-  static parse(content: string): ParseResult {
+  static parse(content: string, options: PreprocessOptions = {}): ParseResult {
     // Validate input
     if (!content || content.trim().length === 0) {
       return {
@@ -31,46 +416,60 @@ export class DeviceTreeParser {
       };
     }
 
-    // Remove comments
-    const withoutComments = this.removeComments(content);
-
-    // Extract metadata from original content (before comment removal)
+    // Metadata lives in the header comment, which the preprocessor drops
     const metadata = this.extractMetadata(content);
+    let preprocessed: PreprocessResult | undefined;
 
-    // Check for keymap structure
-    if (!this.hasKeymapStructure(withoutComments)) {
-      return {
-        success: false,
-        error: {
-          code: ParseErrorCode.MISSING_KEYMAP,
-          message: 'No keymap structure found in file',
-        },
-      };
-    }
-
-    // Parse layers
     try {
-      const layers = this.parseLayers(withoutComments);
-      const warnings: string[] = [];
+      preprocessed = Preprocessor.preprocess(content, options);
+      const document = this.parseDocument(preprocessed.output);
+      const keymap = this.findKeymapNode(document.root);
+
+      if (!keymap) {
+        return {
+          success: false,
+          error: {
+            code: ParseErrorCode.MISSING_KEYMAP,
+            message: 'No keymap node (compatible = "zmk,keymap") found in file',
+          },
+        };
+      }
+
+      const layers = this.parseLayers(keymap);
+      const warnings = [...preprocessed.warnings];
 
       // Check for unknown behaviors
       layers.forEach((layer) => {
         layer.bindings.forEach((binding) => {
           const parsed = this.parseBinding(binding);
-          const knownBehaviors = ['trans', 'kp', 'mt', 'lt', 'mo', 'tog', 'bt'];
-          if (!knownBehaviors.includes(parsed.behavior)) {
+          if (!KNOWN_BEHAVIORS.includes(parsed.behavior)) {
             warnings.push(`Unknown behavior: ${parsed.behavior} in binding: ${binding}`);
           }
         });
       });
 
+      const combos = this.parseCombos(document.root, warnings);
+      const macros = this.parseMacros(document.root, warnings);
+      const behaviors = this.parseBehaviors(document, warnings);
+
       return {
         success: true,
         layers,
         metadata,
         warnings: warnings.length > 0 ? warnings : undefined,
+        expansions: preprocessed.expansions.length > 0 ? preprocessed.expansions : undefined,
+        combos,
+        macros,
+        behaviors,
+        bindingLocations: this.parseBindingLocations(keymap, preprocessed.sourceMap),
       };
     } catch (error) {
+      if (error instanceof DeviceTreeSyntaxError) {
+        return {
+          success: false,
+          error: this.syntaxError(error, content, options, preprocessed),
+        };
+      }
       return {
         success: false,
         error: {
@@ -81,6 +480,112 @@ export class DeviceTreeParser {
     }
   }
 
+  /**
+   * Parse devicetree source into a syntax tree and the merged node tree
+   *
+   * Root nodes are merged in order; `&label { }` overrides and
+   * `/delete-node/` statements are applied to the tree built so far.
+   * Overrides of nodes not defined in the source (usually behaviors from
+   * behaviors.dtsi) are returned in `unresolved`.
+   *
+   * @param content - Devicetree source
+   * @returns Parsed document
+   * @throws DeviceTreeSyntaxError with the line and column of the problem
+   */
+  static parseDocument(content: string): DtDocument {
+    const statements = new SyntaxParser(DeviceTreeLexer.tokenize(content)).parseStatements();
+    const root = this.emptyNode('/', { line: 1, column: 1 });
+    const unresolved: DtDocument['unresolved'] = [];
+
+    for (const statement of statements) {
+      if (statement.kind === 'root') {
+        this.mergeNode(root, statement.node);
+      } else if (statement.kind === 'override') {
+        const target = this.findNode(root, statement.target);
+        if (target) {
+          this.mergeNode(target, statement.node);
+        } else {
+          unresolved.push({ target: statement.target, node: statement.node });
+        }
+      } else {
+        const target = this.findNode(root, statement.target);
+        if (target) {
+          this.removeNode(root, target);
+        }
+      }
+    }
+
+    return { statements, root, unresolved };
+  }
+
+  /**
+   * Find a node by label or path
+   *
+   * @param root - Root of the tree to search
+   * @param ref - `&label` or `&{/path}` reference
+   * @returns The node, or undefined if it does not exist
+   */
+  static findNode(root: DtNode, ref: DtReference): DtNode | undefined {
+    if (ref.path !== undefined) {
+      let node: DtNode | undefined = root;
+      for (const segment of ref.path.split('/').filter((s) => s.length > 0)) {
+        node = node.children.find(
+          (child: DtNode) => child.name === segment || child.name.split('@')[0] === segment
+        );
+        if (!node) {
+          return undefined;
+        }
+      }
+      return node;
+    }
+
+    const label = ref.label;
+    return label === undefined ? undefined : this.findNodeWhere(root, (node) => node.labels.includes(label));
+  }
+
+  /**
+   * Get the value of a single-string property
+   */
+  static getStringProperty(node: DtNode, name: string): string | undefined {
+    const value = node.properties.find((p) => p.name === name)?.values[0];
+    return value?.kind === 'string' ? value.value : undefined;
+  }
+
+  /**
+   * Get all cells of a property, concatenating `<...>, <...>` groups
+   */
+  static getCells(node: DtNode, name: string): DtCell[] {
+    const property = node.properties.find((p) => p.name === name);
+    return (property?.values ?? []).flatMap((value) => (value.kind === 'cells' ? value.cells : []));
+  }
+
+  /**
+   * Split a cell list into bindings ("&kp A", "&mt LCTRL B")
+   *
+   * Each behavior reference starts a new binding; the cells after it up to
+   * the next reference are its parameters.
+   *
+   * @throws DeviceTreeSyntaxError if the list does not start with a reference
+   */
+  static formatBindings(cells: DtCell[]): string[] {
+    const bindings: string[][] = [];
+
+    for (const cell of cells) {
+      if (cell.kind === 'ref') {
+        bindings.push([this.formatCell(cell)]);
+      } else if (bindings.length === 0) {
+        throw new DeviceTreeSyntaxError(
+          `Expected a behavior reference, found '${this.formatCell(cell)}'`,
+          cell.location
+        );
+      } else {
+        bindings[bindings.length - 1].push(this.formatCell(cell));
+      }
+    }
+
+    return bindings.map((parts) => parts.join(' '));
+  }
+
   /**
    * Parse a single binding string
    * Example: "&kp A" -> { behavior: "kp", params: ["A"] }
@@ -88,7 +593,7 @@ export class DeviceTreeParser {
   static parseBinding(binding: string): ParsedBinding {
     // Remove leading & and split by whitespace
     const cleaned = binding.trim().replace(/^&/, '');
-    const parts = cleaned.split(/\s+/);
+    const parts = this.tokenize(cleaned);
 
     return {
       behavior: parts[0],
@@ -96,19 +601,6 @@ export class DeviceTreeParser {
     };
   }
 
-  /**
-   * Remove C-style and C++-style comments
-   */
-  private static removeComments(content: string): string {
-    // Remove C-style comments /* ... */
-    let result = content.replace(/\/\*[\s\S]*?\*\//g, ' ');
-
-    // Remove C++-style comments // ...
-    result = result.replace(/\/\/[^\n]*/g, ' ');
-
-    return result;
-  }
-
   /**
    * Extract metadata from header comment
    */
@@ -151,118 +643,360 @@ export class DeviceTreeParser {
   }
 
   /**
-   * Check if content has keymap structure
+   * Convert a syntax error to a ParseError located in the original source
+   *
+   * Errors found after preprocessing are positioned in the preprocessed
+   * text; the source map takes them back to the file and line they came
+   * from. Columns are kept, and are exact unless a macro was expanded
+   * earlier on the line.
    */
-  private static hasKeymapStructure(content: string): boolean {
-    return content.includes('keymap') && content.includes('{');
+  private static syntaxError(
+    error: DeviceTreeSyntaxError,
+    content: string,
+    options: PreprocessOptions,
+    preprocessed?: PreprocessResult
+  ): ParseError {
+    const origin = preprocessed?.sourceMap[error.line - 1];
+    const file = preprocessed ? origin?.file : error.file;
+    const line = preprocessed ? (origin?.line ?? error.line) : error.line;
+    const source = file === undefined || file === options.fileName ? content : options.files?.[file];
+    const where = file && file !== options.fileName ? ` of ${file}` : '';
+
+    return {
+      code: ParseErrorCode.INVALID_FORMAT,
+      message: `${error.reason} at line ${line}, column ${error.column}${where}`,
+      line,
+      column: error.column,
+      file: where ? file : undefined,
+      context: source?.split(/\r?\n/)[line - 1]?.trim(),
+    };
   }
 
   /**
-   * Parse all layers from content
+   * Find the keymap node: the node with compatible = "zmk,keymap", or a
+   * node named "keymap" if no node declares it
+   *
+   * @param root - Root of the merged tree (see parseDocument)
+   * @returns The keymap node, or undefined if there is none
    */
-  private static parseLayers(content: string): ParsedLayer[] {
-    const layers: ParsedLayer[] = [];
+  static findKeymapNode(root: DtNode): DtNode | undefined {
+    return (
+      this.findNodeWhere(root, (node) => this.getStringProperty(node, 'compatible') === 'zmk,keymap') ??
+      this.findNodeWhere(root, (node) => node.name === 'keymap')
+    );
+  }
 
-    // Find all layer definitions
-    // Pattern: layer_name { ... };
-    const layerRegex = /(\w+_layer|\w+)\s*\{([^}]*(?:\{[^}]*\}[^}]*)*)\}\s*;/g;
+  /**
+   * Get the layer nodes of a keymap node, in order: the children with bindings
+   *
+   * @param keymap - Keymap node
+   * @returns Layer nodes
+   */
+  static getLayerNodes(keymap: DtNode): DtNode[] {
+    return keymap.children.filter((child) => child.properties.some((p) => p.name === 'bindings'));
+  }
 
-    let match;
-    while ((match = layerRegex.exec(content)) !== null) {
-      const layerContent = match[2];
+  /**
+   * Read the layers of a keymap node, in order; children without bindings are skipped
+   */
+  private static parseLayers(keymap: DtNode): ParsedLayer[] {
+    return this.getLayerNodes(keymap)
+      .map((child) => ({
+        label: this.getStringProperty(child, 'display-name') ?? this.getStringProperty(child, 'label') ?? '',
+        bindings: this.formatBindings(this.getCells(child, 'bindings')),
+      }));
+  }
 
-      // Check if this is actually a layer (has bindings)
-      if (!layerContent.includes('bindings')) {
-        continue;
-      }
+  /**
+   * Find where each binding of each layer starts: the location of its
+   * behavior reference, in the same layer order as parseLayers
+   *
+   * Locations are taken back to the file and line they came from, as for
+   * syntax errors.
+   */
+  private static parseBindingLocations(
+    keymap: DtNode,
+    sourceMap: SourceLocation[]
+  ): SourceLocation[][] {
+    return this.getLayerNodes(keymap)
+      .map((child) =>
+        this.getCells(child, 'bindings')
+          .filter((cell) => cell.kind === 'ref')
+          .map(({ location }) => {
+            const origin = sourceMap[location.line - 1];
+            return origin
+              ? { line: origin.line, column: location.column, file: origin.file }
+              : location;
+          })
+      );
+  }
 
-      // Extract label
-      const labelMatch = layerContent.match(/label\s*=\s*"([^"]*)"/);
-      const label = labelMatch ? labelMatch[1] : '';
+  /**
+   * Read the combos: the children of the `zmk,combos` node
+   */
+  private static parseCombos(root: DtNode, warnings: string[]): ParsedCombo[] {
+    return this.findNodesWhere(root, (node) => this.getStringProperty(node, 'compatible') === 'zmk,combos')
+      .flatMap((combos) => combos.children)
+      .map((node) => {
+        const owner = `Combo ${node.name}`;
+        return {
+          name: node.name,
+          keyPositions: this.getNumbers(node, 'key-positions', owner, warnings) ?? [],
+          binding: this.formatBindings(this.getCells(node, 'bindings'))[0] ?? '',
+          timeoutMs: this.getNumbers(node, 'timeout-ms', owner, warnings)?.[0],
+          layers: this.getNumbers(node, 'layers', owner, warnings),
+          requirePriorIdleMs: this.getNumbers(node, 'require-prior-idle-ms', owner, warnings)?.[0],
+          slowRelease: node.properties.some((p) => p.name === 'slow-release'),
+        };
+      });
+  }
 
-      // Extract bindings
-      const bindingsMatch = layerContent.match(/bindings\s*=\s*<([^>]*)>/);
-      if (!bindingsMatch) {
-        continue;
+  /**
+   * Read the macro behaviors, wherever they are defined
+   */
+  private static parseMacros(root: DtNode, warnings: string[]): ParsedMacro[] {
+    return this.findNodesWhere(root, (node) => this.isMacro(node)).map((node) => {
+      const label = node.labels[0] ?? node.name;
+      const owner = `Macro ${label}`;
+      return {
+        name: node.name,
+        label,
+        displayName: this.getStringProperty(node, 'display-name'),
+        compatible: this.getStringProperty(node, 'compatible') ?? '',
+        bindingCells: this.getNumbers(node, '#binding-cells', owner, warnings)?.[0] ?? 0,
+        bindings: this.formatBindings(this.getCells(node, 'bindings')),
+        waitMs: this.getNumbers(node, 'wait-ms', owner, warnings)?.[0],
+        tapMs: this.getNumbers(node, 'tap-ms', owner, warnings)?.[0],
+      };
+    });
+  }
+
+  /**
+   * Read the other behaviors defined in the file, and the settings given to
+   * behaviors defined elsewhere
+   */
+  private static parseBehaviors(document: DtDocument, warnings: string[]): ParsedBehavior[] {
+    const defined = this.findNodesWhere(document.root, (node) => {
+      const compatible = this.getStringProperty(node, 'compatible') ?? '';
+      return compatible.startsWith('zmk,behavior-') && !this.isMacro(node);
+    }).map((node) => this.toBehavior(node, node.name, node.labels[0] ?? node.name, false, warnings));
+
+    const overrides = document.unresolved.flatMap(({ target, node }) =>
+      target.label !== undefined ? [this.toBehavior(node, target.label, target.label, true, warnings)] : []
+    );
+
+    return [...defined, ...overrides];
+  }
+
+  private static toBehavior(
+    node: DtNode,
+    name: string,
+    label: string,
+    override: boolean,
+    warnings: string[]
+  ): ParsedBehavior {
+    const owner = `Behavior ${label}`;
+    const properties: Record<string, ParsedPropertyValue> = {};
+    for (const property of node.properties) {
+      if (!TYPED_BEHAVIOR_PROPERTIES.includes(property.name)) {
+        properties[property.name] = this.toPropertyValue(property);
       }
+    }
 
-      const bindingsText = bindingsMatch[1];
-      const bindings = this.parseBindings(bindingsText);
+    return {
+      name,
+      label,
+      displayName: this.getStringProperty(node, 'display-name'),
+      compatible: this.getStringProperty(node, 'compatible') ?? '',
+      bindingCells: this.getNumbers(node, '#binding-cells', owner, warnings)?.[0],
+      bindings: this.formatBindings(this.getCells(node, 'bindings')),
+      tappingTermMs: this.getNumbers(node, 'tapping-term-ms', owner, warnings)?.[0],
+      quickTapMs: this.getNumbers(node, 'quick-tap-ms', owner, warnings)?.[0],
+      requirePriorIdleMs: this.getNumbers(node, 'require-prior-idle-ms', owner, warnings)?.[0],
+      flavor: this.getStringProperty(node, 'flavor'),
+      properties,
+      override,
+    };
+  }
 
-      layers.push({
-        label,
-        bindings,
-      });
+  private static isMacro(node: DtNode): boolean {
+    return (this.getStringProperty(node, 'compatible') ?? '').startsWith('zmk,behavior-macro');
+  }
+
+  /**
+   * Get a property as numbers
+   *
+   * Cells that are not numbers (usually macros from a header that was not
+   * supplied) produce a warning, and the property is treated as absent.
+   */
+  private static getNumbers(
+    node: DtNode,
+    name: string,
+    owner: string,
+    warnings: string[]
+  ): number[] | undefined {
+    if (!node.properties.some((p) => p.name === name)) {
+      return undefined;
     }
 
-    return layers;
+    const cells = this.getCells(node, name);
+    const invalid = cells.find((cell) => cell.kind !== 'number');
+    if (invalid) {
+      warnings.push(`${owner}: ${name} value '${this.formatCell(invalid)}' is not a number`);
+      return undefined;
+    }
+    return cells.flatMap((cell) => (cell.kind === 'number' ? [cell.value] : []));
+  }
+
+  private static toPropertyValue(property: DtProperty): ParsedPropertyValue {
+    const { values } = property;
+    if (values.length === 0) {
+      return true;
+    }
+
+    const strings = values.flatMap((value) => (value.kind === 'string' ? [value.value] : []));
+    if (strings.length === values.length) {
+      return strings.length === 1 ? strings[0] : strings;
+    }
+
+    const cells = values.flatMap((value) => (value.kind === 'cells' ? value.cells : []));
+    const numbers = cells.flatMap((cell) => (cell.kind === 'number' ? [cell.value] : []));
+    if (values.every((value) => value.kind === 'cells') && numbers.length === cells.length) {
+      return numbers;
+    }
+
+    return values.flatMap((value) => {
+      switch (value.kind) {
+        case 'string':
+          return [value.value];
+        case 'cells':
+          return value.cells.map((cell) => this.formatCell(cell));
+        case 'bytes':
+          return value.bytes;
+        case 'ref':
+          return [this.formatReference(value.ref)];
+      }
+    });
+  }
+
+  private static formatCell(cell: DtCell): string {
+    switch (cell.kind) {
+      case 'number':
+        return cell.text;
+      case 'identifier':
+        return cell.name;
+      case 'expression':
+        return cell.text;
+      case 'ref':
+        return this.formatReference(cell.ref);
+    }
+  }
+
+  private static formatReference(ref: DtReference): string {
+    return ref.path !== undefined ? `&{${ref.path}}` : `&${ref.label}`;
+  }
+
+  private static emptyNode(name: string, location: SourceLocation): DtNode {
+    return { name, labels: [], properties: [], children: [], deletions: [], location };
   }
 
   /**
-   * Parse bindings text into array of binding strings
+   * Merge a parsed node body into a node of the resolved tree
+   *
+   * Deletions apply first, then properties replace same-named ones and
+   * children merge into same-named children.
    */
-  private static parseBindings(bindingsText: string): string[] {
-    // Split by whitespace and filter out empty strings
-    const tokens = bindingsText.trim().split(/\s+/).filter((t) => t.length > 0);
-
-    const bindings: string[] = [];
-    let i = 0;
-
-    while (i < tokens.length) {
-      const token = tokens[i];
-
-      // If token starts with &, it's a behavior
-      if (token.startsWith('&')) {
-        const behavior = token.substring(1);
-
-        // Determine how many parameters this behavior needs
-        const paramCount = this.getParameterCount(behavior);
-
-        // Collect parameters
-        const params: string[] = [];
-        for (let j = 0; j < paramCount && i + 1 + j < tokens.length; j++) {
-          const nextToken = tokens[i + 1 + j];
-          // Only add if it doesn't start with & (next behavior)
-          if (!nextToken.startsWith('&')) {
-            params.push(nextToken);
-          } else {
-            break;
-          }
-        }
+  private static mergeNode(target: DtNode, source: DtNode): void {
+    for (const label of source.labels) {
+      if (!target.labels.includes(label)) {
+        target.labels.push(label);
+      }
+    }
 
-        // Build binding string
-        const binding = `&${behavior}${params.length > 0 ? ' ' + params.join(' ') : ''}`;
-        bindings.push(binding);
+    for (const deletion of source.deletions) {
+      if (deletion.kind === 'node') {
+        target.children = target.children.filter((child) => child.name !== deletion.name);
+      } else {
+        target.properties = target.properties.filter((p) => p.name !== deletion.name);
+      }
+    }
 
-        i += 1 + params.length;
+    for (const property of source.properties) {
+      const index = target.properties.findIndex((p) => p.name === property.name);
+      if (index >= 0) {
+        target.properties[index] = property;
       } else {
-        // Skip non-behavior tokens (shouldn't happen in well-formed input)
-        i++;
+        target.properties.push(property);
+      }
+    }
+
+    for (const child of source.children) {
+      let existing = target.children.find((c) => c.name === child.name);
+      if (!existing) {
+        existing = this.emptyNode(child.name, child.location);
+        target.children.push(existing);
       }
+      this.mergeNode(existing, child);
     }
+  }
+
+  private static removeNode(parent: DtNode, node: DtNode): void {
+    parent.children = parent.children.filter((child) => child !== node);
+    parent.children.forEach((child) => this.removeNode(child, node));
+  }
+
+  private static findNodesWhere(node: DtNode, predicate: (node: DtNode) => boolean): DtNode[] {
+    return [
+      ...(predicate(node) ? [node] : []),
+      ...node.children.flatMap((child) => this.findNodesWhere(child, predicate)),
+    ];
+  }
 
-    return bindings;
+  private static findNodeWhere(node: DtNode, predicate: (node: DtNode) => boolean): DtNode | undefined {
+    if (predicate(node)) {
+      return node;
+    }
+    for (const child of node.children) {
+      const found = this.findNodeWhere(child, predicate);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
   }
 
   /**
-   * Get expected parameter count for a behavior
+   * Split text on whitespace outside parentheses
+   *
+   * Keeps modifier functions such as "LC( LS(T) )" in one token, with the
+   * whitespace inside removed.
    */
-  private static getParameterCount(behavior: string): number {
-    const paramCounts: Record<string, number> = {
-      trans: 0,
-      kp: 1,
-      mt: 2,
-      lt: 2,
-      mo: 1,
-      tog: 1,
-      bt: 1, // Can be 1 or 2, we'll handle both
-    };
+  private static tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let depth = 0;
+
+    for (const char of text) {
+      if (/\s/.test(char)) {
+        if (depth === 0 && current.length > 0) {
+          tokens.push(current);
+          current = '';
+        }
+        continue;
+      }
+
+      if (char === '(') {
+        depth++;
+      } else if (char === ')' && depth > 0) {
+        depth--;
+      }
+      current += char;
+    }
 
-    // Check for bt with two params (BT_SEL takes an index)
-    if (behavior === 'bt') {
-      return 2; // Handle up to 2 params, parser will stop at next &
+    if (current.length > 0) {
+      tokens.push(current);
     }
 
-    return paramCounts[behavior] ?? 1; // Default to 1 if unknown
+    return tokens;
   }
 }
@@ -0,0 +1,436 @@
+/**
+ * Unit tests for ImportApplier
+ *
+ * The keyboard is simulated behind a mocked call_rpc.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RpcConnection } from '@zmkfirmware/zmk-studio-ts-client';
+import type { Keymap, Request } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { ImportApplier } from './ImportApplier';
+import { ImportErrorCode } from './types';
+import type { ImportedLayer } from './types';
+
+const device = vi.hoisted(() => ({
+  keymap: null as unknown as Keymap,
+  removed: [] as Keymap['layers'],
+  /** Number of setLayerBinding calls so far */
+  writes: 0,
+  /** Whether the keyboard rejects the setLayerBinding call with this index */
+  rejectWrite: (() => false) as (index: number) => boolean,
+  requests: [] as Request[],
+  activeLayoutIndex: 0,
+}));
+
+// The client's generated modules import 'protobufjs/minimal', which does not
+// resolve under vitest; only the response codes are needed here
+vi.mock('@zmkfirmware/zmk-studio-ts-client/keymap', () => ({
+  SetLayerBindingResponse: { SET_LAYER_BINDING_RESP_OK: 0 },
+  SetLayerPropsResponse: { SET_LAYER_PROPS_RESP_OK: 0 },
+}));
+
+vi.mock('../rpc/logging', () => {
+  const call_rpc = vi.fn(async (_conn: unknown, req: { keymap: Request }) => {
+    const keymap = req.keymap;
+    device.requests.push(keymap);
+
+    if (keymap.getPhysicalLayouts) {
+      return {
+        keymap: {
+          getPhysicalLayouts: {
+            activeLayoutIndex: device.activeLayoutIndex,
+            layouts: [{ name: 'Standard' }, { name: '5 Column' }],
+          },
+        },
+      };
+    }
+    if (keymap.setActivePhysicalLayout !== undefined) {
+      if (keymap.setActivePhysicalLayout > 1) {
+        return { keymap: { setActivePhysicalLayout: { err: 1 } } };
+      }
+      device.activeLayoutIndex = keymap.setActivePhysicalLayout;
+      return { keymap: { setActivePhysicalLayout: { ok: structuredClone(device.keymap) } } };
+    }
+    if (keymap.getKeymap) {
+      return { keymap: { getKeymap: structuredClone(device.keymap) } };
+    }
+    if (keymap.setLayerBinding) {
+      const { layerId, keyPosition, binding } = keymap.setLayerBinding;
+      const layer = device.keymap.layers.find((l) => l.id === layerId);
+      if (!layer || device.rejectWrite(device.writes++)) {
+        return { keymap: { setLayerBinding: 1 } };
+      }
+      layer.bindings[keyPosition] = binding!;
+      return { keymap: { setLayerBinding: 0 } };
+    }
+    if (keymap.setLayerProps) {
+      const layer = device.keymap.layers.find((l) => l.id === keymap.setLayerProps!.layerId);
+      if (!layer) {
+        return { keymap: { setLayerProps: 2 } };
+      }
+      layer.name = keymap.setLayerProps.name;
+      return { keymap: { setLayerProps: 0 } };
+    }
+    if (keymap.addLayer) {
+      if (device.keymap.availableLayers === 0) {
+        return { keymap: { addLayer: { err: 2 } } };
+      }
+      const ids = [...device.keymap.layers, ...device.removed].map((l) => l.id);
+      const layer = {
+        id: Math.max(...ids) + 1,
+        name: '',
+        bindings: device.keymap.layers[0].bindings.map(() => ({ behaviorId: 0, param1: 0, param2: 0 })),
+      };
+      device.keymap.layers.push(layer);
+      device.keymap.availableLayers--;
+      return { keymap: { addLayer: { ok: { index: device.keymap.layers.length - 1, layer } } } };
+    }
+    if (keymap.removeLayer) {
+      const [layer] = device.keymap.layers.splice(keymap.removeLayer.layerIndex, 1);
+      device.removed.push(layer);
+      device.keymap.availableLayers++;
+      return { keymap: { removeLayer: { ok: {} } } };
+    }
+    if (keymap.restoreLayer) {
+      const { layerId, atIndex } = keymap.restoreLayer;
+      const layer = device.removed.find((l) => l.id === layerId);
+      if (!layer) {
+        return { keymap: { restoreLayer: { err: 2 } } };
+      }
+      device.keymap.layers.splice(atIndex, 0, layer);
+      device.removed = device.removed.filter((l) => l !== layer);
+      device.keymap.availableLayers--;
+      return { keymap: { restoreLayer: { ok: layer } } };
+    }
+    return {};
+  });
+
+  return {
+    call_rpc,
+    pipeline_rpc: vi.fn(
+      async (
+        conn: unknown,
+        reqs: { keymap: Request }[],
+        options: { signal?: AbortSignal; onResponse?: (index: number, resp: unknown) => void }
+      ) => {
+        const responses = [];
+        for (const req of reqs) {
+          if (options.signal?.aborted) {
+            break;
+          }
+          const resp = await call_rpc(conn, req);
+          options.onResponse?.(responses.length, resp);
+          responses.push(resp);
+        }
+        return responses;
+      }
+    ),
+  };
+});
+
+const conn = {} as RpcConnection;
+
+const kp = (usage: number) => ({ behaviorId: 1, param1: 0x70000 + usage, param2: 0 });
+
+describe('ImportApplier', () => {
+  beforeEach(() => {
+    // Layer IDs deliberately differ from layer indexes
+    device.keymap = {
+      layers: [
+        { id: 3, name: 'Base', bindings: [kp(4), kp(5), kp(6)] },
+        { id: 8, name: 'Lower', bindings: [kp(30), kp(31), kp(32)] },
+      ],
+      availableLayers: 2,
+      maxLayerNameLength: 16,
+    };
+    device.removed = [];
+    device.writes = 0;
+    device.rejectWrite = () => false;
+    device.requests = [];
+    device.activeLayoutIndex = 0;
+  });
+
+  const imported: ImportedLayer[] = [
+    {
+      id: 0,
+      label: 'Base',
+      bindings: [
+        { behaviorId: 1, param1: 0x70007, param2: null, position: 0 },
+        { behaviorId: 1, param1: 0x70008, param2: null, position: 1 },
+      ],
+    },
+    {
+      id: 1,
+      label: 'Lower',
+      bindings: [{ behaviorId: 0, param1: null, param2: null, position: 2 }],
+    },
+  ];
+
+  describe('apply', () => {
+    it('should write the imported bindings', async () => {
+      const result = await ImportApplier.apply(conn, imported);
+
+      expect(result.success).toBe(true);
+      expect(device.keymap.layers[0].bindings).toEqual([kp(7), kp(8), kp(6)]);
+      expect(device.keymap.layers[1].bindings[2]).toEqual({ behaviorId: 0, param1: 0, param2: 0 });
+      expect(result.keymap).toEqual(device.keymap);
+    });
+
+    it('should undo every change in one step', async () => {
+      const before = structuredClone(device.keymap);
+      const result = await ImportApplier.apply(conn, imported);
+
+      const restored = await result.undo!();
+
+      expect(device.keymap).toEqual(before);
+      expect(restored).toEqual(before);
+    });
+
+    it('should roll back when a write is rejected midway', async () => {
+      const before = structuredClone(device.keymap);
+      device.rejectWrite = (index) => index === 2;
+
+      const result = await ImportApplier.apply(conn, imported);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ImportErrorCode.RPC_ERROR);
+      expect(result.error?.message).toContain('key 2 on layer "Lower"');
+      expect(result.error?.message).toContain('rolled back');
+      expect(result.undo).toBeUndefined();
+      expect(device.keymap).toEqual(before);
+      expect(result.keymap).toEqual(before);
+    });
+
+    it('should skip bindings the keyboard already has', async () => {
+      await ImportApplier.apply(conn, [
+        {
+          id: 0,
+          label: 'Base',
+          bindings: [
+            { behaviorId: 1, param1: 0x70004, param2: null, position: 0 },
+            { behaviorId: 1, param1: 0x70009, param2: null, position: 1 },
+          ],
+        },
+      ]);
+
+      expect(device.writes).toBe(1);
+    });
+
+    it('should publish write progress', async () => {
+      const pub = vi.fn();
+
+      await ImportApplier.apply(conn, imported, { pub });
+
+      expect(pub).toHaveBeenLastCalledWith(
+        'bulk_write.progress',
+        expect.objectContaining({ total: 3, done: 3, failed: 0 })
+      );
+    });
+
+    it('should roll back when cancelled', async () => {
+      const before = structuredClone(device.keymap);
+      const controller = new AbortController();
+      const pub = vi.fn((_name: PropertyKey, progress: { done: number }) => {
+        if (progress.done === 1) {
+          controller.abort();
+        }
+      });
+
+      const result = await ImportApplier.apply(conn, imported, { signal: controller.signal, pub });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('cancelled');
+      expect(device.keymap).toEqual(before);
+    });
+
+    it('should say so when the rollback fails too', async () => {
+      device.rejectWrite = (index) => index >= 1;
+
+      const result = await ImportApplier.apply(conn, imported);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('rolling back also failed');
+      expect(result.keymap).toBeUndefined();
+    });
+  });
+
+  describe('layer structure', () => {
+    const layer = (id: number, label: string): ImportedLayer => ({
+      id,
+      label,
+      bindings: [{ behaviorId: 1, param1: 0x70004 + id, param2: null, position: 0 }],
+    });
+
+    it('should write to the layer at the same index, by its device ID', async () => {
+      await ImportApplier.apply(conn, [layer(1, 'Lower')]);
+
+      expect(device.keymap.layers[1].bindings[0]).toEqual(kp(5));
+      expect(device.keymap.layers[0].bindings[0]).toEqual(kp(4));
+    });
+
+    it('should add layers the keyboard is missing', async () => {
+      const result = await ImportApplier.apply(conn, [
+        layer(0, 'Base'),
+        layer(1, 'Lower'),
+        layer(2, 'Raise'),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(device.keymap.layers.map((l) => l.name)).toEqual(['Base', 'Lower', 'Raise']);
+      expect(device.keymap.layers[2].id).toBe(9);
+      expect(device.keymap.layers[2].bindings[0]).toEqual(kp(6));
+      expect(device.keymap.availableLayers).toBe(1);
+    });
+
+    it('should remove layers past the end of the file', async () => {
+      const result = await ImportApplier.apply(conn, [layer(0, 'Base')], { layerCount: 1 });
+
+      expect(result.success).toBe(true);
+      expect(device.keymap.layers.map((l) => l.name)).toEqual(['Base']);
+    });
+
+    it('should keep excluded layers that are still in the file', async () => {
+      await ImportApplier.apply(conn, [layer(0, 'Base')], { layerCount: 2 });
+
+      expect(device.keymap.layers.map((l) => l.name)).toEqual(['Base', 'Lower']);
+      expect(device.keymap.layers[1].bindings[0]).toEqual(kp(30));
+    });
+
+    it('should rename layers, within the name length limit', async () => {
+      device.keymap.maxLayerNameLength = 6;
+
+      await ImportApplier.apply(conn, [layer(0, 'Default'), layer(1, 'Lower')]);
+
+      expect(device.keymap.layers.map((l) => l.name)).toEqual(['Defaul', 'Lower']);
+      expect(device.requests.filter((r) => r.setLayerProps)).toHaveLength(1);
+    });
+
+    it('should not rename layers without a label', async () => {
+      await ImportApplier.apply(conn, [layer(0, '')]);
+
+      expect(device.keymap.layers[0].name).toBe('Base');
+    });
+
+    it('should refuse a file with more layers than the keyboard supports', async () => {
+      const before = structuredClone(device.keymap);
+
+      const result = await ImportApplier.apply(conn, [0, 1, 2, 3, 4].map((i) => layer(i, `L${i}`)));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('The file needs 5 layers, but the keyboard supports at most 4');
+      expect(device.keymap).toEqual(before);
+    });
+
+    it('should point layer parameters at the device layer IDs', async () => {
+      await ImportApplier.apply(conn, [
+        {
+          id: 0,
+          label: 'Base',
+          bindings: [
+            { behaviorId: 4, param1: 1, param2: null, position: 0 }, // &mo 1
+            { behaviorId: 3, param1: 0, param2: 0x7002b, position: 1 }, // &lt 0 TAB
+            { behaviorId: 1, param1: 1, param2: null, position: 2 }, // &kp, not a layer
+          ],
+        },
+      ]);
+
+      expect(device.keymap.layers[0].bindings).toEqual([
+        { behaviorId: 4, param1: 8, param2: 0 },
+        { behaviorId: 3, param1: 3, param2: 0x7002b },
+        { behaviorId: 1, param1: 1, param2: 0 },
+      ]);
+    });
+
+    it('should undo added layers and renames', async () => {
+      const before = structuredClone(device.keymap);
+      const result = await ImportApplier.apply(conn, [
+        layer(0, 'Default'),
+        layer(1, 'Lower'),
+        layer(2, 'Raise'),
+      ]);
+
+      await result.undo!();
+
+      expect(device.keymap).toEqual(before);
+    });
+
+    it('should undo removed layers', async () => {
+      const before = structuredClone(device.keymap);
+      const result = await ImportApplier.apply(conn, [layer(0, 'Base')], { layerCount: 1 });
+
+      await result.undo!();
+
+      expect(device.keymap).toEqual(before);
+    });
+  });
+
+  describe('physical layout', () => {
+    it('should switch to the given physical layout and report it', async () => {
+      const onPhysicalLayoutChange = vi.fn();
+
+      const result = await ImportApplier.apply(conn, imported, {
+        physicalLayoutIndex: 1,
+        onPhysicalLayoutChange,
+      });
+
+      expect(result.success).toBe(true);
+      expect(device.activeLayoutIndex).toBe(1);
+      expect(onPhysicalLayoutChange).toHaveBeenCalledWith(1);
+    });
+
+    it('should not switch when the layout is already active', async () => {
+      await ImportApplier.apply(conn, imported, { physicalLayoutIndex: 0 });
+
+      expect(device.requests.some((r) => r.setActivePhysicalLayout !== undefined)).toBe(false);
+    });
+
+    it('should switch back on undo', async () => {
+      const before = structuredClone(device.keymap);
+      const result = await ImportApplier.apply(conn, imported, { physicalLayoutIndex: 1 });
+
+      await result.undo!();
+
+      expect(device.activeLayoutIndex).toBe(0);
+      expect(device.keymap).toEqual(before);
+    });
+
+    it('should switch back when rolling back', async () => {
+      device.rejectWrite = (index) => index === 1;
+
+      await ImportApplier.apply(conn, imported, { physicalLayoutIndex: 1 });
+
+      expect(device.activeLayoutIndex).toBe(0);
+    });
+
+    it('should refuse a layout the keyboard does not have', async () => {
+      const before = structuredClone(device.keymap);
+
+      const result = await ImportApplier.apply(conn, imported, { physicalLayoutIndex: 4 });
+
+      expect(result.error?.message).toBe('The keyboard has no physical layout 4');
+      expect(device.keymap).toEqual(before);
+    });
+  });
+
+  describe('restore', () => {
+    it('should put back layer names, removed layers and added layers', async () => {
+      const before = structuredClone(device.keymap);
+      device.keymap.layers[0].name = 'Renamed';
+      device.removed.push(device.keymap.layers.splice(1, 1)[0]);
+      device.keymap.layers.push({ id: 5, name: 'Extra', bindings: [kp(4), kp(4), kp(4)] });
+
+      const restored = await ImportApplier.restore(conn, before);
+
+      expect(restored).toEqual(before);
+      expect(device.keymap).toEqual(before);
+    });
+
+    it('should report a change the keyboard rejects', async () => {
+      const before = structuredClone(device.keymap);
+      device.keymap.layers[0].bindings[0] = kp(9);
+      device.rejectWrite = () => true;
+
+      expect(await ImportApplier.restore(conn, before)).toBeNull();
+    });
+  });
+});
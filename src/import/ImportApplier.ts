@@ -0,0 +1,274 @@
+/**
+ * Import Applier
+ *
+ * Writes imported layers to the connected keyboard, and puts the keyboard's
+ * keymap back the way it was when asked to (undo) or when a write fails
+ * midway (rollback)
+ */
+
+import type { RpcConnection } from '@zmkfirmware/zmk-studio-ts-client';
+import { SetLayerPropsResponse } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import type { Keymap } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { call_rpc } from '../rpc/logging';
+import { writeBindings } from '../rpc/bulkWrite';
+import type { BindingWrite } from '../rpc/bulkWrite';
+import { ImportService } from './ImportService';
+import type { ApplyImportOptions, ApplyImportResult, ImportedLayer } from './types';
+import { ImportErrorCode } from './types';
+
+export class ImportApplier {
+  /**
+   * Apply imported layers to the keyboard
+   *
+   * The keyboard's keymap is read first and kept as a snapshot of every
+   * binding, layer name and the layer count. Layers are then added or removed
+   * to match the file, renamed, and their bindings written, with layer
+   * parameters pointed at the keyboard's layer IDs. If the keyboard rejects
+   * a change, or the import is cancelled through `options.signal`, what was
+   * already changed is rolled back to the snapshot.
+   *
+   * Bindings are written in bulk, skipping those the keyboard already has,
+   * with progress published through `options.pub`.
+   *
+   * When `options.physicalLayoutIndex` is given (restoring a backup), the
+   * keyboard is switched to that physical layout after the snapshot is read,
+   * and switched back before the snapshot is restored.
+   *
+   * @param conn - Connection to the keyboard
+   * @param layers - Imported layers, with the device's behavior IDs
+   * @param options - File layer count, device behaviors, physical layout,
+   *                  cancellation and progress
+   * @returns The keymap after applying, and an undo restoring the snapshot
+   */
+  static async apply(
+    conn: RpcConnection,
+    layers: ImportedLayer[],
+    options: ApplyImportOptions = {}
+  ): Promise<ApplyImportResult> {
+    const snapshot = await this.getKeymap(conn);
+    if (!snapshot) {
+      return this.rpcError('Could not read the keymap from the keyboard');
+    }
+
+    const needed = Math.max(0, ...layers.map((layer) => layer.id + 1));
+    const keep = Math.max(needed, options.layerCount ?? snapshot.layers.length);
+    const capacity = snapshot.layers.length + snapshot.availableLayers;
+    if (needed > capacity) {
+      return this.rpcError(
+        `The file needs ${needed} layers, but the keyboard supports at most ${capacity}`
+      );
+    }
+
+    // The snapshot was read in the previous physical layout, if it is switched
+    let previousLayoutIndex: number | undefined;
+    const restoreSnapshot = async () => {
+      if (
+        previousLayoutIndex !== undefined &&
+        !(await this.setPhysicalLayout(conn, previousLayoutIndex, options))
+      ) {
+        return null;
+      }
+      return this.restore(conn, snapshot);
+    };
+
+    const rollback = async (message: string) => {
+      const restored = await restoreSnapshot();
+      return this.rpcError(
+        message +
+          (restored ? '; changes made so far were rolled back' : '; rolling back also failed'),
+        restored ?? undefined
+      );
+    };
+
+    if (options.physicalLayoutIndex !== undefined) {
+      const resp = await call_rpc(conn, { keymap: { getPhysicalLayouts: true } });
+      const layouts = resp.keymap?.getPhysicalLayouts;
+      if (!layouts) {
+        return this.rpcError('Could not read the physical layouts from the keyboard');
+      }
+
+      if (layouts.activeLayoutIndex !== options.physicalLayoutIndex) {
+        const name = layouts.layouts[options.physicalLayoutIndex]?.name;
+        if (!name) {
+          return this.rpcError(
+            `The keyboard has no physical layout ${options.physicalLayoutIndex}`
+          );
+        }
+        if (!(await this.setPhysicalLayout(conn, options.physicalLayoutIndex, options))) {
+          return this.rpcError(`The keyboard could not switch to the "${name}" physical layout`);
+        }
+        previousLayoutIndex = layouts.activeLayoutIndex;
+      }
+    }
+
+    for (let index = snapshot.layers.length - 1; index >= keep; index--) {
+      const resp = await call_rpc(conn, { keymap: { removeLayer: { layerIndex: index } } });
+      if (!resp.keymap?.removeLayer?.ok) {
+        return rollback(`The keyboard could not remove layer "${snapshot.layers[index].name}"`);
+      }
+    }
+
+    for (let index = snapshot.layers.length; index < needed; index++) {
+      const resp = await call_rpc(conn, { keymap: { addLayer: {} } });
+      if (!resp.keymap?.addLayer?.ok) {
+        return rollback('The keyboard could not add a layer');
+      }
+    }
+
+    const current = await this.getKeymap(conn);
+    if (!current) {
+      return rollback('Could not read the keymap from the keyboard');
+    }
+
+    const layerIds = current.layers.map((layer) => layer.id);
+    const writes: BindingWrite[] = [];
+    for (const layer of ImportService.toDeviceLayerIds(layers, layerIds, options.registry)) {
+      const layerId = layerIds[layer.id];
+      const name = current.maxLayerNameLength > 0
+        ? layer.label.slice(0, current.maxLayerNameLength)
+        : layer.label;
+
+      if (name && current.layers[layer.id].name !== name) {
+        const resp = await call_rpc(conn, { keymap: { setLayerProps: { layerId, name } } });
+        if (resp.keymap?.setLayerProps !== SetLayerPropsResponse.SET_LAYER_PROPS_RESP_OK) {
+          return rollback(`The keyboard rejected the name of layer "${layer.label}"`);
+        }
+      }
+
+      for (const binding of layer.bindings) {
+        writes.push({
+          layerId,
+          keyPosition: binding.position,
+          binding: {
+            behaviorId: binding.behaviorId,
+            param1: binding.param1 ?? 0,
+            param2: binding.param2 ?? 0,
+          },
+        });
+      }
+    }
+
+    const written = await writeBindings(conn, writes, {
+      keymap: current,
+      signal: options.signal,
+      pub: options.pub,
+    });
+
+    if (written.failed.length > 0) {
+      const { layerId, keyPosition } = written.failed[0];
+      const layer = layers.find((l) => l.id === layerIds.indexOf(layerId));
+      return rollback(
+        `The keyboard rejected the binding for key ${keyPosition} on layer "${layer?.label}"`
+      );
+    }
+    if (written.cancelled.length > 0) {
+      return rollback('The import was cancelled');
+    }
+
+    const keymap = await this.getKeymap(conn);
+    return {
+      success: true,
+      keymap: keymap ?? undefined,
+      undo: async () => (await restoreSnapshot()) ?? undefined,
+    };
+  }
+
+  /**
+   * Put a keymap snapshot back on the keyboard
+   *
+   * Layers missing from the keyboard are restored, layers not in the
+   * snapshot are removed, and names and bindings that differ are rewritten.
+   *
+   * @param conn - Connection to the keyboard
+   * @param snapshot - Keymap as read before the change
+   * @returns The keymap afterwards, or null if the keyboard rejected a change
+   */
+  static async restore(conn: RpcConnection, snapshot: Keymap): Promise<Keymap | null> {
+    let current = await this.getKeymap(conn);
+    if (!current) {
+      return null;
+    }
+
+    const snapshotIds = new Set(snapshot.layers.map((layer) => layer.id));
+    for (let index = current.layers.length - 1; index >= 0; index--) {
+      if (!snapshotIds.has(current.layers[index].id)) {
+        const resp = await call_rpc(conn, { keymap: { removeLayer: { layerIndex: index } } });
+        if (!resp.keymap?.removeLayer?.ok) {
+          return null;
+        }
+      }
+    }
+
+    const currentIds = new Set(current.layers.map((layer) => layer.id));
+    for (const [atIndex, layer] of snapshot.layers.entries()) {
+      if (!currentIds.has(layer.id)) {
+        const resp = await call_rpc(conn, { keymap: { restoreLayer: { layerId: layer.id, atIndex } } });
+        if (!resp.keymap?.restoreLayer?.ok) {
+          return null;
+        }
+      }
+    }
+
+    current = await this.getKeymap(conn);
+    if (!current) {
+      return null;
+    }
+
+    for (const layer of snapshot.layers) {
+      const existing = current.layers.find((l) => l.id === layer.id);
+
+      if (existing?.name !== layer.name) {
+        const resp = await call_rpc(conn, {
+          keymap: { setLayerProps: { layerId: layer.id, name: layer.name } },
+        });
+        if (resp.keymap?.setLayerProps !== SetLayerPropsResponse.SET_LAYER_PROPS_RESP_OK) {
+          return null;
+        }
+      }
+    }
+
+    const written = await writeBindings(
+      conn,
+      snapshot.layers.flatMap((layer) =>
+        layer.bindings.map((binding, keyPosition) => ({ layerId: layer.id, keyPosition, binding }))
+      ),
+      { keymap: current }
+    );
+    if (written.failed.length > 0) {
+      return null;
+    }
+
+    return this.getKeymap(conn);
+  }
+
+  /**
+   * Switch the keyboard to a physical layout, reporting the change through
+   * `options.onPhysicalLayoutChange`
+   */
+  private static async setPhysicalLayout(
+    conn: RpcConnection,
+    layoutIndex: number,
+    options: ApplyImportOptions
+  ): Promise<boolean> {
+    const resp = await call_rpc(conn, { keymap: { setActivePhysicalLayout: layoutIndex } });
+    if (!resp.keymap?.setActivePhysicalLayout?.ok) {
+      return false;
+    }
+
+    options.onPhysicalLayoutChange?.(layoutIndex);
+    return true;
+  }
+
+  private static async getKeymap(conn: RpcConnection): Promise<Keymap | null> {
+    const resp = await call_rpc(conn, { keymap: { getKeymap: true } });
+    return resp.keymap?.getKeymap ?? null;
+  }
+
+  private static rpcError(message: string, keymap?: Keymap): ApplyImportResult {
+    return {
+      success: false,
+      keymap,
+      error: { code: ImportErrorCode.RPC_ERROR, message },
+    };
+  }
+}
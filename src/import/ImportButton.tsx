@@ -1,15 +1,21 @@
 /**
  * ImportButton: UI component for triggering keymap import
  *
- * Displays a button with Upload icon that opens file picker for .keymap files
+ * Displays a button with Upload icon that opens file picker for .keymap files,
+ * QMK Configurator keymap.json files and VIA/Vial layouts. Several files can
+ * be picked at once: the .keymap file is imported and the others (.dtsi, .h)
+ * are made available to its #include directives.
  */
 
 import { Button, Tooltip, TooltipTrigger } from 'react-aria-components';
 import { Upload } from 'lucide-react';
-import { useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useSub } from '../usePubSub';
+import { BULK_WRITE_PROGRESS } from '../rpc/bulkWrite';
+import type { BulkWriteProgress } from '../rpc/bulkWrite';
 
 export interface ImportButtonProps {
-  onImport: (file: File) => void | Promise<void>;
+  onImport: (file: File, includes: File[]) => void | Promise<void>;
   isImporting?: boolean;
   disabled?: boolean;
   tooltip?: string;
@@ -19,18 +25,27 @@ export function ImportButton({
   onImport,
   isImporting = false,
   disabled = false,
-  tooltip = 'Import keymap from .keymap file',
+  tooltip = 'Import keymap from .keymap file (select included .dtsi/.h files too), QMK/VIA/Vial layout or ZMK Studio backup',
 }: ImportButtonProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<BulkWriteProgress>();
+
+  useSub(BULK_WRITE_PROGRESS, (p: BulkWriteProgress) => setProgress(p));
+  useEffect(() => {
+    if (!isImporting) {
+      setProgress(undefined);
+    }
+  }, [isImporting]);
 
   const handleButtonPress = () => {
     fileInputRef.current?.click();
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files ?? []);
+    const file = files.find((f) => /\.(keymap|json|vil)$/i.test(f.name)) ?? files[0];
     if (file) {
-      onImport(file);
+      onImport(file, files.filter((f) => f !== file));
       // Reset input so same file can be selected again
       event.target.value = '';
     }
@@ -41,7 +56,8 @@ export function ImportButton({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".keymap"
+        accept=".keymap,.json,.vil,.dtsi,.h"
+        multiple
         style={{ display: 'none' }}
         onChange={handleFileChange}
       />
@@ -59,7 +75,11 @@ export function ImportButton({
             aria-hidden="true"
           />
           {isImporting && (
-            <span className="ml-1 text-sm">Importing...</span>
+            <span className="ml-1 text-sm">
+              {progress && progress.total > 0
+                ? `Importing... ${Math.floor((progress.done / progress.total) * 100)}%`
+                : 'Importing...'}
+            </span>
           )}
         </Button>
         <Tooltip className="bg-gray-800 text-white px-2 py-1 rounded text-sm max-w-xs">
@@ -0,0 +1,62 @@
+/**
+ * ImportDiagnosticsList: Lists the bindings of an imported file that could
+ * not be fully read
+ *
+ * Each entry gives the unknown behavior, key name or parameter with its line
+ * and column in the file and the source line. Choosing an entry shows its
+ * layer and key in the import preview.
+ */
+
+import { TriangleAlert } from 'lucide-react';
+import type { ImportDiagnostic } from './types';
+
+export interface ImportDiagnosticsListProps {
+  diagnostics: ImportDiagnostic[];
+  /** Label of each layer in the file */
+  layerLabels: string[];
+  onSelect: (diagnostic: ImportDiagnostic) => void;
+}
+
+export function ImportDiagnosticsList({
+  diagnostics,
+  layerLabels,
+  onSelect,
+}: ImportDiagnosticsListProps) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="flex flex-col gap-1">
+      <h3 className="font-semibold">
+        {`${diagnostics.length} ${diagnostics.length === 1 ? 'problem' : 'problems'} in the file`}
+      </h3>
+      <ul className="flex flex-col gap-1 max-h-[30vh] overflow-y-auto">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={index}>
+            <button
+              className="flex items-start gap-2 text-left w-full rounded px-1 hover:bg-base-200"
+              onClick={() => onSelect(diagnostic)}
+            >
+              <TriangleAlert
+                className="shrink-0 w-4 mt-0.5 text-yellow-500"
+                aria-label="Warning"
+              />
+              <span className="flex flex-col">
+                <span>
+                  <span className="opacity-70">
+                    {`${layerLabels[diagnostic.layer] || `Layer ${diagnostic.layer}`}, key ${diagnostic.position}: `}
+                  </span>
+                  {diagnostic.message}
+                </span>
+                {diagnostic.context && (
+                  <code className="opacity-70 whitespace-pre">{diagnostic.context}</code>
+                )}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
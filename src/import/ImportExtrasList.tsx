@@ -0,0 +1,42 @@
+/**
+ * ImportExtrasList: Shows the combos, macros and behaviors found in an
+ * imported file, and whether the connected keyboard can use them
+ *
+ * ZMK Studio only applies layer bindings; everything listed here stays in the
+ * file. Macros and behaviors already in the keyboard's firmware are marked as
+ * such, so the user knows which bindings will work after import.
+ */
+
+import { Ban, CircleCheck } from 'lucide-react';
+import type { ExtraSupport } from './types';
+
+export interface ImportExtrasListProps {
+  extras: ExtraSupport[];
+}
+
+export function ImportExtrasList({ extras }: ImportExtrasListProps) {
+  if (extras.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="flex flex-col gap-1">
+      <h3 className="font-semibold">Not applied to the keyboard</h3>
+      <ul className="flex flex-col gap-1 max-h-[30vh] overflow-y-auto">
+        {extras.map((extra) => (
+          <li key={`${extra.kind}-${extra.name}`} className="flex items-start gap-2">
+            {extra.onDevice ? (
+              <CircleCheck
+                className="shrink-0 w-4 mt-0.5 text-green-500"
+                aria-label="Available on the keyboard"
+              />
+            ) : (
+              <Ban className="shrink-0 w-4 mt-0.5 text-base-content/60" aria-label="Not available" />
+            )}
+            {extra.message}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
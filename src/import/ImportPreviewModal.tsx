@@ -0,0 +1,353 @@
+/**
+ * ImportPreviewModal: Shows an imported keymap before it is applied
+ *
+ * Each imported layer is drawn on the keyboard's physical layout, with the
+ * keys that differ from the keyboard's current keymap highlighted. The user
+ * picks which layers to apply after reading the validation messages and the
+ * list of combos, macros and behaviors that are not applied.
+ *
+ * A file made for a layout with a different number of keys is fitted to the
+ * keyboard by geometry (see PositionMapper), and the user can move keys of
+ * the file to other keys of the keyboard; bindings left without a key are
+ * listed.
+ *
+ * Bindings that could not be fully read are listed with their line in the
+ * file; choosing one shows its layer and selects its key.
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from 'react-aria-components';
+import { TriangleAlert } from 'lucide-react';
+import type {
+  Keymap as KeymapMsg,
+  PhysicalLayout,
+} from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import type { GetBehaviorDetailsResponse } from '@zmkfirmware/zmk-studio-ts-client/behaviors';
+import { GenericModal } from '../GenericModal';
+import { useModalRef } from '../misc/useModalRef';
+import { Keymap } from '../keyboard/Keymap';
+import { ValidationMessageList } from '../export/ValidationReportModal';
+import { BehaviorRegistry } from '../export/BehaviorRegistry';
+import type { ValidationResult } from '../export/types';
+import { ImportDiagnosticsList } from './ImportDiagnosticsList';
+import { ImportExtrasList } from './ImportExtrasList';
+import { KeyMappingEditor } from './KeyMappingEditor';
+import { PositionMapper } from './PositionMapper';
+import type {
+  ExtraSupport,
+  ImportDiagnostic,
+  ImportedLayer,
+  LayerPreview,
+  PositionMapping,
+  SourceLocation,
+} from './types';
+
+export interface ImportPreviewModalProps {
+  open: boolean;
+  /** Imported layers, with the device's behavior IDs and file positions */
+  layers: ImportedLayer[];
+  /** Where each key position is written in the file */
+  keyLocations?: SourceLocation[];
+  /** Compares layers, with keyboard positions, with the keyboard's keymap */
+  previewLayers: (layers: ImportedLayer[]) => LayerPreview[];
+  /** Names of keyboard layers past the file's last layer, which are removed */
+  removedLayers: string[];
+  validation: ValidationResult;
+  /** Unresolved tokens of the file, by layer and file position */
+  diagnostics?: ImportDiagnostic[];
+  extras: ExtraSupport[];
+  /** Active physical layout; layers are listed without a drawing if absent */
+  layout?: PhysicalLayout;
+  /** Keymap on the keyboard; drawn on keys the file has no binding for */
+  currentKeymap?: KeymapMsg;
+  behaviors: Record<number, GetBehaviorDetailsResponse>;
+  /** Called with the layers the user chose to apply, with keyboard positions */
+  onApply: (layers: ImportedLayer[]) => void;
+  onClose: () => void;
+}
+
+function describeLayer(preview: LayerPreview): string {
+  if (preview.currentLabel === undefined) {
+    return 'New layer';
+  }
+
+  const changed = preview.changedPositions.length;
+  const changes =
+    changed === 0 ? 'No changes' : `${changed} ${changed === 1 ? 'key' : 'keys'} changed`;
+
+  return preview.label && preview.currentLabel !== preview.label
+    ? `${changes}, replaces "${preview.currentLabel}"`
+    : changes;
+}
+
+export function ImportPreviewModal({
+  open,
+  layers,
+  keyLocations = [],
+  previewLayers,
+  removedLayers,
+  validation,
+  diagnostics = [],
+  extras,
+  layout,
+  currentKeymap,
+  behaviors,
+  onApply,
+  onClose,
+}: ImportPreviewModalProps) {
+  const ref = useModalRef(open, true);
+  const [included, setIncluded] = useState(() => new Set(layers.map((_, index) => index)));
+  const [shownIndex, setShownIndex] = useState(0);
+
+  const fileCells = useMemo(
+    () =>
+      PositionMapper.fileGrid(keyLocations) ??
+      keyLocations.map((_, position) => ({ row: Math.floor(position / 12), column: position % 12 })),
+    [keyLocations]
+  );
+  const fitMapping = (): PositionMapping | undefined =>
+    layout && keyLocations.length > 0 ? PositionMapper.forLayout(keyLocations, layout) : undefined;
+  const [mapping, setMapping] = useState(fitMapping);
+  const [editingKeys, setEditingKeys] = useState(
+    () => !!layout && keyLocations.length > 0 && keyLocations.length !== layout.keys.length
+  );
+  const [selectedFileKey, setSelectedFileKey] = useState<number>();
+  const [focusedKey, setFocusedKey] = useState<number>();
+
+  const mapped = useMemo(
+    () => (mapping ? PositionMapper.remap(layers, mapping) : layers),
+    [layers, mapping]
+  );
+  const previews = useMemo(() => previewLayers(mapped), [previewLayers, mapped]);
+  const dropped = useMemo(
+    () => (mapping ? PositionMapper.droppedBindings(layers, mapping) : []),
+    [layers, mapping]
+  );
+
+  const moveFileKey = (target: number) => {
+    if (!mapping || selectedFileKey === undefined) {
+      return;
+    }
+    setMapping(
+      mapping.map((position, index) =>
+        index === selectedFileKey ? target : position === target ? null : position
+      )
+    );
+    setSelectedFileKey(undefined);
+  };
+
+  const dropFileKey = () => {
+    if (!mapping || selectedFileKey === undefined) {
+      return;
+    }
+    setMapping(mapping.map((position, index) => (index === selectedFileKey ? null : position)));
+    setSelectedFileKey(undefined);
+  };
+
+  const showDiagnostic = (diagnostic: ImportDiagnostic) => {
+    setShownIndex(diagnostic.layer);
+    setFocusedKey(mapping ? (mapping[diagnostic.position] ?? undefined) : diagnostic.position);
+  };
+
+  // Keys the file has no binding for keep what the keyboard has, as when applied
+  const transparent = {
+    behaviorId:
+      Object.values(behaviors).find(
+        (behavior) => BehaviorRegistry.getDeviceTreeLabel(behavior.displayName) === 'trans'
+      )?.id ?? 0,
+    param1: 0,
+    param2: 0,
+  };
+  const shown = mapped[shownIndex];
+  const shownKeymap = layout && shown && {
+    layers: [
+      {
+        id: shown.id,
+        name: shown.label,
+        bindings: PositionMapper.byKeyPosition(shown, layout.keys.length).map(
+          (binding, position) =>
+            binding
+              ? {
+                  behaviorId: binding.behaviorId,
+                  param1: binding.param1 ?? 0,
+                  param2: binding.param2 ?? 0,
+                }
+              : (currentKeymap?.layers[shownIndex]?.bindings[position] ?? transparent)
+        ),
+      },
+    ],
+    availableLayers: 0,
+    maxLayerNameLength: 0,
+  };
+
+  const toggleLayer = (index: number, include: boolean) => {
+    const next = new Set(included);
+    if (include) {
+      next.add(index);
+    } else {
+      next.delete(index);
+    }
+    setIncluded(next);
+  };
+
+  const canApply = validation.valid && included.size > 0;
+
+  return (
+    <GenericModal ref={ref} onClose={onClose} className="min-w-min w-[80vw] flex flex-col gap-3">
+      <h2 className="text-lg">Import keymap</h2>
+      <div className="flex gap-3">
+        <ul className="flex flex-col gap-1 shrink-0">
+          {previews.map((preview) => (
+            <li
+              key={preview.index}
+              className={`flex items-center gap-2 rounded px-2 py-1 ${
+                preview.index === shownIndex ? 'bg-base-200' : ''
+              }`}
+            >
+              <input
+                type="checkbox"
+                aria-label={`Import layer ${preview.label}`}
+                checked={included.has(preview.index)}
+                onChange={(e) => toggleLayer(preview.index, e.target.checked)}
+              />
+              <button
+                className="flex flex-col text-left grow"
+                onClick={() => {
+                  setShownIndex(preview.index);
+                  setFocusedKey(undefined);
+                }}
+              >
+                <span>{preview.label || `Layer ${preview.index}`}</span>
+                <span className="opacity-70">{describeLayer(preview)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        {shownKeymap && (
+          <div className="grow h-[40vh] flex justify-center items-center overflow-hidden">
+            <Keymap
+              layout={layout}
+              keymap={shownKeymap}
+              behaviors={behaviors}
+              scale="auto"
+              selectedLayerIndex={0}
+              selectedKeyPosition={
+                editingKeys && selectedFileKey !== undefined
+                  ? (mapping?.[selectedFileKey] ?? undefined)
+                  : focusedKey
+              }
+              highlightedKeyPositions={previews[shownIndex]?.changedPositions}
+              onKeyPositionClicked={(position) => editingKeys && moveFileKey(position)}
+            />
+          </div>
+        )}
+      </div>
+      {mapping && layout && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-3">
+            <span className="grow">
+              {`The file has ${keyLocations.length} keys and the keyboard has ${layout.keys.length}`}
+            </span>
+            {editingKeys && (
+              <>
+                <Button
+                  className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+                  onPress={() => setMapping(fitMapping())}
+                >
+                  Match by position on the keyboard
+                </Button>
+                <Button
+                  className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+                  onPress={() =>
+                    setMapping(PositionMapper.inOrder(keyLocations.length, layout.keys.length))
+                  }
+                >
+                  Keep file order
+                </Button>
+                <Button
+                  className="rounded bg-base-200 hover:bg-base-300 px-3 py-2 disabled:opacity-50"
+                  isDisabled={selectedFileKey === undefined}
+                  onPress={dropFileKey}
+                >
+                  Drop key
+                </Button>
+              </>
+            )}
+            <Button
+              className="rounded bg-base-200 hover:bg-base-300 px-3 py-2"
+              onPress={() => {
+                setEditingKeys(!editingKeys);
+                setSelectedFileKey(undefined);
+              }}
+            >
+              {editingKeys ? 'Done' : 'Edit key positions'}
+            </Button>
+          </div>
+          {editingKeys && (
+            <>
+              <p className="opacity-70">
+                Select a key of the file below, then the key of the keyboard above it should go to.
+              </p>
+              <div className="h-[25vh] flex justify-center items-center overflow-hidden">
+                <KeyMappingEditor
+                  cells={fileCells}
+                  labels={layers[shownIndex]?.sources ?? []}
+                  mapping={mapping}
+                  selected={selectedFileKey}
+                  onSelect={setSelectedFileKey}
+                />
+              </div>
+            </>
+          )}
+          {dropped.length > 0 && (
+            <div className="flex items-start gap-2">
+              <TriangleAlert className="shrink-0 w-4 mt-0.5 text-yellow-500" aria-label="Warning" />
+              <div>
+                <p>{`${dropped.length} ${dropped.length === 1 ? 'binding has' : 'bindings have'} no key on the keyboard and will not be imported:`}</p>
+                <ul className="list-disc pl-5">
+                  {dropped.map((binding) => (
+                    <li key={`${binding.layer}-${binding.position}`}>
+                      {`${binding.layer || 'Unnamed layer'}, key ${binding.position}: ${binding.binding}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {removedLayers.length > 0 && (
+        <p className="flex items-start gap-2">
+          <TriangleAlert className="shrink-0 w-4 mt-0.5 text-yellow-500" aria-label="Warning" />
+          {`The file has fewer layers than the keyboard; importing removes ${removedLayers
+            .map((name) => `"${name}"`)
+            .join(', ')}`}
+        </p>
+      )}
+      <ImportDiagnosticsList
+        diagnostics={diagnostics}
+        layerLabels={layers.map((layer) => layer.label)}
+        onSelect={showDiagnostic}
+      />
+      <ValidationMessageList result={validation} />
+      <ImportExtrasList extras={extras} />
+      <div className="flex justify-end gap-3">
+        <Button className="rounded bg-base-200 hover:bg-base-300 px-3 py-2" onPress={onClose}>
+          {validation.valid ? 'Cancel' : 'Close'}
+        </Button>
+        {validation.valid && (
+          <Button
+            className="rounded bg-base-200 hover:bg-base-300 px-3 py-2 disabled:opacity-50"
+            isDisabled={!canApply}
+            onPress={() => {
+              onClose();
+              onApply(mapped.filter((_, index) => included.has(index)));
+            }}
+          >
+            {validation.warnings.length > 0 ? 'Import anyway' : 'Import'}
+          </Button>
+        )}
+      </div>
+    </GenericModal>
+  );
+}
@@ -6,7 +6,9 @@
 
 import { describe, it, expect, vi } from 'vitest';
 import { ImportService } from './ImportService';
-import { ImportErrorCode } from './types';
+import { ImportErrorCode, ParseErrorCode } from './types';
+import { KeymapValidator } from '../export/KeymapValidator';
+import { BehaviorRegistry } from '../export/BehaviorRegistry';
 
 describe('ImportService', () => {
   const sampleKeymap = `
@@ -62,6 +64,17 @@ describe('ImportService', () => {
       expect(result.layers![1].id).toBe(1);
     });
 
+    it('should keep the bindings as written and where they are written', async () => {
+      const result = await ImportService.importFromString(sampleKeymap);
+
+      expect(result.layers![1].sources).toEqual(['&kp N1', '&kp N2', '&trans']);
+      expect(result.keyLocations).toEqual([
+        { line: 20, column: 9 },
+        { line: 20, column: 15 },
+        { line: 20, column: 21 },
+      ]);
+    });
+
     it('should assign position to each binding', async () => {
       const result = await ImportService.importFromString(sampleKeymap);
 
@@ -89,6 +102,24 @@ describe('ImportService', () => {
       expect(result.layers![0].bindings[0].param2).toBeNull();
     });
 
+    it('should keep implicit modifiers of shortcut keys', async () => {
+      const result = await ImportService.importFromString(
+        sampleKeymap.replace('&kp A &kp B', '&kp LC(LS(T)) &mt LALT RA(E)')
+      );
+
+      expect(result.layers![0].bindings[0].param1).toBe(0x03070017);
+      expect(result.layers![0].bindings[1].param2).toBe(0x40070008);
+    });
+
+    it('should convert media keys', async () => {
+      const result = await ImportService.importFromString(
+        sampleKeymap.replace('&kp A &kp B', '&kp C_VOL_UP &kp C_PP')
+      );
+
+      expect(result.layers![0].bindings[0].param1).toBe(0x0C00E9);
+      expect(result.layers![0].bindings[1].param1).toBe(0x0C00CD);
+    });
+
     it('should convert trans bindings', async () => {
       const result = await ImportService.importFromString(sampleKeymap);
 
@@ -181,6 +212,107 @@ describe('ImportService', () => {
       expect(result.warnings!.some(w => w.includes('unknown_behavior'))).toBe(true);
     });
 
+    describe('diagnostics', () => {
+      const keymapWithProblems = `
+#define MISSING &unknown_behavior
+
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+
+    base {
+      bindings = <&kp A &kp NOT_A_KEY &mt LCTRL>;
+    };
+    nav {
+      bindings = <MISSING &mo NAV &bt BT_FOO>;
+    };
+  };
+};
+`;
+
+      it('should locate unknown key names', async () => {
+        const result = await ImportService.importFromString(keymapWithProblems);
+
+        expect(result.diagnostics![0]).toEqual({
+          code: ParseErrorCode.UNKNOWN_KEY,
+          message: 'Unknown key name NOT_A_KEY in &kp NOT_A_KEY at line 9, column 25',
+          line: 9,
+          column: 25,
+          file: undefined,
+          context: 'bindings = <&kp A &kp NOT_A_KEY &mt LCTRL>;',
+          layer: 0,
+          position: 1,
+        });
+      });
+
+      it('should report a missing key and bad parameters', async () => {
+        const result = await ImportService.importFromString(keymapWithProblems);
+
+        expect(result.diagnostics!.map((d) => [d.code, d.layer, d.position, d.line])).toEqual([
+          [ParseErrorCode.UNKNOWN_KEY, 0, 1, 9],
+          [ParseErrorCode.UNKNOWN_KEY, 0, 2, 9],
+          [ParseErrorCode.INVALID_BINDING, 1, 1, 12],
+          [ParseErrorCode.INVALID_BINDING, 1, 2, 12],
+        ]);
+        expect(result.diagnostics![1].message).toContain('&mt LCTRL is missing its key');
+      });
+
+      it('should import Bluetooth commands with their ZMK values', async () => {
+        const result = await ImportService.importFromString(`
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base { bindings = <&bt BT_SEL 1 &bt 3 2 &bt BT_NXT &bt BT_SEL>; };
+  };
+};
+`);
+
+        expect(result.layers![0].bindings.map((b) => [b.param1, b.param2])).toEqual([
+          [3, 1],
+          [3, 2],
+          [1, null],
+          [3, null],
+        ]);
+        expect(result.diagnostics!.map((d) => [d.code, d.position])).toEqual([
+          [ParseErrorCode.INVALID_BINDING, 3],
+        ]);
+        expect(result.diagnostics![0].message).toContain('BT_SEL does not give a profile number');
+      });
+
+      it('should leave behaviors outside the built-in table to the device', async () => {
+        const result = await ImportService.importFromString(keymapWithProblems);
+
+        // Reported by toDeviceBehaviorIds if the keyboard does not have it
+        expect(result.fileBehaviors).toEqual([
+          expect.objectContaining({ id: 10, code: 'unknown_behavior', paramCount: 0 }),
+        ]);
+        expect(result.layers![1].bindings[0].behaviorId).toBe(10);
+      });
+
+      it('should name the included file a binding is in', async () => {
+        const result = await ImportService.importFromString('#include "keymap.dtsi"\n', {
+          fileName: 'board.keymap',
+          files: {
+            'keymap.dtsi': '/ {\n  keymap {\n    compatible = "zmk,keymap";\n    base { bindings = <&kp NOPE>; };\n  };\n};\n',
+          },
+        });
+
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics![0]).toMatchObject({
+          line: 4,
+          file: 'keymap.dtsi',
+          context: 'base { bindings = <&kp NOPE>; };',
+        });
+        expect(result.diagnostics![0].message).toMatch(/at line 4, column \d+ of keymap.dtsi$/);
+      });
+
+      it('should have no diagnostics for a clean file', async () => {
+        const result = await ImportService.importFromString(sampleKeymap);
+
+        expect(result.diagnostics).toEqual([]);
+      });
+    });
+
     it('should handle empty layers', async () => {
       const emptyLayerKeymap = `
 / {
@@ -299,4 +431,347 @@ describe('ImportService', () => {
       expect(validation.warnings.some(w => w.includes('Invalid behavior'))).toBe(true);
     });
   });
+
+  describe('validateKeymap', () => {
+    it('should validate imported layers with a keymap validator', async () => {
+      const result = await ImportService.importFromString(sampleKeymap);
+
+      const validation = ImportService.validateKeymap(result, new KeymapValidator());
+
+      expect(validation.valid).toBe(true);
+    });
+
+    it('should report layer references to layers not in the file', () => {
+      const validation = ImportService.validateKeymap(
+        {
+          success: true,
+          layers: [
+            {
+              id: 0,
+              label: 'Default',
+              bindings: [{ behaviorId: 4, param1: 2, param2: null, position: 0 }],
+            },
+          ],
+        },
+        new KeymapValidator()
+      );
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors[0].message).toContain('layer 2');
+    });
+  });
+
+  describe('describeExtras', () => {
+    const extrasKeymap = `
+&mt { tapping-term-ms = <200>; };
+
+/ {
+  behaviors {
+    hm: homerow_mods {
+      compatible = "zmk,behavior-hold-tap";
+      #binding-cells = <2>;
+      bindings = <&kp>, <&kp>;
+    };
+  };
+  macros {
+    email: email_macro {
+      compatible = "zmk,behavior-macro";
+      #binding-cells = <0>;
+      bindings = <&kp A>;
+    };
+  };
+  combos {
+    compatible = "zmk,combos";
+    combo_esc { key-positions = <0 1>; bindings = <&kp ESC>; };
+  };
+  keymap {
+    compatible = "zmk,keymap";
+    base { bindings = <&kp A &hm LGUI B>; };
+  };
+};
+`;
+
+    it('should pass combos, macros and behaviors through the import result', async () => {
+      const result = await ImportService.importFromString(extrasKeymap);
+
+      expect(result.combos).toHaveLength(1);
+      expect(result.macros).toHaveLength(1);
+      expect(result.behaviors).toHaveLength(2);
+    });
+
+    it('should report everything as unavailable without device behaviors', async () => {
+      const result = await ImportService.importFromString(extrasKeymap);
+
+      const extras = ImportService.describeExtras(result);
+
+      expect(extras.map((e) => [e.kind, e.name, e.onDevice])).toEqual([
+        ['combo', 'combo_esc', false],
+        ['macro', 'email', false],
+        ['behavior', 'hm', false],
+        ['behavior', 'mt', false],
+      ]);
+      expect(extras[0].message).toBe(
+        'Combo combo_esc (&kp ESC on keys 0+1) is not applied: ZMK Studio cannot edit combos'
+      );
+      expect(extras[2].message).toContain('&hm (hold-tap) is not on the keyboard');
+      expect(extras[3].message).toBe(
+        'Settings for &mt (tapping-term-ms) are not applied: ZMK Studio cannot change behavior settings'
+      );
+    });
+
+    it('should mark macros and behaviors the firmware already has', async () => {
+      const result = await ImportService.importFromString(extrasKeymap);
+      const registry = BehaviorRegistry.fromDeviceBehaviors([
+        { id: 1, displayName: 'Key Press', metadata: [] },
+        { id: 2, displayName: 'homerow_mods', metadata: [] },
+      ]);
+
+      const extras = ImportService.describeExtras(result, registry);
+
+      expect(extras.find((e) => e.name === 'hm')).toMatchObject({
+        onDevice: true,
+        message: 'Behavior &hm (hold-tap) is on the keyboard; its definition in this file is not applied',
+      });
+      expect(extras.find((e) => e.name === 'email')!.onDevice).toBe(false);
+    });
+  });
+
+  describe('toDeviceBehaviorIds', () => {
+    const registry = new BehaviorRegistry([
+      { id: 20, code: 'kp', displayName: 'Key Press', paramCount: 1, description: 'Key Press' },
+      { id: 21, code: 'trans', displayName: 'Transparent', paramCount: 0, description: 'Transparent' },
+    ]);
+
+    it('should replace built-in behavior IDs with the device IDs', () => {
+      const { layers, diagnostics } = ImportService.toDeviceBehaviorIds(
+        [
+          {
+            id: 0,
+            label: 'Base',
+            bindings: [
+              { behaviorId: 1, param1: 0x70004, param2: null, position: 0 },
+              { behaviorId: 0, param1: null, param2: null, position: 1 },
+            ],
+          },
+        ],
+        registry
+      );
+
+      expect(layers[0].bindings.map((b) => b.behaviorId)).toEqual([20, 21]);
+      expect(layers[0].bindings[0].param1).toBe(0x70004);
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should import behaviors the device does not have as &none, and report them', () => {
+      const withNone = new BehaviorRegistry([
+        ...registry.getAllBehaviors().values(),
+        { id: 22, code: 'none', displayName: 'None', paramCount: 0, description: 'None' },
+      ]);
+
+      const { layers, diagnostics } = ImportService.toDeviceBehaviorIds(
+        [
+          {
+            id: 0,
+            label: 'Base',
+            bindings: [{ behaviorId: 6, param1: 1, param2: null, position: 3 }],
+            sources: ['&kp A', '&kp B', '&kp C', '&bt BT_SEL 1'],
+          },
+        ],
+        withNone
+      );
+
+      expect(layers[0].bindings).toEqual([
+        { behaviorId: 22, param1: null, param2: null, position: 3 },
+      ]);
+      expect(diagnostics).toEqual([
+        {
+          code: ParseErrorCode.UNKNOWN_BEHAVIOR,
+          message: '&bt is not on the keyboard, imported as &none',
+          context: '&bt BT_SEL 1',
+          layer: 0,
+          position: 3,
+        },
+      ]);
+    });
+
+    it('should match stock behaviors outside the built-in table by label', async () => {
+      const result = await ImportService.importFromString(`
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base { bindings = <&caps_word &kt LSHFT &out OUT_USB &sys_reset>; };
+  };
+};
+`);
+      const device = new BehaviorRegistry([
+        { id: 30, code: 'caps_word', displayName: 'Caps Word', paramCount: 0, description: '' },
+        { id: 31, code: 'kt', displayName: 'Key Toggle', paramCount: 1, description: '' },
+        { id: 32, code: 'out', displayName: 'Output Selection', paramCount: 1, description: '' },
+        { id: 33, code: 'sys_reset', displayName: 'Reset', paramCount: 0, description: '' },
+      ]);
+
+      const { layers, diagnostics } = ImportService.toDeviceBehaviorIds(
+        result.layers!,
+        device,
+        ImportService.sourceRegistry(result)
+      );
+
+      expect(result.diagnostics).toEqual([]);
+      expect(diagnostics).toEqual([]);
+      expect(layers[0].bindings.map((b) => [b.behaviorId, b.param1])).toEqual([
+        [30, null],
+        [31, 0x700e1],
+        [32, 1],
+        [33, null],
+      ]);
+    });
+
+    it('should match behaviors defined in the file by the name the device reports', async () => {
+      const result = await ImportService.importFromString(`
+/ {
+  behaviors {
+    hm: homerow_mods {
+      compatible = "zmk,behavior-hold-tap";
+      #binding-cells = <2>;
+      bindings = <&kp>, <&kp>;
+    };
+  };
+  keymap {
+    compatible = "zmk,keymap";
+    base { bindings = <&hm LGUI B>; };
+  };
+};
+`);
+      const device = BehaviorRegistry.fromDeviceBehaviors([
+        { id: 40, displayName: 'homerow_mods', metadata: [] },
+      ]);
+
+      const { layers, diagnostics } = ImportService.toDeviceBehaviorIds(
+        result.layers!,
+        device,
+        ImportService.sourceRegistry(result)
+      );
+
+      expect(diagnostics).toEqual([]);
+      expect(layers[0].bindings).toEqual([
+        { behaviorId: 40, param1: 0x700e3, param2: 0x70005, position: 0 },
+      ]);
+    });
+
+    it('should fall back to &trans for behaviors the device does not have', () => {
+      const { layers, diagnostics } = ImportService.toDeviceBehaviorIds(
+        [{ id: 0, label: 'Base', bindings: [{ behaviorId: 4, param1: 1, param2: null, position: 0 }] }],
+        registry
+      );
+
+      expect(layers[0].bindings.map((b) => b.behaviorId)).toEqual([21]);
+      expect(diagnostics[0].message).toBe('&mo is not on the keyboard, imported as &trans');
+    });
+  });
+
+  describe('toDeviceLayerIds', () => {
+    const layers = [
+      {
+        id: 0,
+        label: 'Base',
+        bindings: [
+          { behaviorId: 4, param1: 1, param2: null, position: 0 }, // &mo 1
+          { behaviorId: 3, param1: 2, param2: 0x7002b, position: 1 }, // &lt 2 TAB
+          { behaviorId: 1, param1: 1, param2: null, position: 2 }, // &kp
+        ],
+      },
+    ];
+
+    it('should replace layer indexes with device layer IDs', () => {
+      const [layer] = ImportService.toDeviceLayerIds(layers, [3, 8, 9]);
+
+      expect(layer.bindings.map((b) => b.param1)).toEqual([8, 9, 1]);
+      expect(layer.bindings[1].param2).toBe(0x7002b);
+    });
+
+    it('should keep indexes the device has no layer for', () => {
+      const [layer] = ImportService.toDeviceLayerIds(layers, [3, 8]);
+
+      expect(layer.bindings.map((b) => b.param1)).toEqual([8, 2, 1]);
+    });
+
+    it('should find layer behaviors through the device registry', () => {
+      const registry = new BehaviorRegistry([
+        { id: 4, code: 'sk', displayName: 'Sticky Key', paramCount: 1, description: 'Sticky Key' },
+        { id: 3, code: 'to', displayName: 'To Layer', paramCount: 1, description: 'To Layer' },
+      ]);
+
+      const [layer] = ImportService.toDeviceLayerIds(layers, [3, 8, 9], registry);
+
+      expect(layer.bindings.map((b) => b.param1)).toEqual([1, 9, 1]);
+    });
+  });
+
+  describe('previewLayers', () => {
+    const keymap = {
+      layers: [
+        {
+          id: 7,
+          name: 'Base',
+          bindings: [
+            { behaviorId: 20, param1: 0x70004, param2: 0 },
+            { behaviorId: 20, param1: 0x70005, param2: 0 },
+          ],
+        },
+      ],
+      availableLayers: 2,
+      maxLayerNameLength: 16,
+    };
+
+    it('should list the key positions that differ from the keyboard', () => {
+      const previews = ImportService.previewLayers(
+        [
+          {
+            id: 0,
+            label: 'Base',
+            bindings: [
+              { behaviorId: 20, param1: 0x70004, param2: null, position: 0 },
+              { behaviorId: 20, param1: 0x70006, param2: null, position: 1 },
+            ],
+          },
+        ],
+        keymap
+      );
+
+      expect(previews).toEqual([
+        { index: 0, label: 'Base', currentLabel: 'Base', changedPositions: [1] },
+      ]);
+    });
+
+    it('should mark every key of a layer the keyboard does not have', () => {
+      const previews = ImportService.previewLayers(
+        [
+          { id: 0, label: 'Base', bindings: [] },
+          {
+            id: 1,
+            label: 'Nav',
+            bindings: [{ behaviorId: 21, param1: null, param2: null, position: 0 }],
+          },
+        ],
+        keymap
+      );
+
+      expect(previews[1].currentLabel).toBeUndefined();
+      expect(previews[1].changedPositions).toEqual([0]);
+    });
+
+    it('should compare layer parameters by device layer ID', () => {
+      const withLayerKey = {
+        ...keymap,
+        layers: [{ id: 7, name: 'Base', bindings: [{ behaviorId: 4, param1: 7, param2: 0 }] }],
+      };
+
+      const previews = ImportService.previewLayers(
+        [{ id: 0, label: 'Base', bindings: [{ behaviorId: 4, param1: 0, param2: null, position: 0 }] }],
+        withLayerKey
+      );
+
+      expect(previews[0].changedPositions).toEqual([]);
+    });
+  });
 });
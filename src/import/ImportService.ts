@@ -5,19 +5,63 @@
  */
 
 import { DeviceTreeParser } from './DeviceTreeParser';
+import { QmkKeymapImporter } from './QmkKeymapImporter';
+import { ViaKeymapImporter } from './ViaKeymapImporter';
+import { BackupImporter } from './BackupImporter';
 import { ReverseBehaviorMapper } from './ReverseBehaviorMapper';
 import { ReverseHidMapper } from './ReverseHidMapper';
-import type { ImportResult, ImportError, ConvertedBinding, ValidationResult } from './types';
-import { ImportErrorCode } from './types';
+import type {
+  ImportResult,
+  ImportError,
+  ImportedLayer,
+  ConvertedBinding,
+  ExtraSupport,
+  ImportDiagnostic,
+  LayerPreview,
+  PreprocessOptions,
+  QmkParseResult,
+  SourceLocation,
+  ValidationResult,
+} from './types';
+import { ImportErrorCode, ParseErrorCode } from './types';
+import type {
+  Behavior,
+  IKeymapValidator,
+  ValidationResult as KeymapValidationResult,
+} from '../export/types';
+import { BehaviorMapper } from '../export/BehaviorMapper';
+import { BehaviorRegistry } from '../export/BehaviorRegistry';
+import type { Keymap } from '@zmkfirmware/zmk-studio-ts-client/keymap';
 
 export class ImportService {
   /**
    * Import keymap from string content
+   *
+   * Files named `*.json` are read as ZMK Studio backups, QMK Configurator
+   * keymaps or VIA layouts, and `*.vil` files as Vial keymaps.
+   *
+   * @param content - Contents of the .keymap (or .json, .vil) file
+   * @param options - Files available to `#include` and predefined macros
    */
-  static async importFromString(content: string): Promise<ImportResult> {
+  static async importFromString(
+    content: string,
+    options: PreprocessOptions = {}
+  ): Promise<ImportResult> {
+    const fileName = options.fileName?.toLowerCase() ?? '';
+    if (fileName.endsWith('.json') && BackupImporter.isBackup(content)) {
+      return this.importBackup(content);
+    }
+    if (fileName.endsWith('.vil') || fileName.endsWith('.json')) {
+      const parseResult =
+        fileName.endsWith('.vil') || ViaKeymapImporter.isViaKeymap(content)
+          ? ViaKeymapImporter.parse(content)
+          : QmkKeymapImporter.parse(content);
+      return this.importKeycodeLayers(parseResult, content, options);
+    }
+
     try {
       // Parse DeviceTree structure
-      const parseResult = DeviceTreeParser.parse(content);
+      const parseResult = DeviceTreeParser.parse(content, options);
 
       if (!parseResult.success || !parseResult.layers) {
         return {
@@ -30,31 +74,99 @@ export class ImportService {
         };
       }
 
-      // Convert parsed layers to internal format
+      // Behaviors outside the built-in table (stock ones such as &caps_word,
+      // and the file's own macros and behaviors) are numbered after it, and
+      // matched with the device's when the import is previewed
+      const definitions = [
+        ...(parseResult.macros ?? []),
+        ...(parseResult.behaviors ?? []).filter((behavior) => !behavior.override),
+      ];
+      const fileBehaviors = new Map<string, Behavior>();
+      const firstFileBehaviorId = Math.max(...BehaviorMapper.getAllBehaviors().keys()) + 1;
+      const fileBehavior = (label: string, paramCount: number): Behavior => {
+        const known = fileBehaviors.get(label);
+        if (known) {
+          known.paramCount = Math.max(known.paramCount, paramCount);
+          return known;
+        }
+
+        // The device reports a behavior by its display name, or its node name
+        const definition = definitions.find((d) => d.label === label);
+        const behavior = {
+          id: firstFileBehaviorId + fileBehaviors.size,
+          code: label,
+          displayName: definition?.displayName ?? definition?.name ?? label,
+          paramCount,
+          description: definition ? `Defined in the file as ${definition.name}` : '',
+        };
+        fileBehaviors.set(label, behavior);
+        return behavior;
+      };
+
+      // Convert parsed layers to internal format, noting every token that
+      // does not resolve
+      const diagnostics: ImportDiagnostic[] = [];
       const layers = parseResult.layers.map((parsedLayer, index) => {
         const bindings: ConvertedBinding[] = [];
 
         parsedLayer.bindings.forEach((bindingStr, position) => {
           // Parse binding
           const parsed = DeviceTreeParser.parseBinding(bindingStr);
+          const report = (code: ParseErrorCode, message: string) =>
+            diagnostics.push(
+              this.diagnostic(code, message, index, position, {
+                location: parseResult.bindingLocations?.[index]?.[position],
+                content,
+                options,
+              })
+            );
 
           // Convert to internal format
-          const converted = ReverseBehaviorMapper.convertBinding(
-            parsed,
-            (keyName) => ReverseHidMapper.getHidCode(keyName)
-          );
+          const getHidCode = (keyName: string) => {
+            const hidCode = ReverseHidMapper.getHidCode(keyName);
+            if (hidCode === null) {
+              report(
+                ParseErrorCode.UNKNOWN_KEY,
+                keyName
+                  ? `Unknown key name ${keyName} in ${bindingStr}`
+                  : `${bindingStr} is missing its key`
+              );
+            }
+            return hidCode;
+          };
+          const converted = ReverseBehaviorMapper.convertBinding(parsed, getHidCode);
 
           if (converted) {
+            if (ReverseBehaviorMapper.isLayerBehavior(parsed.behavior) && converted.param1 === null) {
+              report(
+                ParseErrorCode.INVALID_BINDING,
+                `${bindingStr} does not give a layer number`
+              );
+            } else if (parsed.behavior === 'bt' && converted.param1 === null) {
+              report(
+                ParseErrorCode.INVALID_BINDING,
+                `Unknown Bluetooth command in ${bindingStr}`
+              );
+            } else if (
+              parsed.behavior === 'bt' &&
+              converted.param2 === null &&
+              ReverseBehaviorMapper.BT_PROFILE_COMMANDS.includes(converted.param1 ?? -1)
+            ) {
+              report(
+                ParseErrorCode.INVALID_BINDING,
+                `${bindingStr} does not give a profile number`
+              );
+            }
+
             bindings.push({
               ...converted,
               position,
             });
           } else {
-            // Unknown behavior - add placeholder with null behavior ID
+            // Whether the device has it is found out in toDeviceBehaviorIds
             bindings.push({
-              behaviorId: 0, // Use trans as placeholder
-              param1: null,
-              param2: null,
+              behaviorId: fileBehavior(parsed.behavior, Math.min(parsed.params.length, 2)).id,
+              ...ReverseBehaviorMapper.convertParams(parsed, getHidCode),
               position,
             });
           }
@@ -64,13 +176,26 @@ export class ImportService {
           id: index,
           label: parsedLayer.label,
           bindings,
+          sources: parsedLayer.bindings,
         };
       });
 
+      // The widest layer tells where every key position is written
+      const keyLocations = (parseResult.bindingLocations ?? []).reduce<SourceLocation[]>(
+        (widest, locations) => (locations.length > widest.length ? locations : widest),
+        []
+      );
+
       return {
         success: true,
         layers,
+        keyLocations,
+        diagnostics,
         warnings: parseResult.warnings,
+        combos: parseResult.combos,
+        macros: parseResult.macros,
+        behaviors: parseResult.behaviors,
+        fileBehaviors: fileBehaviors.size > 0 ? [...fileBehaviors.values()] : undefined,
       };
     } catch (error) {
       return {
@@ -84,16 +209,87 @@ export class ImportService {
     }
   }
 
+  /**
+   * Finish importing a file of QMK keycodes (QMK Configurator, VIA or Vial),
+   * locating its diagnostics
+   */
+  private static importKeycodeLayers(
+    parseResult: QmkParseResult,
+    content: string,
+    options: PreprocessOptions
+  ): ImportResult {
+    if (!parseResult.success || !parseResult.layers) {
+      return {
+        success: false,
+        error: {
+          code: ImportErrorCode.PARSE_ERROR,
+          message: parseResult.error?.message || 'Failed to read keymap',
+          context: parseResult.error,
+        },
+      };
+    }
+
+    const locations = parseResult.keycodeLocations ?? [];
+    const diagnostics = (parseResult.diagnostics ?? []).map(({ code, message, layer, position }) =>
+      this.diagnostic(code, message, layer, position, {
+        location: locations[layer]?.[position],
+        content,
+        options,
+      })
+    );
+
+    return {
+      success: true,
+      layers: parseResult.layers,
+      keyLocations: locations.reduce<SourceLocation[]>(
+        (widest, layer) => (layer.length > widest.length ? layer : widest),
+        []
+      ),
+      diagnostics,
+    };
+  }
+
+  /**
+   * Finish importing a ZMK Studio backup
+   */
+  private static importBackup(content: string): ImportResult {
+    const parseResult = BackupImporter.parse(content);
+    if (!parseResult.success || !parseResult.layers) {
+      return {
+        success: false,
+        error: {
+          code: ImportErrorCode.PARSE_ERROR,
+          message: parseResult.error?.message || 'Failed to read backup',
+          context: parseResult.error,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      layers: parseResult.layers,
+      diagnostics: parseResult.diagnostics,
+      backup: parseResult.backup,
+    };
+  }
+
   /**
    * Import keymap from File object
+   *
+   * @param file - The .keymap, keymap.json or .vil file
+   * @param includes - Other files the keymap may `#include` (.dtsi, .h)
    */
-  static async importFromFile(file: File): Promise<ImportResult> {
+  static async importFromFile(file: File, includes: File[] = []): Promise<ImportResult> {
     try {
       // Read file content
       const content = await this.readFileAsText(file);
+      const files: Record<string, string> = {};
+      for (const include of includes) {
+        files[include.name] = await this.readFileAsText(include);
+      }
 
       // Import from string
-      return await this.importFromString(content);
+      return await this.importFromString(content, { fileName: file.name, files });
     } catch (error) {
       return {
         success: false,
@@ -106,6 +302,40 @@ export class ImportService {
     }
   }
 
+  /**
+   * Build a diagnostic located where the binding is written
+   *
+   * The message ends with the line and column, worded like syntax errors,
+   * and the context is the source line.
+   */
+  private static diagnostic(
+    code: ParseErrorCode,
+    message: string,
+    layer: number,
+    position: number,
+    source: { location?: SourceLocation; content: string; options: PreprocessOptions }
+  ): ImportDiagnostic {
+    const { location, content, options } = source;
+    if (!location) {
+      return { code, message, layer, position };
+    }
+
+    const file = location.file && location.file !== options.fileName ? location.file : undefined;
+    const text = file ? options.files?.[file] : content;
+    const where = file ? ` of ${file}` : '';
+
+    return {
+      code,
+      message: `${message} at line ${location.line}, column ${location.column}${where}`,
+      line: location.line,
+      column: location.column,
+      file,
+      context: text?.split(/\r?\n/)[location.line - 1]?.trim(),
+      layer,
+      position,
+    };
+  }
+
   /**
    * Read file as text
    */
@@ -149,6 +379,7 @@ export class ImportService {
     }
 
     // Validate each layer
+    const behaviors = this.sourceRegistry(result) ?? BehaviorMapper;
     result.layers.forEach((layer, index) => {
       // Warn about empty layers
       if (layer.bindings.length === 0) {
@@ -164,7 +395,7 @@ export class ImportService {
 
       // Validate behavior IDs
       layer.bindings.forEach((binding) => {
-        if (binding.behaviorId < 0 || binding.behaviorId > 6) {
+        if (!behaviors.getBehavior(binding.behaviorId)) {
           warnings.push(
             `Invalid behavior ID ${binding.behaviorId} at position ${binding.position} in layer ${index}`
           );
@@ -178,4 +409,258 @@ export class ImportService {
       errors,
     };
   }
+
+  /**
+   * Validate imported layers with a keymap validator
+   *
+   * Layer references in the imported bindings are layer indexes, matching the
+   * layer IDs assigned by importFromString.
+   */
+  static validateKeymap(
+    result: ImportResult,
+    validator: IKeymapValidator,
+    deviceName = ''
+  ): KeymapValidationResult {
+    const layers = (result.layers ?? []).map((layer) => ({
+      id: layer.id,
+      label: layer.label,
+      bindings: layer.bindings.map((binding) => ({
+        ...binding,
+        param1: binding.param1 ?? 0,
+      })),
+    }));
+
+    return validator.validate({
+      layers,
+      deviceName,
+      layoutName: 'default',
+      timestamp: new Date(),
+      version: '1.0.0',
+      totalBindings: layers.reduce((sum, layer) => sum + layer.bindings.length, 0),
+    });
+  }
+
+  /**
+   * Describe what the connected firmware can do with the combos, macros and
+   * behaviors found in an imported file
+   *
+   * ZMK Studio can only change layer bindings, so none of these are applied.
+   * Macros and behaviors the firmware already has (matched by label, or by
+   * the name the device reports) can still be used by bindings; the others
+   * have to be added to the zmk-config and flashed first.
+   *
+   * @param result - Import result
+   * @param registry - Behaviors reported by the device, if known
+   * @returns One entry per combo, macro and behavior
+   */
+  static describeExtras(result: ImportResult, registry?: BehaviorRegistry): ExtraSupport[] {
+    const onDevice = (label: string, name: string, displayName?: string) =>
+      !!registry &&
+      [label, name, displayName]
+        .filter((n): n is string => !!n)
+        .some((n) => registry.getBehaviorByCode(BehaviorRegistry.getDeviceTreeLabel(n)));
+
+    const combos = (result.combos ?? []).map((combo) => ({
+      kind: 'combo' as const,
+      name: combo.name,
+      onDevice: false,
+      message: `Combo ${combo.name} (${combo.binding} on keys ${combo.keyPositions.join('+')}) is not applied: ZMK Studio cannot edit combos`,
+    }));
+
+    const macros = (result.macros ?? []).map((macro) => {
+      const found = onDevice(macro.label, macro.name, macro.displayName);
+      return {
+        kind: 'macro' as const,
+        name: macro.label,
+        onDevice: found,
+        message: found
+          ? `Macro &${macro.label} is on the keyboard; its steps in this file are not applied`
+          : `Macro &${macro.label} is not on the keyboard; add it to your zmk-config to use it`,
+      };
+    });
+
+    const behaviors = (result.behaviors ?? []).map((behavior) => {
+      if (behavior.override) {
+        const settings = [
+          ...(behavior.tappingTermMs !== undefined ? ['tapping-term-ms'] : []),
+          ...(behavior.quickTapMs !== undefined ? ['quick-tap-ms'] : []),
+          ...(behavior.requirePriorIdleMs !== undefined ? ['require-prior-idle-ms'] : []),
+          ...(behavior.flavor !== undefined ? ['flavor'] : []),
+          ...Object.keys(behavior.properties),
+        ];
+        return {
+          kind: 'behavior' as const,
+          name: behavior.label,
+          onDevice: onDevice(behavior.label, behavior.name),
+          message: `Settings for &${behavior.label} (${settings.join(', ')}) are not applied: ZMK Studio cannot change behavior settings`,
+        };
+      }
+
+      const found = onDevice(behavior.label, behavior.name, behavior.displayName);
+      const type = behavior.compatible.replace(/^zmk,behavior-/, '');
+      return {
+        kind: 'behavior' as const,
+        name: behavior.label,
+        onDevice: found,
+        message: found
+          ? `Behavior &${behavior.label} (${type}) is on the keyboard; its definition in this file is not applied`
+          : `Behavior &${behavior.label} (${type}) is not on the keyboard; add it to your zmk-config to use it`,
+      };
+    });
+
+    return [...combos, ...macros, ...behaviors];
+  }
+
+  /**
+   * Behaviors the behavior IDs of an import result refer to
+   *
+   * @param result - Import result
+   * @returns The backup's behaviors, or the built-in table with the file's
+   *          other behaviors; undefined when the built-in table alone is used
+   */
+  static sourceRegistry(result: ImportResult): BehaviorRegistry | undefined {
+    if (result.backup) {
+      return BehaviorRegistry.fromDeviceBehaviors(result.backup.behaviors);
+    }
+    if (result.fileBehaviors) {
+      return new BehaviorRegistry([
+        ...BehaviorMapper.getAllBehaviors().values(),
+        ...result.fileBehaviors,
+      ]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Translate the behavior IDs of imported bindings to the device's IDs
+   *
+   * Imported bindings use the built-in behavior table (see
+   * ReverseBehaviorMapper), or a backup's behavior list, while the device
+   * numbers its behaviors itself. Behaviors are matched by DeviceTree label,
+   * or by the name the device reports for them (a custom hold-tap `&hm`
+   * defined as `homerow_mods`). Bindings whose behavior the device did not report are imported as
+   * `&none` (`&trans` if the device has no `&none`, or not at all if it has
+   * neither), with a diagnostic for each.
+   *
+   * @param layers - Imported layers
+   * @param registry - Behaviors reported by the device
+   * @param source - Behaviors the imported IDs refer to (built-in table if omitted)
+   * @returns Layers with device behavior IDs, and one diagnostic per binding
+   *          whose behavior is not on the device
+   */
+  static toDeviceBehaviorIds(
+    layers: ImportedLayer[],
+    registry: BehaviorRegistry,
+    source?: BehaviorRegistry
+  ): { layers: ImportedLayer[]; diagnostics: ImportDiagnostic[] } {
+    const placeholder = registry.getBehaviorByCode('none') ?? registry.getBehaviorByCode('trans');
+    const diagnostics: ImportDiagnostic[] = [];
+
+    const deviceLayers = layers.map((layer, index) => ({
+      ...layer,
+      bindings: layer.bindings.flatMap((binding) => {
+        const imported = (source ?? BehaviorMapper).getBehavior(binding.behaviorId);
+        const code = imported?.code;
+        const behavior = imported
+          ? (registry.getBehaviorByCode(imported.code) ??
+            registry.getBehaviorByCode(BehaviorRegistry.getDeviceTreeLabel(imported.displayName)))
+          : null;
+        if (behavior) {
+          return [{ ...binding, behaviorId: behavior.id }];
+        }
+
+        const name = code ? `&${code}` : `Behavior ${binding.behaviorId}`;
+        diagnostics.push({
+          code: ParseErrorCode.UNKNOWN_BEHAVIOR,
+          message: placeholder
+            ? `${name} is not on the keyboard, imported as &${placeholder.code}`
+            : `${name} is not on the keyboard, not imported`,
+          context: layer.sources?.[binding.position],
+          layer: index,
+          position: binding.position,
+        });
+        return placeholder
+          ? [{ behaviorId: placeholder.id, param1: null, param2: null, position: binding.position }]
+          : [];
+      }),
+    }));
+
+    return { layers: deviceLayers, diagnostics };
+  }
+
+  /**
+   * Point the layer parameters of &mo, &lt, &tog, ... at the device's layer IDs
+   *
+   * Imported layer parameters are layer indexes in the file, while the
+   * keyboard refers to layers by ID. Indexes without a device layer are kept.
+   *
+   * @param layers - Imported layers, with the device's behavior IDs
+   * @param layerIds - Device layer ID at each layer index
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns Layers with device layer IDs as layer parameters
+   */
+  static toDeviceLayerIds(
+    layers: ImportedLayer[],
+    layerIds: number[],
+    registry?: BehaviorRegistry
+  ): ImportedLayer[] {
+    const isLayerBehavior = (behaviorId: number) =>
+      registry ? registry.isLayerBehavior(behaviorId) : BehaviorMapper.isLayerBehavior(behaviorId);
+
+    return layers.map((layer) => ({
+      ...layer,
+      bindings: layer.bindings.map((binding) => {
+        const layerId = binding.param1 !== null ? layerIds[binding.param1] : undefined;
+        return isLayerBehavior(binding.behaviorId) && layerId !== undefined
+          ? { ...binding, param1: layerId }
+          : binding;
+      }),
+    }));
+  }
+
+  /**
+   * Compare imported layers with the keyboard's current keymap
+   *
+   * Layers are matched by index, the way they are applied. Bindings are
+   * compared as the device stores them, so behavior IDs must already be the
+   * device's (see toDeviceBehaviorIds); layer parameters are translated here.
+   *
+   * @param layers - Imported layers
+   * @param keymap - Keymap currently on the keyboard
+   * @param registry - Behaviors reported by the device (static table if omitted)
+   * @returns One preview per imported layer
+   */
+  static previewLayers(
+    layers: ImportedLayer[],
+    keymap: Keymap,
+    registry?: BehaviorRegistry
+  ): LayerPreview[] {
+    const deviceLayers = this.toDeviceLayerIds(
+      layers,
+      keymap.layers.map((layer) => layer.id),
+      registry
+    );
+
+    return deviceLayers.map((layer, index) => {
+      const current = keymap.layers[index];
+      const changedPositions = layer.bindings
+        .filter((binding) => {
+          const existing = current?.bindings[binding.position];
+          return (
+            !existing ||
+            existing.behaviorId !== binding.behaviorId ||
+            existing.param1 !== (binding.param1 ?? 0) ||
+            existing.param2 !== (binding.param2 ?? 0)
+          );
+        })
+        .map((binding) => binding.position);
+
+      return {
+        index,
+        label: layer.label,
+        currentLabel: current?.name,
+        changedPositions,
+      };
+    });
+  }
 }
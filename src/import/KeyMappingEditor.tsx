@@ -0,0 +1,60 @@
+/**
+ * KeyMappingEditor: Draws the keys of an imported file for remapping
+ *
+ * Each binding of the file is drawn where it is written in the file, with
+ * the keyboard position it goes to. Selecting a key here and then a key on
+ * the keyboard drawing moves it; keys without a keyboard position are
+ * outlined as dropped.
+ */
+
+import { PhysicalLayout } from '../keyboard/PhysicalLayout';
+import type { GridCell } from './PositionMapper';
+import type { PositionMapping } from './types';
+
+export interface KeyMappingEditorProps {
+  /** Where each file position is drawn */
+  cells: GridCell[];
+  /** Binding at each file position, as written in the file */
+  labels: string[];
+  mapping: PositionMapping;
+  /** Selected file position */
+  selected?: number;
+  onSelect: (position: number | undefined) => void;
+}
+
+export function KeyMappingEditor({
+  cells,
+  labels,
+  mapping,
+  selected,
+  onSelect,
+}: KeyMappingEditorProps) {
+  const left = Math.min(...cells.map((cell) => cell.column));
+  const top = Math.min(...cells.map((cell) => cell.row));
+
+  const positions = cells.map((cell, position) => {
+    const [behavior, ...params] = (labels[position] ?? '').split(' ');
+    const target = mapping[position];
+
+    return {
+      id: `file-${position}`,
+      header: target === null ? 'Dropped' : behavior,
+      highlighted: target === null,
+      x: cell.column - left,
+      y: cell.row - top,
+      width: 1,
+      height: 1,
+      children: <span className="text-xs truncate px-0.5">{params.join(' ')}</span>,
+    };
+  });
+
+  return (
+    <PhysicalLayout
+      positions={positions}
+      oneU={48}
+      zoom="auto"
+      selectedPosition={selected}
+      onPositionClicked={(position) => onSelect(position === selected ? undefined : position)}
+    />
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Unit tests for PositionMapper
+ *
+ * Tests fitting the key positions of a file made for one layout to another
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { PositionMapper } from './PositionMapper';
+import { ImportService } from './ImportService';
+import type { ImportedLayer } from './types';
+
+// Key at (x, y) in key units; layout values are hundredths of a unit
+const key = (x: number, y: number) => ({
+  x: x * 100,
+  y: y * 100,
+  width: 100,
+  height: 100,
+  r: 0,
+  rx: 0,
+  ry: 0,
+});
+
+// 36 keys: three rows of five keys per half, and three thumb keys per half
+const split36: PhysicalLayout = {
+  name: '36',
+  keys: [
+    ...[0, 1, 2].flatMap((y) => [0, 1, 2, 3, 4, 7, 8, 9, 10, 11].map((x) => key(x, y))),
+    ...[2, 3, 4, 7, 8, 9].map((x) => key(x, 3.25)),
+  ],
+};
+
+// 42 keys, the same layout with an extra outer column on each side
+const split42: PhysicalLayout = {
+  name: '42',
+  keys: [
+    ...[0, 1, 2].flatMap((y) => [0, 1, 2, 3, 4, 5, 8, 9, 10, 11, 12, 13].map((x) => key(x, y))),
+    ...[3, 4, 5, 8, 9, 10].map((x) => key(x, 3.25)),
+  ],
+};
+
+// Keymap for 36 keys, binding `&mo xx` on key xx
+function keymap36(): string {
+  const name = (position: number) => `&mo ${String(position).padStart(2, ' ')}`;
+  const row = (start: number) =>
+    Array.from({ length: 10 }, (_, i) => name(start + i))
+      .map((binding, i) => (i === 5 ? `    ${binding}` : binding))
+      .join(' ');
+  const thumbs = [30, 31, 32].map(name).join(' ') + '     ' + [33, 34, 35].map(name).join(' ');
+
+  return `
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base {
+      bindings = <
+        ${row(0)}
+        ${row(10)}
+        ${row(20)}
+                  ${thumbs}
+      >;
+    };
+  };
+};
+`;
+}
+
+// Keymap for 42 keys, the same layout with an extra outer column on each side
+function keymap42(): string {
+  const name = (position: number) => `&kp N${String(position).padStart(2, '0')}`;
+  const row = (start: number) =>
+    Array.from({ length: 12 }, (_, i) => name(start + i))
+      .map((binding, i) => (i === 6 ? `    ${binding}` : binding))
+      .join(' ');
+  const thumbs = [36, 37, 38].map(name).join(' ') + '     ' + [39, 40, 41].map(name).join(' ');
+
+  return `
+/ {
+  keymap {
+    compatible = "zmk,keymap";
+    base {
+      bindings = <
+        ${row(0)}
+        ${row(12)}
+        ${row(24)}
+                          ${thumbs}
+      >;
+    };
+  };
+};
+`;
+}
+
+describe('PositionMapper', () => {
+  describe('forLayout', () => {
+    it('should match a file for a wider layout by geometry, dropping the outer columns', async () => {
+      const result = await ImportService.importFromString(keymap42());
+
+      const mapping = PositionMapper.forLayout(result.keyLocations!, split36);
+
+      for (const row of [0, 1, 2]) {
+        expect(mapping[row * 12]).toBeNull();
+        expect(mapping[row * 12 + 11]).toBeNull();
+        for (let column = 1; column <= 10; column++) {
+          expect(mapping[row * 12 + column]).toBe(row * 10 + column - 1);
+        }
+      }
+      expect(mapping.slice(36)).toEqual([30, 31, 32, 33, 34, 35]);
+    });
+
+    it('should keep positions in order when the key counts match', () => {
+      const locations = split36.keys.map((_, i) => ({ line: 10 + Math.floor(i / 10), column: i }));
+
+      expect(PositionMapper.forLayout(locations, split36)).toEqual(split36.keys.map((_, i) => i));
+    });
+
+    it('should keep positions in order when the file has no layout', () => {
+      const locations = Array.from({ length: 40 }, (_, i) => ({ line: 5, column: 1 + i * 6 }));
+
+      const mapping = PositionMapper.forLayout(locations, split36);
+
+      expect(mapping.slice(0, 36)).toEqual(split36.keys.map((_, i) => i));
+      expect(mapping.slice(36)).toEqual([null, null, null, null]);
+    });
+  });
+
+  describe('fileGrid', () => {
+    it('should place bindings by line and column', () => {
+      const grid = PositionMapper.fileGrid([
+        { line: 3, column: 5 },
+        { line: 3, column: 12 },
+        { line: 4, column: 5 },
+        { line: 4, column: 12 },
+      ]);
+
+      expect(grid).toEqual([
+        { row: 0, column: 0 },
+        { row: 0, column: 1 },
+        { row: 1, column: 0 },
+        { row: 1, column: 1 },
+      ]);
+    });
+
+    it('should center short rows of unaligned files under the widest', () => {
+      const grid = PositionMapper.fileGrid([
+        { line: 1, column: 1 },
+        { line: 1, column: 7 },
+        { line: 1, column: 13 },
+        { line: 1, column: 19 },
+        { line: 1, column: 25 },
+        { line: 2, column: 4 },
+        { line: 2, column: 10 },
+        { line: 2, column: 22 },
+      ]);
+
+      expect(grid?.slice(5)).toEqual([
+        { row: 1, column: 1 },
+        { row: 1, column: 2 },
+        { row: 1, column: 3 },
+      ]);
+    });
+
+    it('should give up when bindings share a location', () => {
+      expect(
+        PositionMapper.fileGrid([
+          { line: 1, column: 1 },
+          { line: 1, column: 1 },
+          { line: 2, column: 1 },
+        ])
+      ).toBeNull();
+    });
+  });
+
+  describe('matchByGeometry', () => {
+    it('should send a missing key to a free neighbour', () => {
+      const source = [
+        { row: 0, column: 0 },
+        { row: 0, column: 1 },
+        { row: 1, column: 0 },
+        { row: 1, column: 1 },
+      ];
+      const target = [
+        { row: 0, column: 0 },
+        { row: 0, column: 1 },
+        { row: 1, column: 0.5 },
+      ];
+
+      expect(PositionMapper.matchByGeometry(source, target)).toEqual([0, 1, 2, null]);
+    });
+  });
+
+  describe('remap', () => {
+    const layers: ImportedLayer[] = [
+      {
+        id: 0,
+        label: 'Base',
+        bindings: [
+          { behaviorId: 1, param1: 4, param2: null, position: 0 },
+          { behaviorId: 0, param1: null, param2: null, position: 1 },
+          { behaviorId: 1, param1: 6, param2: null, position: 2 },
+        ],
+        sources: ['&kp A', '&trans', '&kp C'],
+      },
+    ];
+
+    it('should move bindings to their keyboard positions', () => {
+      const [layer] = PositionMapper.remap(layers, [1, 0, null]);
+
+      expect(layer.bindings.map((b) => [b.param1, b.position])).toEqual([
+        [4, 1],
+        [null, 0],
+      ]);
+    });
+
+    it('should lay out a 36-key file by the keys of a 42-key keyboard', async () => {
+      const result = await ImportService.importFromString(keymap36());
+      const [layer] = PositionMapper.remap(
+        result.layers!,
+        PositionMapper.forLayout(result.keyLocations!, split42)
+      );
+
+      const keys = PositionMapper.byKeyPosition(layer, split42.keys.length);
+
+      // Key N of the file is bound to `&mo N`; the outer columns have no binding
+      const file = (start: number, end: number) =>
+        Array.from({ length: end - start }, (_, i) => start + i);
+      expect(keys.map((binding) => binding?.param1)).toEqual([
+        ...[0, 1, 2].flatMap((row) => [undefined, ...file(row * 10, row * 10 + 10), undefined]),
+        ...file(30, 36),
+      ]);
+      keys.forEach((binding, position) => binding && expect(binding.position).toBe(position));
+    });
+
+    it('should list dropped bindings, except those that do nothing', () => {
+      expect(PositionMapper.droppedBindings(layers, [null, null, 2])).toEqual([
+        { layer: 'Base', position: 0, binding: '&kp A' },
+      ]);
+    });
+  });
+});
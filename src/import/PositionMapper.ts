@@ -0,0 +1,282 @@
+/**
+ * PositionMapper: Fits the key positions of an imported file to a keyboard
+ *
+ * A keymap's bindings are positional, so a file made for another layout (a
+ * 42-key Corne file on a 36-key board) lands on the wrong keys when applied
+ * by index. The file's own layout of bindings (rows of text, one row per
+ * line) and the keyboard's physical layout are both reduced to grids of rows
+ * and columns, centered on each other, and every file position goes to the
+ * nearest free key. Positions without a key nearby are dropped.
+ */
+
+import type { PhysicalLayout } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { LayoutFormatter } from '../export/LayoutFormatter';
+import type {
+  ConvertedBinding,
+  DroppedBinding,
+  ImportedLayer,
+  PositionMapping,
+  SourceLocation,
+} from './types';
+
+/**
+ * Place of a key in a grid of rows and columns; columns may be fractional
+ * when short rows are centered under long ones
+ */
+export interface GridCell {
+  row: number;
+  column: number;
+}
+
+/**
+ * Keys whose centers are closer than this (in key units) share a row
+ */
+const ROW_TOLERANCE = 0.5;
+
+/**
+ * Keys whose centers are closer than this (in key units) share a column of
+ * the keyboard's grid
+ */
+const COLUMN_TOLERANCE = 0.75;
+
+/**
+ * How many more grid columns than keys in the widest row are allowed before
+ * the grid counts as sparse, in which case keys are placed by their order
+ * within each row
+ */
+const SPARSE_GRID_SLACK = 2;
+
+/**
+ * Furthest a file position may be from a key (in grid cells) and still go to it
+ */
+const MAX_DISTANCE = 1;
+
+/**
+ * Bindings that do nothing are not worth reporting as dropped, as written in
+ * .keymap files and in QMK keymap.json files
+ */
+const NO_OP_BINDINGS = ['&trans', '&none', 'KC_TRNS', 'KC_TRANSPARENT', '_______', 'KC_NO', 'XXXXXXX'];
+
+export class PositionMapper {
+  /**
+   * Map file positions to keyboard positions
+   *
+   * Positions are matched by geometry when the file and keyboard have a
+   * different number of keys and the file's geometry is known; otherwise
+   * they are kept in order.
+   *
+   * @param keyLocations - Where each file position is written in the file
+   * @param layout - Physical layout of the keyboard
+   * @returns Keyboard position of each file position
+   */
+  static forLayout(keyLocations: SourceLocation[], layout: PhysicalLayout): PositionMapping {
+    const count = keyLocations.length;
+    if (count === layout.keys.length) {
+      return this.inOrder(count, layout.keys.length);
+    }
+
+    const source = this.fileGrid(keyLocations);
+    return source
+      ? this.matchByGeometry(source, this.layoutGrid(layout))
+      : this.inOrder(count, layout.keys.length);
+  }
+
+  /**
+   * Keep positions as they are, dropping those past the keyboard's last key
+   */
+  static inOrder(sourceCount: number, targetCount: number): PositionMapping {
+    return Array.from({ length: sourceCount }, (_, position) =>
+      position < targetCount ? position : null
+    );
+  }
+
+  /**
+   * Grid of the bindings as laid out in the file
+   *
+   * Each line is a row, and bindings starting at the same character column
+   * share a column, as in files aligned by hand or exported by ZMK Studio.
+   *
+   * @param locations - Where each binding starts in the file
+   * @returns Grid cell of each position, or null if the file has no layout:
+   *          all bindings on one line, or several at one location (one macro
+   *          expanding to several bindings)
+   */
+  static fileGrid(locations: SourceLocation[]): GridCell[] | null {
+    const keys = new Set(locations.map((l) => `${l.file ?? ''}:${l.line}:${l.column}`));
+    const lines = [...new Set(locations.map((l) => l.line))].sort((a, b) => a - b);
+    if (keys.size !== locations.length || lines.length < 2) {
+      return null;
+    }
+
+    return this.toGrid(
+      locations.map((l) => ({ x: l.column, y: lines.indexOf(l.line) })),
+      1
+    );
+  }
+
+  /**
+   * Grid of the keys of a physical layout
+   */
+  static layoutGrid(layout: PhysicalLayout): GridCell[] {
+    return this.toGrid(
+      layout.keys.map((key) => LayoutFormatter.getKeyCenter(key)),
+      COLUMN_TOLERANCE
+    );
+  }
+
+  /**
+   * Send every file position to the nearest free keyboard position
+   *
+   * Both grids are centered on each other. Closest pairs are matched first,
+   * so a position only takes a neighbouring key when its own is missing.
+   *
+   * @param source - Grid cell of each file position
+   * @param target - Grid cell of each keyboard position
+   * @returns Keyboard position of each file position
+   */
+  static matchByGeometry(source: GridCell[], target: GridCell[]): PositionMapping {
+    const center = (cells: GridCell[]) => {
+      const rows = cells.map((c) => c.row);
+      const columns = cells.map((c) => c.column);
+      return {
+        row: (Math.min(...rows) + Math.max(...rows)) / 2,
+        column: (Math.min(...columns) + Math.max(...columns)) / 2,
+      };
+    };
+    const sourceCenter = center(source);
+    const targetCenter = center(target);
+
+    const pairs: Array<{ from: number; to: number; distance: number }> = [];
+    source.forEach((s, from) => {
+      target.forEach((t, to) => {
+        const distance = Math.hypot(
+          s.row - sourceCenter.row - (t.row - targetCenter.row),
+          s.column - sourceCenter.column - (t.column - targetCenter.column)
+        );
+        if (distance <= MAX_DISTANCE) {
+          pairs.push({ from, to, distance });
+        }
+      });
+    });
+    pairs.sort((a, b) => a.distance - b.distance || a.from - b.from || a.to - b.to);
+
+    const mapping: PositionMapping = source.map(() => null);
+    const taken = new Set<number>();
+    for (const { from, to } of pairs) {
+      if (mapping[from] === null && !taken.has(to)) {
+        mapping[from] = to;
+        taken.add(to);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Move imported bindings to their keyboard positions
+   *
+   * @param layers - Imported layers, with file positions
+   * @param mapping - Keyboard position of each file position
+   * @returns Layers with keyboard positions; dropped bindings are left out
+   */
+  static remap(layers: ImportedLayer[], mapping: PositionMapping): ImportedLayer[] {
+    return layers.map((layer) => ({
+      ...layer,
+      bindings: layer.bindings.flatMap((binding) => {
+        const position = mapping[binding.position];
+        return position === null || position === undefined ? [] : [{ ...binding, position }];
+      }),
+    }));
+  }
+
+  /**
+   * Lay out a remapped layer's bindings by keyboard position
+   *
+   * Remapped layers keep the file's order and leave out dropped bindings, so
+   * their bindings cannot be read by index like a keyboard layer's.
+   *
+   * @param layer - Layer with keyboard positions
+   * @param keyCount - Number of keys of the keyboard
+   * @returns Binding of each key; undefined for keys the layer has no binding for
+   */
+  static byKeyPosition(
+    layer: ImportedLayer,
+    keyCount: number
+  ): Array<ConvertedBinding | undefined> {
+    const keys: Array<ConvertedBinding | undefined> = new Array(keyCount).fill(undefined);
+    for (const binding of layer.bindings) {
+      if (binding.position < keyCount) {
+        keys[binding.position] = binding;
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * List the bindings that have no key on the keyboard after remapping
+   *
+   * `&trans` and `&none` (`KC_TRNS` and `KC_NO` in QMK files) are left out,
+   * as dropping them changes nothing.
+   *
+   * @param layers - Imported layers, with file positions
+   * @param mapping - Keyboard position of each file position
+   * @returns Dropped bindings, by layer and then position
+   */
+  static droppedBindings(layers: ImportedLayer[], mapping: PositionMapping): DroppedBinding[] {
+    return layers.flatMap((layer) =>
+      layer.bindings
+        .filter((binding) => (mapping[binding.position] ?? null) === null)
+        .map((binding) => ({
+          layer: layer.label,
+          position: binding.position,
+          binding: layer.sources?.[binding.position] ?? `behavior ${binding.behaviorId}`,
+        }))
+        .filter((dropped) => !NO_OP_BINDINGS.includes(dropped.binding))
+    );
+  }
+
+  /**
+   * Place points in a grid of rows and columns
+   *
+   * Columns line up keys across rows. When they do not line up (row-staggered
+   * layouts, hand-written files), keys are placed by order within their row,
+   * with shorter rows centered under the widest.
+   *
+   * @param points - Rows are one apart vertically
+   * @param columnTolerance - Points closer than this horizontally share a column
+   */
+  private static toGrid(
+    points: Array<{ x: number; y: number }>,
+    columnTolerance: number
+  ): GridCell[] {
+    const rowOf = LayoutFormatter.cluster(
+      points.map((p) => p.y),
+      (value, start, previous) => value - previous > ROW_TOLERANCE || value - start >= 1
+    );
+    const columnOf = LayoutFormatter.cluster(
+      points.map((p) => p.x),
+      (value, start) => value - start >= columnTolerance
+    );
+
+    const byRow = new Map<number, number[]>();
+    rowOf.forEach((row, i) => {
+      byRow.set(row, [...(byRow.get(row) ?? []), i]);
+    });
+    const widestRow = Math.max(0, ...[...byRow.values()].map((keys) => keys.length));
+    const columnCount = Math.max(0, ...columnOf) + 1;
+
+    if (columnCount <= widestRow + SPARSE_GRID_SLACK) {
+      return points.map((_, i) => ({ row: rowOf[i], column: columnOf[i] }));
+    }
+
+    const cells: GridCell[] = new Array(points.length);
+    for (const keys of byRow.values()) {
+      keys.sort((a, b) => points[a].x - points[b].x);
+      const offset = (widestRow - keys.length) / 2;
+      keys.forEach((key, rank) => {
+        cells[key] = { row: rowOf[key], column: offset + rank };
+      });
+    }
+    return cells;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Unit tests for Preprocessor
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Preprocessor } from './Preprocessor';
+import { DeviceTreeSyntaxError } from './DeviceTreeLexer';
+
+function lines(source: string, files?: Record<string, string>): string[] {
+  return Preprocessor.preprocess(source, { files }).output.split('\n');
+}
+
+describe('Preprocessor', () => {
+  describe('object-like macros', () => {
+    it('should expand layer constants and binding macros', () => {
+      const output = lines(
+        ['#define LWR 1', '#define HRM_A &mt LGUI A', 'bindings = <&mo LWR HRM_A>;'].join('\n')
+      );
+
+      expect(output).toEqual(['', '', 'bindings = <&mo 1 &mt LGUI A>;']);
+    });
+
+    it('should expand macros defined in terms of other macros', () => {
+      const output = lines(['#define MOD LGUI', '#define HRM(k) &mt MOD k', 'HRM(A)'].join('\n'));
+
+      expect(output[2]).toBe('&mt LGUI A');
+    });
+
+    it('should not expand a macro inside its own expansion', () => {
+      expect(lines(['#define A A B', 'A'].join('\n'))[1]).toBe('A B');
+    });
+
+    it('should leave property names starting with # alone', () => {
+      expect(lines('#binding-cells = <2>;')).toEqual(['#binding-cells = <2>;']);
+    });
+
+    it('should honour #undef', () => {
+      expect(lines(['#define X 1', '#undef X', 'X'].join('\n'))[2]).toBe('X');
+    });
+
+    it('should apply predefined macros', () => {
+      const result = Preprocessor.preprocess('&mo NAV', { defines: { NAV: '2' } });
+
+      expect(result.output).toBe('&mo 2');
+    });
+  });
+
+  describe('function-like macros', () => {
+    it('should substitute arguments', () => {
+      const output = lines(['#define HT(mod, key) &mt mod key', 'HT(LCTRL, A) HT(LSHFT, B)'].join('\n'));
+
+      expect(output[1]).toBe('&mt LCTRL A &mt LSHFT B');
+    });
+
+    it('should keep nested parentheses in one argument', () => {
+      const output = lines(['#define KP(key) &kp key', 'KP(LC(LS(T)))'].join('\n'));
+
+      expect(output[1]).toBe('&kp LC(LS(T))');
+    });
+
+    it('should stringify and paste tokens', () => {
+      const output = lines(
+        ['#define LAYER(id) layer_ ## id { display-name = #id; }', 'LAYER(nav)'].join('\n')
+      );
+
+      expect(output[1]).toBe('layer_nav { display-name = "nav"; }');
+    });
+
+    it('should support variadic macros', () => {
+      const output = lines(['#define WRAP(name, ...) name: name { __VA_ARGS__ };', 'WRAP(m, a = <1>, <2>;)'].join('\n'));
+
+      expect(output[1]).toBe('m: m { a = <1>, <2>; };');
+    });
+
+    it('should read arguments across lines and keep the line count', () => {
+      const output = lines(
+        ['#define HOLD_TAP(name, props) name: name { props };', 'HOLD_TAP(hml,', '  flavor = "balanced";', ')', 'x'].join(
+          '\n'
+        )
+      );
+
+      expect(output).toEqual(['', 'hml: hml { flavor = "balanced"; };', '', '', 'x']);
+    });
+
+    it('should leave a function-like macro name without arguments alone', () => {
+      expect(lines(['#define F(x) x', 'F + 1'].join('\n'))[1]).toBe('F + 1');
+    });
+
+    it('should report the wrong number of arguments', () => {
+      expect(() => lines(['#define F(a, b) a b', '', 'F(1)'].join('\n'))).toThrow(
+        'Macro F takes 2 argument(s), but 1 were given at line 3, column 1'
+      );
+    });
+
+    it('should report an unterminated macro call', () => {
+      expect(() => lines(['#define F(a) a', 'x F(1'].join('\n'))).toThrow(DeviceTreeSyntaxError);
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should keep only the taken branch', () => {
+      const source = [
+        '#define SPLIT 1',
+        '#ifdef SPLIT',
+        'split',
+        '#else',
+        'unibody',
+        '#endif',
+        '#ifndef SPLIT',
+        'not split',
+        '#endif',
+      ].join('\n');
+
+      expect(lines(source)).toEqual(['', '', 'split', '', '', '', '', '', '']);
+    });
+
+    it('should evaluate #if and #elif expressions', () => {
+      const source = [
+        '#define LAYERS 3',
+        '#if LAYERS > 4',
+        'big',
+        '#elif defined(LAYERS) && (LAYERS << 1) == 6',
+        'medium',
+        '#elif 1',
+        'other',
+        '#endif',
+      ].join('\n');
+
+      expect(lines(source).filter((l) => l)).toEqual(['medium']);
+    });
+
+    it('should treat unknown identifiers as 0 and skip nested blocks', () => {
+      const source = ['#if UNKNOWN', '#if 1', 'a', '#endif', '#else', 'b', '#endif'].join('\n');
+
+      expect(lines(source).filter((l) => l)).toEqual(['b']);
+    });
+
+    it('should not evaluate directives in skipped blocks', () => {
+      const source = ['#if 0', '#error not reached', '#define X 1', '#endif', 'X'].join('\n');
+
+      expect(lines(source).filter((l) => l)).toEqual(['X']);
+    });
+
+    it('should report unbalanced conditionals', () => {
+      expect(() => lines('#endif')).toThrow('#endif without #if at line 1, column 1');
+      expect(() => lines('\n#ifdef X\nfoo')).toThrow('Unterminated conditional (missing #endif) at line 2');
+    });
+
+    it('should report #error', () => {
+      expect(() => lines('#error unsupported board')).toThrow('#error unsupported board at line 1');
+    });
+  });
+
+  describe('includes', () => {
+    it('should include supplied files and use their macros', () => {
+      const result = Preprocessor.preprocess(['#include "layers.h"', '&mo NAV'].join('\n'), {
+        files: { 'config/layers.h': '#define NAV 2\n// nav layer' },
+      });
+
+      expect(result.output.split('\n')).toEqual(['', '', '', '&mo 2']);
+      expect(result.sourceMap).toEqual([
+        { line: 1, column: 1, file: undefined },
+        { line: 1, column: 1, file: 'config/layers.h' },
+        { line: 2, column: 1, file: 'config/layers.h' },
+        { line: 2, column: 1, file: undefined },
+      ]);
+    });
+
+    it('should ignore system headers that were not supplied', () => {
+      const result = Preprocessor.preprocess('#include <dt-bindings/zmk/keys.h>\nx');
+
+      expect(result.output).toBe('\nx');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should warn about local includes that were not supplied', () => {
+      const result = Preprocessor.preprocess('#include "combos.dtsi"');
+
+      expect(result.warnings).toEqual([
+        'Included file "combos.dtsi" was not provided; macros it defines are not expanded',
+      ]);
+    });
+
+    it('should report recursive includes', () => {
+      expect(() => Preprocessor.preprocess('#include "a.h"', { files: { 'a.h': '#include "a.h"' } })).toThrow(
+        'Recursive #include of "a.h" at line 1, column 1 of a.h'
+      );
+    });
+  });
+
+  describe('source layout', () => {
+    it('should blank comments and keep columns of unexpanded text', () => {
+      const output = lines('/* a\n b */ foo = <1>; // trailing');
+
+      expect(output).toEqual(['', '      foo = <1>;']);
+    });
+
+    it('should join continued lines and keep the line count', () => {
+      const output = lines(['#define PAIR \\', '  &kp A \\', '  &kp B', 'PAIR'].join('\n'));
+
+      expect(output).toEqual(['', '', '', '&kp A &kp B']);
+    });
+
+    it('should not treat comment markers in strings as comments', () => {
+      expect(lines('url = "http://example.com";')).toEqual(['url = "http://example.com";']);
+    });
+  });
+
+  describe('expansions', () => {
+    it('should record where each macro was expanded', () => {
+      const result = Preprocessor.preprocess(
+        ['#define LWR 1', '#define LT(l, k) &lt l k', '  LT(LWR, SPACE)'].join('\n'),
+        { fileName: 'corne.keymap' }
+      );
+
+      expect(result.expansions).toEqual([
+        { name: 'LWR', location: { line: 3, column: 6, file: 'corne.keymap' }, replacement: '1' },
+        { name: 'LT', location: { line: 3, column: 3, file: 'corne.keymap' }, replacement: '&lt 1 SPACE' },
+      ]);
+    });
+  });
+});
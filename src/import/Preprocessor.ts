@@ -0,0 +1,828 @@
+/**
+ * C Preprocessor for .keymap files
+ *
+ * ZMK runs keymaps through the C preprocessor before dtc sees them, and real
+ * keymaps depend on it: layer constants (`#define LOWER 1`), binding macros
+ * (`#define HRM_A &mt LGUI A`), helper macros with arguments, `#ifdef`
+ * blocks and `#include` of local `.dtsi` files.
+ *
+ * This implements the parts keymaps use: object-like and function-like
+ * macros (including `#`, `##` and `__VA_ARGS__`), `#if`/`#ifdef`/`#elif`
+ * with integer expressions and `defined`, and `#include` resolved against
+ * files supplied by the user. `#include <...>` of headers that were not
+ * supplied is ignored, since key names such as `A` or `LCTRL` are understood
+ * without their definitions.
+ *
+ * Output keeps one line per source line, so positions in the output map
+ * back to the source through `sourceMap`.
+ */
+
+import type {
+  MacroExpansion,
+  PreprocessOptions,
+  PreprocessResult,
+  SourceLocation,
+} from './types';
+import { DeviceTreeSyntaxError } from './DeviceTreeLexer';
+
+interface PpToken {
+  kind: 'ident' | 'number' | 'string' | 'punct' | 'placemarker';
+  text: string;
+  spaceBefore: boolean;
+  /** Index of the output line the token belongs to */
+  row: number;
+  location: SourceLocation;
+  /** Still at its position in the source (not produced by an expansion) */
+  fromSource: boolean;
+  /** Macros that must not expand this token again */
+  hide?: Set<string>;
+  /** A `##` operator from a macro body */
+  paste?: boolean;
+}
+
+interface Macro {
+  name: string;
+  /** Parameter names for function-like macros; `__VA_ARGS__` last if variadic */
+  params?: string[];
+  variadic: boolean;
+  body: PpToken[];
+}
+
+interface Conditional {
+  active: boolean;
+  parentActive: boolean;
+  taken: boolean;
+  sawElse: boolean;
+  location: SourceLocation;
+}
+
+interface SourceLine {
+  text: string;
+  line: number;
+  /** Physical lines joined onto this one with a trailing backslash */
+  continued: number;
+}
+
+const DIRECTIVES = new Set([
+  'define',
+  'undef',
+  'include',
+  'if',
+  'ifdef',
+  'ifndef',
+  'elif',
+  'else',
+  'endif',
+  'error',
+  'warning',
+  'pragma',
+  'line',
+]);
+
+const MULTI_CHAR_PUNCT = ['...', '##', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||'];
+
+const CHAR_ESCAPES: Record<string, number> = { n: 10, t: 9, r: 13, '0': 0 };
+
+const BINARY_PRECEDENCE = new Map<string, number>([
+  ['*', 10],
+  ['/', 10],
+  ['%', 10],
+  ['+', 9],
+  ['-', 9],
+  ['<<', 8],
+  ['>>', 8],
+  ['<', 7],
+  ['<=', 7],
+  ['>', 7],
+  ['>=', 7],
+  ['==', 6],
+  ['!=', 6],
+  ['&', 5],
+  ['^', 4],
+  ['|', 3],
+  ['&&', 2],
+  ['||', 1],
+]);
+
+/**
+ * Replace comments with spaces, keeping newlines and string contents
+ */
+function stripComments(source: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end < 0 ? source.length : end + 2;
+      result += source.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else if (char === '/' && source[i + 1] === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end < 0 ? source.length : end;
+      result += ' '.repeat(stop - i);
+      i = stop;
+    } else if (char === '"' || char === "'") {
+      const match = source.slice(i).match(char === '"' ? /^"(\\.|[^"\\\n])*"/ : /^'(\\.|[^'\\\n])*'/);
+      const literal = match ? match[0] : char;
+      result += literal;
+      i += literal.length;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split text into preprocessing tokens
+ */
+function tokenize(text: string, row: number, location: SourceLocation): PpToken[] {
+  const tokens: PpToken[] = [];
+  let i = 0;
+  let spaceBefore = false;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      spaceBefore = true;
+      i += space[0].length;
+      continue;
+    }
+
+    const match =
+      rest.match(/^[A-Za-z_]\w*/) ??
+      rest.match(/^\.?\d[\w.]*/) ??
+      rest.match(/^"(\\.|[^"\\])*"/) ??
+      rest.match(/^'(\\.|[^'\\])*'/);
+    const punct = MULTI_CHAR_PUNCT.find((p) => rest.startsWith(p)) ?? rest[0];
+    const tokenText = match ? match[0] : punct;
+
+    tokens.push({
+      kind: classify(tokenText),
+      text: tokenText,
+      spaceBefore,
+      row,
+      location: { ...location, column: location.column + i },
+      fromSource: true,
+    });
+    i += tokenText.length;
+    spaceBefore = false;
+  }
+
+  return tokens;
+}
+
+function classify(text: string): PpToken['kind'] {
+  if (/^[A-Za-z_]\w*$/.test(text)) {
+    return 'ident';
+  }
+  if (/^\.?\d/.test(text) || /^'.*'$/.test(text)) {
+    return 'number';
+  }
+  if (/^".*"$/.test(text)) {
+    return 'string';
+  }
+  return 'punct';
+}
+
+function isPunct(token: PpToken | undefined, text: string): boolean {
+  return token?.kind === 'punct' && token.text === text;
+}
+
+/**
+ * Join tokens into text, separating them where the source had whitespace
+ */
+function joinTokens(tokens: PpToken[]): string {
+  return tokens
+    .filter((t) => t.kind !== 'placemarker')
+    .map((t, i) => (i > 0 && t.spaceBefore ? ` ${t.text}` : t.text))
+    .join('');
+}
+
+/**
+ * Value of an integer or character constant in a #if expression
+ */
+function parseInteger(token: PpToken): number {
+  if (token.text.startsWith("'")) {
+    const body = token.text.slice(1, -1);
+    return body.startsWith('\\') ? (CHAR_ESCAPES[body[1]] ?? body.charCodeAt(1)) : body.charCodeAt(0);
+  }
+
+  const digits = token.text.replace(/[ul]+$/i, '');
+  const value = /^0x/i.test(digits)
+    ? parseInt(digits.slice(2), 16)
+    : digits.length > 1 && digits.startsWith('0')
+      ? parseInt(digits, 8)
+      : Number(digits);
+
+  if (!Number.isInteger(value)) {
+    throw new DeviceTreeSyntaxError(`Invalid integer '${token.text}' in #if expression`, token.location);
+  }
+  return value;
+}
+
+/**
+ * Evaluates the integer expression of a #if or #elif
+ */
+class ExpressionEvaluator {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: PpToken[],
+    private readonly location: SourceLocation
+  ) {}
+
+  evaluate(): number {
+    if (this.tokens.length === 0) {
+      throw new DeviceTreeSyntaxError('Missing expression in #if', this.location);
+    }
+    const value = this.conditional();
+    const extra = this.tokens[this.index];
+    if (extra) {
+      throw new DeviceTreeSyntaxError(`Unexpected '${extra.text}' in #if expression`, extra.location);
+    }
+    return value;
+  }
+
+  private conditional(): number {
+    const condition = this.binary(1);
+    if (!this.accept('?')) {
+      return condition;
+    }
+    const whenTrue = this.conditional();
+    this.expect(':');
+    const whenFalse = this.conditional();
+    return condition ? whenTrue : whenFalse;
+  }
+
+  private binary(minPrecedence: number): number {
+    let left = this.unary();
+
+    for (;;) {
+      const operator = this.tokens[this.index];
+      const precedence = operator?.kind === 'punct' ? BINARY_PRECEDENCE.get(operator.text) : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      left = this.apply(operator, left, this.binary(precedence + 1));
+    }
+  }
+
+  private unary(): number {
+    const token = this.tokens[this.index++];
+
+    if (!token) {
+      throw new DeviceTreeSyntaxError('Unexpected end of #if expression', this.location);
+    }
+    if (isPunct(token, '!')) {
+      return this.unary() ? 0 : 1;
+    }
+    if (isPunct(token, '-')) {
+      return -this.unary();
+    }
+    if (isPunct(token, '+')) {
+      return this.unary();
+    }
+    if (isPunct(token, '~')) {
+      return ~this.unary();
+    }
+    if (isPunct(token, '(')) {
+      const value = this.conditional();
+      this.expect(')');
+      return value;
+    }
+    if (token.kind === 'number') {
+      return parseInteger(token);
+    }
+    // Identifiers left after macro expansion evaluate to 0
+    if (token.kind === 'ident') {
+      return 0;
+    }
+    throw new DeviceTreeSyntaxError(`Unexpected '${token.text}' in #if expression`, token.location);
+  }
+
+  private apply(operator: PpToken, left: number, right: number): number {
+    switch (operator.text) {
+      case '*':
+        return left * right;
+      case '/':
+      case '%':
+        if (right === 0) {
+          throw new DeviceTreeSyntaxError('Division by zero in #if expression', operator.location);
+        }
+        return operator.text === '/' ? Math.trunc(left / right) : left % right;
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '<<':
+        return left << right;
+      case '>>':
+        return left >> right;
+      case '<':
+        return Number(left < right);
+      case '<=':
+        return Number(left <= right);
+      case '>':
+        return Number(left > right);
+      case '>=':
+        return Number(left >= right);
+      case '==':
+        return Number(left === right);
+      case '!=':
+        return Number(left !== right);
+      case '&':
+        return left & right;
+      case '^':
+        return left ^ right;
+      case '|':
+        return left | right;
+      case '&&':
+        return Number(!!left && !!right);
+      default:
+        return Number(!!left || !!right);
+    }
+  }
+
+  private accept(text: string): boolean {
+    if (isPunct(this.tokens[this.index], text)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) {
+      const found = this.tokens[this.index];
+      throw new DeviceTreeSyntaxError(
+        `Expected '${text}' in #if expression`,
+        found?.location ?? this.location
+      );
+    }
+  }
+}
+
+export class Preprocessor {
+  private readonly macros = new Map<string, Macro>();
+  private readonly files: Record<string, string>;
+  private readonly includeStack: string[] = [];
+  private readonly output: string[] = [];
+  private readonly sourceMap: SourceLocation[] = [];
+  private readonly expansions: MacroExpansion[] = [];
+  private readonly warnings: string[] = [];
+
+  private constructor(options: PreprocessOptions) {
+    this.files = options.files ?? {};
+    for (const [name, value] of Object.entries(options.defines ?? {})) {
+      this.define(`${name} ${value}`, { line: 0, column: 1 });
+    }
+  }
+
+  /**
+   * Preprocess a .keymap file
+   *
+   * @param source - Contents of the main file
+   * @param options - Included files and predefined macros
+   * @returns Expanded source, its source map and the expansions made
+   * @throws DeviceTreeSyntaxError on malformed directives, unbalanced
+   *   conditionals, macro calls missing arguments and `#error`
+   */
+  static preprocess(source: string, options: PreprocessOptions = {}): PreprocessResult {
+    const preprocessor = new Preprocessor(options);
+    preprocessor.processFile(source, options.fileName);
+
+    return {
+      output: preprocessor.output.join('\n'),
+      sourceMap: preprocessor.sourceMap,
+      expansions: preprocessor.expansions,
+      warnings: preprocessor.warnings,
+    };
+  }
+
+  private processFile(source: string, file: string | undefined): void {
+    const conditionals: Conditional[] = [];
+    const isActive = () => conditionals.length === 0 || conditionals[conditionals.length - 1].active;
+    let block: SourceLine[] = [];
+
+    for (const sourceLine of this.splitLines(stripComments(source))) {
+      const location: SourceLocation = { line: sourceLine.line, column: 1, file };
+      const directive = sourceLine.text.match(/^\s*#\s*([A-Za-z_]\w*)(.*)$/);
+
+      if (!directive || !DIRECTIVES.has(directive[1])) {
+        if (isActive()) {
+          block.push(sourceLine);
+        } else {
+          this.emit('', sourceLine, file);
+        }
+        continue;
+      }
+
+      this.emitBlock(block, file);
+      block = [];
+
+      const [, name, rest] = directive;
+      location.column = sourceLine.text.indexOf('#') + 1;
+      const active = isActive();
+      const top = conditionals[conditionals.length - 1];
+
+      switch (name) {
+        case 'if':
+        case 'ifdef':
+        case 'ifndef': {
+          const condition = active && this.evaluateCondition(name, rest, location);
+          conditionals.push({ active: condition, parentActive: active, taken: condition, sawElse: false, location });
+          break;
+        }
+        case 'elif':
+        case 'else':
+          if (!top || top.sawElse) {
+            throw new DeviceTreeSyntaxError(`#${name} without #if`, location);
+          }
+          if (name === 'else') {
+            top.sawElse = true;
+            top.active = top.parentActive && !top.taken;
+          } else {
+            top.active = top.parentActive && !top.taken && this.evaluateCondition('if', rest, location);
+          }
+          top.taken = top.taken || top.active;
+          break;
+        case 'endif':
+          if (!conditionals.pop()) {
+            throw new DeviceTreeSyntaxError('#endif without #if', location);
+          }
+          break;
+        default:
+          if (active) {
+            this.emit('', sourceLine, file);
+            this.handleDirective(name, rest.trim(), location);
+            continue;
+          }
+      }
+
+      this.emit('', sourceLine, file);
+    }
+
+    this.emitBlock(block, file);
+
+    const unterminated = conditionals.pop();
+    if (unterminated) {
+      throw new DeviceTreeSyntaxError('Unterminated conditional (missing #endif)', unterminated.location);
+    }
+  }
+
+  private handleDirective(name: string, rest: string, location: SourceLocation): void {
+    switch (name) {
+      case 'define':
+        this.define(rest, location);
+        break;
+      case 'undef': {
+        const macro = rest.match(/^[A-Za-z_]\w*/);
+        if (!macro) {
+          throw new DeviceTreeSyntaxError('Expected a macro name after #undef', location);
+        }
+        this.macros.delete(macro[0]);
+        break;
+      }
+      case 'include':
+        this.include(rest, location);
+        break;
+      case 'error':
+        throw new DeviceTreeSyntaxError(`#error ${rest}`, location);
+      case 'warning':
+        this.warnings.push(`#warning ${rest} (line ${location.line}${location.file ? ` of ${location.file}` : ''})`);
+        break;
+      // #pragma and #line do not affect keymaps
+    }
+  }
+
+  private define(text: string, location: SourceLocation): void {
+    const tokens = tokenize(text, 0, location);
+    const name = tokens[0];
+
+    if (name?.kind !== 'ident') {
+      throw new DeviceTreeSyntaxError('Expected a macro name after #define', location);
+    }
+
+    let index = 1;
+    let params: string[] | undefined;
+    let variadic = false;
+
+    // A parenthesis directly after the name makes a function-like macro
+    if (isPunct(tokens[1], '(') && !tokens[1].spaceBefore) {
+      params = [];
+      index = 2;
+      while (!isPunct(tokens[index], ')')) {
+        const param = tokens[index];
+        if (isPunct(param, '...')) {
+          variadic = true;
+          params.push('__VA_ARGS__');
+        } else if (param?.kind === 'ident' && !variadic) {
+          params.push(param.text);
+        } else {
+          throw new DeviceTreeSyntaxError(`Invalid parameter list for macro ${name.text}`, location);
+        }
+        index++;
+        if (isPunct(tokens[index], ',')) {
+          index++;
+        }
+      }
+      index++;
+    }
+
+    const body = tokens.slice(index).map((token, i) => ({
+      ...token,
+      spaceBefore: i > 0 && token.spaceBefore,
+      paste: isPunct(token, '##'),
+    }));
+
+    this.macros.set(name.text, { name: name.text, params, variadic, body });
+  }
+
+  private include(rest: string, location: SourceLocation): void {
+    const target = rest.match(/^"([^"]+)"|^<([^>]+)>/);
+    if (!target) {
+      throw new DeviceTreeSyntaxError('Expected "file" or <file> after #include', location);
+    }
+
+    const name = target[1] ?? target[2];
+    const file = this.findFile(name);
+
+    if (file === undefined) {
+      if (target[1] !== undefined) {
+        this.warnings.push(`Included file "${name}" was not provided; macros it defines are not expanded`);
+      }
+      return;
+    }
+
+    if (this.includeStack.includes(file)) {
+      throw new DeviceTreeSyntaxError(`Recursive #include of "${name}"`, location);
+    }
+
+    this.includeStack.push(file);
+    this.processFile(this.files[file], file);
+    this.includeStack.pop();
+  }
+
+  /**
+   * Find a supplied file by name, matching full paths, path suffixes and
+   * bare file names
+   */
+  private findFile(name: string): string | undefined {
+    const names = Object.keys(this.files);
+    const baseName = name.split('/').pop();
+
+    return (
+      names.find((f) => f === name) ??
+      names.find((f) => f.endsWith(`/${name}`)) ??
+      names.find((f) => f.split('/').pop() === baseName)
+    );
+  }
+
+  private evaluateCondition(directive: string, rest: string, location: SourceLocation): boolean {
+    if (directive !== 'if') {
+      const macro = rest.trim().match(/^[A-Za-z_]\w*/);
+      if (!macro) {
+        throw new DeviceTreeSyntaxError(`Expected a macro name after #${directive}`, location);
+      }
+      return this.macros.has(macro[0]) === (directive === 'ifdef');
+    }
+
+    const tokens = tokenize(rest, 0, { ...location, column: location.column });
+    const resolved: PpToken[] = [];
+
+    // `defined X` and `defined(X)` are replaced before macro expansion
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].kind === 'ident' && tokens[i].text === 'defined') {
+        const parenthesized = isPunct(tokens[i + 1], '(');
+        const name = tokens[parenthesized ? i + 2 : i + 1];
+        if (name?.kind !== 'ident' || (parenthesized && !isPunct(tokens[i + 3], ')'))) {
+          throw new DeviceTreeSyntaxError("Expected a macro name after 'defined'", tokens[i].location);
+        }
+        resolved.push({ ...tokens[i], kind: 'number', text: this.macros.has(name.text) ? '1' : '0' });
+        i += parenthesized ? 3 : 1;
+      } else {
+        resolved.push(tokens[i]);
+      }
+    }
+
+    return new ExpressionEvaluator(this.expand(resolved, false), location).evaluate() !== 0;
+  }
+
+  /**
+   * Expand macros in a run of ordinary lines and emit them
+   */
+  private emitBlock(block: SourceLine[], file: string | undefined): void {
+    if (block.length === 0) {
+      return;
+    }
+
+    const tokens = block.flatMap((sourceLine, row) =>
+      tokenize(sourceLine.text, row, { line: sourceLine.line, column: 1, file })
+    );
+    const rows = block.map(() => '');
+
+    // Tokens still at their source position go back to their column; others
+    // follow the previous token
+    for (const token of this.expand(tokens, true)) {
+      if (token.kind === 'placemarker') {
+        continue;
+      }
+      const text = rows[token.row];
+      const padding = token.fromSource ? token.location.column - 1 - text.length : 0;
+      const separator = padding > 0 ? ' '.repeat(padding) : token.spaceBefore && text.length > 0 ? ' ' : '';
+      rows[token.row] = text + separator + token.text;
+    }
+
+    block.forEach((sourceLine, row) => this.emit(rows[row], sourceLine, file));
+  }
+
+  /**
+   * Emit the output for a source line, and empty lines for the lines joined
+   * onto it
+   */
+  private emit(text: string, sourceLine: SourceLine, file: string | undefined): void {
+    for (let i = 0; i <= sourceLine.continued; i++) {
+      this.output.push(i === 0 ? text : '');
+      this.sourceMap.push({ line: sourceLine.line + i, column: 1, file });
+    }
+  }
+
+  /**
+   * Split into lines, joining lines that end with a backslash
+   */
+  private splitLines(source: string): SourceLine[] {
+    const physical = source.split(/\r?\n/);
+    const lines: SourceLine[] = [];
+
+    for (let i = 0; i < physical.length; i++) {
+      const start = i;
+      let text = physical[i];
+      while (text.endsWith('\\') && i + 1 < physical.length) {
+        text = text.slice(0, -1) + ' ' + physical[++i];
+      }
+      lines.push({ text, line: start + 1, continued: i - start });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Expand all macros in a token list
+   */
+  private expand(input: PpToken[], record: boolean): PpToken[] {
+    const output: PpToken[] = [];
+    // Pending tokens, last one next
+    const pending = input.slice().reverse();
+
+    while (pending.length > 0) {
+      const token = pending.pop()!;
+      const macro = token.kind === 'ident' ? this.macros.get(token.text) : undefined;
+
+      if (!macro || token.hide?.has(macro.name)) {
+        output.push(token);
+        continue;
+      }
+
+      let args: PpToken[][] | undefined;
+      if (macro.params) {
+        // A function-like macro name without arguments is left alone
+        if (!isPunct(pending[pending.length - 1], '(')) {
+          output.push(token);
+          continue;
+        }
+        args = this.collectArguments(pending, token, macro);
+      }
+
+      const replacement = this.substitute(macro, args ?? [], token, record);
+      if (record) {
+        this.expansions.push({
+          name: macro.name,
+          location: token.location,
+          replacement: joinTokens(replacement),
+        });
+      }
+
+      for (let i = replacement.length - 1; i >= 0; i--) {
+        pending.push(replacement[i]);
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Take the arguments of a function-like macro call off the pending tokens
+   */
+  private collectArguments(pending: PpToken[], name: PpToken, macro: Macro): PpToken[][] {
+    const params = macro.params ?? [];
+    const args: PpToken[][] = [[]];
+    let depth = 0;
+
+    pending.pop();
+    for (;;) {
+      const token = pending.pop();
+      if (!token) {
+        throw new DeviceTreeSyntaxError(`Unterminated call to macro ${macro.name}`, name.location);
+      }
+
+      if (isPunct(token, '(')) {
+        depth++;
+      } else if (isPunct(token, ')')) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (isPunct(token, ',') && depth === 0 && !(macro.variadic && args.length === params.length)) {
+        args.push([]);
+        continue;
+      }
+      args[args.length - 1].push(token);
+    }
+
+    if (params.length === 0 && args.length === 1 && args[0].length === 0) {
+      return [];
+    }
+    if (macro.variadic && args.length === params.length - 1) {
+      args.push([]);
+    }
+    if (args.length !== params.length) {
+      throw new DeviceTreeSyntaxError(
+        `Macro ${macro.name} takes ${params.length} argument(s), but ${args.length} were given`,
+        name.location
+      );
+    }
+    return args;
+  }
+
+  /**
+   * Replace a macro invocation with its body, substituting arguments and
+   * applying `#` and `##`
+   */
+  private substitute(macro: Macro, args: PpToken[][], origin: PpToken, record: boolean): PpToken[] {
+    const params = macro.params ?? [];
+    const body = macro.body;
+    const substituted: PpToken[] = [];
+
+    for (let i = 0; i < body.length; i++) {
+      const token = body[i];
+      const next = body[i + 1];
+
+      if (macro.params && isPunct(token, '#') && next && params.includes(next.text)) {
+        const text = joinTokens(args[params.indexOf(next.text)]).replace(/["\\]/g, '\\$&');
+        substituted.push({ ...token, kind: 'string', text: `"${text}"` });
+        i++;
+        continue;
+      }
+
+      const param = token.kind === 'ident' ? params.indexOf(token.text) : -1;
+      if (param < 0) {
+        substituted.push(token);
+        continue;
+      }
+
+      // Arguments are expanded first, except where they are pasted
+      const pasted = !!body[i - 1]?.paste || !!next?.paste;
+      const arg = pasted ? args[param] : this.expand(args[param], record);
+      if (arg.length === 0) {
+        substituted.push({ ...token, kind: 'placemarker', text: '' });
+      }
+      arg.forEach((t, k) => substituted.push({ ...t, spaceBefore: k === 0 ? token.spaceBefore : t.spaceBefore }));
+    }
+
+    const pasted: PpToken[] = [];
+    for (let i = 0; i < substituted.length; i++) {
+      const token = substituted[i];
+      const left = pasted[pasted.length - 1];
+      const right = substituted[i + 1];
+
+      if (token.paste && left && right) {
+        const text = left.text + right.text;
+        pasted[pasted.length - 1] = { ...left, kind: text ? classify(text) : 'placemarker', text, hide: undefined };
+        i++;
+      } else {
+        pasted.push(token);
+      }
+    }
+
+    const hide = new Set([...(origin.hide ?? []), macro.name]);
+    return pasted
+      .filter((t) => t.kind !== 'placemarker')
+      .map((t, i) => ({
+        ...t,
+        spaceBefore: i === 0 ? origin.spaceBefore : t.spaceBefore,
+        row: origin.row,
+        location: origin.location,
+        fromSource: false,
+        hide: new Set([...(t.hide ?? []), ...hide]),
+        paste: false,
+      }));
+  }
+}
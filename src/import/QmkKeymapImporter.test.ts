@@ -0,0 +1,202 @@
+/**
+ * Unit tests for QmkKeymapImporter
+ *
+ * Tests translating QMK Configurator keymap.json files to bindings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QmkKeymapImporter } from './QmkKeymapImporter';
+import { ImportService } from './ImportService';
+import { ParseErrorCode } from './types';
+
+const key = (id: number, mods = 0) => ((mods << 24) | (0x07 << 16) | id) >>> 0;
+
+const keymapJson = JSON.stringify(
+  {
+    version: 1,
+    keyboard: 'crkbd/rev1',
+    keymap: 'test',
+    layout: 'LAYOUT_split_3x6_3',
+    layers: [
+      ['KC_A', 'LT(1,KC_SPC)', 'LCTL_T(KC_S)', 'OSM(MOD_LSFT)'],
+      ['KC_TRNS', 'XXXXXXX', 'MO(2)', 'QK_BOOT'],
+      ['TO(0)', 'KC_EXLM', 'LCTL(KC_C)', 'KC_VOLU'],
+    ],
+  },
+  null,
+  2
+);
+
+describe('QmkKeymapImporter', () => {
+  describe('parse', () => {
+    it('should read every layer', () => {
+      const result = QmkKeymapImporter.parse(keymapJson);
+
+      expect(result.success).toBe(true);
+      expect(result.layers?.map((layer) => layer.bindings.length)).toEqual([4, 4, 4]);
+      expect(result.layers?.[1].sources).toEqual(['KC_TRNS', 'XXXXXXX', 'MO(2)', 'QK_BOOT']);
+    });
+
+    it('should leave layer names empty', () => {
+      const result = QmkKeymapImporter.parse(keymapJson);
+
+      expect(result.layers?.map((layer) => layer.label)).toEqual(['', '', '']);
+    });
+
+    it('should report untranslatable keycodes', () => {
+      const result = QmkKeymapImporter.parse(keymapJson);
+
+      expect(result.diagnostics).toEqual([
+        {
+          code: ParseErrorCode.UNKNOWN_KEY,
+          message: 'QMK keycode QK_BOOT has no ZMK equivalent, imported as &trans',
+          layer: 1,
+          position: 3,
+        },
+      ]);
+      expect(result.layers?.[1].bindings[3]).toEqual({
+        behaviorId: 0,
+        param1: null,
+        param2: null,
+        position: 3,
+      });
+    });
+
+    it('should locate each keycode in the file', () => {
+      const result = QmkKeymapImporter.parse(keymapJson);
+
+      // The layers array starts on line 6, with one keycode per line
+      expect(result.keycodeLocations?.[0][0]).toEqual({ line: 8, column: 8 });
+      expect(result.keycodeLocations?.[2][3]).toEqual({ line: 23, column: 8 });
+    });
+
+    it('should reject invalid JSON', () => {
+      const result = QmkKeymapImporter.parse('{ "layers": [');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ParseErrorCode.INVALID_FORMAT);
+    });
+
+    it('should reject JSON without layers', () => {
+      const result = QmkKeymapImporter.parse('{ "keyboard": "planck" }');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ParseErrorCode.MISSING_KEYMAP);
+    });
+  });
+
+  describe('translate', () => {
+    it('should translate basic keycodes to key presses', () => {
+      expect(QmkKeymapImporter.translate('KC_A').binding).toEqual({
+        behaviorId: 1,
+        param1: key(0x04),
+        param2: null,
+      });
+      expect(QmkKeymapImporter.translate('KC_ESC').binding.param1).toBe(key(0x29));
+      expect(QmkKeymapImporter.translate('KC_LEFT_GUI').binding.param1).toBe(key(0xe3));
+    });
+
+    it('should translate media keycodes to consumer usages', () => {
+      expect(QmkKeymapImporter.translate('KC_MPLY').binding.param1).toBe((0x0c << 16) | 0xcd);
+    });
+
+    it('should translate shifted symbols and modifier functions to implicit modifiers', () => {
+      expect(QmkKeymapImporter.translate('KC_EXLM').binding.param1).toBe(key(0x1e, 0x02));
+      expect(QmkKeymapImporter.translate('LCTL(KC_C)').binding.param1).toBe(key(0x06, 0x01));
+      expect(QmkKeymapImporter.translate('LCTL(LSFT(KC_T))').binding.param1).toBe(
+        key(0x17, 0x03)
+      );
+      expect(QmkKeymapImporter.translate('HYPR(KC_A)').binding.param1).toBe(key(0x04, 0x0f));
+    });
+
+    it('should translate transparent and no-op keycodes', () => {
+      expect(QmkKeymapImporter.translate('_______').binding.behaviorId).toBe(0);
+      expect(QmkKeymapImporter.translate('KC_NO').binding.behaviorId).toBe(7);
+    });
+
+    it('should translate layer keycodes with their layer index', () => {
+      expect(QmkKeymapImporter.translate('MO(1)').binding).toEqual({
+        behaviorId: 4,
+        param1: 1,
+        param2: null,
+      });
+      expect(QmkKeymapImporter.translate('TG(2)').binding).toMatchObject({ behaviorId: 5, param1: 2 });
+      expect(QmkKeymapImporter.translate('TO(0)').binding).toMatchObject({ behaviorId: 9, param1: 0 });
+      expect(QmkKeymapImporter.translate('LT(3, KC_TAB)').binding).toEqual({
+        behaviorId: 3,
+        param1: 3,
+        param2: key(0x2b),
+      });
+    });
+
+    it('should translate mod-taps to a modifier key and a tap key', () => {
+      expect(QmkKeymapImporter.translate('MT(MOD_LALT, KC_D)').binding).toEqual({
+        behaviorId: 2,
+        param1: key(0xe2),
+        param2: key(0x07),
+      });
+      expect(QmkKeymapImporter.translate('RSFT_T(KC_J)').binding).toEqual({
+        behaviorId: 2,
+        param1: key(0xe5),
+        param2: key(0x0d),
+      });
+    });
+
+    it('should keep extra modifiers of a mod-tap as implicit modifiers', () => {
+      expect(QmkKeymapImporter.translate('MT(MOD_LCTL | MOD_LSFT, KC_A)').binding.param1).toBe(
+        key(0xe0, 0x02)
+      );
+      expect(QmkKeymapImporter.translate('MEH_T(KC_A)').binding.param1).toBe(key(0xe0, 0x06));
+    });
+
+    it('should translate one-shot modifiers to sticky keys', () => {
+      expect(QmkKeymapImporter.translate('OSM(MOD_RALT)').binding).toEqual({
+        behaviorId: 8,
+        param1: key(0xe6),
+        param2: null,
+      });
+    });
+
+    it('should report keycode functions without a ZMK equivalent', () => {
+      const { binding, problem } = QmkKeymapImporter.translate('OSL(1)');
+
+      expect(binding.behaviorId).toBe(0);
+      expect(problem?.code).toBe(ParseErrorCode.UNKNOWN_BEHAVIOR);
+    });
+
+    it('should report an unknown tap key, keeping the layer', () => {
+      const { binding, problem } = QmkKeymapImporter.translate('LT(1, KC_NOPE)');
+
+      expect(binding).toEqual({ behaviorId: 3, param1: 1, param2: null });
+      expect(problem).toEqual({
+        code: ParseErrorCode.UNKNOWN_KEY,
+        message: 'Unknown keycode KC_NOPE in LT(1, KC_NOPE)',
+      });
+    });
+
+    it('should report layer keycodes without a layer number', () => {
+      const { binding, problem } = QmkKeymapImporter.translate('MO(_NAV)');
+
+      expect(binding.param1).toBeNull();
+      expect(problem?.code).toBe(ParseErrorCode.INVALID_BINDING);
+    });
+
+    it('should unwrap ANY()', () => {
+      expect(QmkKeymapImporter.translate('ANY(KC_B)').binding.param1).toBe(key(0x05));
+    });
+  });
+
+  describe('through ImportService', () => {
+    it('should import .json files as QMK keymaps, locating diagnostics', async () => {
+      const result = await ImportService.importFromString(keymapJson, { fileName: 'keymap.json' });
+
+      expect(result.success).toBe(true);
+      expect(result.layers).toHaveLength(3);
+      expect(result.keyLocations).toHaveLength(4);
+      expect(result.diagnostics?.[0].message).toBe(
+        'QMK keycode QK_BOOT has no ZMK equivalent, imported as &trans at line 17, column 8'
+      );
+      expect(result.diagnostics?.[0].context).toBe('"QK_BOOT"');
+    });
+  });
+});
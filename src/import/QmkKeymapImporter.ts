@@ -0,0 +1,578 @@
+/**
+ * QMK Keymap Importer
+ *
+ * Reads QMK Configurator `keymap.json` files and translates their keycodes
+ * to ZMK Studio bindings: basic keycodes become `&kp` with the same HID
+ * usage, and LT(), MT(), MO(), TG(), TO() and OSM() become the matching ZMK
+ * behaviors. Layer numbers are layer indexes in the file, as for `.keymap`
+ * files. Keycodes without a ZMK equivalent are reported and imported as
+ * `&trans`.
+ */
+
+import {
+  hid_usage_from_page_and_id,
+  hid_usage_implicit_mods,
+  hid_usage_with_implicit_mods,
+} from '../hid-usages';
+import { ReverseBehaviorMapper } from './ReverseBehaviorMapper';
+import type {
+  ImportDiagnostic,
+  ImportedLayer,
+  PartialConvertedBinding,
+  QmkParseResult,
+  SourceLocation,
+} from './types';
+import { ParseErrorCode } from './types';
+
+const HID_PAGE_KEYBOARD = 0x07;
+const HID_PAGE_CONSUMER = 0x0c;
+
+/**
+ * Modifier bits, in the order of ZMK's implicit modifiers (LC, LS, LA, LG,
+ * RC, RS, RA, RG)
+ */
+const LC = 0x01;
+const LS = 0x02;
+const LA = 0x04;
+const LG = 0x08;
+const RC = 0x10;
+const RS = 0x20;
+const RA = 0x40;
+const RG = 0x80;
+
+/**
+ * QMK basic keycodes (with their aliases) and their keyboard page usage IDs,
+ * which QMK keycodes share
+ */
+const KEYBOARD_KEYCODES: Array<[number, string[]]> = [
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+    .split('')
+    .map((letter, i): [number, string[]] => [0x04 + i, [`KC_${letter}`]]),
+  ...'1234567890'.split('').map((digit, i): [number, string[]] => [0x1e + i, [`KC_${digit}`]]),
+  [0x28, ['KC_ENTER', 'KC_ENT']],
+  [0x29, ['KC_ESCAPE', 'KC_ESC']],
+  [0x2a, ['KC_BACKSPACE', 'KC_BSPC']],
+  [0x2b, ['KC_TAB']],
+  [0x2c, ['KC_SPACE', 'KC_SPC']],
+  [0x2d, ['KC_MINUS', 'KC_MINS']],
+  [0x2e, ['KC_EQUAL', 'KC_EQL']],
+  [0x2f, ['KC_LEFT_BRACKET', 'KC_LBRC']],
+  [0x30, ['KC_RIGHT_BRACKET', 'KC_RBRC']],
+  [0x31, ['KC_BACKSLASH', 'KC_BSLS']],
+  [0x32, ['KC_NONUS_HASH', 'KC_NUHS']],
+  [0x33, ['KC_SEMICOLON', 'KC_SCLN']],
+  [0x34, ['KC_QUOTE', 'KC_QUOT']],
+  [0x35, ['KC_GRAVE', 'KC_GRV']],
+  [0x36, ['KC_COMMA', 'KC_COMM']],
+  [0x37, ['KC_DOT']],
+  [0x38, ['KC_SLASH', 'KC_SLSH']],
+  [0x39, ['KC_CAPS_LOCK', 'KC_CAPS']],
+  ...Array.from({ length: 12 }, (_, i): [number, string[]] => [0x3a + i, [`KC_F${i + 1}`]]),
+  [0x46, ['KC_PRINT_SCREEN', 'KC_PSCR']],
+  [0x47, ['KC_SCROLL_LOCK', 'KC_SCRL']],
+  [0x48, ['KC_PAUSE', 'KC_PAUS']],
+  [0x49, ['KC_INSERT', 'KC_INS']],
+  [0x4a, ['KC_HOME']],
+  [0x4b, ['KC_PAGE_UP', 'KC_PGUP']],
+  [0x4c, ['KC_DELETE', 'KC_DEL']],
+  [0x4d, ['KC_END']],
+  [0x4e, ['KC_PAGE_DOWN', 'KC_PGDN']],
+  [0x4f, ['KC_RIGHT', 'KC_RGHT']],
+  [0x50, ['KC_LEFT']],
+  [0x51, ['KC_DOWN']],
+  [0x52, ['KC_UP']],
+  [0x53, ['KC_NUM_LOCK', 'KC_NUM']],
+  [0x54, ['KC_KP_SLASH', 'KC_PSLS']],
+  [0x55, ['KC_KP_ASTERISK', 'KC_PAST']],
+  [0x56, ['KC_KP_MINUS', 'KC_PMNS']],
+  [0x57, ['KC_KP_PLUS', 'KC_PPLS']],
+  [0x58, ['KC_KP_ENTER', 'KC_PENT']],
+  ...Array.from({ length: 9 }, (_, i): [number, string[]] => [
+    0x59 + i,
+    [`KC_KP_${i + 1}`, `KC_P${i + 1}`],
+  ]),
+  [0x62, ['KC_KP_0', 'KC_P0']],
+  [0x63, ['KC_KP_DOT', 'KC_PDOT']],
+  [0x64, ['KC_NONUS_BACKSLASH', 'KC_NUBS']],
+  [0x65, ['KC_APPLICATION', 'KC_APP']],
+  [0x67, ['KC_KP_EQUAL', 'KC_PEQL']],
+  ...Array.from({ length: 12 }, (_, i): [number, string[]] => [0x68 + i, [`KC_F${i + 13}`]]),
+  [0xe0, ['KC_LEFT_CTRL', 'KC_LCTL']],
+  [0xe1, ['KC_LEFT_SHIFT', 'KC_LSFT']],
+  [0xe2, ['KC_LEFT_ALT', 'KC_LALT', 'KC_LOPT']],
+  [0xe3, ['KC_LEFT_GUI', 'KC_LGUI', 'KC_LCMD', 'KC_LWIN']],
+  [0xe4, ['KC_RIGHT_CTRL', 'KC_RCTL']],
+  [0xe5, ['KC_RIGHT_SHIFT', 'KC_RSFT']],
+  [0xe6, ['KC_RIGHT_ALT', 'KC_RALT', 'KC_ROPT', 'KC_ALGR']],
+  [0xe7, ['KC_RIGHT_GUI', 'KC_RGUI', 'KC_RCMD', 'KC_RWIN']],
+];
+
+/**
+ * QMK media and application keycodes and their consumer page usage IDs
+ */
+const CONSUMER_KEYCODES: Array<[number, string[]]> = [
+  [0x6f, ['KC_BRIGHTNESS_UP', 'KC_BRIU']],
+  [0x70, ['KC_BRIGHTNESS_DOWN', 'KC_BRID']],
+  [0xb3, ['KC_MEDIA_FAST_FORWARD', 'KC_MFFD']],
+  [0xb4, ['KC_MEDIA_REWIND', 'KC_MRWD']],
+  [0xb5, ['KC_MEDIA_NEXT_TRACK', 'KC_MNXT']],
+  [0xb6, ['KC_MEDIA_PREV_TRACK', 'KC_MPRV']],
+  [0xb7, ['KC_MEDIA_STOP', 'KC_MSTP']],
+  [0xb8, ['KC_MEDIA_EJECT', 'KC_EJCT']],
+  [0xcd, ['KC_MEDIA_PLAY_PAUSE', 'KC_MPLY']],
+  [0xe2, ['KC_AUDIO_MUTE', 'KC_MUTE']],
+  [0xe9, ['KC_AUDIO_VOL_UP', 'KC_VOLU']],
+  [0xea, ['KC_AUDIO_VOL_DOWN', 'KC_VOLD']],
+  [0x18a, ['KC_MAIL']],
+  [0x192, ['KC_CALCULATOR', 'KC_CALC']],
+  [0x194, ['KC_MY_COMPUTER', 'KC_MYCM']],
+  [0x221, ['KC_WWW_SEARCH', 'KC_WSCH']],
+  [0x223, ['KC_WWW_HOME', 'KC_WHOM']],
+  [0x224, ['KC_WWW_BACK', 'KC_WBAK']],
+  [0x225, ['KC_WWW_FORWARD', 'KC_WFWD']],
+  [0x226, ['KC_WWW_STOP', 'KC_WSTP']],
+  [0x227, ['KC_WWW_REFRESH', 'KC_WREF']],
+  [0x22a, ['KC_WWW_FAVORITES', 'KC_WFAV']],
+];
+
+/**
+ * QMK's shifted symbol keycodes (US layout) and the keycode they shift
+ */
+const SHIFTED_KEYCODES: Array<[string, string[]]> = [
+  ['KC_GRV', ['KC_TILDE', 'KC_TILD']],
+  ['KC_1', ['KC_EXCLAIM', 'KC_EXLM']],
+  ['KC_2', ['KC_AT']],
+  ['KC_3', ['KC_HASH']],
+  ['KC_4', ['KC_DOLLAR', 'KC_DLR']],
+  ['KC_5', ['KC_PERCENT', 'KC_PERC']],
+  ['KC_6', ['KC_CIRCUMFLEX', 'KC_CIRC']],
+  ['KC_7', ['KC_AMPERSAND', 'KC_AMPR']],
+  ['KC_8', ['KC_ASTERISK', 'KC_ASTR']],
+  ['KC_9', ['KC_LEFT_PAREN', 'KC_LPRN']],
+  ['KC_0', ['KC_RIGHT_PAREN', 'KC_RPRN']],
+  ['KC_MINS', ['KC_UNDERSCORE', 'KC_UNDS']],
+  ['KC_EQL', ['KC_PLUS']],
+  ['KC_LBRC', ['KC_LEFT_CURLY_BRACE', 'KC_LCBR']],
+  ['KC_RBRC', ['KC_RIGHT_CURLY_BRACE', 'KC_RCBR']],
+  ['KC_BSLS', ['KC_PIPE']],
+  ['KC_SCLN', ['KC_COLON', 'KC_COLN']],
+  ['KC_QUOT', ['KC_DOUBLE_QUOTE', 'KC_DQUO', 'KC_DQT']],
+  ['KC_COMM', ['KC_LEFT_ANGLE_BRACKET', 'KC_LABK', 'KC_LT']],
+  ['KC_DOT', ['KC_RIGHT_ANGLE_BRACKET', 'KC_RABK', 'KC_GT']],
+  ['KC_SLSH', ['KC_QUESTION', 'KC_QUES']],
+];
+
+/**
+ * Modifiers named by QMK's modifier functions (`LCTL(kc)`), mod-taps
+ * (`LCTL_T(kc)`) and modifier masks (`MOD_LCTL`)
+ */
+const MODIFIER_NAMES: Map<string, number> = new Map([
+  ['LCTL', LC],
+  ['C', LC],
+  ['CTL', LC],
+  ['LSFT', LS],
+  ['S', LS],
+  ['SFT', LS],
+  ['LALT', LA],
+  ['A', LA],
+  ['ALT', LA],
+  ['LOPT', LA],
+  ['OPT', LA],
+  ['LGUI', LG],
+  ['G', LG],
+  ['GUI', LG],
+  ['LCMD', LG],
+  ['CMD', LG],
+  ['LWIN', LG],
+  ['WIN', LG],
+  ['RCTL', RC],
+  ['RSFT', RS],
+  ['RALT', RA],
+  ['ROPT', RA],
+  ['ALGR', RA],
+  ['RGUI', RG],
+  ['RCMD', RG],
+  ['RWIN', RG],
+  ['C_S', LC | LS],
+  ['LCS', LC | LS],
+  ['LCA', LC | LA],
+  ['LSA', LS | LA],
+  ['SGUI', LS | LG],
+  ['SCMD', LS | LG],
+  ['SWIN', LS | LG],
+  ['LCAG', LC | LA | LG],
+  ['MEH', LC | LS | LA],
+  ['HYPR', LC | LS | LA | LG],
+  ['ALL', LC | LS | LA | LG],
+]);
+
+const TRANSPARENT_KEYCODES = ['KC_TRANSPARENT', 'KC_TRNS', '_______'];
+const NO_KEYCODES = ['KC_NO', 'XXXXXXX'];
+
+const KEYCODES: Map<string, number> = new Map([
+  ...KEYBOARD_KEYCODES.flatMap(([id, names]) =>
+    names.map((name): [string, number] => [name, hid_usage_from_page_and_id(HID_PAGE_KEYBOARD, id)])
+  ),
+  ...CONSUMER_KEYCODES.flatMap(([id, names]) =>
+    names.map((name): [string, number] => [name, hid_usage_from_page_and_id(HID_PAGE_CONSUMER, id)])
+  ),
+]);
+
+for (const [base, names] of SHIFTED_KEYCODES) {
+  const usage = hid_usage_with_implicit_mods(KEYCODES.get(base)!, LS);
+  names.forEach((name) => KEYCODES.set(name, usage));
+}
+
+/**
+ * A keycode split into its function and arguments: `LT(1, KC_SPC)` is
+ * `{ name: 'LT', args: ['1', 'KC_SPC'] }`; plain keycodes have no arguments
+ */
+interface Keycode {
+  name: string;
+  args?: string[];
+}
+
+/**
+ * Result of translating one keycode; `problem` is set when some of it could
+ * not be translated
+ */
+export interface KeycodeTranslation {
+  binding: PartialConvertedBinding;
+  problem?: { code: ParseErrorCode; message: string };
+}
+
+export class QmkKeymapImporter {
+  /**
+   * Read a keymap.json file
+   *
+   * Layers have no names in keymap.json, so imported layers keep the
+   * keyboard's layer names.
+   *
+   * @param content - Contents of the keymap.json file
+   * @returns Layers, with one diagnostic per keycode that could not be
+   *          translated (without its location)
+   */
+  static parse(content: string): QmkParseResult {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: ParseErrorCode.INVALID_FORMAT,
+          message: `Not a valid JSON file: ${error instanceof Error ? error.message : error}`,
+        },
+      };
+    }
+
+    const layers = (json as { layers?: unknown } | null)?.layers;
+    if (!Array.isArray(layers) || !layers.every((layer) => Array.isArray(layer))) {
+      return {
+        success: false,
+        error: {
+          code: ParseErrorCode.MISSING_KEYMAP,
+          message: 'No layers found; expected a QMK Configurator keymap.json file',
+        },
+      };
+    }
+
+    const diagnostics: ImportDiagnostic[] = [];
+    const imported: ImportedLayer[] = layers.map((keycodes: unknown[], index) => {
+      const sources = keycodes.map((keycode) => String(keycode).trim());
+      const bindings = sources.map((keycode, position) => {
+        const { binding, problem } = this.translate(keycode);
+        if (problem) {
+          diagnostics.push({ ...problem, layer: index, position });
+        }
+        return { ...binding, position };
+      });
+
+      return { id: index, label: '', bindings, sources };
+    });
+
+    return {
+      success: true,
+      layers: imported,
+      keycodeLocations: this.splitLayers(
+        this.valueLocations(content, 'layers', imported.reduce((n, l) => n + l.bindings.length, 0)),
+        imported.map((l) => l.bindings.length)
+      ),
+      diagnostics,
+    };
+  }
+
+  /**
+   * Translate a QMK keycode to a binding
+   *
+   * @param keycode - Keycode as written in keymap.json (e.g., "LT(1,KC_SPC)")
+   */
+  static translate(keycode: string): KeycodeTranslation {
+    const parsed = this.splitKeycode(keycode);
+    const behavior = (code: string) => ReverseBehaviorMapper.getBehaviorId(code)!;
+    const unknown = (code: ParseErrorCode, message: string): KeycodeTranslation => ({
+      binding: { behaviorId: behavior('trans'), param1: null, param2: null },
+      problem: { code, message: `${message}, imported as &trans` },
+    });
+
+    if (!parsed) {
+      return unknown(ParseErrorCode.INVALID_BINDING, `Cannot read keycode ${keycode}`);
+    }
+
+    const { name, args } = parsed;
+    if (!args) {
+      if (TRANSPARENT_KEYCODES.includes(name)) {
+        return { binding: { behaviorId: behavior('trans'), param1: null, param2: null } };
+      }
+      if (NO_KEYCODES.includes(name)) {
+        return { binding: { behaviorId: behavior('none'), param1: null, param2: null } };
+      }
+
+      const usage = this.getHidCode(keycode);
+      return usage === null
+        ? unknown(ParseErrorCode.UNKNOWN_KEY, `QMK keycode ${keycode} has no ZMK equivalent`)
+        : { binding: { behaviorId: behavior('kp'), param1: usage, param2: null } };
+    }
+
+    const layer = (text: string | undefined) => {
+      const number = /^\d+$/.test(text ?? '') ? parseInt(text!, 10) : null;
+      return {
+        number,
+        problem:
+          number === null
+            ? { code: ParseErrorCode.INVALID_BINDING, message: `${keycode} does not give a layer number` }
+            : undefined,
+      };
+    };
+    const key = (text: string | undefined) => {
+      const usage = text ? this.getHidCode(text) : null;
+      return {
+        usage,
+        problem:
+          usage === null
+            ? {
+                code: ParseErrorCode.UNKNOWN_KEY,
+                message: text ? `Unknown keycode ${text} in ${keycode}` : `${keycode} is missing its key`,
+              }
+            : undefined,
+      };
+    };
+    const modifier = (mods: number | null) => {
+      const usage = mods ? this.modifierUsage(mods) : null;
+      return {
+        usage,
+        problem:
+          usage === null
+            ? { code: ParseErrorCode.INVALID_BINDING, message: `Unknown modifiers in ${keycode}` }
+            : undefined,
+      };
+    };
+
+    switch (name) {
+      case 'MO':
+      case 'TG':
+      case 'TO': {
+        const code = { MO: 'mo', TG: 'tog', TO: 'to' }[name];
+        const { number, problem } = layer(args[0]);
+        return { binding: { behaviorId: behavior(code), param1: number, param2: null }, problem };
+      }
+
+      case 'LT': {
+        const target = layer(args[0]);
+        const tap = key(args[1]);
+        return {
+          binding: { behaviorId: behavior('lt'), param1: target.number, param2: tap.usage },
+          problem: target.problem ?? tap.problem,
+        };
+      }
+
+      case 'MT': {
+        const hold = modifier(this.modifierMask(args[0]));
+        const tap = key(args[1]);
+        return {
+          binding: { behaviorId: behavior('mt'), param1: hold.usage, param2: tap.usage },
+          problem: hold.problem ?? tap.problem,
+        };
+      }
+
+      case 'OSM': {
+        const { usage, problem } = modifier(this.modifierMask(args[0]));
+        return { binding: { behaviorId: behavior('sk'), param1: usage, param2: null }, problem };
+      }
+
+      case 'ANY':
+        return this.translate(args[0] ?? '');
+    }
+
+    // Mod-taps: LCTL_T(kc), MEH_T(kc), ...
+    const modTap = name.endsWith('_T') ? MODIFIER_NAMES.get(name.slice(0, -2)) : undefined;
+    if (modTap !== undefined) {
+      const hold = modifier(modTap);
+      const tap = key(args[0]);
+      return {
+        binding: { behaviorId: behavior('mt'), param1: hold.usage, param2: tap.usage },
+        problem: tap.problem,
+      };
+    }
+
+    // Modifier functions: LCTL(kc), HYPR(kc), ...
+    if (MODIFIER_NAMES.has(name)) {
+      const usage = this.getHidCode(keycode);
+      return {
+        binding: { behaviorId: behavior('kp'), param1: usage, param2: null },
+        problem:
+          usage === null
+            ? { code: ParseErrorCode.UNKNOWN_KEY, message: `Unknown keycode in ${keycode}` }
+            : undefined,
+      };
+    }
+
+    return unknown(ParseErrorCode.UNKNOWN_BEHAVIOR, `QMK's ${name}() has no ZMK equivalent`);
+  }
+
+  /**
+   * Get the HID usage of a QMK key, with modifier functions (`LCTL(KC_C)`)
+   * as implicit modifiers
+   *
+   * @returns HID usage, or null if the keycode is not a key
+   */
+  static getHidCode(keycode: string): number | null {
+    const parsed = this.splitKeycode(keycode);
+    if (!parsed) {
+      return null;
+    }
+    if (!parsed.args) {
+      return KEYCODES.get(parsed.name) ?? null;
+    }
+
+    const mods = MODIFIER_NAMES.get(parsed.name);
+    const usage = parsed.args.length === 1 ? this.getHidCode(parsed.args[0]) : null;
+    if (mods === undefined || usage === null) {
+      return null;
+    }
+    return hid_usage_with_implicit_mods(usage, hid_usage_implicit_mods(usage) | mods);
+  }
+
+  /**
+   * Read a QMK modifier mask (`MOD_LCTL | MOD_LSFT`)
+   *
+   * @returns Modifier bits, or null if a part is not a modifier
+   */
+  private static modifierMask(text: string | undefined): number | null {
+    const parts = (text ?? '').split('|').map((part) => part.trim());
+    let mods = 0;
+    for (const part of parts) {
+      const bits = part.startsWith('MOD_') ? MODIFIER_NAMES.get(part.slice(4)) : undefined;
+      if (bits === undefined) {
+        return null;
+      }
+      mods |= bits;
+    }
+    return mods;
+  }
+
+  /**
+   * HID usage of the modifier key for the lowest modifier bit, with the
+   * other modifiers implicit (LCTRL, or LC(LSHFT) for two)
+   */
+  private static modifierUsage(mods: number): number {
+    const bit = mods & -mods;
+    const usage = hid_usage_from_page_and_id(HID_PAGE_KEYBOARD, 0xe0 + Math.log2(bit));
+    return hid_usage_with_implicit_mods(usage, mods & ~bit);
+  }
+
+  /**
+   * Split a keycode into its function and top-level arguments
+   *
+   * @returns The keycode's parts, or null if its parentheses do not match
+   */
+  private static splitKeycode(keycode: string): Keycode | null {
+    const text = keycode.trim();
+    const open = text.indexOf('(');
+    if (open < 0) {
+      return /^[A-Za-z0-9_]+$/.test(text) ? { name: text } : null;
+    }
+    if (!text.endsWith(')')) {
+      return null;
+    }
+
+    const args: string[] = [];
+    let depth = 0;
+    let start = open + 1;
+    for (let i = start; i < text.length - 1; i++) {
+      if (text[i] === '(') {
+        depth++;
+      } else if (text[i] === ')') {
+        if (--depth < 0) {
+          return null;
+        }
+      } else if (text[i] === ',' && depth === 0) {
+        args.push(text.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+    if (depth !== 0) {
+      return null;
+    }
+    args.push(text.slice(start, text.length - 1).trim());
+
+    return { name: text.slice(0, open).trim(), args };
+  }
+
+  /**
+   * Split a flat list into one list per layer
+   */
+  private static splitLayers<T>(values: T[] | null, counts: number[]): T[][] {
+    if (!values) {
+      return [];
+    }
+    let start = 0;
+    return counts.map((count) => values.slice(start, (start += count)));
+  }
+
+  /**
+   * Find where the values of a JSON array are written
+   *
+   * The strings and numbers following `"key":` are read in order, so for an
+   * array of keycodes (nested or not) each lines up with one keycode.
+   *
+   * @param content - Contents of the JSON file
+   * @param key - Name of the array's property (e.g., "layers")
+   * @param count - Number of values to locate
+   * @returns Location of each value, or null if there are fewer
+   */
+  static valueLocations(content: string, key: string, count: number): SourceLocation[] | null {
+    const start = content.search(new RegExp(`"${key}"\\s*:`));
+    if (start < 0) {
+      return null;
+    }
+
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    const locationOf = (offset: number): SourceLocation => {
+      let line = lineStarts.length - 1;
+      while (lineStarts[line] > offset) {
+        line--;
+      }
+      return { line: line + 1, column: offset - lineStarts[line] + 1 };
+    };
+
+    const values = /"(?:[^"\\]|\\.)*"|-?\d+/g;
+    values.lastIndex = start + key.length + 2;
+
+    const locations: SourceLocation[] = [];
+    while (locations.length < count) {
+      const match = values.exec(content);
+      if (!match) {
+        return null;
+      }
+      // Strings are located at their first character, inside the quotes
+      locations.push(locationOf(match.index + (match[0].startsWith('"') ? 1 : 0)));
+    }
+    return locations;
+  }
+}
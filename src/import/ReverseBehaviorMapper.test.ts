@@ -37,6 +37,12 @@ describe('ReverseBehaviorMapper', () => {
       expect(ReverseBehaviorMapper.getBehaviorId('bt')).toBe(6);
     });
 
+    it('should return IDs for none, sk and to behaviors', () => {
+      expect(ReverseBehaviorMapper.getBehaviorId('none')).toBe(7);
+      expect(ReverseBehaviorMapper.getBehaviorId('sk')).toBe(8);
+      expect(ReverseBehaviorMapper.getBehaviorId('to')).toBe(9);
+    });
+
     it('should return null for unknown behavior', () => {
       expect(ReverseBehaviorMapper.getBehaviorId('unknown')).toBeNull();
     });
@@ -166,11 +172,30 @@ describe('ReverseBehaviorMapper', () => {
 
       expect(result).toEqual({
         behaviorId: 6,
-        param1: 2, // BT_SEL with index
-        param2: null,
+        param1: 3, // BT_SEL is 3, with the profile as param2
+        param2: 2,
       });
     });
 
+    it('should convert the other bt commands, by name or number', () => {
+      const convert = (...params: string[]) =>
+        ReverseBehaviorMapper.convertBinding({ behavior: 'bt', params });
+
+      expect(convert('BT_NXT')).toMatchObject({ param1: 1, param2: null });
+      expect(convert('BT_PRV')).toMatchObject({ param1: 2, param2: null });
+      expect(convert('BT_CLR_ALL')).toMatchObject({ param1: 4, param2: null });
+      expect(convert('BT_DISC', '1')).toMatchObject({ param1: 5, param2: 1 });
+      expect(convert('3', '1')).toMatchObject({ param1: 3, param2: 1 });
+    });
+
+    it('should leave unknown bt commands without a command', () => {
+      const convert = (...params: string[]) =>
+        ReverseBehaviorMapper.convertBinding({ behavior: 'bt', params });
+
+      expect(convert('BT_FOO')).toMatchObject({ param1: null });
+      expect(convert('9')).toMatchObject({ param1: null });
+    });
+
     it('should return null for unknown behavior', () => {
       const result = ReverseBehaviorMapper.convertBinding({
         behavior: 'unknown',
@@ -180,6 +205,21 @@ describe('ReverseBehaviorMapper', () => {
       expect(result).toBeNull();
     });
 
+    it('should convert sticky key binding', () => {
+      const result = ReverseBehaviorMapper.convertBinding(
+        { behavior: 'sk', params: ['LSHFT'] },
+        () => 0x070000e1
+      );
+
+      expect(result).toEqual({ behaviorId: 8, param1: 0x070000e1, param2: null });
+    });
+
+    it('should convert to-layer binding', () => {
+      const result = ReverseBehaviorMapper.convertBinding({ behavior: 'to', params: ['2'] });
+
+      expect(result).toEqual({ behaviorId: 9, param1: 2, param2: null });
+    });
+
     it('should handle missing key name lookup', () => {
       const result = ReverseBehaviorMapper.convertBinding(
         {
@@ -211,6 +251,10 @@ describe('ReverseBehaviorMapper', () => {
       expect(ReverseBehaviorMapper.isLayerBehavior('lt')).toBe(true);
     });
 
+    it('should return true for to', () => {
+      expect(ReverseBehaviorMapper.isLayerBehavior('to')).toBe(true);
+    });
+
     it('should return false for kp', () => {
       expect(ReverseBehaviorMapper.isLayerBehavior('kp')).toBe(false);
     });
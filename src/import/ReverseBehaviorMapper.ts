@@ -20,8 +20,39 @@ export class ReverseBehaviorMapper {
     ['mo', 4],
     ['tog', 5],
     ['bt', 6],
+    ['none', 7],
+    ['sk', 8],
+    ['to', 9],
   ]);
 
+  /**
+   * Values of the named parameters of stock behaviors, from ZMK's
+   * dt-bindings headers
+   */
+  private static readonly PARAM_VALUES: Map<string, number> = new Map([
+    // dt-bindings/zmk/outputs.h
+    ['OUT_TOG', 0],
+    ['OUT_USB', 1],
+    ['OUT_BLE', 2],
+  ]);
+
+  /**
+   * Bluetooth commands, from ZMK's dt-bindings/zmk/bt.h
+   */
+  private static readonly BT_COMMANDS: Map<string, number> = new Map([
+    ['BT_CLR', 0],
+    ['BT_NXT', 1],
+    ['BT_PRV', 2],
+    ['BT_SEL', 3],
+    ['BT_CLR_ALL', 4],
+    ['BT_DISC', 5],
+  ]);
+
+  /**
+   * Bluetooth commands that take a profile index as second parameter
+   */
+  static readonly BT_PROFILE_COMMANDS = [3, 5];
+
   /**
    * Get behavior ID from ZMK code
    */
@@ -48,13 +79,15 @@ export class ReverseBehaviorMapper {
     // Handle each behavior type
     switch (binding.behavior) {
       case 'trans':
+      case 'none':
         return {
           behaviorId,
           param1: null,
           param2: null,
         };
 
-      case 'kp': {
+      case 'kp':
+      case 'sk': {
         const keyName = binding.params[0];
         const hidCode = getHidCode ? getHidCode(keyName) : null;
         return {
@@ -98,8 +131,9 @@ export class ReverseBehaviorMapper {
         };
       }
 
-      case 'tog': {
-        // Toggle layer: param1 is layer number
+      case 'tog':
+      case 'to': {
+        // Toggle layer, or go to layer: param1 is layer number
         const layerNum = parseInt(binding.params[0], 10);
         return {
           behaviorId,
@@ -109,30 +143,23 @@ export class ReverseBehaviorMapper {
       }
 
       case 'bt': {
-        // Bluetooth: param1 depends on command
-        const command = binding.params[0];
-
-        if (command === 'BT_CLR') {
-          return {
-            behaviorId,
-            param1: 0,
-            param2: null,
-          };
-        } else if (command === 'BT_SEL') {
-          const index = parseInt(binding.params[1], 10);
-          return {
-            behaviorId,
-            param1: isNaN(index) ? null : index,
-            param2: null,
-          };
-        } else {
-          // Unknown bluetooth command
-          return {
-            behaviorId,
-            param1: null,
-            param2: null,
-          };
-        }
+        // Bluetooth: param1 is the command, by name or number; BT_SEL and
+        // BT_DISC take the profile index as param2
+        const name = binding.params[0];
+        const number = /^\d+$/.test(name ?? '') ? Number(name) : null;
+        const command =
+          this.BT_COMMANDS.get(name) ??
+          (number !== null && [...this.BT_COMMANDS.values()].includes(number) ? number : null);
+        const profile = parseInt(binding.params[1], 10);
+
+        return {
+          behaviorId,
+          param1: command,
+          param2:
+            command !== null && this.BT_PROFILE_COMMANDS.includes(command) && !isNaN(profile)
+              ? profile
+              : null,
+        };
       }
 
       default:
@@ -140,10 +167,41 @@ export class ReverseBehaviorMapper {
     }
   }
 
+  /**
+   * Convert the parameters of a behavior outside the built-in table
+   *
+   * Only the device knows what such a behavior's parameters mean (&kt takes
+   * a key, &out a command, a custom hold-tap whatever it wraps), so numbers
+   * and named values are kept as they are and anything else is read as a key.
+   *
+   * @param binding - Parsed binding from DeviceTreeParser
+   * @param getHidCode - Function to convert key names to HID codes
+   * @returns Parameters; null where a parameter is missing or not understood
+   */
+  static convertParams(
+    binding: ParsedBinding,
+    getHidCode?: (keyName: string) => number | null
+  ): Pick<PartialConvertedBinding, 'param1' | 'param2'> {
+    const convert = (param: string | undefined) => {
+      if (param === undefined) {
+        return null;
+      }
+      if (/^(0x[0-9a-f]+|\d+)$/i.test(param)) {
+        return Number(param);
+      }
+      return this.PARAM_VALUES.get(param) ?? (getHidCode ? getHidCode(param) : null);
+    };
+
+    return {
+      param1: convert(binding.params[0]),
+      param2: convert(binding.params[1]),
+    };
+  }
+
   /**
    * Check if a behavior involves layer switching
    */
   static isLayerBehavior(code: string): boolean {
-    return ['mo', 'tog', 'lt'].includes(code);
+    return ['mo', 'tog', 'lt', 'to'].includes(code);
   }
 }
@@ -128,6 +128,45 @@ describe('ReverseHidMapper', () => {
     });
   });
 
+  describe('getHidCode - consumer keys', () => {
+    it('should convert media key names to consumer page codes', () => {
+      expect(ReverseHidMapper.getHidCode('C_VOL_UP')).toBe(0x0C00E9);
+      expect(ReverseHidMapper.getHidCode('C_PLAY_PAUSE')).toBe(0x0C00CD);
+      expect(ReverseHidMapper.getHidCode('C_BRI_UP')).toBe(0x0C006F);
+      expect(ReverseHidMapper.getHidCode('C_AL_CALC')).toBe(0x0C0192);
+    });
+
+    it('should accept ZMK aliases', () => {
+      expect(ReverseHidMapper.getHidCode('C_PP')).toBe(0x0C00CD);
+      expect(ReverseHidMapper.getHidCode('C_VOLUME_DOWN')).toBe(0x0C00EA);
+    });
+
+    it('should list consumer key names', () => {
+      expect(ReverseHidMapper.getAllKeyNames()).toContain('C_MUTE');
+    });
+  });
+
+  describe('getHidCode - modifier functions', () => {
+    it('should encode modifier functions as implicit modifiers', () => {
+      expect(ReverseHidMapper.getHidCode('LC(C)')).toBe(0x01070006);
+      expect(ReverseHidMapper.getHidCode('RA(N2)')).toBe(0x4007001F);
+    });
+
+    it('should encode nested modifier functions', () => {
+      expect(ReverseHidMapper.getHidCode('LC(LS(T))')).toBe(0x03070017);
+      expect(ReverseHidMapper.getHidCode('RG(LG(A))')).toBe(0x88070004);
+    });
+
+    it('should ignore whitespace inside modifier functions', () => {
+      expect(ReverseHidMapper.getHidCode('LC( LS( T ) )')).toBe(0x03070017);
+    });
+
+    it('should return null for unknown functions or keys', () => {
+      expect(ReverseHidMapper.getHidCode('XX(A)')).toBeNull();
+      expect(ReverseHidMapper.getHidCode('LC(NOPE)')).toBeNull();
+    });
+  });
+
   describe('isModifier', () => {
     it('should return true for LCTRL', () => {
       expect(ReverseHidMapper.isModifier('LCTRL')).toBe(true);
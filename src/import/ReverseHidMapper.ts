@@ -5,12 +5,21 @@
  * This is the reverse of HidMapper in export
  */
 
+import { MODIFIER_FUNCTIONS } from '../export/HidMapper';
+import { ConsumerKeyNames } from '../export/ConsumerKeyNames';
+import { hid_usage_implicit_mods, hid_usage_with_implicit_mods } from '../hid-usages';
+
 export class ReverseHidMapper {
   /**
    * Keyboard page constant
    */
   private static readonly HID_PAGE_KEYBOARD = 0x07;
 
+  /**
+   * Consumer page constant
+   */
+  private static readonly HID_PAGE_CONSUMER = 0x0C;
+
   /**
    * Map of ZMK key names to HID IDs (within keyboard page)
    */
@@ -117,11 +126,30 @@ export class ReverseHidMapper {
   /**
    * Get HID usage code from ZMK key name
    * Returns full HID usage code (page + id)
+   *
+   * Modifier functions may be nested (e.g., "LC(LS(T))"); their modifiers are
+   * encoded as implicit modifiers in the high byte of the usage page.
    */
   static getHidCode(keyName: string): number | null {
+    if (!keyName) {
+      return null;
+    }
+
+    const call = keyName.replace(/\s+/g, '').match(/^(\w+)\((.+)\)$/);
+    if (call) {
+      const bit = MODIFIER_FUNCTIONS.indexOf(call[1]);
+      const inner = bit < 0 ? null : this.getHidCode(call[2]);
+      if (inner === null) {
+        return null;
+      }
+      return hid_usage_with_implicit_mods(inner, hid_usage_implicit_mods(inner) | (1 << bit));
+    }
+
     const id = this.KEY_MAP.get(keyName);
     if (id === undefined) {
-      return null;
+      // Media keys and other consumer page names (C_VOL_UP, C_AL_CALC, ...)
+      const consumerId = ConsumerKeyNames.getUsageId(keyName);
+      return consumerId === null ? null : (this.HID_PAGE_CONSUMER << 16) | consumerId;
     }
 
     // Combine page and id into full HID usage code
@@ -148,6 +176,6 @@ export class ReverseHidMapper {
    * Get all known key names
    */
   static getAllKeyNames(): string[] {
-    return Array.from(this.KEY_MAP.keys());
+    return [...this.KEY_MAP.keys(), ...ConsumerKeyNames.getAllNames()];
   }
 }
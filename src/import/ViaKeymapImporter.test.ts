@@ -0,0 +1,141 @@
+/**
+ * Unit tests for ViaKeymapImporter
+ *
+ * Tests reading VIA layout JSON and Vial .vil files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ViaKeymapImporter } from './ViaKeymapImporter';
+import { ImportService } from './ImportService';
+import { ViaExporter } from '../export/ViaExporter';
+import { ParseErrorCode } from './types';
+
+const key = (id: number, mods = 0) => ((mods << 24) | (0x07 << 16) | id) >>> 0;
+
+const viaLayout = `{
+  "name": "Corne",
+  "vendorProductId": 1234567,
+  "macros": [],
+  "layers": [
+    ["KC_A", "LT(1,KC_SPC)", "0x2104"],
+    ["MO(0)", "KC_TRNS", "0x7C00"]
+  ]
+}`;
+
+const vialFile = `{
+  "version": 1,
+  "uid": 123,
+  "layout": [
+    [
+      ["KC_Q", "KC_W", -1],
+      [-1, 21027, "KC_E"]
+    ]
+  ]
+}`;
+
+describe('ViaKeymapImporter', () => {
+  describe('isViaKeymap', () => {
+    it('should recognize VIA layouts and Vial files', () => {
+      expect(ViaKeymapImporter.isViaKeymap(viaLayout)).toBe(true);
+      expect(ViaKeymapImporter.isViaKeymap(vialFile)).toBe(true);
+    });
+
+    it('should leave QMK Configurator keymaps to the QMK importer', () => {
+      expect(
+        ViaKeymapImporter.isViaKeymap('{ "keyboard": "planck", "layers": [["KC_A", "MO(1)"]] }')
+      ).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read keycode names and numbers', () => {
+      const result = ViaKeymapImporter.parse(viaLayout);
+
+      expect(result.success).toBe(true);
+      expect(result.layers?.[0].bindings).toEqual([
+        { behaviorId: 1, param1: key(0x04), param2: null, position: 0 },
+        { behaviorId: 3, param1: 1, param2: key(0x2c), position: 1 },
+        { behaviorId: 2, param1: key(0xe0), param2: key(0x04), position: 2 },
+      ]);
+    });
+
+    it('should show numeric keycodes by name', () => {
+      const result = ViaKeymapImporter.parse(viaLayout);
+
+      expect(result.layers?.[0].sources).toEqual(['KC_A', 'LT(1,KC_SPC)', 'MT(MOD_LCTL,KC_A)']);
+    });
+
+    it('should report keycodes without an equivalent', () => {
+      const result = ViaKeymapImporter.parse(viaLayout);
+
+      expect(result.diagnostics).toEqual([
+        {
+          code: ParseErrorCode.UNKNOWN_BEHAVIOR,
+          message: 'VIA keycode 0x7C00 has no ZMK equivalent, imported as &trans',
+          layer: 1,
+          position: 2,
+        },
+      ]);
+    });
+
+    it('should join the matrix rows of Vial files, leaving out positions without a key', () => {
+      const result = ViaKeymapImporter.parse(vialFile);
+
+      expect(result.layers?.[0].bindings).toEqual([
+        { behaviorId: 1, param1: key(0x14), param2: null, position: 0 },
+        { behaviorId: 1, param1: key(0x1a), param2: null, position: 1 },
+        { behaviorId: 4, param1: 3, param2: null, position: 2 },
+        { behaviorId: 1, param1: key(0x08), param2: null, position: 3 },
+      ]);
+      expect(result.keycodeLocations?.[0]).toEqual([
+        { line: 6, column: 9 },
+        { line: 6, column: 17 },
+        { line: 7, column: 12 },
+        { line: 7, column: 20 },
+      ]);
+    });
+
+    it('should reject files without layers', () => {
+      const result = ViaKeymapImporter.parse('{ "name": "Corne" }');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ParseErrorCode.MISSING_KEYMAP);
+    });
+  });
+
+  describe('through ImportService', () => {
+    it('should import .vil files', async () => {
+      const result = await ImportService.importFromString(vialFile, { fileName: 'corne.vil' });
+
+      expect(result.success).toBe(true);
+      expect(result.layers?.[0].bindings).toHaveLength(4);
+    });
+
+    it('should read back an exported layout', async () => {
+      const layers = [
+        {
+          id: 0,
+          label: 'Base',
+          bindings: [
+            { behaviorId: 1, param1: key(0x04, 0x02), param2: null, position: 0 },
+            { behaviorId: 2, param1: key(0xe5), param2: key(0x0d), position: 1 },
+            { behaviorId: 5, param1: 0, param2: null, position: 2 },
+          ],
+        },
+      ];
+      const { content } = ViaExporter.generate({
+        layers,
+        deviceName: 'Corne',
+        layoutName: 'default',
+        timestamp: new Date(),
+        version: '1.0.0',
+        totalBindings: 3,
+      });
+
+      const result = await ImportService.importFromString(content, { fileName: 'corne.json' });
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.layers?.[0].bindings).toEqual(layers[0].bindings);
+    });
+  });
+});
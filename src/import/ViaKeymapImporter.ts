@@ -0,0 +1,155 @@
+/**
+ * VIA Keymap Importer
+ *
+ * Reads VIA layout JSON files ("Save current layout") and Vial `.vil` files.
+ * Both hold QMK keycodes, written as names (`KC_A`, `LT(1,KC_SPC)`), as
+ * numbers, or as hexadecimal strings (`"0x5220"`): names are translated like
+ * QMK keymap.json files, numbers through VIA's keycode numbering (see
+ * ViaKeycodes). Keycodes without an equivalent are reported and imported as
+ * `&trans`.
+ *
+ * VIA orders keys by the keyboard's switch matrix; they are imported in
+ * that order, and positions can be fitted to the keyboard in the import
+ * preview.
+ */
+
+import { ViaKeycodes } from '../export/ViaKeycodes';
+import { QmkKeymapImporter } from './QmkKeymapImporter';
+import type { KeycodeTranslation } from './QmkKeymapImporter';
+import { ReverseBehaviorMapper } from './ReverseBehaviorMapper';
+import type { ImportDiagnostic, ImportedLayer, QmkParseResult, SourceLocation } from './types';
+import { ParseErrorCode } from './types';
+
+/**
+ * Vial's placeholder for matrix positions without a key
+ */
+const NO_KEY = -1;
+
+export class ViaKeymapImporter {
+  /**
+   * Check whether a JSON file is a VIA layout or Vial file rather than a QMK
+   * Configurator keymap
+   *
+   * @param content - Contents of the file
+   */
+  static isViaKeymap(content: string): boolean {
+    try {
+      const json = JSON.parse(content);
+      return (
+        Array.isArray(json?.layout) ||
+        'vendorProductId' in (json ?? {}) ||
+        (Array.isArray(json?.layers) &&
+          json.layers.some(
+            (layer: unknown) =>
+              Array.isArray(layer) && layer.some((k) => ViaKeycodes.parseNumber(k) !== null)
+          ))
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read a VIA layout JSON or Vial .vil file
+   *
+   * Vial files give each layer as rows of the switch matrix; rows are joined
+   * and matrix positions without a key are left out.
+   *
+   * @param content - Contents of the file
+   * @returns Layers, with one diagnostic per keycode that could not be
+   *          translated (without its location)
+   */
+  static parse(content: string): QmkParseResult {
+    let json: { layers?: unknown; layout?: unknown } | null;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: ParseErrorCode.INVALID_FORMAT,
+          message: `Not a valid JSON file: ${error instanceof Error ? error.message : error}`,
+        },
+      };
+    }
+
+    // VIA: layers of keycodes; Vial: layers of matrix rows of keycodes
+    const key = Array.isArray(json?.layout) ? 'layout' : 'layers';
+    const layers = json?.[key];
+    const isLayer = (layer: unknown) =>
+      Array.isArray(layer) &&
+      (key === 'layers' || layer.every((row: unknown) => Array.isArray(row)));
+    if (!Array.isArray(layers) || !layers.every(isLayer)) {
+      return {
+        success: false,
+        error: {
+          code: ParseErrorCode.MISSING_KEYMAP,
+          message: 'No layers found; expected a VIA layout JSON or Vial .vil file',
+        },
+      };
+    }
+
+    const values: unknown[][] = layers.map((layer: unknown[]) => layer.flat());
+    const locations = QmkKeymapImporter.valueLocations(
+      content,
+      key,
+      values.reduce((n, layer) => n + layer.length, 0)
+    );
+
+    const diagnostics: ImportDiagnostic[] = [];
+    const keycodeLocations: SourceLocation[][] = [];
+    let offset = 0;
+    const imported: ImportedLayer[] = values.map((layer, index) => {
+      const keys = layer
+        .map((value, i) => ({ value, location: locations?.[offset + i] }))
+        .filter(({ value }) => value !== NO_KEY);
+      offset += layer.length;
+
+      const sources = keys.map(({ value }) => {
+        const keycode = ViaKeycodes.parseNumber(value);
+        return keycode !== null ? ViaKeycodes.toName(keycode) : String(value).trim();
+      });
+      const bindings = keys.map(({ value }, position) => {
+        const { binding, problem } = this.translate(value);
+        if (problem) {
+          diagnostics.push({ ...problem, layer: index, position });
+        }
+        return { ...binding, position };
+      });
+      keycodeLocations.push(keys.flatMap(({ location }) => (location ? [location] : [])));
+
+      return { id: index, label: '', bindings, sources };
+    });
+
+    return {
+      success: true,
+      layers: imported,
+      keycodeLocations: locations ? keycodeLocations : [],
+      diagnostics,
+    };
+  }
+
+  /**
+   * Translate a keycode written as a name or a number
+   */
+  static translate(value: unknown): KeycodeTranslation {
+    const keycode = ViaKeycodes.parseNumber(value);
+    if (keycode === null) {
+      return QmkKeymapImporter.translate(String(value));
+    }
+
+    const binding = ViaKeycodes.fromKeycode(keycode);
+    const behaviorId = binding && ReverseBehaviorMapper.getBehaviorId(binding.code);
+    if (!binding || behaviorId === null) {
+      return {
+        binding: { behaviorId: ReverseBehaviorMapper.getBehaviorId('trans')!, param1: null, param2: null },
+        problem: {
+          code: keycode <= 0xff ? ParseErrorCode.UNKNOWN_KEY : ParseErrorCode.UNKNOWN_BEHAVIOR,
+          message: `VIA keycode ${ViaKeycodes.toName(keycode)} has no ZMK equivalent, imported as &trans`,
+        },
+      };
+    }
+
+    return { binding: { behaviorId, param1: binding.param1, param2: binding.param2 } };
+  }
+}
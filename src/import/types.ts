@@ -2,6 +2,11 @@
  * Type definitions for ZMK Studio Import Feature
  */
 
+import type { Keymap } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import type { BehaviorRegistry } from '../export/BehaviorRegistry';
+import type { Behavior, StudioBackup } from '../export/types';
+import type { BulkWriteOptions } from '../rpc/bulkWrite';
+
 /**
  * Result of parsing a .keymap file
  */
@@ -11,6 +16,50 @@ export interface ParseResult {
   metadata?: KeymapMetadata;
   warnings?: string[];
   error?: ParseError;
+  /** Macros expanded by the preprocessor, in order */
+  expansions?: MacroExpansion[];
+  /** Combos from the `zmk,combos` node */
+  combos?: ParsedCombo[];
+  /** Macro behaviors (`zmk,behavior-macro*`) */
+  macros?: ParsedMacro[];
+  /** Other behaviors defined or configured in the file */
+  behaviors?: ParsedBehavior[];
+  /**
+   * Where each layer's bindings start in the file, one list per layer; the
+   * layout of the bindings in the file
+   */
+  bindingLocations?: SourceLocation[][];
+}
+
+/**
+ * Result of reading a file of QMK keycodes: a QMK Configurator keymap.json,
+ * a VIA layout JSON or a Vial .vil file
+ */
+export interface QmkParseResult {
+  success: boolean;
+  layers?: ImportedLayer[];
+  /** Where each layer's keycodes are written in the file, one list per layer */
+  keycodeLocations?: SourceLocation[][];
+  /** One entry per keycode that could not be translated, without its location */
+  diagnostics?: ImportDiagnostic[];
+  error?: ParseError;
+}
+
+/**
+ * Result of reading a ZMK Studio backup
+ */
+export interface BackupParseResult {
+  success: boolean;
+  /** Backup, migrated to the current format version */
+  backup?: StudioBackup;
+  /**
+   * Layers in import form: the backup's behavior IDs, with layer parameters
+   * as layer indexes
+   */
+  layers?: ImportedLayer[];
+  /** One entry per layer parameter naming a layer not in the backup */
+  diagnostics?: ImportDiagnostic[];
+  error?: ParseError;
 }
 
 /**
@@ -23,6 +72,72 @@ export interface ParsedLayer {
   bindings: string[];
 }
 
+/**
+ * A combo from the `combos { }` section
+ */
+export interface ParsedCombo {
+  /** Node name */
+  name: string;
+  keyPositions: number[];
+  /** Binding triggered by the combo (e.g., "&kp ESC") */
+  binding: string;
+  timeoutMs?: number;
+  /** Layers the combo is active on; all layers if absent */
+  layers?: number[];
+  requirePriorIdleMs?: number;
+  slowRelease: boolean;
+}
+
+/**
+ * A macro behavior (`zmk,behavior-macro`, `-one-param`, `-two-param`)
+ */
+export interface ParsedMacro {
+  /** Node name */
+  name: string;
+  /** Label bindings use to reference the macro, without "&" */
+  label: string;
+  displayName?: string;
+  compatible: string;
+  bindingCells: number;
+  /** Macro steps (e.g., "&macro_press", "&kp LSHFT", "&macro_wait_time 50") */
+  bindings: string[];
+  waitMs?: number;
+  tapMs?: number;
+}
+
+/**
+ * Value of a behavior property not covered by a typed field
+ *
+ * Boolean properties are `true`, strings are kept as text, and cell lists
+ * are numbers when every cell is a number and source text otherwise.
+ */
+export type ParsedPropertyValue = boolean | string | string[] | number[];
+
+/**
+ * A behavior defined in the file (hold-tap, tap-dance, mod-morph, ...), or
+ * settings for one defined elsewhere (`&mt { tapping-term-ms = <200>; };`)
+ */
+export interface ParsedBehavior {
+  /** Node name (the label for overrides) */
+  name: string;
+  /** Label bindings use to reference the behavior, without "&" */
+  label: string;
+  displayName?: string;
+  /** Compatible string; empty for overrides */
+  compatible: string;
+  bindingCells?: number;
+  /** Behaviors the node wraps (e.g., ["&kp", "&kp"] for a hold-tap) */
+  bindings: string[];
+  tappingTermMs?: number;
+  quickTapMs?: number;
+  requirePriorIdleMs?: number;
+  flavor?: string;
+  /** All other properties, by DeviceTree name */
+  properties: Record<string, ParsedPropertyValue>;
+  /** Changes a behavior defined outside the file */
+  override: boolean;
+}
+
 /**
  * Metadata extracted from .keymap comments
  */
@@ -44,6 +159,9 @@ export interface ParseError {
   code: ParseErrorCode;
   message: string;
   line?: number;
+  column?: number;
+  /** Included file the error is in; absent for the main file */
+  file?: string;
   context?: any;
 }
 
@@ -89,18 +207,132 @@ export interface ConversionResult {
   error?: ParseError;
 }
 
+/**
+ * A layer read from an imported file
+ */
+export interface ImportedLayer {
+  /** Index of the layer in the file; the keyboard's layer ID is found when applying */
+  id: number;
+  label: string;
+  bindings: ConvertedBinding[];
+  /** Bindings as written in the file, by position in the file */
+  sources?: string[];
+}
+
 /**
  * Result of importing a keymap file
  */
 export interface ImportResult {
   success: boolean;
-  layers?: Array<{
-    id: number;
-    label: string;
-    bindings: ConvertedBinding[];
-  }>;
+  layers?: ImportedLayer[];
   warnings?: string[];
   error?: ImportError;
+  /** Combos, macros and behaviors found in the file, which are not applied */
+  combos?: ParsedCombo[];
+  macros?: ParsedMacro[];
+  behaviors?: ParsedBehavior[];
+  /**
+   * Where each key position's binding is written in the file, taken from the
+   * layer with the most bindings; gives the file's key geometry
+   */
+  keyLocations?: SourceLocation[];
+  /** One entry per behavior, key name or parameter that could not be resolved */
+  diagnostics?: ImportDiagnostic[];
+  /**
+   * Device state from a ZMK Studio backup; the layers' behavior IDs are the
+   * backup's (see ImportService.toDeviceBehaviorIds)
+   */
+  backup?: StudioBackup;
+  /**
+   * Behaviors the bindings use beyond the built-in table, numbered after it:
+   * stock behaviors such as &caps_word, and the file's own macros and
+   * behaviors (see ImportService.sourceRegistry)
+   */
+  fileBehaviors?: Behavior[];
+}
+
+/**
+ * A token of an imported binding that could not be resolved, and where it is
+ */
+export interface ImportDiagnostic extends ParseError {
+  /** Index of the layer in the file */
+  layer: number;
+  /** Key position in the file */
+  position: number;
+}
+
+/**
+ * Where each key position of an imported file goes on the keyboard
+ *
+ * Indexed by position in the file; null drops the binding at that position.
+ */
+export type PositionMapping = Array<number | null>;
+
+/**
+ * A binding with no key on the keyboard after remapping positions
+ */
+export interface DroppedBinding {
+  layer: string;
+  /** Position in the file */
+  position: number;
+  /** Binding as written in the file */
+  binding: string;
+}
+
+/**
+ * How an imported layer compares with the keyboard's current keymap
+ */
+export interface LayerPreview {
+  /** Index of the layer in the file */
+  index: number;
+  label: string;
+  /** Name of the keyboard layer at the same index; absent if there is none */
+  currentLabel?: string;
+  /** Key positions whose binding differs from the keyboard's */
+  changedPositions: number[];
+}
+
+/**
+ * Whether the connected firmware can use something found in an imported
+ * file that ZMK Studio cannot apply itself
+ */
+export interface ExtraSupport {
+  kind: 'combo' | 'macro' | 'behavior';
+  /** Node name for combos, label for macros and behaviors */
+  name: string;
+  /** The firmware already has a macro or behavior with this label or name */
+  onDevice: boolean;
+  message: string;
+}
+
+/**
+ * How imported layers are fitted to the keyboard's layers
+ */
+export interface ApplyImportOptions {
+  /** Number of layers in the file; keyboard layers past it are removed (none if omitted) */
+  layerCount?: number;
+  /** Behaviors reported by the device, to find layer parameters */
+  registry?: BehaviorRegistry;
+  /** Cancels the import; changes made so far are rolled back */
+  signal?: AbortSignal;
+  /** Publishes binding write progress, e.g. the function from usePub() */
+  pub?: BulkWriteOptions['pub'];
+  /** Physical layout to switch to first, e.g. the one saved in a backup */
+  physicalLayoutIndex?: number;
+  /** Called with the active physical layout whenever the import switches it */
+  onPhysicalLayoutChange?: (layoutIndex: number) => void;
+}
+
+/**
+ * Result of writing imported layers to the keyboard
+ */
+export interface ApplyImportResult {
+  success: boolean;
+  /** The keyboard's keymap afterwards (after rolling back, on failure) */
+  keymap?: Keymap;
+  /** Restores the keymap read before applying; resolves to the keymap afterwards */
+  undo?: () => Promise<Keymap | undefined>;
+  error?: ImportError;
 }
 
 /**
@@ -131,3 +363,125 @@ export interface ValidationResult {
   warnings: string[];
   errors: string[];
 }
+
+/**
+ * Position in the source file (1-based)
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+  /** Included file name; absent for the main file */
+  file?: string;
+}
+
+/**
+ * Target of a phandle reference: `&label` or `&{/path/to/node}`
+ */
+export interface DtReference {
+  label?: string;
+  path?: string;
+}
+
+/**
+ * A cell inside `< >`
+ *
+ * Cells that are not plain numbers or references are kept as source text:
+ * macro names such as `LCTRL`, modifier functions such as `LC(LS(T))` and
+ * arithmetic such as `(1 << 2)`.
+ */
+export type DtCell =
+  | { kind: 'number'; value: number; text: string; location: SourceLocation }
+  | { kind: 'ref'; ref: DtReference; location: SourceLocation }
+  | { kind: 'identifier'; name: string; location: SourceLocation }
+  | { kind: 'expression'; text: string; location: SourceLocation };
+
+/**
+ * One comma-separated part of a property value
+ */
+export type DtValue =
+  | { kind: 'string'; value: string; location: SourceLocation }
+  | { kind: 'cells'; cells: DtCell[]; location: SourceLocation }
+  | { kind: 'bytes'; bytes: string[]; location: SourceLocation }
+  | { kind: 'ref'; ref: DtReference; location: SourceLocation };
+
+/**
+ * A property; `values` is empty for boolean properties (`hold-trigger-on-release;`)
+ */
+export interface DtProperty {
+  name: string;
+  labels: string[];
+  values: DtValue[];
+  location: SourceLocation;
+}
+
+/**
+ * A node with its properties and child nodes, in source order
+ */
+export interface DtNode {
+  /** Full node name, including any unit address (`node@1`) */
+  name: string;
+  labels: string[];
+  properties: DtProperty[];
+  children: DtNode[];
+  /** `/delete-node/` and `/delete-property/` statements inside the node body */
+  deletions: Array<{ kind: 'node' | 'property'; name: string; location: SourceLocation }>;
+  location: SourceLocation;
+}
+
+/**
+ * A top-level statement of a devicetree source file
+ *
+ * - root: `/ { ... };`
+ * - override: `&label { ... };`, amending a node defined elsewhere
+ * - delete-node: `/delete-node/ &label;`
+ */
+export type DtStatement =
+  | { kind: 'root'; node: DtNode }
+  | { kind: 'override'; target: DtReference; node: DtNode }
+  | { kind: 'delete-node'; target: DtReference; location: SourceLocation };
+
+/**
+ * Syntax tree of a devicetree source file, and the tree it describes
+ */
+export interface DtDocument {
+  statements: DtStatement[];
+  /** Root node after merging root nodes, applying overrides and deletions */
+  root: DtNode;
+  /** Overrides whose target is not defined in the file (e.g. `&mt` from behaviors.dtsi) */
+  unresolved: Array<{ target: DtReference; node: DtNode }>;
+}
+
+/**
+ * Options for preprocessing a .keymap file
+ */
+export interface PreprocessOptions {
+  /** Name of the main file, used in locations (defaults to none) */
+  fileName?: string;
+  /** Files available to `#include`, keyed by name or path */
+  files?: Record<string, string>;
+  /** Macros defined before the file is read (`-D NAME=value`) */
+  defines?: Record<string, string>;
+}
+
+/**
+ * A macro expanded by the preprocessor
+ */
+export interface MacroExpansion {
+  name: string;
+  /** Where the macro name appeared in the source */
+  location: SourceLocation;
+  /** Text the macro expanded to */
+  replacement: string;
+}
+
+/**
+ * Result of preprocessing a .keymap file
+ */
+export interface PreprocessResult {
+  /** Source with directives applied, comments removed and macros expanded */
+  output: string;
+  /** Source line each output line came from (index 0 is output line 1) */
+  sourceMap: SourceLocation[];
+  expansions: MacroExpansion[];
+  warnings: string[];
+}
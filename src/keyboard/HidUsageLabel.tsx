@@ -1,31 +1,75 @@
 import {
   hid_usage_get_labels,
+  hid_usage_implicit_mods,
   hid_usage_page_and_id_from_usage,
 } from "../hid-usages";
 
 export interface HidUsageLabelProps {
   hid_usage: number;
+  // Always show labels of this size, instead of fitting them to the key
+  size?: "short" | "med" | "long";
 }
 
 function remove_prefix(s?: string) {
   return s?.replace(/^Keyboard /, "");
 }
 
-export const HidUsageLabel = ({ hid_usage }: HidUsageLabelProps) => {
+// Implicit modifier bits follow the modifier keys 0xE0-0xE7 of the keyboard page
+function mod_labels(mods: number) {
+  const labels = [];
+  for (let bit = 0; bit < 8; bit++) {
+    if (mods & (1 << bit)) {
+      labels.push(hid_usage_get_labels(0x07, 0xe0 + bit));
+    }
+  }
+  return labels;
+}
+
+export const HidUsageLabel = ({ hid_usage, size }: HidUsageLabelProps) => {
   let [page, id] = hid_usage_page_and_id_from_usage(hid_usage);
 
-  // TODO: Do something with implicit mods!
   page &= 0xff;
 
   let labels = hid_usage_get_labels(page, id);
+  const mods = mod_labels(hid_usage_implicit_mods(hid_usage));
+
+  const with_mods = (
+    label: string | undefined,
+    size: "short" | "med" | "long",
+  ) =>
+    [
+      ...mods.map((m) =>
+        size === "short"
+          ? m.short
+          : size === "med"
+            ? m.med || m.short
+            : m.long || m.med || m.short,
+      ),
+      label,
+    ].join("+");
+
+  if (size) {
+    const label =
+      size === "short"
+        ? labels.short
+        : size === "med"
+          ? labels.med || labels.short
+          : labels.long || labels.med || labels.short;
+
+    return <span>{with_mods(remove_prefix(label), size)}</span>;
+  }
 
   return (
     <span
       className="@[10em]:before:content-[attr(data-long-content)] @[6em]:before:content-[attr(data-med-content)] before:content-[attr(aria-label)]"
-      aria-label={remove_prefix(labels.short)}
-      data-med-content={remove_prefix(labels.med || labels.short)}
-      data-long-content={remove_prefix(
-        labels.long || labels.med || labels.short
+      aria-label={with_mods(remove_prefix(labels.short), "short")}
+      data-med-content={with_mods(
+        remove_prefix(labels.med || labels.short),
+        "med",
+      )}
+      data-long-content={with_mods(
+        remove_prefix(labels.long || labels.med || labels.short),
+        "long",
       )}
     />
   );
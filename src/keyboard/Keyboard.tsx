@@ -31,6 +31,10 @@ import { LockStateContext } from "../rpc/LockStateContext";
 import { LockState } from "@zmkfirmware/zmk-studio-ts-client/core";
 import { deserializeLayoutZoom, LayoutZoom } from "./PhysicalLayout";
 import { useLocalStorageState } from "../misc/useLocalStorageState";
+import { useSub } from "../usePubSub";
+import { KeymapChange, KeymapDiff } from "../export/KeymapDiff";
+import { BehaviorRegistry } from "../export/BehaviorRegistry";
+import { ExportService } from "../export/ExportService";
 
 type BehaviorMap = Record<number, GetBehaviorDetailsResponse>;
 
@@ -160,9 +164,18 @@ function useLayouts(): [
 
 interface KeyboardProps {
   onKeymapChange?: (keymap: Keymap | undefined) => void;
+  onBehaviorsChange?: (behaviors: BehaviorMap) => void;
+  onPhysicalLayoutChange?: (layout: PhysicalLayout | undefined) => void;
+  // Changes since the keymap was last saved
+  onUnsavedChangesChange?: (changes: KeymapChange[]) => void;
 }
 
-export default function Keyboard({ onKeymapChange }: KeyboardProps = {}) {
+export default function Keyboard({
+  onKeymapChange,
+  onBehaviorsChange,
+  onPhysicalLayoutChange,
+  onUnsavedChangesChange,
+}: KeyboardProps = {}) {
   const [
     layouts,
     _setLayouts,
@@ -188,6 +201,11 @@ export default function Keyboard({ onKeymapChange }: KeyboardProps = {}) {
     onKeymapChange?.(keymap);
   }, [keymap, onKeymapChange]);
 
+  // Notify parent when the active physical layout changes
+  useEffect(() => {
+    onPhysicalLayoutChange?.(layouts?.[selectedPhysicalLayoutIndex]);
+  }, [layouts, selectedPhysicalLayoutIndex, onPhysicalLayoutChange]);
+
   const [keymapScale, setKeymapScale] = useLocalStorageState<LayoutZoom>("keymapScale", "auto", {
     deserialize: deserializeLayoutZoom,
   });
@@ -198,14 +216,81 @@ export default function Keyboard({ onKeymapChange }: KeyboardProps = {}) {
   >(undefined);
   const behaviors = useBehaviors();
 
+  // Keymap rewritten outside this component (e.g., by an import or its undo)
+  useSub("keymap_replaced", (replaced: Keymap) => {
+    setKeymap(replaced);
+    setSelectedLayerIndex((index) =>
+      Math.min(index, Math.max(replaced.layers.length - 1, 0))
+    );
+  });
+
+  // Physical layout switched outside this component (e.g., by restoring a backup)
+  useSub("physical_layout_replaced", (index: number) => {
+    setSelectedPhysicalLayoutIndex(index);
+  });
+
+  // Notify parent when the device behavior list changes
+  useEffect(() => {
+    onBehaviorsChange?.(behaviors);
+  }, [behaviors, onBehaviorsChange]);
+
   const conn = useContext(ConnectionContext);
   const undoRedo = useContext(UndoRedoContext);
 
+  // Keymap as last saved: the one loaded on connect (or after discarding),
+  // replaced once changes are saved
+  const [savedKeymap, setSavedKeymap] = useState<Keymap | undefined>(
+    undefined
+  );
+
   useEffect(() => {
     setSelectedLayerIndex(0);
     setSelectedKeyPosition(undefined);
+    setSavedKeymap(undefined);
   }, [conn]);
 
+  useEffect(() => {
+    if (keymap && !savedKeymap) {
+      setSavedKeymap(keymap);
+    }
+  }, [keymap, savedKeymap]);
+
+  useSub("keymap_saved", () => setSavedKeymap(keymap));
+
+  const unsavedChanges = useMemo(() => {
+    if (!keymap || !savedKeymap || Object.keys(behaviors).length === 0) {
+      return [];
+    }
+
+    const registry = BehaviorRegistry.fromDeviceBehaviors(behaviors);
+    return KeymapDiff.compare(
+      { layers: ExportService.toLayers(savedKeymap), registry },
+      { layers: ExportService.toLayers(keymap), registry }
+    );
+  }, [keymap, savedKeymap, behaviors]);
+
+  useEffect(() => {
+    onUnsavedChangesChange?.(unsavedChanges);
+  }, [unsavedChanges, onUnsavedChangesChange]);
+
+  const modifiedLayerIndexes = useMemo(
+    () =>
+      unsavedChanges
+        .filter((c) => c.type !== "layer-removed")
+        .map((c) => c.layerIndex),
+    [unsavedChanges]
+  );
+
+  const modifiedKeyPositions = useMemo(
+    () =>
+      unsavedChanges.flatMap((c) =>
+        c.type === "binding-changed" && c.layerIndex === selectedLayerIndex
+          ? [c.position]
+          : []
+      ),
+    [unsavedChanges, selectedLayerIndex]
+  );
+
   useEffect(() => {
     async function performSetRequest() {
       if (!conn.conn || !layouts) {
@@ -539,6 +624,7 @@ export default function Keyboard({ onKeymapChange }: KeyboardProps = {}) {
               onAddClicked={addLayer}
               onRemoveClicked={removeLayer}
               onLayerNameChanged={changeLayerName}
+              modifiedLayerIndexes={modifiedLayerIndexes}
             />
           </div>
         )}
@@ -552,6 +638,7 @@ export default function Keyboard({ onKeymapChange }: KeyboardProps = {}) {
             scale={keymapScale}
             selectedLayerIndex={selectedLayerIndex}
             selectedKeyPosition={selectedKeyPosition}
+            highlightedKeyPositions={modifiedKeyPositions}
             onKeyPositionClicked={setSelectedKeyPosition}
           />
           <select
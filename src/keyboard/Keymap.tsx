@@ -1,4 +1,5 @@
 import {
+  BehaviorBinding,
   PhysicalLayout,
   Keymap as KeymapMsg,
 } from "@zmkfirmware/zmk-studio-ts-client/keymap";
@@ -19,9 +20,65 @@ export interface KeymapProps {
   scale: LayoutZoom;
   selectedLayerIndex: number;
   selectedKeyPosition: number | undefined;
+  highlightedKeyPositions?: number[];
   onKeyPositionClicked: (keyPosition: number) => void;
+  oneU?: number;
+  // Always show labels of this size, instead of fitting them to the key
+  labelSize?: "short" | "med" | "long";
+  // Show layer names, and the tap and hold legends of hold-taps
+  detailedLegends?: boolean;
 }
 
+type BindingParam = "param1" | "param2";
+
+// Whether the device describes a parameter of the behavior as a key or a layer
+const describesParam = (
+  behavior: GetBehaviorDetailsResponse | undefined,
+  param: BindingParam,
+  kind: "hidUsage" | "layerId",
+) => !!behavior?.metadata.some((set) => set[param].some((d) => d[kind]));
+
+interface BindingLegendProps {
+  binding: BehaviorBinding;
+  behavior?: GetBehaviorDetailsResponse;
+  keymap: KeymapMsg;
+  labelSize?: "short" | "med" | "long";
+}
+
+// Behaviors taking a key as second parameter are hold-taps: the key is the
+// tap legend and the first parameter (modifier or layer) the hold legend
+const BindingLegend = ({
+  binding,
+  behavior,
+  keymap,
+  labelSize,
+}: BindingLegendProps) => {
+  const label = (param: BindingParam) => {
+    if (describesParam(behavior, param, "layerId")) {
+      const index = keymap.layers.findIndex((l) => l.id === binding[param]);
+      const name =
+        keymap.layers[index]?.name ||
+        `Layer ${index < 0 ? binding[param] : index}`;
+      return <span>{name}</span>;
+    }
+
+    return <HidUsageLabel hid_usage={binding[param]} size={labelSize} />;
+  };
+
+  if (!describesParam(behavior, "param2", "hidUsage")) {
+    return label("param1");
+  }
+
+  return (
+    <>
+      {label("param2")}
+      <div className="absolute bottom-1 left-1/2 -translate-x-1/2 text-xs font-light opacity-80 text-nowrap">
+        {label("param1")}
+      </div>
+    </>
+  );
+};
+
 export const Keymap = ({
   layout,
   keymap,
@@ -29,7 +86,11 @@ export const Keymap = ({
   scale,
   selectedLayerIndex,
   selectedKeyPosition,
+  highlightedKeyPositions = [],
   onKeyPositionClicked,
+  oneU = 48,
+  labelSize,
+  detailedLegends = false,
 }: KeymapProps) => {
   if (!keymap.layers[selectedLayerIndex]) {
     return <></>;
@@ -53,6 +114,7 @@ export const Keymap = ({
       header:
         behaviors[keymap.layers[selectedLayerIndex].bindings[i].behaviorId]
           ?.displayName || "Unknown",
+      highlighted: highlightedKeyPositions.includes(i),
       x: k.x / 100.0,
       y: k.y / 100.0,
       width: k.width / 100,
@@ -60,9 +122,19 @@ export const Keymap = ({
       r: (k.r || 0) / 100.0,
       rx: (k.rx || 0) / 100.0,
       ry: (k.ry || 0) / 100.0,
-      children: (
+      children: detailedLegends ? (
+        <BindingLegend
+          binding={keymap.layers[selectedLayerIndex].bindings[i]}
+          behavior={
+            behaviors[keymap.layers[selectedLayerIndex].bindings[i].behaviorId]
+          }
+          keymap={keymap}
+          labelSize={labelSize}
+        />
+      ) : (
         <HidUsageLabel
           hid_usage={keymap.layers[selectedLayerIndex].bindings[i].param1}
+          size={labelSize}
         />
       ),
     };
@@ -71,7 +143,7 @@ export const Keymap = ({
   return (
     <PhysicalLayoutComp
       positions={positions}
-      oneU={48}
+      oneU={oneU}
       hoverZoom={true}
       zoom={scale}
       selectedPosition={selectedKeyPosition}
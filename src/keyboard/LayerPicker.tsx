@@ -24,6 +24,8 @@ interface LayerPickerProps {
   selectedLayerIndex: number;
   canAdd?: boolean;
   canRemove?: boolean;
+  // Layers with unsaved changes, by index
+  modifiedLayerIndexes?: number[];
 
   onLayerClicked?: LayerClickCallback;
   onLayerMoved?: LayerMovedCallback;
@@ -107,6 +109,7 @@ export const LayerPicker = ({
   selectedLayerIndex,
   canAdd,
   canRemove,
+  modifiedLayerIndexes = [],
   onLayerClicked,
   onLayerMoved,
   onAddClicked,
@@ -124,8 +127,9 @@ export const LayerPicker = ({
       id: l.id,
       index: i,
       selected: i === selectedLayerIndex,
+      modified: modifiedLayerIndexes.includes(i),
     }));
-  }, [layers, selectedLayerIndex]);
+  }, [layers, selectedLayerIndex, modifiedLayerIndexes]);
 
   const selectionChanged = useCallback(
     (s: Selection) => {
@@ -218,7 +222,16 @@ export const LayerPicker = ({
             textValue={layer_item.name}
             className="p-1 b-1 my-1 group grid grid-cols-[1fr_auto] items-center aria-selected:bg-primary aria-selected:text-primary-content border rounded border-transparent border-solid hover:bg-base-300"
           >
-            <span>{layer_item.name}</span>
+            <span>
+              {layer_item.name}
+              {layer_item.modified && (
+                <span
+                  className="inline-block ml-1.5 size-2 rounded-full bg-accent align-middle"
+                  title="Unsaved changes"
+                  aria-label="Unsaved changes"
+                />
+              )}
+            </span>
             <Pencil
               className="h-4 w-4 mx-1 invisible group-hover:visible"
               onClick={() =>
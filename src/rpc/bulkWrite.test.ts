@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the bulk binding writer
+ *
+ * The keyboard is simulated behind a connection whose streams answer each
+ * request on a later tick, so requests can be in flight together.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RequestResponse, RpcConnection } from '@zmkfirmware/zmk-studio-ts-client';
+import type { Keymap, Request } from '@zmkfirmware/zmk-studio-ts-client/keymap';
+import { BULK_WRITE_PROGRESS, writeBindings } from './bulkWrite';
+import type { BindingWrite, BulkWriteProgress } from './bulkWrite';
+
+// The client's generated modules import 'protobufjs/minimal', which does not
+// resolve under vitest; only the response codes are needed here
+vi.mock('@zmkfirmware/zmk-studio-ts-client', () => ({ call_rpc: vi.fn() }));
+vi.mock('@zmkfirmware/zmk-studio-ts-client/keymap', () => ({
+  SetLayerBindingResponse: { SET_LAYER_BINDING_RESP_OK: 0 },
+}));
+
+interface FakeDevice {
+  conn: RpcConnection;
+  received: Request[];
+  maxInFlight: number;
+}
+
+function fakeDevice(reject: (index: number) => boolean = () => false): FakeDevice {
+  let respond!: ReadableStreamDefaultController<RequestResponse>;
+  let inFlight = 0;
+
+  const device: FakeDevice = {
+    conn: null as unknown as RpcConnection,
+    received: [],
+    maxInFlight: 0,
+  };
+
+  const request_response_readable = new ReadableStream<RequestResponse>({
+    start: (controller) => {
+      respond = controller;
+    },
+  });
+  const request_writable = new WritableStream({
+    write: (request: { requestId: number; keymap: Request }) => {
+      const index = device.received.push(request.keymap) - 1;
+      device.maxInFlight = Math.max(device.maxInFlight, ++inFlight);
+      setTimeout(() => {
+        inFlight--;
+        respond.enqueue({
+          requestId: request.requestId,
+          keymap: { setLayerBinding: reject(index) ? 1 : 0 },
+        } as RequestResponse);
+      });
+    },
+  });
+
+  device.conn = {
+    label: 'fake',
+    request_writable,
+    request_response_readable,
+    notification_readable: new ReadableStream(),
+    current_request: 0,
+  } as unknown as RpcConnection;
+
+  return device;
+}
+
+const kp = (usage: number) => ({ behaviorId: 1, param1: 0x70000 + usage, param2: 0 });
+
+const writes = (count: number): BindingWrite[] =>
+  Array.from({ length: count }, (_, keyPosition) => ({
+    layerId: 3,
+    keyPosition,
+    binding: kp(4 + keyPosition),
+  }));
+
+describe('writeBindings', () => {
+  let device: FakeDevice;
+
+  beforeEach(() => {
+    device = fakeDevice();
+  });
+
+  it('should write every binding', async () => {
+    const result = await writeBindings(device.conn, writes(10));
+
+    expect(result.written).toHaveLength(10);
+    expect(result.failed).toEqual([]);
+    expect(device.received.map((r) => r.setLayerBinding?.keyPosition)).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+    ]);
+  });
+
+  it('should keep at most the window of writes in flight', async () => {
+    await writeBindings(device.conn, writes(10), { window: 3 });
+
+    expect(device.maxInFlight).toBe(3);
+  });
+
+  it('should wait for each response with a window of one', async () => {
+    await writeBindings(device.conn, writes(5), { window: 1 });
+
+    expect(device.maxInFlight).toBe(1);
+  });
+
+  it('should skip bindings the keymap already has', async () => {
+    const keymap: Keymap = {
+      layers: [{ id: 3, name: 'Base', bindings: [kp(4), kp(9), kp(6)] }],
+      availableLayers: 0,
+      maxLayerNameLength: 0,
+    };
+
+    const result = await writeBindings(device.conn, writes(3), { keymap });
+
+    expect(result.skipped.map((w) => w.keyPosition)).toEqual([0, 2]);
+    expect(result.written.map((w) => w.keyPosition)).toEqual([1]);
+    expect(device.received).toHaveLength(1);
+  });
+
+  it('should report the bindings the keyboard rejects', async () => {
+    device = fakeDevice((index) => index === 2);
+
+    const result = await writeBindings(device.conn, writes(4));
+
+    expect(result.failed.map((w) => w.keyPosition)).toEqual([2]);
+    expect(result.written).toHaveLength(3);
+  });
+
+  it('should publish progress', async () => {
+    const pub = vi.fn();
+
+    await writeBindings(device.conn, writes(3), { pub });
+
+    expect(pub.mock.calls.map(([name]) => name)).toEqual(Array(4).fill(BULK_WRITE_PROGRESS));
+    expect(pub.mock.calls.map(([, progress]) => progress.done)).toEqual([0, 1, 2, 3]);
+    expect(pub).toHaveBeenLastCalledWith(BULK_WRITE_PROGRESS, {
+      total: 3,
+      done: 3,
+      skipped: 0,
+      failed: 0,
+    });
+  });
+
+  it('should stop sending when aborted, finishing writes in flight', async () => {
+    const controller = new AbortController();
+    const pub = vi.fn((_name: PropertyKey, progress: BulkWriteProgress) => {
+      if (progress.done === 2) {
+        controller.abort();
+      }
+    });
+
+    const result = await writeBindings(device.conn, writes(10), {
+      window: 2,
+      signal: controller.signal,
+      pub,
+    });
+
+    expect(result.written.length + result.cancelled.length).toBe(10);
+    expect(result.written.length).toBeGreaterThanOrEqual(2);
+    expect(result.cancelled.length).toBeGreaterThan(0);
+    expect(device.received).toHaveLength(result.written.length);
+  });
+
+  it('should send nothing when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await writeBindings(device.conn, writes(3), { signal: controller.signal });
+
+    expect(result.cancelled).toHaveLength(3);
+    expect(device.received).toEqual([]);
+  });
+});
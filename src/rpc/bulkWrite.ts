@@ -0,0 +1,124 @@
+import { RpcConnection } from "@zmkfirmware/zmk-studio-ts-client";
+import {
+  BehaviorBinding,
+  Keymap,
+  SetLayerBindingResponse,
+} from "@zmkfirmware/zmk-studio-ts-client/keymap";
+
+import { pipeline_rpc } from "./logging";
+
+/** Pub/sub topic that bulk writes report their progress on */
+export const BULK_WRITE_PROGRESS = "bulk_write.progress";
+
+export interface BindingWrite {
+  layerId: number;
+  keyPosition: number;
+  binding: BehaviorBinding;
+}
+
+export interface BulkWriteProgress {
+  /** Bindings asked for, including those skipped as unchanged */
+  total: number;
+  /** Bindings written, skipped or rejected so far */
+  done: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface BulkWriteOptions {
+  /** Live keymap; bindings it already has are not sent */
+  keymap?: Keymap;
+  /** Maximum number of writes in flight at once (default 4) */
+  window?: number;
+  /** Stops sending further writes; writes already sent still complete */
+  signal?: AbortSignal;
+  /** Publishes progress on BULK_WRITE_PROGRESS, e.g. the function from usePub() */
+  pub?: (name: PropertyKey, data: BulkWriteProgress) => void;
+}
+
+export interface BulkWriteResult {
+  /** Writes the keyboard accepted */
+  written: BindingWrite[];
+  /** Writes the keyboard rejected, or that got no response */
+  failed: BindingWrite[];
+  /** Writes not sent because the keymap already had the binding */
+  skipped: BindingWrite[];
+  /** Writes not sent because the signal was aborted */
+  cancelled: BindingWrite[];
+}
+
+const DEFAULT_WINDOW = 4;
+
+export function sameBinding(
+  a: BehaviorBinding | undefined,
+  b: BehaviorBinding
+): boolean {
+  return (
+    !!a &&
+    a.behaviorId === b.behaviorId &&
+    a.param1 === b.param1 &&
+    a.param2 === b.param2
+  );
+}
+
+/**
+ * Write many layer bindings, pipelining the requests instead of waiting for
+ * each response in turn. Over BLE this takes a fraction of the time of
+ * sequential calls.
+ */
+export async function writeBindings(
+  conn: RpcConnection,
+  writes: BindingWrite[],
+  { keymap, window = DEFAULT_WINDOW, signal, pub }: BulkWriteOptions = {}
+): Promise<BulkWriteResult> {
+  const current = (write: BindingWrite) =>
+    keymap?.layers.find((l) => l.id === write.layerId)?.bindings[
+      write.keyPosition
+    ];
+
+  const skipped = writes.filter((w) => sameBinding(current(w), w.binding));
+  const pending = writes.filter((w) => !skipped.includes(w));
+
+  const progress: BulkWriteProgress = {
+    total: writes.length,
+    done: skipped.length,
+    skipped: skipped.length,
+    failed: 0,
+  };
+  pub?.(BULK_WRITE_PROGRESS, { ...progress });
+
+  const written: BindingWrite[] = [];
+  const failed: BindingWrite[] = [];
+
+  const responses = await pipeline_rpc(
+    conn,
+    pending.map(({ layerId, keyPosition, binding }) => ({
+      keymap: { setLayerBinding: { layerId, keyPosition, binding } },
+    })),
+    {
+      window,
+      signal,
+      onResponse: (index, resp) => {
+        if (
+          resp.keymap?.setLayerBinding ===
+          SetLayerBindingResponse.SET_LAYER_BINDING_RESP_OK
+        ) {
+          written.push(pending[index]);
+        } else {
+          failed.push(pending[index]);
+          progress.failed++;
+        }
+        progress.done++;
+        pub?.(BULK_WRITE_PROGRESS, { ...progress });
+      },
+    }
+  );
+
+  const unanswered = pending.slice(responses.length);
+  if (signal?.aborted) {
+    return { written, failed, skipped, cancelled: unanswered };
+  }
+
+  // The connection failed partway; what was not answered was not written
+  return { written, failed: [...failed, ...unanswered], skipped, cancelled: [] };
+}
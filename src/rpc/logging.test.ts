@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the pipelined RPC calls
+ *
+ * The keyboard is simulated behind a connection whose streams answer each
+ * request on a later tick, with a given response per request.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { RequestResponse, RpcConnection } from '@zmkfirmware/zmk-studio-ts-client';
+import { pipeline_rpc } from './logging';
+
+// The client's generated modules import 'protobufjs/minimal', which does not
+// resolve under vitest; only the error classes are needed here
+vi.mock('@zmkfirmware/zmk-studio-ts-client', () => ({
+  call_rpc: vi.fn(),
+  NoResponseError: class extends Error {},
+  MetaError: class extends Error {},
+}));
+
+type Answer = (requestId: number, index: number) => Partial<RequestResponse>;
+
+function fakeDevice(answer: Answer = (requestId) => ({ requestId })): RpcConnection {
+  let respond!: ReadableStreamDefaultController<RequestResponse>;
+  let index = 0;
+
+  const request_response_readable = new ReadableStream<RequestResponse>({
+    start: (controller) => {
+      respond = controller;
+    },
+  });
+  const request_writable = new WritableStream({
+    write: (request: { requestId: number }) => {
+      const response = answer(request.requestId, index++);
+      setTimeout(() => respond.enqueue(response as RequestResponse));
+    },
+  });
+
+  return {
+    label: 'fake',
+    request_writable,
+    request_response_readable,
+    notification_readable: new ReadableStream(),
+    current_request: 0,
+  } as unknown as RpcConnection;
+}
+
+const requests = (count: number) =>
+  Array.from({ length: count }, () => ({ core: { getLockState: true } }));
+
+describe('pipeline_rpc', () => {
+  it('should return the responses in request order', async () => {
+    const conn = fakeDevice();
+    const onResponse = vi.fn();
+
+    const responses = await pipeline_rpc(conn, requests(5), { window: 2, onResponse });
+
+    expect(responses.map((r) => r.requestId)).toEqual([0, 1, 2, 3, 4]);
+    expect(onResponse).toHaveBeenCalledTimes(5);
+  });
+
+  it('should read the responses still in flight when a request ID does not match', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const conn = fakeDevice((requestId, index) => ({
+      requestId: index === 1 ? 99 : requestId,
+    }));
+
+    const responses = await pipeline_rpc(conn, requests(6), { window: 3 });
+
+    expect(responses.map((r) => r.requestId)).toEqual([0]);
+
+    // The next call reads its own responses, not stale ones
+    const next = await pipeline_rpc(conn, requests(2), { window: 2 });
+    expect(next.map((r) => r.requestId)).toEqual([4, 5]);
+  });
+
+  it('should stop at a response the device could not give', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const conn = fakeDevice((requestId, index) =>
+      index === 2 ? { requestId, meta: { simpleError: 1 } } : { requestId }
+    );
+    const onResponse = vi.fn();
+
+    const responses = await pipeline_rpc(conn, requests(4), { window: 2, onResponse });
+
+    expect(responses.map((r) => r.requestId)).toEqual([0, 1]);
+    expect(onResponse).toHaveBeenCalledTimes(2);
+
+    const next = await pipeline_rpc(conn, requests(1), { window: 1 });
+    expect(next.map((r) => r.requestId)).toEqual([4]);
+  });
+});
@@ -1,16 +1,28 @@
 import {
   call_rpc as inner_call_rpc,
+  MetaError,
+  NoResponseError,
   Request,
   RequestResponse,
   RpcConnection,
 } from "@zmkfirmware/zmk-studio-ts-client";
 
+// Requests and responses share one stream, so a pipeline must not interleave
+// with single calls; both take turns through this queue.
+let rpcQueue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(run: () => Promise<T>): Promise<T> {
+  const result = rpcQueue.then(run, run);
+  rpcQueue = result.catch(() => undefined);
+  return result;
+}
+
 export async function call_rpc(
   conn: RpcConnection,
   req: Omit<Request, "requestId">
 ): Promise<RequestResponse> {
   // console.log("RPC Request", req);
-  return inner_call_rpc(conn, req)
+  return exclusive(() => inner_call_rpc(conn, req))
     .then((r) => {
       // console.log("RPC Response", r);
       return r;
@@ -20,3 +32,96 @@ export async function call_rpc(
       return e;
     });
 }
+
+export interface PipelineOptions {
+  /** Maximum number of requests sent ahead of their responses */
+  window: number;
+  /** Stops sending further requests; requests already sent are still answered */
+  signal?: AbortSignal;
+  /** Called with each response, in request order */
+  onResponse?: (index: number, resp: RequestResponse) => void;
+}
+
+/**
+ * Send several requests without waiting for each response before sending the
+ * next one, keeping at most `window` requests in flight.
+ *
+ * A response the device could not give (`meta.noResponse`,
+ * `meta.simpleError`) fails the pipeline like a broken connection. Responses
+ * to requests still in flight when it fails are read and dropped, so the next
+ * call does not read them as its own.
+ *
+ * @returns The responses, in request order; shorter than `reqs` if aborted
+ * or if the connection failed
+ */
+export async function pipeline_rpc(
+  conn: RpcConnection,
+  reqs: Omit<Request, "requestId">[],
+  { window, signal, onResponse }: PipelineOptions
+): Promise<RequestResponse[]> {
+  return exclusive(async () => {
+    const responses: RequestResponse[] = [];
+    const requestIds: number[] = [];
+    const writer = conn.request_writable.getWriter();
+    const reader = conn.request_response_readable.getReader();
+    // Responses read from the stream, including those that failed
+    let received = 0;
+    let closed = false;
+
+    const read = async () => {
+      const { done, value } = await reader.read();
+      if (done || !value) {
+        closed = true;
+        throw "No response";
+      }
+      received++;
+      return value;
+    };
+
+    try {
+      while (responses.length < reqs.length) {
+        while (
+          requestIds.length < reqs.length &&
+          requestIds.length - responses.length < Math.max(1, window) &&
+          !signal?.aborted
+        ) {
+          const requestId = conn.current_request++;
+          await writer.write({ ...reqs[requestIds.length], requestId });
+          requestIds.push(requestId);
+        }
+
+        if (requestIds.length === responses.length) {
+          break;
+        }
+
+        const value = await read();
+        if (value.requestId != requestIds[responses.length]) {
+          throw "Mismatch request IDs";
+        }
+        if (value.meta?.noResponse) {
+          throw new NoResponseError();
+        } else if (value.meta?.simpleError) {
+          throw new MetaError(value.meta.simpleError);
+        }
+
+        onResponse?.(responses.length, value);
+        responses.push(value);
+      }
+    } catch (e) {
+      console.error("RPC Error", e);
+
+      try {
+        while (!closed && received < requestIds.length) {
+          await read();
+        }
+      } catch (drainError) {
+        console.error("RPC Error", drainError);
+      }
+    } finally {
+      writer.releaseLock();
+      reader.releaseLock();
+    }
+
+    return responses;
+  });
+}
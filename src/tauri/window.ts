@@ -0,0 +1,14 @@
+import { getCurrentWindow } from "@tauri-apps/api/window";
+
+// Calls on_close instead of closing the window; returns the unlisten function
+export async function intercept_close(on_close: () => void): Promise<() => void> {
+  return await getCurrentWindow().onCloseRequested((event) => {
+    event.preventDefault();
+    on_close();
+  });
+}
+
+// Closes the window without asking again
+export async function close_window(): Promise<void> {
+  await getCurrentWindow().destroy();
+}
@@ -0,0 +1,34 @@
+import { invoke } from "@tauri-apps/api/core";
+
+// Keymap in a zmk-config checkout; content is null when the file does not exist yet
+export type KeymapFile = { path: string; content: string | null };
+
+// Asks for the zmk-config checkout; null when the user cancels
+export async function pick_folder(): Promise<string | null> {
+  return await invoke("zmk_config_pick_folder");
+}
+
+// Finds config/<board>.keymap, or the only keymap in config/
+export async function read_keymap(
+  folder: string,
+  board: string
+): Promise<KeymapFile> {
+  return await invoke("zmk_config_read_keymap", { folder, board });
+}
+
+// Writes the keymap and returns where the previous file was backed up to
+export async function write_keymap(
+  path: string,
+  content: string
+): Promise<string | null> {
+  return await invoke("zmk_config_write_keymap", { path, content });
+}
+
+// Keymap file name ZMK uses for a board or shield, e.g. "Corne" -> "corne"
+export function board_name(device_name: string): string {
+  return device_name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "");
+}